@@ -3,27 +3,86 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { trpc } from '@/utils/trpc';
-import type { User, DashboardSummary } from '../../server/src/schema';
+import { trpc, setAuthToken } from '@/utils/trpc';
+import type { PublicUser, DashboardSummary, SessionTokens, Capability } from '../../server/src/schema';
 
 // Import feature components
 import { LoginForm } from '@/components/LoginForm';
+import { ForgotPasswordForm } from '@/components/ForgotPasswordForm';
+import { ResetPasswordForm } from '@/components/ResetPasswordForm';
 import { Dashboard } from '@/components/Dashboard';
 import { AssetManagement } from '@/components/AssetManagement';
 import { CategoryManagement } from '@/components/CategoryManagement';
+import { LocationManagement } from '@/components/LocationManagement';
 import { LendingManagement } from '@/components/LendingManagement';
+import { TransferManagement } from '@/components/TransferManagement';
 import { ReportsSection } from '@/components/ReportsSection';
+import { UserManagement } from '@/components/UserManagement';
+import { ChangePasswordDialog } from '@/components/ChangePasswordDialog';
+import { TwoFactorDialog } from '@/components/TwoFactorDialog';
+import { TwoFactorSetup } from '@/components/TwoFactorSetup';
+import { ApiKeysDialog } from '@/components/ApiKeysDialog';
+import { AuditLog } from '@/components/AuditLog';
+import { JobScheduler } from '@/components/JobScheduler';
+import { EmailTemplateEditor } from '@/components/EmailTemplateEditor';
+import { NotificationBell } from '@/components/NotificationBell';
 
 function App() {
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentUser, setCurrentUser] = useState<PublicUser | null>(null);
+  const [session, setSession] = useState<SessionTokens | null>(null);
+  const [capabilities, setCapabilities] = useState<Capability[]>([]);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('dashboard');
+  // Password reset links point at "/?reset_token=..."
+  const [resetToken, setResetToken] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('reset_token')
+  );
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+
+  const clearSession = useCallback(() => {
+    setAuthToken(null);
+    setSession(null);
+    setCapabilities([]);
+    setTwoFactorSetupRequired(false);
+    setCurrentUser(null);
+    setActiveTab('dashboard');
+  }, []);
+
+  const can = (capability: Capability) => capabilities.includes(capability);
+
+  // Refresh the access token shortly before it expires
+  useEffect(() => {
+    if (!session) return;
 
-  const handleLogin = async (username: string, password: string) => {
+    const delay = Math.max(session.token_expires_at.getTime() - Date.now() - 60 * 1000, 0);
+    const timer = setTimeout(async () => {
+      try {
+        const tokens = await trpc.refreshSession.mutate({ refresh_token: session.refresh_token });
+        setAuthToken(tokens.token);
+        setSession(tokens);
+      } catch (error) {
+        console.error('Session refresh failed:', error);
+        clearSession();
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [session, clearSession]);
+
+  const handleLogin = async (username: string, password: string, totpCode?: string) => {
     setIsLoading(true);
     try {
-      const response = await trpc.login.mutate({ username, password });
-      setCurrentUser(response.user);
+      const { user, capabilities, two_factor_setup_required, ...tokens } = await trpc.login.mutate({
+        username,
+        password,
+        totp_code: totpCode
+      });
+      setAuthToken(tokens.token);
+      setSession(tokens);
+      setCapabilities(capabilities);
+      setTwoFactorSetupRequired(two_factor_setup_required);
+      setCurrentUser(user);
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
@@ -32,9 +91,26 @@ function App() {
     }
   };
 
-  const handleLogout = () => {
-    setCurrentUser(null);
-    setActiveTab('dashboard');
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    } finally {
+      clearSession();
+    }
+  };
+
+  const handleTwoFactorChange = (enabled: boolean) => {
+    setCurrentUser((prev: PublicUser | null) => prev && { ...prev, totp_enabled: enabled });
+    if (enabled) {
+      setTwoFactorSetupRequired(false);
+    }
+  };
+
+  const finishPasswordReset = () => {
+    window.history.replaceState(null, '', window.location.pathname);
+    setResetToken(null);
   };
 
   if (!currentUser) {
@@ -49,7 +125,41 @@ function App() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <LoginForm onLogin={handleLogin} isLoading={isLoading} />
+              {resetToken ? (
+                <ResetPasswordForm token={resetToken} onDone={finishPasswordReset} />
+              ) : showForgotPassword ? (
+                <ForgotPasswordForm onBack={() => setShowForgotPassword(false)} />
+              ) : (
+                <LoginForm
+                  onLogin={handleLogin}
+                  isLoading={isLoading}
+                  onForgotPassword={() => setShowForgotPassword(true)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  // The server refuses everything else until a mandatory second factor is set up
+  if (twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+        <div className="flex min-h-screen items-center justify-center p-4">
+          <Card className="w-full max-w-md">
+            <CardHeader className="space-y-1">
+              <CardTitle className="text-2xl font-bold">🛡️ Two-Factor Required</CardTitle>
+              <CardDescription>
+                Administrator accounts must use two-factor authentication. Set it up to continue.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <TwoFactorSetup onEnabled={() => handleTwoFactorChange(true)} />
+              <Button onClick={handleLogout} variant="outline" className="w-full">
+                Logout
+              </Button>
             </CardContent>
           </Card>
         </div>
@@ -74,6 +184,12 @@ function App() {
                 <p className="font-medium text-gray-900">{currentUser.username}</p>
                 <p className="text-sm text-gray-600 capitalize">{currentUser.role}</p>
               </div>
+              {currentUser.role !== 'staff' && (
+                <TwoFactorDialog enabled={currentUser.totp_enabled} onChange={handleTwoFactorChange} />
+              )}
+              <NotificationBell onNavigate={setActiveTab} />
+              <ApiKeysDialog capabilities={capabilities} />
+              <ChangePasswordDialog />
               <Button onClick={handleLogout} variant="outline" size="sm">
                 Logout
               </Button>
@@ -85,56 +201,158 @@ function App() {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 h-auto">
-            <TabsTrigger value="dashboard" className="flex flex-col gap-1 py-3">
-              <span>📊</span>
-              <span className="text-xs">Dashboard</span>
-            </TabsTrigger>
-            <TabsTrigger value="assets" className="flex flex-col gap-1 py-3">
-              <span>📦</span>
-              <span className="text-xs">Assets</span>
-            </TabsTrigger>
-            <TabsTrigger value="categories" className="flex flex-col gap-1 py-3">
-              <span>📂</span>
-              <span className="text-xs">Categories</span>
-            </TabsTrigger>
-            <TabsTrigger value="lending" className="flex flex-col gap-1 py-3">
-              <span>🤝</span>
-              <span className="text-xs">Lending</span>
-            </TabsTrigger>
-            <TabsTrigger value="returns" className="flex flex-col gap-1 py-3">
-              <span>📥</span>
-              <span className="text-xs">Returns</span>
-            </TabsTrigger>
-            <TabsTrigger value="reports" className="flex flex-col gap-1 py-3">
-              <span>📈</span>
-              <span className="text-xs">Reports</span>
-            </TabsTrigger>
+          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-12 h-auto">
+            {can('dashboard.read') && (
+              <TabsTrigger value="dashboard" className="flex flex-col gap-1 py-3">
+                <span>📊</span>
+                <span className="text-xs">Dashboard</span>
+              </TabsTrigger>
+            )}
+            {can('asset.read') && (
+              <TabsTrigger value="assets" className="flex flex-col gap-1 py-3">
+                <span>📦</span>
+                <span className="text-xs">Assets</span>
+              </TabsTrigger>
+            )}
+            {can('category.read') && (
+              <TabsTrigger value="categories" className="flex flex-col gap-1 py-3">
+                <span>📂</span>
+                <span className="text-xs">Categories</span>
+              </TabsTrigger>
+            )}
+            {can('location.read') && (
+              <TabsTrigger value="locations" className="flex flex-col gap-1 py-3">
+                <span>📍</span>
+                <span className="text-xs">Locations</span>
+              </TabsTrigger>
+            )}
+            {can('lending.read') && (
+              <TabsTrigger value="lending" className="flex flex-col gap-1 py-3">
+                <span>🤝</span>
+                <span className="text-xs">Lending</span>
+              </TabsTrigger>
+            )}
+            {can('lending.return') && (
+              <TabsTrigger value="returns" className="flex flex-col gap-1 py-3">
+                <span>📥</span>
+                <span className="text-xs">Returns</span>
+              </TabsTrigger>
+            )}
+            {can('transfer.read') && (
+              <TabsTrigger value="transfers" className="flex flex-col gap-1 py-3">
+                <span>🚚</span>
+                <span className="text-xs">Transfers</span>
+              </TabsTrigger>
+            )}
+            {can('report.read') && (
+              <TabsTrigger value="reports" className="flex flex-col gap-1 py-3">
+                <span>📈</span>
+                <span className="text-xs">Reports</span>
+              </TabsTrigger>
+            )}
+            {can('user.read') && (
+              <TabsTrigger value="users" className="flex flex-col gap-1 py-3">
+                <span>👥</span>
+                <span className="text-xs">Users</span>
+              </TabsTrigger>
+            )}
+            {can('audit.read') && (
+              <TabsTrigger value="audit" className="flex flex-col gap-1 py-3">
+                <span>🧾</span>
+                <span className="text-xs">Audit</span>
+              </TabsTrigger>
+            )}
+            {can('job.manage') && (
+              <TabsTrigger value="jobs" className="flex flex-col gap-1 py-3">
+                <span>⏱️</span>
+                <span className="text-xs">Jobs</span>
+              </TabsTrigger>
+            )}
+            {can('template.manage') && (
+              <TabsTrigger value="templates" className="flex flex-col gap-1 py-3">
+                <span>✉️</span>
+                <span className="text-xs">Templates</span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
-          <TabsContent value="dashboard">
-            <Dashboard />
-          </TabsContent>
+          {can('dashboard.read') && (
+            <TabsContent value="dashboard">
+              <Dashboard />
+            </TabsContent>
+          )}
+
+          {can('asset.read') && (
+            <TabsContent value="assets">
+              <AssetManagement canWrite={can('asset.write')} canDelete={can('asset.delete')} canReinstate={can('asset.reinstate')} />
+            </TabsContent>
+          )}
+
+          {can('category.read') && (
+            <TabsContent value="categories">
+              <CategoryManagement canWrite={can('category.write')} canDelete={can('category.delete')} />
+            </TabsContent>
+          )}
+
+          {can('location.read') && (
+            <TabsContent value="locations">
+              <LocationManagement canWrite={can('location.write')} canDelete={can('location.delete')} />
+            </TabsContent>
+          )}
+
+          {can('lending.read') && (
+            <TabsContent value="lending">
+              <LendingManagement mode="lending" canLend={can('lending.write')} canViewTransfers={can('transfer.read')} />
+            </TabsContent>
+          )}
+
+          {can('lending.return') && (
+            <TabsContent value="returns">
+              <LendingManagement mode="returns" />
+            </TabsContent>
+          )}
+
+          {can('transfer.read') && (
+            <TabsContent value="transfers">
+              <TransferManagement canRequest={can('transfer.request')} canApprove={can('transfer.approve')} />
+            </TabsContent>
+          )}
 
-          <TabsContent value="assets">
-            <AssetManagement />
-          </TabsContent>
+          {can('report.read') && (
+            <TabsContent value="reports">
+              <ReportsSection canViewFinancial={can('report.financial')} />
+            </TabsContent>
+          )}
 
-          <TabsContent value="categories">
-            <CategoryManagement />
-          </TabsContent>
+          {can('user.read') && (
+            <TabsContent value="users">
+              <UserManagement
+                currentUserId={currentUser.id}
+                canCreate={can('user.create')}
+                canManage={can('user.manage')}
+                canManageSessions={can('session.manage')}
+                canViewLoginHistory={can('login_history.read')}
+              />
+            </TabsContent>
+          )}
 
-          <TabsContent value="lending">
-            <LendingManagement mode="lending" />
-          </TabsContent>
+          {can('audit.read') && (
+            <TabsContent value="audit">
+              <AuditLog canListUsers={can('user.read')} />
+            </TabsContent>
+          )}
 
-          <TabsContent value="returns">
-            <LendingManagement mode="returns" />
-          </TabsContent>
+          {can('job.manage') && (
+            <TabsContent value="jobs">
+              <JobScheduler />
+            </TabsContent>
+          )}
 
-          <TabsContent value="reports">
-            <ReportsSection />
-          </TabsContent>
+          {can('template.manage') && (
+            <TabsContent value="templates">
+              <EmailTemplateEditor canListLendings={can('lending.read')} />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
     </div>
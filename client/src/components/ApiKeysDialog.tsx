@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { trpc } from '@/utils/trpc';
+import type { ApiKey, Capability, CreateApiKeyInput } from '../../../server/src/schema';
+
+interface ApiKeysDialogProps {
+  capabilities: Capability[];
+}
+
+export function ApiKeysDialog({ capabilities }: ApiKeysDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState<CreateApiKeyInput>({
+    name: '',
+    capabilities: [],
+    expires_at: null
+  });
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      const data = await trpc.getApiKeys.query();
+      setApiKeys(data);
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadApiKeys();
+    }
+  }, [isOpen, loadApiKeys]);
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      capabilities: [],
+      expires_at: null
+    });
+    setError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    setCreatedKey(null);
+    resetForm();
+  };
+
+  const toggleCapability = (capability: Capability, checked: boolean) => {
+    setFormData((prev: CreateApiKeyInput) => ({
+      ...prev,
+      capabilities: checked
+        ? [...prev.capabilities, capability]
+        : prev.capabilities.filter((existing: Capability) => existing !== capability)
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (formData.capabilities.length === 0) {
+      setError('Select at least one permission');
+      return;
+    }
+
+    try {
+      const result = await trpc.createApiKey.mutate(formData);
+      setCreatedKey(result.key);
+      resetForm();
+      await loadApiKeys();
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create API key');
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    try {
+      await trpc.revokeApiKey.mutate({ id });
+      await loadApiKeys();
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+    }
+  };
+
+  const getKeyStatus = (apiKey: ApiKey) => {
+    if (apiKey.revoked_at) return { label: 'revoked', color: 'bg-red-100 text-red-800' };
+    if (apiKey.expires_at && apiKey.expires_at <= new Date()) return { label: 'expired', color: 'bg-gray-100 text-gray-800' };
+    return { label: 'active', color: 'bg-green-100 text-green-800' };
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          🧩 API Keys
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Personal API Keys</DialogTitle>
+          <DialogDescription>
+            Keys let scripts call the API as you, limited to the permissions you select.
+            Send them as "Authorization: Bearer &lt;key&gt;".
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdKey && (
+          <Alert>
+            <AlertDescription className="space-y-2">
+              <p>Copy this key now. It will not be shown again.</p>
+              <p className="font-mono text-xs break-all rounded-md bg-gray-50 p-2">{createdKey}</p>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4 rounded-md border p-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="api_key_name">Name *</Label>
+              <Input
+                id="api_key_name"
+                value={formData.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateApiKeyInput) => ({ ...prev, name: e.target.value }))
+                }
+                placeholder="e.g. Nightly inventory sync"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="api_key_expires">Expires</Label>
+              <Input
+                id="api_key_expires"
+                type="date"
+                value={formData.expires_at ? new Date(formData.expires_at).toISOString().split('T')[0] : ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateApiKeyInput) => ({ ...prev, expires_at: e.target.value ? new Date(e.target.value) : null }))
+                }
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Permissions *</Label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+              {capabilities.map((capability: Capability) => (
+                <label key={capability} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={formData.capabilities.includes(capability)}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => toggleCapability(capability, checked === true)}
+                  />
+                  <span className="font-mono text-xs">{capability}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit">Create Key</Button>
+          </div>
+        </form>
+
+        {apiKeys.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No API keys yet</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiKeys.map((apiKey: ApiKey) => {
+                const status = getKeyStatus(apiKey);
+                return (
+                  <TableRow key={apiKey.id}>
+                    <TableCell>
+                      <div className="font-medium">{apiKey.name}</div>
+                      <div className="font-mono text-xs text-gray-600">fm_{apiKey.prefix}_…</div>
+                    </TableCell>
+                    <TableCell className="text-xs">{apiKey.capabilities.join(', ')}</TableCell>
+                    <TableCell>{apiKey.expires_at ? apiKey.expires_at.toLocaleDateString() : 'Never'}</TableCell>
+                    <TableCell>{apiKey.last_used_at ? apiKey.last_used_at.toLocaleString() : 'Never'}</TableCell>
+                    <TableCell>
+                      <Badge className={status.color}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {status.label === 'active' && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
+                              Revoke
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Scripts using "{apiKey.name}" will stop working immediately.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleRevoke(apiKey.id)}
+                                className="bg-red-600 hover:bg-red-700"
+                              >
+                                Revoke
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
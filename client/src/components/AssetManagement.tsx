@@ -9,40 +9,67 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AssetTimelineDrawer } from '@/components/AssetTimelineDrawer';
+import { AssetTagScanBox } from '@/components/AssetTagScanBox';
 import { trpc } from '@/utils/trpc';
-import type { AssetWithCategory, Category, CreateAssetInput, UpdateAssetInput } from '../../../server/src/schema';
+import type { AssetChangeEvent, AssetTagImageFormat, AssetWithCategory, Category, CreateAssetInput, LabelLayout, LocationWithDetails, UpdateAssetInput } from '../../../server/src/schema';
 
-export function AssetManagement() {
+interface AssetManagementProps {
+  canWrite: boolean;
+  canDelete: boolean;
+  canReinstate: boolean;
+}
+
+export function AssetManagement({ canWrite, canDelete, canReinstate }: AssetManagementProps) {
   const [assets, setAssets] = useState<AssetWithCategory[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [locations, setLocations] = useState<LocationWithDetails[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAsset, setEditingAsset] = useState<AssetWithCategory | null>(null);
+  const [viewingAsset, setViewingAsset] = useState<AssetWithCategory | null>(null);
+  const [reinstatingAsset, setReinstatingAsset] = useState<AssetWithCategory | null>(null);
+  const [reinstateReason, setReinstateReason] = useState('');
+  const [statusReason, setStatusReason] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterLocation, setFilterLocation] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isLabelDialogOpen, setIsLabelDialogOpen] = useState(false);
+  const [labelLayout, setLabelLayout] = useState<LabelLayout>('avery_5160');
+  const [labelFormat, setLabelFormat] = useState<AssetTagImageFormat>('qr');
+  const [labelSkip, setLabelSkip] = useState(0);
+  const [labelError, setLabelError] = useState<string | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
 
   const [formData, setFormData] = useState<CreateAssetInput>({
     name: '',
     description: null,
+    asset_tag: null,
     category_id: 0,
     serial_number: null,
     purchase_date: null,
     purchase_price: null,
     current_value: null,
     status: 'available',
-    location: null
+    location_id: null
   });
 
   const loadData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const [assetsData, categoriesData] = await Promise.all([
+      const [assetsData, categoriesData, locationsData] = await Promise.all([
         trpc.getAssets.query(),
-        trpc.getCategories.query()
+        trpc.getCategories.query(),
+        trpc.getLocations.query()
       ]);
       setAssets(assetsData);
       setCategories(categoriesData);
+      setLocations(locationsData);
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -54,8 +81,34 @@ export function AssetManagement() {
     loadData();
   }, [loadData]);
 
+  // Patch in assets changed elsewhere (another clerk, a lending or a return) as it happens
+  useEffect(() => {
+    const subscription = trpc.onAssetChange.subscribe(undefined, {
+      onData: async (event: AssetChangeEvent) => {
+        if (event.action === 'deleted') {
+          setAssets((prev: AssetWithCategory[]) => prev.filter((asset: AssetWithCategory) => asset.id !== event.asset_id));
+          return;
+        }
+        try {
+          const changed = await trpc.getAssetById.query({ id: event.asset_id });
+          if (!changed) return;
+          setAssets((prev: AssetWithCategory[]) =>
+            prev.some((asset: AssetWithCategory) => asset.id === changed.id)
+              ? prev.map((asset: AssetWithCategory) => (asset.id === changed.id ? changed : asset))
+              : [...prev, changed]
+          );
+        } catch (error) {
+          console.error('Failed to load changed asset:', error);
+        }
+      },
+      onError: (error: unknown) => console.error('Asset live updates failed:', error)
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setFormError(null);
     try {
       if (editingAsset) {
         const updateData: UpdateAssetInput = {
@@ -68,7 +121,8 @@ export function AssetManagement() {
           purchase_price: formData.purchase_price,
           current_value: formData.current_value,
           status: formData.status,
-          location: formData.location
+          status_reason: formData.status !== editingAsset.status ? statusReason || null : undefined,
+          location_id: formData.location_id
         };
         await trpc.updateAsset.mutate(updateData);
       } else {
@@ -79,6 +133,20 @@ export function AssetManagement() {
       setIsDialogOpen(false);
     } catch (error) {
       console.error('Failed to save asset:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save asset');
+    }
+  };
+
+  const handleReinstate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reinstatingAsset) return;
+    try {
+      await trpc.reinstateAsset.mutate({ id: reinstatingAsset.id, reason: reinstateReason });
+      await loadData();
+      setReinstatingAsset(null);
+      setReinstateReason('');
+    } catch (error) {
+      console.error('Failed to reinstate asset:', error);
     }
   };
 
@@ -95,19 +163,24 @@ export function AssetManagement() {
     setFormData({
       name: '',
       description: null,
+      asset_tag: null,
       category_id: 0,
       serial_number: null,
       purchase_date: null,
       purchase_price: null,
       current_value: null,
       status: 'available',
-      location: null
+      location_id: null
     });
     setEditingAsset(null);
+    setStatusReason('');
+    setFormError(null);
   };
 
   const openEditDialog = (asset: AssetWithCategory) => {
     setEditingAsset(asset);
+    setStatusReason('');
+    setFormError(null);
     setFormData({
       name: asset.name,
       description: asset.description,
@@ -117,7 +190,7 @@ export function AssetManagement() {
       purchase_price: asset.purchase_price,
       current_value: asset.current_value,
       status: asset.status,
-      location: asset.location
+      location_id: asset.location_id
     });
     setIsDialogOpen(true);
   };
@@ -127,18 +200,68 @@ export function AssetManagement() {
     setIsDialogOpen(true);
   };
 
-  // Filter assets
+  const locationsById = new Map(locations.map((location: LocationWithDetails) => [location.id, location]));
+  const locationPathOf = (asset: AssetWithCategory | null): string | null =>
+    asset?.location_id ? locationsById.get(asset.location_id)?.path ?? null : null;
+
+  // Filter assets; a location filter also matches everything inside that location
   const filteredAssets = assets.filter((asset: AssetWithCategory) => {
+    const location = asset.location_id ? locationsById.get(asset.location_id) : undefined;
     const matchesStatus = filterStatus === 'all' || asset.status === filterStatus;
     const matchesCategory = filterCategory === 'all' || asset.category_id.toString() === filterCategory;
+    const matchesLocation = filterLocation === 'all' ||
+      (location !== undefined && [...location.ancestor_ids, location.id].some((id: number) => id.toString() === filterLocation));
     const matchesSearch = !searchTerm || 
       asset.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (asset.asset_tag && asset.asset_tag.toLowerCase().includes(searchTerm.toLowerCase())) ||
       (asset.serial_number && asset.serial_number.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (asset.location && asset.location.toLowerCase().includes(searchTerm.toLowerCase()));
+      (location && location.path.toLowerCase().includes(searchTerm.toLowerCase()));
     
-    return matchesStatus && matchesCategory && matchesSearch;
+    return matchesStatus && matchesCategory && matchesLocation && matchesSearch;
   });
 
+  // Labels go to the ticked assets, or to everything the filters show when none are ticked.
+  // Assets without a tag have nothing to print.
+  const selectedAssets = filteredAssets.filter((asset: AssetWithCategory) => selectedIds.includes(asset.id));
+  const labelAssets = (selectedAssets.length > 0 ? selectedAssets : filteredAssets)
+    .filter((asset: AssetWithCategory) => asset.asset_tag !== null);
+  const allSelected = filteredAssets.length > 0 && selectedAssets.length === filteredAssets.length;
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((prev: number[]) => (checked ? [...prev, id] : prev.filter((selectedId: number) => selectedId !== id)));
+  };
+
+  const handlePrintLabels = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLabelError(null);
+    try {
+      setIsPrinting(true);
+      const sheet = await trpc.generateAssetLabels.mutate({
+        asset_ids: labelAssets.map((asset: AssetWithCategory) => asset.id),
+        layout: labelLayout,
+        format: labelFormat,
+        skip: labelSkip
+      });
+
+      const bytes = Uint8Array.from(atob(sheet.pdf_base64), (char: string) => char.charCodeAt(0));
+      const blob = new Blob([bytes], { type: 'application/pdf' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = sheet.filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+      setIsLabelDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to print labels:', error);
+      setLabelError(error instanceof Error ? error.message : 'Failed to print labels');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available': return 'bg-green-100 text-green-800';
@@ -158,21 +281,31 @@ export function AssetManagement() {
           <p className="text-gray-600 mt-1">Manage your facility assets and inventory</p>
         </div>
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openCreateDialog} className="bg-blue-600 hover:bg-blue-700">
-              ➕ Add Asset
-            </Button>
-          </DialogTrigger>
+          {canWrite && (
+            <DialogTrigger asChild>
+              <Button onClick={openCreateDialog} className="bg-blue-600 hover:bg-blue-700">
+                ➕ Add Asset
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingAsset ? 'Edit Asset' : 'Create New Asset'}
               </DialogTitle>
               <DialogDescription>
-                {editingAsset ? 'Update the asset information.' : 'Fill in the details for the new asset.'}
+                {editingAsset
+                  ? `Update the asset information.${editingAsset.asset_tag ? ` Tag ${editingAsset.asset_tag}.` : ''}`
+                  : 'Fill in the details for the new asset.'}
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="col-span-2">
                   <Label htmlFor="name">Asset Name *</Label>
@@ -207,22 +340,61 @@ export function AssetManagement() {
 
                 <div>
                   <Label htmlFor="status">Status</Label>
-                  <Select value={formData.status} onValueChange={(value: any) =>
-                    setFormData((prev: CreateAssetInput) => ({ ...prev, status: value }))
-                  }>
+                  <Select
+                    value={formData.status}
+                    onValueChange={(value: any) =>
+                      setFormData((prev: CreateAssetInput) => ({ ...prev, status: value }))
+                    }
+                    disabled={editingAsset?.status === 'lent' || editingAsset?.status === 'retired'}
+                  >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="available">Available</SelectItem>
-                      <SelectItem value="lent">Lent</SelectItem>
+                      <SelectItem value="lent" disabled>Lent</SelectItem>
                       <SelectItem value="maintenance">Maintenance</SelectItem>
                       <SelectItem value="damaged">Damaged</SelectItem>
                       <SelectItem value="retired">Retired</SelectItem>
                     </SelectContent>
                   </Select>
+                  {editingAsset?.status === 'lent' && (
+                    <p className="text-xs text-gray-500 mt-1">Changes when the asset is returned</p>
+                  )}
+                  {editingAsset?.status === 'retired' && (
+                    <p className="text-xs text-gray-500 mt-1">Retired assets can only be reinstated by an administrator</p>
+                  )}
                 </div>
 
+                {editingAsset && formData.status !== editingAsset.status && (
+                  <div className="col-span-2">
+                    <Label htmlFor="status_reason">Reason for status change</Label>
+                    <Input
+                      id="status_reason"
+                      value={statusReason}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStatusReason(e.target.value)}
+                      placeholder={`Why is this asset now ${formData.status}?`}
+                      maxLength={500}
+                    />
+                  </div>
+                )}
+
+                {!editingAsset && (
+                  <div>
+                    <Label htmlFor="asset_tag">Asset Tag</Label>
+                    <Input
+                      id="asset_tag"
+                      value={formData.asset_tag || ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateAssetInput) => ({ ...prev, asset_tag: e.target.value || null }))
+                      }
+                      placeholder="Leave blank to generate"
+                      className="font-mono"
+                      maxLength={40}
+                    />
+                  </div>
+                )}
+
                 <div>
                   <Label htmlFor="serial_number">Serial Number</Label>
                   <Input
@@ -237,14 +409,24 @@ export function AssetManagement() {
 
                 <div>
                   <Label htmlFor="location">Location</Label>
-                  <Input
-                    id="location"
-                    value={formData.location || ''}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                      setFormData((prev: CreateAssetInput) => ({ ...prev, location: e.target.value || null }))
+                  <Select
+                    value={formData.location_id?.toString() || 'none'}
+                    onValueChange={(value: string) =>
+                      setFormData((prev: CreateAssetInput) => ({ ...prev, location_id: value === 'none' ? null : parseInt(value) }))
                     }
-                    placeholder="Enter location"
-                  />
+                  >
+                    <SelectTrigger id="location">
+                      <SelectValue placeholder="Select location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No location</SelectItem>
+                      {locations.map((location: LocationWithDetails) => (
+                        <SelectItem key={location.id} value={location.id.toString()}>
+                          {location.path}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
                 <div>
@@ -322,11 +504,15 @@ export function AssetManagement() {
           <CardTitle className="text-lg">Filters</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="max-w-md">
+            <Label>Scan</Label>
+            <AssetTagScanBox onAsset={(asset: AssetWithCategory) => setViewingAsset(asset)} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <Label>Search</Label>
               <Input
-                placeholder="Search by name, serial, location..."
+                placeholder="Search by name, tag, serial, location..."
                 value={searchTerm}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
               />
@@ -363,6 +549,22 @@ export function AssetManagement() {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label>Location</Label>
+              <Select value={filterLocation} onValueChange={setFilterLocation}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Locations</SelectItem>
+                  {locations.map((location: LocationWithDetails) => (
+                    <SelectItem key={location.id} value={location.id.toString()}>
+                      {location.path}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex items-end">
               <Button 
                 variant="outline" 
@@ -370,6 +572,7 @@ export function AssetManagement() {
                   setSearchTerm('');
                   setFilterStatus('all');
                   setFilterCategory('all');
+                  setFilterLocation('all');
                 }}
                 className="w-full"
               >
@@ -383,7 +586,24 @@ export function AssetManagement() {
       {/* Assets Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Assets ({filteredAssets.length})</CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>
+              Assets ({filteredAssets.length})
+              {selectedAssets.length > 0 && (
+                <span className="ml-2 text-sm font-normal text-gray-600">{selectedAssets.length} selected</span>
+              )}
+            </CardTitle>
+            <Button
+              variant="outline"
+              disabled={labelAssets.length === 0}
+              onClick={() => {
+                setLabelError(null);
+                setIsLabelDialogOpen(true);
+              }}
+            >
+              🏷️ Print labels
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -397,21 +617,45 @@ export function AssetManagement() {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked: boolean | 'indeterminate') =>
+                          setSelectedIds(checked === true ? filteredAssets.map((asset: AssetWithCategory) => asset.id) : [])
+                        }
+                        aria-label="Select all assets"
+                      />
+                    </TableHead>
+                    <TableHead>Tag</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Category</TableHead>
                     <TableHead>Serial Number</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Location</TableHead>
                     <TableHead>Value</TableHead>
-                    <TableHead>Actions</TableHead>
+                    {(canWrite || canDelete || canReinstate) && <TableHead>Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {filteredAssets.map((asset: AssetWithCategory) => (
                     <TableRow key={asset.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(asset.id)}
+                          onCheckedChange={(checked: boolean | 'indeterminate') => toggleSelected(asset.id, checked === true)}
+                          aria-label={`Select ${asset.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-sm whitespace-nowrap">{asset.asset_tag || '-'}</TableCell>
                       <TableCell>
                         <div>
-                          <div className="font-medium">{asset.name}</div>
+                          <button
+                            type="button"
+                            className="font-medium text-left hover:underline"
+                            onClick={() => setViewingAsset(asset)}
+                          >
+                            {asset.name}
+                          </button>
                           {asset.description && (
                             <div className="text-sm text-gray-600 truncate max-w-xs">
                               {asset.description}
@@ -432,46 +676,61 @@ export function AssetManagement() {
                           {asset.status}
                         </Badge>
                       </TableCell>
-                      <TableCell>{asset.location || '-'}</TableCell>
+                      <TableCell>{locationPathOf(asset) || '-'}</TableCell>
                       <TableCell>
                         {asset.current_value ? `$${asset.current_value.toFixed(2)}` : 
                          asset.purchase_price ? `$${asset.purchase_price.toFixed(2)}` : '-'}
                       </TableCell>
-                      <TableCell>
-                        <div className="flex gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => openEditDialog(asset)}
-                          >
-                            Edit
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
-                                Delete
+                      {(canWrite || canDelete || canReinstate) && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {canReinstate && asset.status === 'retired' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setReinstatingAsset(asset)}
+                              >
+                                Reinstate
                               </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Delete Asset</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete "{asset.name}"? This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleDelete(asset.id)}
-                                  className="bg-red-600 hover:bg-red-700"
-                                >
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </TableCell>
+                            )}
+                            {canWrite && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => openEditDialog(asset)}
+                              >
+                                Edit
+                              </Button>
+                            )}
+                            {canDelete && (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
+                                    Delete
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete Asset</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Are you sure you want to delete "{asset.name}"? This action cannot be undone.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => handleDelete(asset.id)}
+                                      className="bg-red-600 hover:bg-red-700"
+                                    >
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
                     </TableRow>
                   ))}
                 </TableBody>
@@ -480,6 +739,113 @@ export function AssetManagement() {
           )}
         </CardContent>
       </Card>
+
+      <AssetTimelineDrawer asset={viewingAsset} locationPath={locationPathOf(viewingAsset)} onClose={() => setViewingAsset(null)} />
+
+      {/* Print Labels Dialog */}
+      <Dialog open={isLabelDialogOpen} onOpenChange={setIsLabelDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Print Labels</DialogTitle>
+            <DialogDescription>
+              {labelAssets.length} {labelAssets.length === 1 ? 'label' : 'labels'} for the
+              {selectedAssets.length > 0 ? ' selected' : ' listed'} assets. Untagged assets are left out.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handlePrintLabels} className="space-y-4">
+            {labelError && (
+              <Alert variant="destructive">
+                <AlertDescription>{labelError}</AlertDescription>
+              </Alert>
+            )}
+            <div>
+              <Label>Label stock</Label>
+              <Select value={labelLayout} onValueChange={(value: string) => setLabelLayout(value as LabelLayout)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="avery_5160">Avery 5160 (US Letter, 30 per sheet)</SelectItem>
+                  <SelectItem value="avery_l7163">Avery L7163 (A4, 14 per sheet)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Code</Label>
+              <Select value={labelFormat} onValueChange={(value: string) => setLabelFormat(value as AssetTagImageFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="qr">QR code</SelectItem>
+                  <SelectItem value="code128">Barcode (Code 128)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="label_skip">Skip labels</Label>
+              <Input
+                id="label_skip"
+                type="number"
+                min="0"
+                value={labelSkip}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLabelSkip(parseInt(e.target.value) || 0)}
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave this many positions blank to reuse a partly used sheet</p>
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setIsLabelDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={isPrinting}>
+                {isPrinting ? 'Preparing...' : 'Download PDF'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reinstate Dialog */}
+      <Dialog
+        open={reinstatingAsset !== null}
+        onOpenChange={(open: boolean) => {
+          if (!open) {
+            setReinstatingAsset(null);
+            setReinstateReason('');
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reinstate Asset</DialogTitle>
+            <DialogDescription>
+              "{reinstatingAsset?.name}" will become available again. The reason is kept in the asset's history.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReinstate} className="space-y-4">
+            <div>
+              <Label htmlFor="reinstate_reason">Reason *</Label>
+              <Textarea
+                id="reinstate_reason"
+                value={reinstateReason}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReinstateReason(e.target.value)}
+                placeholder="Why is this asset coming back into service?"
+                maxLength={500}
+                rows={3}
+                required
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setReinstatingAsset(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700">
+                Reinstate
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CameraScanner } from '@/components/CameraScanner';
+import { trpc } from '@/utils/trpc';
+import type { AssetWithCategory } from '../../../server/src/schema';
+
+interface AssetTagScanBoxProps {
+  onAsset: (asset: AssetWithCategory) => void;
+  placeholder?: string;
+  // Offers the device camera for reading labels as well
+  camera?: boolean;
+}
+
+// Handheld scanners type the tag and press Enter, so a scan is just a submitted form
+export function AssetTagScanBox({ onAsset, placeholder = 'Scan or type an asset tag', camera = false }: AssetTagScanBoxProps) {
+  const [tag, setTag] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLooking, setIsLooking] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tag.trim()) return;
+    try {
+      setIsLooking(true);
+      setMessage(null);
+      const asset = await trpc.getAssetByTag.query({ tag });
+      if (asset) {
+        onAsset(asset);
+        setTag('');
+      } else {
+        setMessage(`No asset has the tag ${tag.trim().toUpperCase()}`);
+      }
+    } catch (error) {
+      console.error('Failed to look up asset tag:', error);
+      setMessage('Could not look up that tag');
+    } finally {
+      setIsLooking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          value={tag}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTag(e.target.value)}
+          placeholder={placeholder}
+          className="font-mono"
+          aria-label="Asset tag"
+        />
+        <Button type="submit" variant="outline" disabled={isLooking || !tag.trim()}>
+          🔍 Find
+        </Button>
+        {camera && (
+          <Button type="button" variant="outline" onClick={() => setIsCameraOpen((open: boolean) => !open)}>
+            📷 Camera
+          </Button>
+        )}
+      </div>
+      {message && <p className="text-sm text-red-600">{message}</p>}
+      {isCameraOpen && (
+        <CameraScanner
+          onAsset={(asset: AssetWithCategory) => {
+            setIsCameraOpen(false);
+            setMessage(null);
+            onAsset(asset);
+          }}
+          onClose={() => setIsCameraOpen(false)}
+        />
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { trpc } from '@/utils/trpc';
+import type { AssetTagImage, AssetTimelineEntry, AssetTimelineEntryType, AssetWithCategory } from '../../../server/src/schema';
+
+interface AssetTimelineDrawerProps {
+  asset: AssetWithCategory | null;
+  locationPath: string | null;
+  onClose: () => void;
+}
+
+const entryStyles: Record<AssetTimelineEntryType, { icon: string; label: string }> = {
+  created: { icon: '✨', label: 'Created' },
+  edited: { icon: '✏️', label: 'Edited' },
+  status_changed: { icon: '🔄', label: 'Status' },
+  maintenance: { icon: '🔧', label: 'Maintenance' },
+  moved: { icon: '📍', label: 'Moved' },
+  lent: { icon: '🤝', label: 'Lent' },
+  returned: { icon: '📥', label: 'Returned' }
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+};
+
+const svgDataUrl = (svg: string): string => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+export function AssetTimelineDrawer({ asset, locationPath, onClose }: AssetTimelineDrawerProps) {
+  const [entries, setEntries] = useState<AssetTimelineEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [tagImages, setTagImages] = useState<AssetTagImage[]>([]);
+
+  const loadTimeline = useCallback(async (assetId: number) => {
+    try {
+      setIsLoading(true);
+      const data = await trpc.getAssetTimeline.query({ assetId });
+      setEntries(data);
+    } catch (error) {
+      console.error('Failed to load asset timeline:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadTagImages = useCallback(async (assetId: number) => {
+    try {
+      const images = await Promise.all([
+        trpc.getAssetTagImage.query({ id: assetId, format: 'code128' }),
+        trpc.getAssetTagImage.query({ id: assetId, format: 'qr' })
+      ]);
+      setTagImages(images);
+    } catch (error) {
+      console.error('Failed to load asset tag images:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setTagImages([]);
+    if (asset) {
+      loadTimeline(asset.id);
+      if (asset.asset_tag) loadTagImages(asset.id);
+    } else {
+      setEntries([]);
+    }
+  }, [asset, loadTimeline, loadTagImages]);
+
+  return (
+    <Sheet open={asset !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>📦 {asset?.name}</SheetTitle>
+          <SheetDescription>
+            {asset?.category.name}
+            {asset?.serial_number && ` · ${asset.serial_number}`}
+            {locationPath && ` · ${locationPath}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {tagImages.length > 0 && (
+          <div className="px-4">
+            <h3 className="font-semibold text-gray-900 mb-3">Asset Tag <span className="font-mono font-normal">{asset?.asset_tag}</span></h3>
+            <div className="flex items-end gap-4">
+              {tagImages.map((image: AssetTagImage) => (
+                <a
+                  key={image.format}
+                  href={svgDataUrl(image.svg)}
+                  download={`${image.asset_tag}-${image.format}.svg`}
+                  title="Download"
+                  className="block"
+                >
+                  <img
+                    src={svgDataUrl(image.svg)}
+                    alt={`${image.format === 'qr' ? 'QR code' : 'Barcode'} for ${image.asset_tag}`}
+                    className={image.format === 'qr' ? 'h-24 w-24' : 'h-20'}
+                  />
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="px-4 pb-6">
+          <h3 className="font-semibold text-gray-900 mb-4">History</h3>
+          {isLoading ? (
+            <div className="text-center py-6 text-gray-500">Loading history...</div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">No history recorded</div>
+          ) : (
+            <ol className="relative border-l border-gray-200 space-y-6 ml-3">
+              {entries.map((entry: AssetTimelineEntry, index: number) => (
+                <li key={index} className="ml-6">
+                  <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white text-sm">
+                    {entryStyles[entry.type].icon}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{entryStyles[entry.type].label}</Badge>
+                    <span className="text-xs text-gray-500">{entry.occurred_at.toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm text-gray-900 mt-1">{entry.summary}</p>
+                  {entry.changes && entry.type === 'edited' && (
+                    <div className="mt-1 space-y-0.5 text-xs">
+                      {Object.entries(entry.changes).map(([field, change]) => (
+                        <div key={field}>
+                          <span className="font-medium">{field.replace(/_/g, ' ')}</span>:{' '}
+                          <span className="text-red-700 line-through">{formatValue(change.before)}</span>{' '}
+                          → <span className="text-green-700">{formatValue(change.after)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {entry.actor_username && (
+                    <p className="text-xs text-gray-500 mt-1">by {entry.actor_username}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
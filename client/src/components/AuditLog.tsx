@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import type { AuditEntityType, AuditEventWithActor, GetAuditLogInput, PublicUser } from '../../../server/src/schema';
+
+interface AuditLogProps {
+  canListUsers: boolean;
+}
+
+const entityTypes: AuditEntityType[] = ['asset', 'category', 'location', 'lending', 'transfer', 'user', 'session', 'api_key', 'email_template', 'job'];
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export function AuditLog({ canListUsers }: AuditLogProps) {
+  const [events, setEvents] = useState<AuditEventWithActor[]>([]);
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState<GetAuditLogInput>({});
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      // The end date picks a whole day, so include everything up to its midnight
+      const data = await trpc.getAuditLog.query({
+        ...filters,
+        end_date: filters.end_date ? new Date(filters.end_date.getTime() + ONE_DAY_MS) : undefined
+      });
+      setEvents(data);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const data = await trpc.getUsers.query();
+      setUsers(data);
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  useEffect(() => {
+    if (canListUsers) {
+      loadUsers();
+    }
+  }, [canListUsers, loadUsers]);
+
+  const renderChanges = (event: AuditEventWithActor) => {
+    if (!event.before && !event.after) {
+      return <span className="text-gray-500">—</span>;
+    }
+    if (!event.before) {
+      return <Badge className="bg-green-100 text-green-800">created</Badge>;
+    }
+    if (!event.after) {
+      return <Badge className="bg-red-100 text-red-800">deleted</Badge>;
+    }
+
+    const fields = Object.keys(event.after);
+    if (fields.length === 0) {
+      return <span className="text-gray-500">No visible changes</span>;
+    }
+
+    return (
+      <div className="space-y-1 text-xs">
+        {fields.map((field: string) => (
+          <div key={field}>
+            <span className="font-medium">{field}</span>:{' '}
+            <span className="text-red-700 line-through">{formatValue(event.before?.[field])}</span>{' '}
+            → <span className="text-green-700">{formatValue(event.after?.[field])}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Audit Log</h2>
+        <p className="text-gray-600 mt-1">Every change made through the system, who made it and what it changed</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Filter Events</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <Label>Entity</Label>
+              <Select
+                value={filters.entity_type || 'all'}
+                onValueChange={(value: string) =>
+                  setFilters((prev: GetAuditLogInput) => ({
+                    ...prev,
+                    entity_type: value === 'all' ? undefined : value as AuditEntityType
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {entityTypes.map((entityType: AuditEntityType) => (
+                    <SelectItem key={entityType} value={entityType}>
+                      {entityType.replace(/_/g, ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="audit_entity_id">Entity ID</Label>
+              <Input
+                id="audit_entity_id"
+                type="number"
+                value={filters.entity_id ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilters((prev: GetAuditLogInput) => ({
+                    ...prev,
+                    entity_id: e.target.value ? parseInt(e.target.value) : undefined
+                  }))
+                }
+                placeholder="Any"
+                min="1"
+              />
+            </div>
+            <div>
+              <Label>User</Label>
+              <Select
+                value={filters.user_id?.toString() || 'all'}
+                onValueChange={(value: string) =>
+                  setFilters((prev: GetAuditLogInput) => ({
+                    ...prev,
+                    user_id: value === 'all' ? undefined : parseInt(value)
+                  }))
+                }
+                disabled={!canListUsers}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {users.map((user: PublicUser) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="audit_start_date">From</Label>
+              <Input
+                id="audit_start_date"
+                type="date"
+                value={filters.start_date ? new Date(filters.start_date).toISOString().split('T')[0] : ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilters((prev: GetAuditLogInput) => ({
+                    ...prev,
+                    start_date: e.target.value ? new Date(e.target.value) : undefined
+                  }))
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor="audit_end_date">To</Label>
+              <Input
+                id="audit_end_date"
+                type="date"
+                value={filters.end_date ? new Date(filters.end_date).toISOString().split('T')[0] : ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFilters((prev: GetAuditLogInput) => ({
+                    ...prev,
+                    end_date: e.target.value ? new Date(e.target.value) : undefined
+                  }))
+                }
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Events */}
+      <Card>
+        <CardHeader>
+          <CardTitle>🧾 Events</CardTitle>
+          <CardDescription>Most recent first, up to 100 events</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-6 text-gray-500">Loading audit log...</div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">No events match these filters</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event: AuditEventWithActor) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">{event.created_at.toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{event.actor_username ?? '—'}</div>
+                        <div className="text-xs text-gray-600">
+                          {event.ip_address || '-'}
+                          {event.api_key_id !== null && ' · API key'}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{event.procedure}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {event.entity_type.replace(/_/g, ' ')}
+                          {event.entity_id !== null && ` #${event.entity_id}`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{renderChanges(event)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
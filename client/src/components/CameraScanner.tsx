@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/utils/trpc';
+import type { AssetWithCategory } from '../../../server/src/schema';
+
+interface CameraScannerProps {
+  onAsset: (asset: AssetWithCategory) => void;
+  onClose: () => void;
+}
+
+// The browser's own barcode reader, where it has one
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+
+interface BarcodeDetectorClass {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+const TAG_FORMATS = ['qr_code', 'code_128'];
+const SCAN_INTERVAL_MS = 250;
+// Frames are scaled down to this width before being read in JavaScript
+const FRAME_WIDTH = 640;
+
+// The native reader is only used when it reads both kinds of label; otherwise
+// frames go through the JavaScript reader
+const createDetector = async (): Promise<BarcodeDetectorInstance | null> => {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    const supported = await Detector.getSupportedFormats();
+    return TAG_FORMATS.every((format: string) => supported.includes(format))
+      ? new Detector({ formats: TAG_FORMATS })
+      : null;
+  } catch (error) {
+    console.error('Barcode detector unavailable:', error);
+    return null;
+  }
+};
+
+const cameraErrorMessage = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'NotAllowedError') {
+    return 'Camera access was refused. Allow it in the browser to scan labels.';
+  }
+  if (error instanceof DOMException && error.name === 'NotFoundError') {
+    return 'No camera was found on this device.';
+  }
+  return 'Could not start the camera';
+};
+
+// Reads asset labels through the camera and hands over the asset once its tag is found
+export function CameraScanner({ onAsset, onClose }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onAssetRef = useRef(onAsset);
+  const [status, setStatus] = useState('Starting camera...');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onAssetRef.current = onAsset;
+  }, [onAsset]);
+
+  useEffect(() => {
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // A code with no asset is not looked up again on every frame it stays in view
+    let missedCode: string | null = null;
+    const canvas = document.createElement('canvas');
+
+    type FrameReader = (video: HTMLVideoElement) => Promise<string | null>;
+
+    const readWithDetector = (detector: BarcodeDetectorInstance): FrameReader => async (video) => {
+      const [barcode] = await detector.detect(video);
+      return barcode ? barcode.rawValue : null;
+    };
+
+    const readWithDecoder = (decodeBarcode: (frame: ImageData) => string | null): FrameReader => async (video) => {
+      const scale = Math.min(1, FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) return null;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      return decodeBarcode(context.getImageData(0, 0, canvas.width, canvas.height));
+    };
+
+    const scan = async (video: HTMLVideoElement, readFrame: FrameReader) => {
+      if (stopped) return;
+      try {
+        const code = video.readyState >= video.HAVE_CURRENT_DATA ? (await readFrame(video))?.trim() : null;
+        if (code && code !== missedCode && !stopped) {
+          setStatus(`Looking up ${code}...`);
+          const asset = await trpc.getAssetByTag.query({ tag: code });
+          if (stopped) return;
+          if (asset) {
+            onAssetRef.current(asset);
+            return;
+          }
+          missedCode = code;
+          setStatus(`No asset has the tag ${code.toUpperCase()}`);
+        }
+      } catch (error) {
+        console.error('Failed to read barcode:', error);
+      }
+      timer = setTimeout(() => scan(video, readFrame), SCAN_INTERVAL_MS);
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('This browser cannot use the camera here. Cameras need the app to be served over HTTPS.');
+        return;
+      }
+      try {
+        // The back camera on phones and tablets, whatever there is elsewhere
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        const video = videoRef.current;
+        if (stopped || !video) {
+          // Closed while the browser was asking for permission
+          stream.getTracks().forEach((track: MediaStreamTrack) => track.stop());
+          return;
+        }
+        video.srcObject = stream;
+        await video.play();
+        const detector = await createDetector();
+        // The JavaScript reader is large, so it is only loaded by browsers that need it
+        const readFrame = detector
+          ? readWithDetector(detector)
+          : readWithDecoder((await import('@/utils/barcodes')).decodeBarcode);
+        setStatus('Point the camera at an asset label');
+        scan(video, readFrame);
+      } catch (error) {
+        console.error('Failed to start camera:', error);
+        if (!stopped) setError(cameraErrorMessage(error));
+      }
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track: MediaStreamTrack) => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="space-y-2 rounded-md border p-2">
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <>
+          <video ref={videoRef} className="w-full max-h-64 rounded bg-black object-contain" muted playsInline />
+          <p className="text-sm text-gray-600">{status}</p>
+        </>
+      )}
+      <div className="flex justify-end">
+        <Button type="button" size="sm" variant="outline" onClick={onClose}>
+          Stop camera
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { trpc } from '@/utils/trpc';
 import type { Category, CreateCategoryInput, UpdateCategoryInput } from '../../../server/src/schema';
 
-export function CategoryManagement() {
+interface CategoryManagementProps {
+  canWrite: boolean;
+  canDelete: boolean;
+}
+
+export function CategoryManagement({ canWrite, canDelete }: CategoryManagementProps) {
   const [categories, setCategories] = useState<Category[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -19,7 +24,8 @@ export function CategoryManagement() {
 
   const [formData, setFormData] = useState<CreateCategoryInput>({
     name: '',
-    description: null
+    description: null,
+    tag_prefix: null
   });
 
   const loadCategories = useCallback(async () => {
@@ -45,7 +51,8 @@ export function CategoryManagement() {
         const updateData: UpdateCategoryInput = {
           id: editingCategory.id,
           name: formData.name || undefined,
-          description: formData.description
+          description: formData.description,
+          tag_prefix: formData.tag_prefix
         };
         await trpc.updateCategory.mutate(updateData);
       } else {
@@ -71,7 +78,8 @@ export function CategoryManagement() {
   const resetForm = () => {
     setFormData({
       name: '',
-      description: null
+      description: null,
+      tag_prefix: null
     });
     setEditingCategory(null);
   };
@@ -80,7 +88,8 @@ export function CategoryManagement() {
     setEditingCategory(category);
     setFormData({
       name: category.name,
-      description: category.description
+      description: category.description,
+      tag_prefix: category.tag_prefix
     });
     setIsDialogOpen(true);
   };
@@ -105,11 +114,13 @@ export function CategoryManagement() {
           <p className="text-gray-600 mt-1">Organize your assets into categories for better management</p>
         </div>
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openCreateDialog} className="bg-indigo-600 hover:bg-indigo-700">
-              ➕ Add Category
-            </Button>
-          </DialogTrigger>
+          {canWrite && (
+            <DialogTrigger asChild>
+              <Button onClick={openCreateDialog} className="bg-indigo-600 hover:bg-indigo-700">
+                ➕ Add Category
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-md">
             <DialogHeader>
               <DialogTitle>
@@ -146,6 +157,25 @@ export function CategoryManagement() {
                 />
               </div>
 
+              <div>
+                <Label htmlFor="tag_prefix">Asset Tag Prefix</Label>
+                <Input
+                  id="tag_prefix"
+                  value={formData.tag_prefix || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateCategoryInput) => ({ ...prev, tag_prefix: e.target.value.toUpperCase() || null }))
+                  }
+                  placeholder="e.g. IT (optional)"
+                  pattern="[A-Za-z0-9]{1,10}"
+                  maxLength={10}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {formData.tag_prefix
+                    ? `New assets in this category are tagged ${formData.tag_prefix}-000001, ${formData.tag_prefix}-000002 and so on`
+                    : 'Leave blank to use the default prefix'}
+                </p>
+              </div>
+
               <div className="flex justify-end gap-3 pt-4">
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancel
@@ -213,42 +243,49 @@ export function CategoryManagement() {
                     📂 {category.name}
                   </span>
                   <div className="flex gap-2">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => openEditDialog(category)}
-                    >
-                      ✏️
-                    </Button>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
-                          🗑️
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Delete Category</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            Are you sure you want to delete the category "{category.name}"? 
-                            This action cannot be undone and may affect associated assets.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                          <AlertDialogAction
-                            onClick={() => handleDelete(category.id)}
-                            className="bg-red-600 hover:bg-red-700"
-                          >
-                            Delete
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
+                    {canWrite && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openEditDialog(category)}
+                      >
+                        ✏️
+                      </Button>
+                    )}
+                    {canDelete && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
+                            🗑️
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Category</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete the category "{category.name}"? 
+                              This action cannot be undone and may affect associated assets.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDelete(category.id)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
                   </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                {category.tag_prefix && (
+                  <p className="text-xs text-gray-500 mb-2">Tags: <span className="font-mono">{category.tag_prefix}-</span></p>
+                )}
                 {category.description ? (
                   <p className="text-gray-600 text-sm mb-4">{category.description}</p>
                 ) : (
@@ -280,9 +317,10 @@ export function CategoryManagement() {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Description</TableHead>
+                    <TableHead>Tag Prefix</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead>Updated</TableHead>
-                    <TableHead>Actions</TableHead>
+                    {(canWrite || canDelete) && <TableHead>Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -292,47 +330,56 @@ export function CategoryManagement() {
                       <TableCell className="max-w-xs truncate">
                         {category.description || <span className="text-gray-400 italic">No description</span>}
                       </TableCell>
+                      <TableCell className="font-mono">
+                        {category.tag_prefix || <span className="text-gray-400 italic font-sans">Default</span>}
+                      </TableCell>
                       <TableCell>{category.created_at.toLocaleDateString()}</TableCell>
                       <TableCell>
                         {category.updated_at.getTime() !== category.created_at.getTime() 
                           ? category.updated_at.toLocaleDateString()
                           : '-'}
                       </TableCell>
-                      <TableCell>
-                        <div className="flex gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => openEditDialog(category)}
-                          >
-                            Edit
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
-                                Delete
+                      {(canWrite || canDelete) && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {canWrite && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => openEditDialog(category)}
+                              >
+                                Edit
                               </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Delete Category</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete "{category.name}"? This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleDelete(category.id)}
-                                  className="bg-red-600 hover:bg-red-700"
-                                >
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </TableCell>
+                            )}
+                            {canDelete && (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
+                                    Delete
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete Category</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Are you sure you want to delete "{category.name}"? This action cannot be undone.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => handleDelete(category.id)}
+                                      className="bg-red-600 hover:bg-red-700"
+                                    >
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
                     </TableRow>
                   ))}
                 </TableBody>
@@ -29,6 +29,18 @@ export function Dashboard() {
     loadDashboardData();
   }, [loadDashboardData]);
 
+  // The server pushes a fresh summary whenever assets or lendings change
+  useEffect(() => {
+    const subscription = trpc.onDashboardChange.subscribe(undefined, {
+      onData: (data: DashboardSummary) => {
+        setSummary(data);
+        setError(null);
+      },
+      onError: (err: unknown) => console.error('Dashboard live updates failed:', err)
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
   if (error) {
     return (
       <div className="space-y-6">
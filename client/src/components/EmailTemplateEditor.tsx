@@ -0,0 +1,299 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type {
+  EmailTemplate,
+  EmailTemplatePlaceholder,
+  EmailTemplatePreview,
+  LendingNoticeKind,
+  LendingWithDetails
+} from '../../../server/src/schema';
+
+interface EmailTemplateEditorProps {
+  canListLendings: boolean;
+}
+
+const templateLabels: Record<LendingNoticeKind, { title: string; description: string }> = {
+  due_soon: { title: '⏳ Due soon', description: 'Sent a few days before the expected return date' },
+  due_today: { title: '📅 Due today', description: 'Sent on the expected return date' },
+  overdue: { title: '⚠️ Overdue', description: 'Sent once overdue, copying the staff member who lent the asset' }
+};
+
+export function EmailTemplateEditor({ canListLendings }: EmailTemplateEditorProps) {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [placeholders, setPlaceholders] = useState<EmailTemplatePlaceholder[]>([]);
+  const [lendings, setLendings] = useState<LendingWithDetails[]>([]);
+  const [selectedKey, setSelectedKey] = useState<LendingNoticeKind>('due_soon');
+  const [draft, setDraft] = useState({ subject: '', body: '' });
+  const [previewLendingId, setPreviewLendingId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const [templateData, placeholderData] = await Promise.all([
+        trpc.getEmailTemplates.query(),
+        trpc.getEmailTemplatePlaceholders.query()
+      ]);
+      setTemplates(templateData);
+      setPlaceholders(placeholderData);
+    } catch (error) {
+      console.error('Failed to load email templates:', error);
+    }
+  }, []);
+
+  const loadLendings = useCallback(async () => {
+    try {
+      const data = await trpc.getLendings.query();
+      setLendings(data);
+      if (data.length > 0) {
+        setPreviewLendingId((current: number | null) => current ?? data[data.length - 1].id);
+      }
+    } catch (error) {
+      console.error('Failed to load lendings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    if (canListLendings) {
+      loadLendings();
+    }
+  }, [canListLendings, loadLendings]);
+
+  const selectedTemplate = templates.find((template: EmailTemplate) => template.key === selectedKey);
+
+  // Start editing from the saved version whenever another template is picked
+  useEffect(() => {
+    if (selectedTemplate) {
+      setDraft({ subject: selectedTemplate.subject, body: selectedTemplate.body });
+      setError(null);
+      setMessage(null);
+    }
+  }, [selectedTemplate]);
+
+  const handlePreview = async () => {
+    if (previewLendingId === null) return;
+    setError(null);
+    try {
+      const result = await trpc.previewEmailTemplate.query({ ...draft, lending_id: previewLendingId });
+      setPreview(result);
+    } catch (error) {
+      setPreview(null);
+      setError(error instanceof Error ? error.message : 'Failed to preview template');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await trpc.updateEmailTemplate.mutate({ key: selectedKey, ...draft });
+      setMessage('Template saved');
+      await loadTemplates();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await trpc.resetEmailTemplate.mutate({ key: selectedKey });
+      setMessage('Template reset to the default');
+      await loadTemplates();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to reset template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const insertPlaceholder = (name: string) => {
+    setDraft((prev: { subject: string; body: string }) => ({ ...prev, body: `${prev.body}{{${name}}}` }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">✉️ Email Templates</h2>
+        <p className="text-gray-600 mt-1">Wording of the reminders emailed to borrowers</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Template list */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Templates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {templates.map((template: EmailTemplate) => (
+              <Button
+                key={template.key}
+                variant={template.key === selectedKey ? 'default' : 'outline'}
+                className="w-full justify-start h-auto py-2"
+                onClick={() => setSelectedKey(template.key)}
+              >
+                <div className="text-left">
+                  <div>{templateLabels[template.key].title}</div>
+                  <div className="text-xs font-normal opacity-80">
+                    {template.is_default ? 'Default wording' : `Edited ${template.updated_at?.toLocaleDateString()}`}
+                  </div>
+                </div>
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Editor */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{templateLabels[selectedKey].title}</CardTitle>
+            <CardDescription>{templateLabels[selectedKey].description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {message && (
+              <Alert>
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <Label htmlFor="template_subject">Subject</Label>
+              <Input
+                id="template_subject"
+                value={draft.subject}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setDraft((prev: { subject: string; body: string }) => ({ ...prev, subject: e.target.value }))
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor="template_body">Body</Label>
+              <Textarea
+                id="template_body"
+                rows={10}
+                className="font-mono text-sm"
+                value={draft.body}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                  setDraft((prev: { subject: string; body: string }) => ({ ...prev, body: e.target.value }))
+                }
+              />
+            </div>
+
+            <div>
+              <Label>Placeholders</Label>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {placeholders.map((placeholder: EmailTemplatePlaceholder) => (
+                  <Badge
+                    key={placeholder.name}
+                    variant="outline"
+                    className="cursor-pointer font-mono"
+                    title={placeholder.description}
+                    onClick={() => insertPlaceholder(placeholder.name)}
+                  >
+                    {`{{${placeholder.name}}}`}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Click a placeholder to add it to the end of the body</p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleSave} disabled={isSaving || !draft.subject || !draft.body}>
+                {isSaving ? 'Saving...' : 'Save Template'}
+              </Button>
+              {selectedTemplate && !selectedTemplate.is_default && (
+                <Button variant="outline" onClick={handleReset} disabled={isSaving}>
+                  Reset to Default
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Preview */}
+      <Card>
+        <CardHeader>
+          <CardTitle>👁️ Preview</CardTitle>
+          <CardDescription>Render the current draft against a real lending</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+            <div className="flex-1">
+              <Label>Lending</Label>
+              {canListLendings ? (
+                <Select
+                  value={previewLendingId?.toString() || 'none'}
+                  onValueChange={(value: string) => setPreviewLendingId(value === 'none' ? null : parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Select a lending</SelectItem>
+                    {lendings.map((lending: LendingWithDetails) => (
+                      <SelectItem key={lending.id} value={lending.id.toString()}>
+                        #{lending.id} · {lending.asset.name} → {lending.borrower_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Lending ID"
+                  value={previewLendingId ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setPreviewLendingId(e.target.value ? parseInt(e.target.value) : null)
+                  }
+                />
+              )}
+            </div>
+            <Button variant="outline" onClick={handlePreview} disabled={previewLendingId === null}>
+              Preview
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="border rounded-lg p-4 space-y-2 bg-gray-50">
+              {preview.unknown_placeholders.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    Unknown placeholders: {preview.unknown_placeholders.map((name: string) => `{{${name}}}`).join(', ')}
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div className="font-semibold">{preview.subject}</div>
+              <pre className="whitespace-pre-wrap text-sm font-sans">{preview.body}</pre>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+
+interface ForgotPasswordFormProps {
+  onBack: () => void;
+}
+
+export function ForgotPasswordForm({ onBack }: ForgotPasswordFormProps) {
+  const [email, setEmail] = useState('');
+  const [isSent, setIsSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      setIsLoading(true);
+      await trpc.requestPasswordReset.mutate({ email: email.trim() });
+      setIsSent(true);
+    } catch (error) {
+      console.error('Failed to request password reset:', error);
+      setError('Could not send the reset email. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isSent) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <AlertDescription>
+            If an account exists for {email}, a link to reset the password has been sent. The link expires in one hour.
+          </AlertDescription>
+        </Alert>
+        <Button variant="outline" className="w-full" onClick={onBack}>
+          Back to Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-sm text-gray-600">
+        Enter the email address of your account and we will send you a link to choose a new password.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="reset_email">Email</Label>
+        <Input
+          id="reset_email"
+          type="email"
+          value={email}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          disabled={isLoading}
+          required
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? 'Sending...' : 'Send Reset Link'}
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+        Back to Sign In
+      </Button>
+    </form>
+  );
+}
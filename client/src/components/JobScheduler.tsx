@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import type { Job, JobRunStatus, JobRunWithDetails } from '../../../server/src/schema';
+
+const statusColors: Record<JobRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const formatDuration = (durationMs: number | null): string => {
+  if (durationMs === null) return '—';
+  return durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+};
+
+const formatResult = (result: Record<string, unknown> | null): string => {
+  if (!result) return '—';
+  return Object.entries(result).map(([key, value]) => `${key.replace(/_/g, ' ')}: ${String(value)}`).join(', ');
+};
+
+export function JobScheduler() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [runs, setRuns] = useState<JobRunWithDetails[]>([]);
+  const [selectedJob, setSelectedJob] = useState<string | null>(null);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const data = await trpc.getJobs.query();
+      setJobs(data);
+    } catch (error) {
+      console.error('Failed to load jobs:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const data = await trpc.getJobRuns.query({ job_name: selectedJob ?? undefined });
+      setRuns(data);
+    } catch (error) {
+      console.error('Failed to load job history:', error);
+    }
+  }, [selectedJob]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleTrigger = async (name: string) => {
+    setRunningJob(name);
+    setError(null);
+    try {
+      await trpc.triggerJob.mutate({ name });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to run job');
+    } finally {
+      setRunningJob(null);
+      await Promise.all([loadJobs(), loadRuns()]);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">⏱️ Scheduled Jobs</h2>
+        <p className="text-gray-600 mt-1">Background jobs run by the server, their schedules and recent runs</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jobs</CardTitle>
+          <CardDescription>Schedules are cron expressions in server time</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-6 text-gray-500">Loading jobs...</div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">No jobs registered</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Last Run</TableHead>
+                    <TableHead>Next Run</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map((job: Job) => (
+                    <TableRow key={job.id} className={selectedJob === job.name ? 'bg-blue-50' : ''}>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="font-medium text-left hover:underline"
+                          onClick={() => setSelectedJob(selectedJob === job.name ? null : job.name)}
+                        >
+                          {job.name}
+                        </button>
+                        <div className="text-sm text-gray-600">{job.description}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{job.schedule}</TableCell>
+                      <TableCell>
+                        {job.last_status ? (
+                          <div className="space-y-1">
+                            <Badge className={statusColors[job.last_status]}>{job.last_status}</Badge>
+                            <div className="text-xs text-gray-600">
+                              {job.last_started_at?.toLocaleString()} · {formatDuration(job.last_duration_ms)}
+                            </div>
+                            {job.last_error && (
+                              <div className="text-xs text-red-600">{job.last_error}</div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-gray-500">Never</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{job.next_run_at?.toLocaleString() ?? '—'}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleTrigger(job.name)}
+                          disabled={runningJob !== null || job.locked_by !== null}
+                        >
+                          {runningJob === job.name ? 'Running...' : '▶️ Run now'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>📜 Run History</CardTitle>
+          <CardDescription>
+            {selectedJob ? `Recent runs of ${selectedJob}` : 'Recent runs of all jobs'}, most recent first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">No runs recorded yet</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Triggered By</TableHead>
+                    <TableHead>Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run: JobRunWithDetails) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="whitespace-nowrap">{run.started_at.toLocaleString()}</TableCell>
+                      <TableCell className="font-medium">{run.job_name}</TableCell>
+                      <TableCell>
+                        <Badge className={statusColors[run.status]}>{run.status}</Badge>
+                      </TableCell>
+                      <TableCell>{formatDuration(run.duration_ms)}</TableCell>
+                      <TableCell>{run.triggered_by_username ?? 'Schedule'}</TableCell>
+                      <TableCell className="text-sm">
+                        {run.error ? (
+                          <span className="text-red-600">{run.error}</span>
+                        ) : (
+                          formatResult(run.result)
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
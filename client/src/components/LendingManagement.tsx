@@ -8,21 +8,27 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Textarea } from '@/components/ui/textarea';
+import { AssetTagScanBox } from '@/components/AssetTagScanBox';
 import { trpc } from '@/utils/trpc';
-import type { LendingWithDetails, AssetWithCategory, CreateLendingInput, ReturnAssetInput } from '../../../server/src/schema';
+import type { LendingWithDetails, AssetWithCategory, CreateLendingInput, ReturnAssetInput, TransferWithDetails } from '../../../server/src/schema';
 
 interface LendingManagementProps {
   mode: 'lending' | 'returns';
+  canLend?: boolean;
+  canViewTransfers?: boolean;
 }
 
-export function LendingManagement({ mode }: LendingManagementProps) {
+export function LendingManagement({ mode, canLend = false, canViewTransfers = false }: LendingManagementProps) {
   const [lendings, setLendings] = useState<LendingWithDetails[]>([]);
   const [availableAssets, setAvailableAssets] = useState<AssetWithCategory[]>([]);
+  const [transferringAssetIds, setTransferringAssetIds] = useState<number[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [returningLending, setReturningLending] = useState<LendingWithDetails | null>(null);
+  const [scanMessage, setScanMessage] = useState<string | null>(null);
+  const [dialogScanMessage, setDialogScanMessage] = useState<string | null>(null);
 
   const [formData, setFormData] = useState<CreateLendingInput>({
     asset_id: 0,
@@ -31,27 +37,28 @@ export function LendingManagement({ mode }: LendingManagementProps) {
     borrower_phone: null,
     department: null,
     expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Default to 1 week from now
-    notes: null,
-    lent_by_user_id: 1 // TODO: Get from current user context
+    notes: null
   });
 
   const [returnData, setReturnData] = useState<ReturnAssetInput>({
     lending_id: 0,
-    returned_by_user_id: 1, // TODO: Get from current user context
     return_notes: null,
     asset_condition: 'good'
   });
 
-  const loadData = useCallback(async () => {
+  // Live updates reload in the background, without the loading placeholder
+  const loadData = useCallback(async (showLoading: boolean = true) => {
     try {
-      setIsLoading(true);
+      if (showLoading) setIsLoading(true);
       if (mode === 'lending') {
-        const [lendingsData, assetsData] = await Promise.all([
+        const [lendingsData, assetsData, transfersData] = await Promise.all([
           trpc.getActiveLendings.query(),
-          trpc.getAssetsByStatus.query({ status: 'available' })
+          trpc.getAssetsByStatus.query({ status: 'available' }),
+          canViewTransfers ? trpc.getTransfers.query({ open_only: true }) : Promise.resolve([])
         ]);
         setLendings(lendingsData);
         setAvailableAssets(assetsData);
+        setTransferringAssetIds(transfersData.map((transfer: TransferWithDetails) => transfer.asset_id));
       } else {
         const lendingsData = await trpc.getActiveLendings.query();
         setLendings(lendingsData);
@@ -61,12 +68,25 @@ export function LendingManagement({ mode }: LendingManagementProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [mode]);
+  }, [mode, canViewTransfers]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  // Pick up lendings and returns recorded by other staff; the lending form also
+  // needs to hear about assets becoming available or unavailable
+  useEffect(() => {
+    const onError = (error: unknown) => console.error('Lending live updates failed:', error);
+    const subscriptions = [
+      trpc.onLendingChange.subscribe(undefined, { onData: () => loadData(false), onError })
+    ];
+    if (mode === 'lending') {
+      subscriptions.push(trpc.onAssetChange.subscribe(undefined, { onData: () => loadData(false), onError }));
+    }
+    return () => subscriptions.forEach((subscription: { unsubscribe: () => void }) => subscription.unsubscribe());
+  }, [mode, loadData]);
+
   const handleCreateLending = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -99,15 +119,13 @@ export function LendingManagement({ mode }: LendingManagementProps) {
       borrower_phone: null,
       department: null,
       expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      notes: null,
-      lent_by_user_id: 1
+      notes: null
     });
   };
 
   const resetReturnForm = () => {
     setReturnData({
       lending_id: 0,
-      returned_by_user_id: 1,
       return_notes: null,
       asset_condition: 'good'
     });
@@ -116,6 +134,7 @@ export function LendingManagement({ mode }: LendingManagementProps) {
 
   const openCreateLendingDialog = () => {
     resetForm();
+    setDialogScanMessage(null);
     setIsDialogOpen(true);
   };
 
@@ -123,20 +142,64 @@ export function LendingManagement({ mode }: LendingManagementProps) {
     setReturningLending(lending);
     setReturnData({
       lending_id: lending.id,
-      returned_by_user_id: 1,
       return_notes: null,
       asset_condition: 'good'
     });
     setIsDialogOpen(true);
   };
 
+  // Why a scanned asset cannot be lent out, if it cannot
+  const lendingProblem = (asset: AssetWithCategory): string | null => {
+    if (transferringAssetIds.includes(asset.id)) {
+      return `${asset.asset_tag} · ${asset.name} has a transfer pending`;
+    }
+    if (!availableAssets.some((available: AssetWithCategory) => available.id === asset.id)) {
+      return `${asset.asset_tag} · ${asset.name} is ${asset.status} and cannot be lent out`;
+    }
+    return null;
+  };
+
+  // A scanned tag starts the lending of that asset, or the return of its lending
+  const handleScannedAsset = (asset: AssetWithCategory) => {
+    setScanMessage(null);
+    if (mode === 'returns') {
+      const lending = lendings.find((lending: LendingWithDetails) => lending.asset_id === asset.id);
+      if (lending) {
+        openReturnDialog(lending);
+      } else {
+        setScanMessage(`${asset.asset_tag} · ${asset.name} is not lent out`);
+      }
+      return;
+    }
+
+    const problem = lendingProblem(asset);
+    if (problem) {
+      setScanMessage(problem);
+    } else {
+      resetForm();
+      setDialogScanMessage(null);
+      setFormData((prev: CreateLendingInput) => ({ ...prev, asset_id: asset.id }));
+      setIsDialogOpen(true);
+    }
+  };
+
+  // A tag scanned in the lending dialog picks the asset being lent
+  const handleDialogScannedAsset = (asset: AssetWithCategory) => {
+    const problem = lendingProblem(asset);
+    setDialogScanMessage(problem);
+    if (!problem) {
+      setFormData((prev: CreateLendingInput) => ({ ...prev, asset_id: asset.id }));
+    }
+  };
+
   // Filter lendings
   const filteredLendings = lendings.filter((lending: LendingWithDetails) => {
     const matchesSearch = !searchTerm || 
       lending.borrower_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       (lending.borrower_email && lending.borrower_email.toLowerCase().includes(searchTerm.toLowerCase())) ||
       (lending.department && lending.department.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      lending.asset.name.toLowerCase().includes(searchTerm.toLowerCase());
+      lending.asset.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (lending.asset.asset_tag && lending.asset.asset_tag.toLowerCase().includes(searchTerm.toLowerCase()));
     
     const matchesStatus = filterStatus === 'all' || lending.status === filterStatus;
     
@@ -152,10 +215,6 @@ export function LendingManagement({ mode }: LendingManagementProps) {
     }
   };
 
-  const isOverdue = (expectedReturnDate: Date) => {
-    return new Date() > expectedReturnDate;
-  };
-
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -170,7 +229,7 @@ export function LendingManagement({ mode }: LendingManagementProps) {
             }
           </p>
         </div>
-        {mode === 'lending' && (
+        {mode === 'lending' && canLend && (
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
               <Button onClick={openCreateLendingDialog} className="bg-green-600 hover:bg-green-700">
@@ -184,6 +243,11 @@ export function LendingManagement({ mode }: LendingManagementProps) {
                   Record a new asset lending transaction.
                 </DialogDescription>
               </DialogHeader>
+              <div>
+                <Label>Scan asset label</Label>
+                <AssetTagScanBox onAsset={handleDialogScannedAsset} camera />
+                {dialogScanMessage && <p className="text-sm text-amber-700 mt-1">{dialogScanMessage}</p>}
+              </div>
               <form onSubmit={handleCreateLending} className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="col-span-2">
@@ -196,8 +260,9 @@ export function LendingManagement({ mode }: LendingManagementProps) {
                       </SelectTrigger>
                       <SelectContent>
                         {availableAssets.map((asset: AssetWithCategory) => (
-                          <SelectItem key={asset.id} value={asset.id.toString()}>
-                            {asset.name} ({asset.category.name}) {asset.serial_number && `- ${asset.serial_number}`}
+                          <SelectItem key={asset.id} value={asset.id.toString()} disabled={transferringAssetIds.includes(asset.id)}>
+                            {asset.asset_tag && `${asset.asset_tag} · `}{asset.name} ({asset.category.name}) {asset.serial_number && `- ${asset.serial_number}`}
+                            {transferringAssetIds.includes(asset.id) && ' · transfer pending'}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -352,11 +417,18 @@ export function LendingManagement({ mode }: LendingManagementProps) {
           <CardTitle className="text-lg">Filters</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {(mode === 'returns' || canLend) && (
+            <div className="max-w-md">
+              <Label>{mode === 'lending' ? 'Scan to lend' : 'Scan to return'}</Label>
+              <AssetTagScanBox onAsset={handleScannedAsset} camera />
+              {scanMessage && <p className="text-sm text-amber-700 mt-1">{scanMessage}</p>}
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <Label>Search</Label>
               <Input
-                placeholder="Search by borrower, asset, department..."
+                placeholder="Search by borrower, asset, tag, department..."
                 value={searchTerm}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
               />
@@ -438,11 +510,12 @@ export function LendingManagement({ mode }: LendingManagementProps) {
                 </TableHeader>
                 <TableBody>
                   {filteredLendings.map((lending: LendingWithDetails) => (
-                    <TableRow key={lending.id} className={isOverdue(lending.expected_return_date) && lending.status === 'active' ? 'bg-red-50' : ''}>
+                    <TableRow key={lending.id} className={lending.status === 'overdue' ? 'bg-red-50' : ''}>
                       <TableCell>
                         <div>
                           <div className="font-medium">{lending.asset.name}</div>
                           <div className="text-sm text-gray-600">
+                            {lending.asset.asset_tag && <span className="font-mono">{lending.asset.asset_tag} • </span>}
                             {lending.asset.category.name}
                             {lending.asset.serial_number && ` • ${lending.asset.serial_number}`}
                           </div>
@@ -468,21 +541,21 @@ export function LendingManagement({ mode }: LendingManagementProps) {
                       </TableCell>
                       <TableCell>{lending.lent_date.toLocaleDateString()}</TableCell>
                       <TableCell>
-                        <div className={isOverdue(lending.expected_return_date) && lending.status === 'active' ? 'text-red-600 font-medium' : ''}>
+                        <div className={lending.status === 'overdue' ? 'text-red-600 font-medium' : ''}>
                           {lending.expected_return_date.toLocaleDateString()}
-                          {isOverdue(lending.expected_return_date) && lending.status === 'active' && (
+                          {lending.status === 'overdue' && (
                             <div className="text-xs">⚠️ OVERDUE</div>
                           )}
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge className={getStatusColor(isOverdue(lending.expected_return_date) && lending.status === 'active' ? 'overdue' : lending.status)}>
-                          {isOverdue(lending.expected_return_date) && lending.status === 'active' ? 'overdue' : lending.status}
+                        <Badge className={getStatusColor(lending.status)}>
+                          {lending.status}
                         </Badge>
                       </TableCell>
                       {mode === 'returns' && (
                         <TableCell>
-                          {lending.status === 'active' && (
+                          {lending.status !== 'returned' && (
                             <Button
                               size="sm"
                               onClick={() => openReturnDialog(lending)}
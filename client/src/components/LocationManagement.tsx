@@ -0,0 +1,411 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { CreateLocationInput, LocationType, LocationWithDetails, UpdateLocationInput } from '../../../server/src/schema';
+
+interface LocationManagementProps {
+  canWrite: boolean;
+  canDelete: boolean;
+}
+
+// Outermost first, matching the server's containment rules
+const locationLevels: LocationType[] = ['site', 'building', 'floor', 'room'];
+
+const levelIcons: Record<LocationType, string> = {
+  site: '🏢',
+  building: '🏬',
+  floor: '🪜',
+  room: '🚪'
+};
+
+export function LocationManagement({ canWrite, canDelete }: LocationManagementProps) {
+  const [locations, setLocations] = useState<LocationWithDetails[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<LocationWithDetails | null>(null);
+  const [deletingLocation, setDeletingLocation] = useState<LocationWithDetails | null>(null);
+  const [reassignToId, setReassignToId] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const [formData, setFormData] = useState<CreateLocationInput>({
+    name: '',
+    type: 'site',
+    parent_id: null,
+    description: null
+  });
+
+  const loadLocations = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await trpc.getLocations.query();
+      setLocations(data);
+    } catch (error) {
+      console.error('Failed to load locations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLocations();
+  }, [loadLocations]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      if (editingLocation) {
+        const updateData: UpdateLocationInput = {
+          id: editingLocation.id,
+          name: formData.name || undefined,
+          type: formData.type,
+          parent_id: formData.parent_id ?? null,
+          description: formData.description
+        };
+        await trpc.updateLocation.mutate(updateData);
+      } else {
+        await trpc.createLocation.mutate(formData);
+      }
+      await loadLocations();
+      resetForm();
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to save location:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save location');
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deletingLocation) return;
+    setFormError(null);
+    try {
+      await trpc.deleteLocation.mutate({
+        id: deletingLocation.id,
+        reassign_to_id: reassignToId ? parseInt(reassignToId) : undefined
+      });
+      await loadLocations();
+      setDeletingLocation(null);
+      setReassignToId('');
+    } catch (error) {
+      console.error('Failed to delete location:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to delete location');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      type: 'site',
+      parent_id: null,
+      description: null
+    });
+    setEditingLocation(null);
+    setFormError(null);
+  };
+
+  const openEditDialog = (location: LocationWithDetails) => {
+    setEditingLocation(location);
+    setFormError(null);
+    setFormData({
+      name: location.name,
+      type: location.type,
+      parent_id: location.parent_id,
+      description: location.description
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openCreateDialog = () => {
+    resetForm();
+    setIsDialogOpen(true);
+  };
+
+  const openDeleteDialog = (location: LocationWithDetails) => {
+    setDeletingLocation(location);
+    setReassignToId('');
+    setFormError(null);
+  };
+
+  // Only higher levels can contain a location, and never one inside the location being edited
+  const parentOptions = locations.filter((location: LocationWithDetails) =>
+    locationLevels.indexOf(location.type) < locationLevels.indexOf(formData.type) &&
+    (!editingLocation || (location.id !== editingLocation.id && !location.ancestor_ids.includes(editingLocation.id)))
+  );
+
+  // The assets of a deleted location can go anywhere except below it
+  const reassignOptions = locations.filter((location: LocationWithDetails) =>
+    deletingLocation !== null && location.id !== deletingLocation.id && !location.ancestor_ids.includes(deletingLocation.id)
+  );
+
+  const filteredLocations = locations.filter((location: LocationWithDetails) =>
+    !searchTerm || location.path.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Locations</h2>
+          <p className="text-gray-600 mt-1">Sites, buildings, floors and rooms where assets are kept</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          {canWrite && (
+            <DialogTrigger asChild>
+              <Button onClick={openCreateDialog} className="bg-blue-600 hover:bg-blue-700">
+                ➕ Add Location
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>
+                {editingLocation ? 'Edit Location' : 'Create New Location'}
+              </DialogTitle>
+              <DialogDescription>
+                Sites stand on their own; buildings, floors and rooms sit inside a higher level.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div>
+                <Label htmlFor="location_name">Name *</Label>
+                <Input
+                  id="location_name"
+                  value={formData.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: CreateLocationInput) => ({ ...prev, name: e.target.value }))
+                  }
+                  placeholder="e.g. Room 101"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="location_type">Level</Label>
+                  <Select
+                    value={formData.type || 'site'}
+                    onValueChange={(value: string) =>
+                      setFormData((prev: CreateLocationInput) => ({
+                        ...prev,
+                        type: value as LocationType,
+                        parent_id: value === 'site' ? null : prev.parent_id
+                      }))
+                    }
+                  >
+                    <SelectTrigger id="location_type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locationLevels.map((level: LocationType) => (
+                        <SelectItem key={level} value={level} className="capitalize">
+                          {levelIcons[level]} {level}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="location_parent">Inside</Label>
+                  <Select
+                    value={formData.parent_id?.toString() || 'none'}
+                    onValueChange={(value: string) =>
+                      setFormData((prev: CreateLocationInput) => ({ ...prev, parent_id: value === 'none' ? null : parseInt(value) }))
+                    }
+                    disabled={formData.type === 'site'}
+                  >
+                    <SelectTrigger id="location_parent">
+                      <SelectValue placeholder="Select location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Nothing (sites only)</SelectItem>
+                      {parentOptions.map((location: LocationWithDetails) => (
+                        <SelectItem key={location.id} value={location.id.toString()}>
+                          {location.path}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="location_description">Description</Label>
+                <Textarea
+                  id="location_description"
+                  value={formData.description || ''}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                    setFormData((prev: CreateLocationInput) => ({ ...prev, description: e.target.value || null }))
+                  }
+                  placeholder="Enter location description (optional)"
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="bg-blue-600 hover:bg-blue-700">
+                  {editingLocation ? 'Update Location' : 'Create Location'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>Locations ({filteredLocations.length})</CardTitle>
+            <Input
+              className="max-w-xs"
+              placeholder="Search locations..."
+              value={searchTerm}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading locations...</div>
+          ) : filteredLocations.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              {locations.length === 0 ? 'No locations yet. Start by adding a site.' : 'No locations match your search.'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Path</TableHead>
+                    <TableHead>Assets</TableHead>
+                    {(canWrite || canDelete) && <TableHead>Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredLocations.map((location: LocationWithDetails) => (
+                    <TableRow key={location.id}>
+                      <TableCell>
+                        <div style={{ paddingLeft: `${location.ancestor_ids.length * 1.25}rem` }}>
+                          <span className="font-medium">{levelIcons[location.type]} {location.name}</span>
+                          {location.description && (
+                            <div className="text-sm text-gray-600 truncate max-w-xs">{location.description}</div>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="capitalize">{location.type}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{location.path}</TableCell>
+                      <TableCell>{location.asset_count}</TableCell>
+                      {(canWrite || canDelete) && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {canWrite && (
+                              <Button size="sm" variant="outline" onClick={() => openEditDialog(location)}>
+                                Edit
+                              </Button>
+                            )}
+                            {canDelete && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => openDeleteDialog(location)}
+                              >
+                                Delete
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete / Merge Dialog */}
+      <Dialog
+        open={deletingLocation !== null}
+        onOpenChange={(open: boolean) => {
+          if (!open) {
+            setDeletingLocation(null);
+            setReassignToId('');
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Location</DialogTitle>
+            <DialogDescription>
+              {deletingLocation && deletingLocation.asset_count > 0
+                ? `"${deletingLocation.name}" holds ${deletingLocation.asset_count} assets. Choose where they move to; this is also how duplicate locations are merged.`
+                : `Are you sure you want to delete "${deletingLocation?.name}"? This action cannot be undone.`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleDelete} className="space-y-4">
+            {formError && (
+              <Alert variant="destructive">
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+            {deletingLocation && deletingLocation.asset_count > 0 && (
+              <div>
+                <Label htmlFor="reassign_to">Move assets to *</Label>
+                <Select value={reassignToId} onValueChange={setReassignToId}>
+                  <SelectTrigger id="reassign_to">
+                    <SelectValue placeholder="Select location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reassignOptions.map((location: LocationWithDetails) => (
+                      <SelectItem key={location.id} value={location.id.toString()}>
+                        {location.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setDeletingLocation(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="bg-red-600 hover:bg-red-700"
+                disabled={deletingLocation !== null && deletingLocation.asset_count > 0 && !reassignToId}
+              >
+                Delete
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -5,13 +5,16 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
 interface LoginFormProps {
-  onLogin: (username: string, password: string) => Promise<void>;
+  onLogin: (username: string, password: string, totpCode?: string) => Promise<void>;
   isLoading: boolean;
+  onForgotPassword: () => void;
 }
 
-export function LoginForm({ onLogin, isLoading }: LoginFormProps) {
+export function LoginForm({ onLogin, isLoading, onForgotPassword }: LoginFormProps) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  const [needsTotpCode, setNeedsTotpCode] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -24,9 +27,24 @@ export function LoginForm({ onLogin, isLoading }: LoginFormProps) {
     }
 
     try {
-      await onLogin(username, password);
+      await onLogin(username, password, needsTotpCode ? totpCode.trim() : undefined);
     } catch (err) {
-      setError('Invalid username or password. Please try again.');
+      const message = err instanceof Error ? err.message : '';
+
+      // Correct password on an account with two-factor: ask for the code
+      if (/two-factor code required/i.test(message)) {
+        setNeedsTotpCode(true);
+        return;
+      }
+
+      if (/invalid two-factor code/i.test(message)) {
+        setError('Invalid authentication code. Please try again.');
+        setTotpCode('');
+        return;
+      }
+
+      // Lockout and throttling messages tell the user when to retry
+      setError(/try again/i.test(message) ? message : 'Invalid username or password. Please try again.');
     }
   };
 
@@ -46,7 +64,7 @@ export function LoginForm({ onLogin, isLoading }: LoginFormProps) {
           value={username}
           onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
           placeholder="Enter your username"
-          disabled={isLoading}
+          disabled={isLoading || needsTotpCode}
           required
         />
       </div>
@@ -59,14 +77,54 @@ export function LoginForm({ onLogin, isLoading }: LoginFormProps) {
           value={password}
           onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
           placeholder="Enter your password"
-          disabled={isLoading}
+          disabled={isLoading || needsTotpCode}
           required
         />
       </div>
 
+      {needsTotpCode && (
+        <div className="space-y-2">
+          <Label htmlFor="totp_code">Authentication Code</Label>
+          <Input
+            id="totp_code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={totpCode}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTotpCode(e.target.value)}
+            placeholder="6-digit code or recovery code"
+            disabled={isLoading}
+            autoFocus
+            required
+          />
+          <p className="text-xs text-gray-600">
+            Enter the code from your authenticator app, or one of your recovery codes.
+          </p>
+        </div>
+      )}
+
       <Button type="submit" className="w-full" disabled={isLoading}>
-        {isLoading ? 'Signing in...' : 'Sign In'}
+        {isLoading ? 'Signing in...' : needsTotpCode ? 'Verify' : 'Sign In'}
       </Button>
+
+      {needsTotpCode && (
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full"
+          onClick={() => { setNeedsTotpCode(false); setTotpCode(''); setError(null); }}
+        >
+          Use a different account
+        </Button>
+      )}
+
+      {!needsTotpCode && (
+        <div className="text-center">
+          <button type="button" className="text-sm text-blue-600 hover:underline" onClick={onForgotPassword}>
+            Forgot your password?
+          </button>
+        </div>
+      )}
       
       <div className="text-center text-sm text-gray-600 mt-4">
         <p>Demo credentials:</p>
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { trpc } from '@/utils/trpc';
+import type { Notification, NotificationKind } from '../../../server/src/schema';
+
+interface NotificationBellProps {
+  onNavigate: (tab: string) => void;
+}
+
+// New notifications show up within this long without reloading the page
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const kindIcons: Record<NotificationKind, string> = {
+  lending_overdue: '⚠️',
+  asset_needs_maintenance: '🔧'
+};
+
+export function NotificationBell({ onNavigate }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const data = await trpc.getNotifications.query({ limit: 15 });
+      setNotifications(data.notifications);
+      setUnreadCount(data.unread_count);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const timer = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadNotifications]);
+
+  const handleOpen = async (notification: Notification) => {
+    if (notification.link_tab) {
+      onNavigate(notification.link_tab);
+    }
+    if (!notification.read_at) {
+      try {
+        await trpc.markNotificationRead.mutate({ id: notification.id });
+        await loadNotifications();
+      } catch (error) {
+        console.error('Failed to mark notification read:', error);
+      }
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await trpc.markAllNotificationsRead.mutate();
+      await loadNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open: boolean) => open && loadNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label="Notifications">
+          🔔
+          {unreadCount > 0 && (
+            <span className="absolute -top-2 -right-2 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleMarkAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-gray-500">No notifications</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification: Notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className={`items-start gap-2 ${notification.read_at ? '' : 'bg-blue-50'}`}
+                onSelect={() => handleOpen(notification)}
+              >
+                <span>{kindIcons[notification.kind]}</span>
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm ${notification.read_at ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                    {notification.title}
+                  </div>
+                  <div className="text-xs text-gray-600 whitespace-normal">{notification.message}</div>
+                  <div className="text-xs text-gray-400 mt-0.5">{notification.created_at.toLocaleString()}</div>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
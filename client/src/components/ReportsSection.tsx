@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,14 +8,29 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { trpc } from '@/utils/trpc';
-import type { ReportData, GenerateReportInput } from '../../../server/src/schema';
+import type { ReportData, GenerateReportInput, LendingStatus, LocationType, LocationWithDetails } from '../../../server/src/schema';
 
-export function ReportsSection() {
+interface ReportsSectionProps {
+  canViewFinancial: boolean;
+}
+
+export function ReportsSection({ canViewFinancial }: ReportsSectionProps) {
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [reportType, setReportType] = useState<string>('inventory');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [lendingStatus, setLendingStatus] = useState<LendingStatus | 'all'>('all');
+  const [locations, setLocations] = useState<LocationWithDetails[]>([]);
+  const [locationId, setLocationId] = useState('all');
+  const [locationLevel, setLocationLevel] = useState<LocationType>('site');
+
+  // The transfer report filters by location too, so everyone who reads reports needs the tree
+  useEffect(() => {
+    trpc.getLocations.query()
+      .then(setLocations)
+      .catch((error: unknown) => console.error('Failed to load locations:', error));
+  }, []);
 
   const generateReport = useCallback(async (type: string) => {
     try {
@@ -27,14 +42,16 @@ export function ReportsSection() {
       switch (type) {
         case 'inventory':
           reportResponse = await trpc.generateInventoryReport.mutate({
-            report_type: 'inventory' as const
+            report_type: 'inventory' as const,
+            location_id: locationId === 'all' ? undefined : parseInt(locationId)
           });
           break;
         case 'lending':
           reportResponse = await trpc.generateLendingReport.mutate({
             report_type: 'lending' as const,
             start_date: startDate ? new Date(startDate) : undefined,
-            end_date: endDate ? new Date(endDate) : undefined
+            end_date: endDate ? new Date(endDate) : undefined,
+            status: lendingStatus === 'all' ? undefined : lendingStatus
           });
           break;
         case 'returns':
@@ -50,6 +67,21 @@ export function ReportsSection() {
         case 'category_summary':
           reportResponse = await trpc.generateCategorySummaryReport.mutate();
           break;
+        case 'location_summary':
+          reportResponse = await trpc.generateLocationSummaryReport.mutate({
+            report_type: 'location_summary' as const,
+            location_id: locationId === 'all' ? undefined : parseInt(locationId),
+            location_level: locationLevel
+          });
+          break;
+        case 'transfers':
+          reportResponse = await trpc.generateTransferReport.mutate({
+            report_type: 'transfers' as const,
+            start_date: startDate ? new Date(startDate) : undefined,
+            end_date: endDate ? new Date(endDate) : undefined,
+            location_id: locationId === 'all' ? undefined : parseInt(locationId)
+          });
+          break;
         default:
           throw new Error('Invalid report type');
       }
@@ -60,7 +92,7 @@ export function ReportsSection() {
     } finally {
       setIsGenerating(false);
     }
-  }, [startDate, endDate]);
+  }, [startDate, endDate, lendingStatus, locationId, locationLevel]);
 
   const exportToCSV = () => {
     if (!reportData || !reportData.data.length) return;
@@ -198,15 +230,17 @@ export function ReportsSection() {
             <CardDescription>Generate standard reports instantly</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
-            <Button
-              onClick={() => generateReport('inventory')}
-              disabled={isGenerating}
-              className="w-full justify-start"
-              variant="outline"
-            >
-              📦 Inventory Report
-              <span className="ml-auto text-xs text-gray-500">All assets overview</span>
-            </Button>
+            {canViewFinancial && (
+              <Button
+                onClick={() => generateReport('inventory')}
+                disabled={isGenerating}
+                className="w-full justify-start"
+                variant="outline"
+              >
+                📦 Inventory Report
+                <span className="ml-auto text-xs text-gray-500">All assets overview</span>
+              </Button>
+            )}
             <Button
               onClick={() => generateReport('overdue')}
               disabled={isGenerating}
@@ -216,15 +250,17 @@ export function ReportsSection() {
               ⚠️ Overdue Items
               <span className="ml-auto text-xs text-gray-500">Past due assets</span>
             </Button>
-            <Button
-              onClick={() => generateReport('category_summary')}
-              disabled={isGenerating}
-              className="w-full justify-start"
-              variant="outline"
-            >
-              📂 Category Summary
-              <span className="ml-auto text-xs text-gray-500">Assets by category</span>
-            </Button>
+            {canViewFinancial && (
+              <Button
+                onClick={() => generateReport('category_summary')}
+                disabled={isGenerating}
+                className="w-full justify-start"
+                variant="outline"
+              >
+                📂 Category Summary
+                <span className="ml-auto text-xs text-gray-500">Assets by category</span>
+              </Button>
+            )}
           </CardContent>
         </Card>
 
@@ -232,7 +268,7 @@ export function ReportsSection() {
         <Card>
           <CardHeader>
             <CardTitle>Custom Reports</CardTitle>
-            <CardDescription>Generate reports with date filters</CardDescription>
+            <CardDescription>Generate reports with date and location filters</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div>
@@ -244,28 +280,86 @@ export function ReportsSection() {
                 <SelectContent>
                   <SelectItem value="lending">Lending Activity</SelectItem>
                   <SelectItem value="returns">Return Activity</SelectItem>
+                  <SelectItem value="transfers">Transfer Activity</SelectItem>
+                  {canViewFinancial && <SelectItem value="inventory">Inventory by Location</SelectItem>}
+                  {canViewFinancial && <SelectItem value="location_summary">Location Summary</SelectItem>}
                 </SelectContent>
               </Select>
             </div>
 
-            <div className="grid grid-cols-2 gap-3">
+            {(reportType === 'inventory' || reportType === 'location_summary' || reportType === 'transfers') && (
               <div>
-                <Label>Start Date</Label>
-                <Input
-                  type="date"
-                  value={startDate}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
-                />
+                <Label>Location</Label>
+                <Select value={locationId || 'all'} onValueChange={setLocationId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All locations</SelectItem>
+                    {locations.map((location: LocationWithDetails) => (
+                      <SelectItem key={location.id} value={location.id.toString()}>
+                        {location.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
+            )}
+
+            {reportType === 'location_summary' && (
               <div>
-                <Label>End Date</Label>
-                <Input
-                  type="date"
-                  value={endDate}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
-                />
+                <Label>Group By</Label>
+                <Select value={locationLevel} onValueChange={(value: string) => setLocationLevel(value as LocationType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="site">Site</SelectItem>
+                    <SelectItem value="building">Building</SelectItem>
+                    <SelectItem value="floor">Floor</SelectItem>
+                    <SelectItem value="room">Room</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-            </div>
+            )}
+
+            {reportType === 'lending' && (
+              <div>
+                <Label>Lending Status</Label>
+                <Select value={lendingStatus} onValueChange={(value: string) => setLendingStatus(value as LendingStatus | 'all')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="overdue">Overdue</SelectItem>
+                    <SelectItem value="returned">Returned</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(reportType === 'lending' || reportType === 'returns' || reportType === 'transfers') && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Start Date</Label>
+                  <Input
+                    type="date"
+                    value={startDate}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label>End Date</Label>
+                  <Input
+                    type="date"
+                    value={endDate}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
 
             <Button
               onClick={() => generateReport(reportType)}
@@ -333,6 +427,10 @@ export function ReportsSection() {
               <h4 className="font-medium">📥 Return Activity</h4>
               <p className="text-sm text-gray-600">Asset return transactions with condition reports and processing details.</p>
             </div>
+            <div className="space-y-2">
+              <h4 className="font-medium">🚚 Transfer Activity</h4>
+              <p className="text-sm text-gray-600">Moves between locations with who requested, approved, shipped and received each one.</p>
+            </div>
             <div className="space-y-2">
               <h4 className="font-medium">⚠️ Overdue Items</h4>
               <p className="text-sm text-gray-600">Currently overdue assets with borrower contact information for follow-up.</p>
@@ -341,6 +439,10 @@ export function ReportsSection() {
               <h4 className="font-medium">📂 Category Summary</h4>
               <p className="text-sm text-gray-600">Asset distribution and utilization statistics grouped by categories.</p>
             </div>
+            <div className="space-y-2">
+              <h4 className="font-medium">📍 Location Summary</h4>
+              <p className="text-sm text-gray-600">Asset counts and values rolled up by site, building, floor or room.</p>
+            </div>
           </div>
         </CardContent>
       </Card>
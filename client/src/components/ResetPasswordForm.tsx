@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+
+interface ResetPasswordFormProps {
+  token: string;
+  onDone: () => void;
+}
+
+export function ResetPasswordForm({ token, onDone }: ResetPasswordFormProps) {
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isComplete, setIsComplete] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await trpc.completePasswordReset.mutate({ token, new_password: newPassword });
+      setIsComplete(true);
+    } catch (error) {
+      console.error('Failed to reset password:', error);
+      setError('This reset link is invalid or has expired. Please request a new one.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isComplete) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <AlertDescription>Your password has been changed. You can now sign in with it.</AlertDescription>
+        </Alert>
+        <Button className="w-full" onClick={onDone}>
+          Continue to Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="reset_new_password">New Password</Label>
+        <Input
+          id="reset_new_password"
+          type="password"
+          value={newPassword}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+          placeholder="At least 6 characters"
+          minLength={6}
+          disabled={isLoading}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="reset_confirm_password">Confirm New Password</Label>
+        <Input
+          id="reset_confirm_password"
+          type="password"
+          value={confirmPassword}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+          minLength={6}
+          disabled={isLoading}
+          required
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? 'Saving...' : 'Set New Password'}
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onDone}>
+        Back to Sign In
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,367 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type {
+  AssetWithCategory,
+  LocationWithDetails,
+  TransferAssetInput,
+  TransferStatus,
+  TransferWithDetails
+} from '../../../server/src/schema';
+
+interface TransferManagementProps {
+  canRequest: boolean;
+  canApprove: boolean;
+}
+
+const statusStyles: Record<TransferStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending approval', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Approved', className: 'bg-blue-100 text-blue-800' },
+  in_transit: { label: 'In transit', className: 'bg-purple-100 text-purple-800' },
+  received: { label: 'Received', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' }
+};
+
+type TransferAction = 'approve' | 'ship' | 'receive' | 'cancel';
+
+export function TransferManagement({ canRequest, canApprove }: TransferManagementProps) {
+  const [transfers, setTransfers] = useState<TransferWithDetails[]>([]);
+  const [assets, setAssets] = useState<AssetWithCategory[]>([]);
+  const [locations, setLocations] = useState<LocationWithDetails[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [filterStatus, setFilterStatus] = useState<string>('open');
+  const [error, setError] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState<TransferAssetInput>({
+    asset_id: 0,
+    to_location_id: 0,
+    notes: null
+  });
+
+  // Live updates reload in the background, without the loading placeholder
+  const loadTransfers = useCallback(async (showLoading: boolean = true) => {
+    try {
+      if (showLoading) setIsLoading(true);
+      const data = await trpc.getTransfers.query(
+        filterStatus === 'open' ? { open_only: true }
+          : filterStatus === 'all' ? {}
+          : { status: filterStatus as TransferStatus }
+      );
+      setTransfers(data);
+    } catch (error) {
+      console.error('Failed to load transfers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterStatus]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  // Every transfer step touches its asset, so asset changes cover other people's transfers too
+  useEffect(() => {
+    const subscription = trpc.onAssetChange.subscribe(undefined, {
+      onData: () => loadTransfers(false),
+      onError: (error: unknown) => console.error('Transfer live updates failed:', error)
+    });
+    return () => subscription.unsubscribe();
+  }, [loadTransfers]);
+
+  const openRequestDialog = async () => {
+    setError(null);
+    setFormData({ asset_id: 0, to_location_id: 0, notes: null });
+    setIsDialogOpen(true);
+    try {
+      const [assetsData, locationsData] = await Promise.all([
+        trpc.getAssets.query(),
+        trpc.getLocations.query()
+      ]);
+      setAssets(assetsData.filter((asset: AssetWithCategory) => asset.status !== 'lent' && asset.status !== 'retired'));
+      setLocations(locationsData);
+    } catch (error) {
+      console.error('Failed to load assets and locations:', error);
+    }
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await trpc.transferAsset.mutate(formData);
+      await loadTransfers();
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to request transfer:', error);
+      setError(error instanceof Error ? error.message : 'Failed to request transfer');
+    }
+  };
+
+  const handleAction = async (transfer: TransferWithDetails, action: TransferAction) => {
+    setError(null);
+    try {
+      switch (action) {
+        case 'approve':
+          await trpc.approveTransfer.mutate({ id: transfer.id });
+          break;
+        case 'ship':
+          await trpc.shipTransfer.mutate({ id: transfer.id });
+          break;
+        case 'receive':
+          await trpc.receiveTransfer.mutate({ id: transfer.id });
+          break;
+        case 'cancel':
+          await trpc.cancelTransfer.mutate({ id: transfer.id });
+          break;
+      }
+      await loadTransfers();
+    } catch (error) {
+      console.error(`Failed to ${action} transfer:`, error);
+      setError(error instanceof Error ? error.message : `Failed to ${action} transfer`);
+    }
+  };
+
+  const selectedAsset = assets.find((asset: AssetWithCategory) => asset.id === formData.asset_id);
+  const selectedFrom = locations.find((location: LocationWithDetails) => location.id === selectedAsset?.location_id);
+
+  // Who did a step and when, e.g. "jsmith · 3/14/2025"
+  const renderStep = (username: string | null, at: Date | null) => {
+    if (!at) return <span className="text-gray-400">—</span>;
+    return (
+      <div className="text-sm">
+        <div>{username}</div>
+        <div className="text-xs text-gray-500">{at.toLocaleDateString()}</div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Transfers</h2>
+          <p className="text-gray-600 mt-1">Move assets between locations with a record of who handled them</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          {canRequest && (
+            <DialogTrigger asChild>
+              <Button onClick={openRequestDialog} className="bg-blue-600 hover:bg-blue-700">
+                🚚 Request Transfer
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Request Transfer</DialogTitle>
+              <DialogDescription>
+                The asset stays where it is, and cannot be lent out, until the transfer is received or cancelled.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleRequest} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div>
+                <Label htmlFor="transfer_asset">Asset *</Label>
+                <Select
+                  value={formData.asset_id ? formData.asset_id.toString() : ''}
+                  onValueChange={(value: string) =>
+                    setFormData((prev: TransferAssetInput) => ({ ...prev, asset_id: parseInt(value) }))
+                  }
+                >
+                  <SelectTrigger id="transfer_asset">
+                    <SelectValue placeholder="Select an asset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assets.map((asset: AssetWithCategory) => (
+                      <SelectItem key={asset.id} value={asset.id.toString()}>
+                        {asset.name} {asset.serial_number && `- ${asset.serial_number}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedAsset && (
+                  <p className="text-xs text-gray-500 mt-1">Currently at {selectedFrom?.path || 'no location'}</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="transfer_to">To *</Label>
+                <Select
+                  value={formData.to_location_id ? formData.to_location_id.toString() : ''}
+                  onValueChange={(value: string) =>
+                    setFormData((prev: TransferAssetInput) => ({ ...prev, to_location_id: parseInt(value) }))
+                  }
+                >
+                  <SelectTrigger id="transfer_to">
+                    <SelectValue placeholder="Select a location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location: LocationWithDetails) => (
+                      <SelectItem key={location.id} value={location.id.toString()}>
+                        {location.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="transfer_notes">Notes</Label>
+                <Textarea
+                  id="transfer_notes"
+                  value={formData.notes || ''}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                    setFormData((prev: TransferAssetInput) => ({ ...prev, notes: e.target.value || null }))
+                  }
+                  placeholder="Why is it moving? (optional)"
+                  maxLength={500}
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-blue-600 hover:bg-blue-700"
+                  disabled={!formData.asset_id || !formData.to_location_id}
+                >
+                  Request Transfer
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {error && !isDialogOpen && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>Transfers ({transfers.length})</CardTitle>
+            <Select value={filterStatus || 'open'} onValueChange={setFilterStatus}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Under way</SelectItem>
+                <SelectItem value="all">All transfers</SelectItem>
+                {(Object.keys(statusStyles) as TransferStatus[]).map((status: TransferStatus) => (
+                  <SelectItem key={status} value={status}>
+                    {statusStyles[status].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading transfers...</div>
+          ) : transfers.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No transfers found.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Asset</TableHead>
+                    <TableHead>From → To</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Requested</TableHead>
+                    <TableHead>Approved</TableHead>
+                    <TableHead>Shipped</TableHead>
+                    <TableHead>Received</TableHead>
+                    {(canRequest || canApprove) && <TableHead>Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfers.map((transfer: TransferWithDetails) => (
+                    <TableRow key={transfer.id}>
+                      <TableCell>
+                        <div className="font-medium">{transfer.asset_name}</div>
+                        {transfer.asset_serial_number && (
+                          <div className="text-xs text-gray-500 font-mono">{transfer.asset_serial_number}</div>
+                        )}
+                        {transfer.notes && (
+                          <div className="text-sm text-gray-600 truncate max-w-xs">{transfer.notes}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="text-gray-600">{transfer.from_location_path || 'No location'}</div>
+                        <div>→ {transfer.to_location_path}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={statusStyles[transfer.status].className}>
+                          {statusStyles[transfer.status].label}
+                        </Badge>
+                        {transfer.status === 'cancelled' && (
+                          <div className="text-xs text-gray-500 mt-1">by {transfer.cancelled_by_username}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{renderStep(transfer.requested_by_username, transfer.requested_at)}</TableCell>
+                      <TableCell>{renderStep(transfer.approved_by_username, transfer.approved_at)}</TableCell>
+                      <TableCell>{renderStep(transfer.shipped_by_username, transfer.shipped_at)}</TableCell>
+                      <TableCell>{renderStep(transfer.received_by_username, transfer.received_at)}</TableCell>
+                      {(canRequest || canApprove) && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {canApprove && transfer.status === 'pending' && (
+                              <Button size="sm" variant="outline" onClick={() => handleAction(transfer, 'approve')}>
+                                Approve
+                              </Button>
+                            )}
+                            {canRequest && transfer.status === 'approved' && (
+                              <Button size="sm" variant="outline" onClick={() => handleAction(transfer, 'ship')}>
+                                Ship
+                              </Button>
+                            )}
+                            {canRequest && transfer.status === 'in_transit' && (
+                              <Button size="sm" variant="outline" onClick={() => handleAction(transfer, 'receive')}>
+                                Receive
+                              </Button>
+                            )}
+                            {canRequest && (transfer.status === 'pending' || transfer.status === 'approved') && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => handleAction(transfer, 'cancel')}
+                              >
+                                Cancel
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { TwoFactorSetup } from '@/components/TwoFactorSetup';
+
+interface TwoFactorDialogProps {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+export function TwoFactorDialog({ enabled, onChange }: TwoFactorDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    setPassword('');
+    setError(null);
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await trpc.disableTwoFactor.mutate({ password });
+      onChange(false);
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Failed to disable two-factor authentication:', error);
+      setError(error instanceof Error ? error.message : 'Failed to disable two-factor authentication');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          🛡️ 2FA
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            {enabled ? 'Two-factor authentication is enabled for your account.' : 'Require a one-time code when you sign in.'}
+          </DialogDescription>
+        </DialogHeader>
+        {enabled ? (
+          <form onSubmit={handleDisable} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div>
+              <Label htmlFor="disable_password">Confirm your password to disable</Label>
+              <Input
+                id="disable_password"
+                type="password"
+                value={password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-red-600 hover:bg-red-700">
+                Disable
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <TwoFactorSetup
+            onEnabled={() => {
+              onChange(true);
+              handleOpenChange(false);
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { TwoFactorEnrollment } from '../../../server/src/schema';
+
+interface TwoFactorSetupProps {
+  onEnabled: () => void;
+}
+
+// Enrollment walks through three steps: start, confirm a code, save the recovery codes
+export function TwoFactorSetup({ onEnabled }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleStart = async () => {
+    setError(null);
+    try {
+      setIsLoading(true);
+      const result = await trpc.beginTwoFactorEnrollment.mutate();
+      setEnrollment(result);
+    } catch (error) {
+      console.error('Failed to start two-factor enrollment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to start enrollment');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      setIsLoading(true);
+      const result = await trpc.confirmTwoFactorEnrollment.mutate({ code: code.trim() });
+      setRecoveryCodes(result.recovery_codes);
+    } catch (error) {
+      console.error('Failed to confirm two-factor enrollment:', error);
+      setError('The code did not match. Check your device clock and try again.');
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <AlertDescription>
+            Two-factor authentication is enabled. Store these recovery codes somewhere safe:
+            each one can be used once if you lose access to your authenticator.
+          </AlertDescription>
+        </Alert>
+        <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm">
+          {recoveryCodes.map((recoveryCode: string) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={onEnabled}>I have saved my codes</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <p className="text-sm text-gray-600">
+          Protect your account with a one-time code from an authenticator app such as
+          Google Authenticator, Microsoft Authenticator or 1Password.
+        </p>
+        <Button onClick={handleStart} disabled={isLoading}>
+          {isLoading ? 'Starting...' : 'Set Up Two-Factor Authentication'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2 text-sm">
+        <p>
+          Add this account to your authenticator app. On a phone, open the setup link;
+          otherwise enter the secret key manually.
+        </p>
+        <a href={enrollment.provisioning_uri} className="text-blue-600 underline break-all">
+          Open in authenticator app
+        </a>
+        <div>
+          <Label>Secret key</Label>
+          <p className="font-mono text-sm break-all rounded-md bg-gray-50 p-2">
+            {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="enrollment_code">Authentication Code</Label>
+        <Input
+          id="enrollment_code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+          placeholder="6-digit code"
+          pattern="\d{6}"
+          required
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? 'Verifying...' : 'Verify and Enable'}
+        </Button>
+      </div>
+    </form>
+  );
+}
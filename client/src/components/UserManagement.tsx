@@ -0,0 +1,630 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { PublicUser, CreateUserInput, Session, UserRole, LoginAttempt } from '../../../server/src/schema';
+
+interface UserManagementProps {
+  currentUserId: number;
+  canCreate: boolean;
+  canManage: boolean;
+  canManageSessions: boolean;
+  canViewLoginHistory: boolean;
+}
+
+export function UserManagement({ currentUserId, canCreate, canManage, canManageSessions, canViewLoginHistory }: UserManagementProps) {
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [passwordUser, setPasswordUser] = useState<PublicUser | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [sessionsUser, setSessionsUser] = useState<PublicUser | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyUser, setHistoryUser] = useState<PublicUser | null>(null);
+  const [historyFilter, setHistoryFilter] = useState<string>('all');
+  const [loginHistory, setLoginHistory] = useState<LoginAttempt[]>([]);
+
+  const [formData, setFormData] = useState<CreateUserInput>({
+    username: '',
+    email: '',
+    password: '',
+    role: 'staff'
+  });
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await trpc.getUsers.query();
+      setUsers(data);
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  // Run an admin action and surface its error message
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await loadUsers();
+      return true;
+    } catch (error) {
+      console.error('User action failed:', error);
+      setError(error instanceof Error ? error.message : 'Action failed');
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await runAction(async () => {
+      if (editingUser) {
+        await trpc.updateUser.mutate({
+          id: editingUser.id,
+          username: formData.username,
+          email: formData.email
+        });
+        if (formData.role !== editingUser.role) {
+          await trpc.changeUserRole.mutate({ id: editingUser.id, role: formData.role });
+        }
+      } else {
+        await trpc.createUser.mutate(formData);
+      }
+    });
+
+    if (saved) {
+      resetForm();
+      setIsDialogOpen(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordUser) return;
+
+    const saved = await runAction(() =>
+      trpc.resetUserPassword.mutate({ id: passwordUser.id, new_password: newPassword })
+    );
+
+    if (saved) {
+      setPasswordUser(null);
+      setNewPassword('');
+    }
+  };
+
+  const openSessionsDialog = async (user: PublicUser) => {
+    setSessionsUser(user);
+    try {
+      const data = await trpc.getUserSessions.query({ userId: user.id });
+      setSessions(data);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setSessions([]);
+    }
+  };
+
+  const handleRevokeSession = async (id: number) => {
+    if (!sessionsUser) return;
+    try {
+      await trpc.revokeSession.mutate({ id });
+      const data = await trpc.getUserSessions.query({ userId: sessionsUser.id });
+      setSessions(data);
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    }
+  };
+
+  const loadLoginHistory = useCallback(async () => {
+    try {
+      const data = await trpc.getLoginHistory.query({
+        user_id: historyUser?.id,
+        success: historyFilter === 'all' ? undefined : historyFilter === 'success'
+      });
+      setLoginHistory(data);
+    } catch (error) {
+      console.error('Failed to load login history:', error);
+    }
+  }, [historyUser, historyFilter]);
+
+  useEffect(() => {
+    if (isHistoryOpen) {
+      loadLoginHistory();
+    }
+  }, [isHistoryOpen, loadLoginHistory]);
+
+  const openHistoryDialog = (user: PublicUser | null) => {
+    setHistoryUser(user);
+    setHistoryFilter('all');
+    setIsHistoryOpen(true);
+  };
+
+  const isLocked = (user: PublicUser) => user.locked_until !== null && user.locked_until > new Date();
+
+  const resetForm = () => {
+    setFormData({
+      username: '',
+      email: '',
+      password: '',
+      role: 'staff'
+    });
+    setEditingUser(null);
+  };
+
+  const openCreateDialog = () => {
+    resetForm();
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (user: PublicUser) => {
+    setEditingUser(user);
+    setFormData({
+      username: user.username,
+      email: user.email,
+      password: '',
+      role: user.role
+    });
+    setIsDialogOpen(true);
+  };
+
+  const filteredUsers = users.filter((user: PublicUser) =>
+    !searchTerm ||
+    user.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    user.email.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const getRoleColor = (role: string) => {
+    switch (role) {
+      case 'admin': return 'bg-purple-100 text-purple-800';
+      case 'manager': return 'bg-blue-100 text-blue-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">👥 User Management</h2>
+          <p className="text-gray-600 mt-1">Manage staff accounts, roles and access</p>
+        </div>
+        <div className="flex gap-3">
+          {canViewLoginHistory && (
+            <Button variant="outline" onClick={() => openHistoryDialog(null)}>
+              🔐 Login History
+            </Button>
+          )}
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            {canCreate && (
+              <DialogTrigger asChild>
+                <Button onClick={openCreateDialog} className="bg-purple-600 hover:bg-purple-700">
+                  ➕ Add User
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>{editingUser ? 'Edit User' : 'Create New User'}</DialogTitle>
+                <DialogDescription>
+                  {editingUser ? 'Update the account details and role.' : 'Create an account for a new staff member.'}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="username">Username *</Label>
+                  <Input
+                    id="username"
+                    value={formData.username}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateUserInput) => ({ ...prev, username: e.target.value }))
+                    }
+                    placeholder="Enter username"
+                    minLength={3}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="email">Email *</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateUserInput) => ({ ...prev, email: e.target.value }))
+                    }
+                    placeholder="user@example.com"
+                    required
+                  />
+                </div>
+
+                {!editingUser && (
+                  <div>
+                    <Label htmlFor="password">Password *</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      value={formData.password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateUserInput) => ({ ...prev, password: e.target.value }))
+                      }
+                      placeholder="At least 6 characters"
+                      minLength={6}
+                      required
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="role">Role</Label>
+                  <Select value={formData.role || 'staff'} onValueChange={(value: string) =>
+                    setFormData((prev: CreateUserInput) => ({ ...prev, role: value as UserRole }))
+                  }>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="staff">Staff</SelectItem>
+                      <SelectItem value="manager">Manager</SelectItem>
+                      <SelectItem value="admin">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex justify-end gap-3 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="bg-purple-600 hover:bg-purple-700">
+                    {editingUser ? 'Update User' : 'Create User'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Reset Password Dialog */}
+      <Dialog open={passwordUser !== null} onOpenChange={(open: boolean) => !open && setPasswordUser(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for "{passwordUser?.username}". All of their sessions will be signed out.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleResetPassword} className="space-y-4">
+            <div>
+              <Label htmlFor="new_password">New Password *</Label>
+              <Input
+                id="new_password"
+                type="password"
+                value={newPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+                placeholder="At least 6 characters"
+                minLength={6}
+                required
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => setPasswordUser(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-purple-600 hover:bg-purple-700">
+                Reset Password
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Sessions Dialog */}
+      <Dialog open={sessionsUser !== null} onOpenChange={(open: boolean) => !open && setSessionsUser(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Active Sessions</DialogTitle>
+            <DialogDescription>
+              Devices currently signed in as "{sessionsUser?.username}".
+            </DialogDescription>
+          </DialogHeader>
+          {sessions.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">No active sessions</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Signed In</TableHead>
+                  <TableHead>Last Refreshed</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session: Session) => (
+                  <TableRow key={session.id}>
+                    <TableCell>{session.created_at.toLocaleString()}</TableCell>
+                    <TableCell>{session.last_refreshed_at.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{session.ip_address || '-'}</div>
+                      <div className="text-xs text-gray-600 truncate max-w-xs">{session.user_agent}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => handleRevokeSession(session.id)}
+                      >
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Login History Dialog */}
+      <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Login History</DialogTitle>
+            <DialogDescription>
+              {historyUser ? `Recent sign-in attempts for "${historyUser.username}".` : 'Recent sign-in attempts for all accounts.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="w-48">
+            <Select value={historyFilter || 'all'} onValueChange={setHistoryFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All attempts</SelectItem>
+                <SelectItem value="success">Successful</SelectItem>
+                <SelectItem value="failure">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {loginHistory.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">No login attempts recorded</div>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Client</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loginHistory.map((attempt: LoginAttempt) => (
+                    <TableRow key={attempt.id}>
+                      <TableCell>{attempt.created_at.toLocaleString()}</TableCell>
+                      <TableCell className="font-medium">{attempt.username}</TableCell>
+                      <TableCell>
+                        {attempt.success ? (
+                          <Badge className="bg-green-100 text-green-800">success</Badge>
+                        ) : (
+                          <Badge className="bg-red-100 text-red-800">
+                            {attempt.failure_reason?.replace(/_/g, ' ') ?? 'failed'}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{attempt.ip_address || '-'}</div>
+                        <div className="text-xs text-gray-600 truncate max-w-xs">{attempt.user_agent}</div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Search */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Search Users</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <Label>Search by username or email</Label>
+              <Input
+                placeholder="Search users..."
+                value={searchTerm}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={() => setSearchTerm('')}>
+                Clear
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Users Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Users ({filteredUsers.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading users...</div>
+          ) : filteredUsers.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No users found.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created</TableHead>
+                    {(canManage || canManageSessions || canViewLoginHistory) && <TableHead>Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredUsers.map((user: PublicUser) => (
+                    <TableRow key={user.id} className={user.is_active ? '' : 'opacity-60'}>
+                      <TableCell className="font-medium">
+                        {user.username}
+                        {user.id === currentUserId && <span className="text-xs text-gray-500"> (you)</span>}
+                      </TableCell>
+                      <TableCell>{user.email}</TableCell>
+                      <TableCell>
+                        <Badge className={getRoleColor(user.role)}>{user.role}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={user.is_active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                          {user.is_active ? 'active' : 'deactivated'}
+                        </Badge>
+                        {isLocked(user) && (
+                          <Badge className="bg-orange-100 text-orange-800 ml-1">locked</Badge>
+                        )}
+                        {user.totp_enabled && (
+                          <Badge className="bg-blue-100 text-blue-800 ml-1">2FA</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{user.created_at.toLocaleDateString()}</TableCell>
+                      {(canManage || canManageSessions || canViewLoginHistory) && (
+                        <TableCell>
+                          <div className="flex flex-wrap gap-2">
+                            {canManage && (
+                              <>
+                                <Button size="sm" variant="outline" onClick={() => openEditDialog(user)}>
+                                  Edit
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={() => setPasswordUser(user)}>
+                                  Reset Password
+                                </Button>
+                              </>
+                            )}
+                            {canManage && isLocked(user) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-orange-700 hover:text-orange-800"
+                                onClick={() => runAction(() => trpc.unlockUser.mutate({ id: user.id }))}
+                              >
+                                Unlock
+                              </Button>
+                            )}
+                            {canManage && user.totp_enabled && user.id !== currentUserId && (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button size="sm" variant="outline">
+                                    Reset 2FA
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      "{user.username}" will be able to sign in with only a password until they enroll again.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => runAction(() => trpc.resetUserTwoFactor.mutate({ id: user.id }))}>
+                                      Reset
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                            {canManageSessions && (
+                              <Button size="sm" variant="outline" onClick={() => openSessionsDialog(user)}>
+                                Sessions
+                              </Button>
+                            )}
+                            {canViewLoginHistory && (
+                              <Button size="sm" variant="outline" onClick={() => openHistoryDialog(user)}>
+                                History
+                              </Button>
+                            )}
+                            {canManage && user.id !== currentUserId && (
+                              user.is_active ? (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
+                                      Deactivate
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Deactivate User</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        "{user.username}" will be signed out and unable to log in until reactivated.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => runAction(() => trpc.deactivateUser.mutate({ id: user.id }))}
+                                        className="bg-red-600 hover:bg-red-700"
+                                      >
+                                        Deactivate
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="text-green-700 hover:text-green-800"
+                                  onClick={() => runAction(() => trpc.reactivateUser.mutate({ id: user.id }))}
+                                >
+                                  Reactivate
+                                </Button>
+                              )
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
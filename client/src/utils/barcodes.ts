@@ -0,0 +1,78 @@
+import {
+  BinaryBitmap,
+  ChecksumException,
+  Code128Reader,
+  DecodeHintType,
+  FormatException,
+  GlobalHistogramBinarizer,
+  HybridBinarizer,
+  NotFoundException,
+  QRCodeReader,
+  RGBLuminanceSource,
+  type Binarizer,
+  type LuminanceSource,
+  type Reader
+} from '@zxing/library';
+
+// Reads asset tag barcodes out of camera frames for browsers without the
+// BarcodeDetector API, using the ZXing decoders for the two kinds of label the
+// app prints. Trying harder looks along every row rather than a sample of them.
+const hints = new Map<DecodeHintType, unknown>([[DecodeHintType.TRY_HARDER, true]]);
+const qrReader: Reader = new QRCodeReader();
+const code128Reader: Reader = new Code128Reader();
+
+// Frames are split into dark and light pixels by the brightness around each
+// one, which copes with shadows, and failing that by one level for the whole
+// frame, which copes better with grainy pictures
+const binarizers: ((source: LuminanceSource) => Binarizer)[] = [
+  source => new HybridBinarizer(source),
+  source => new GlobalHistogramBinarizer(source)
+];
+
+// ZXing reads one byte of brightness per pixel
+const toGrey = (frame: ImageData): Uint8ClampedArray => {
+  const { width, height, data } = frame;
+  const grey = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return grey;
+};
+
+// The frame turned a quarter turn, so barcodes held upright read across it
+const turn = (grey: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const turned = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      turned[x * height + (height - 1 - y)] = grey[y * width + x];
+    }
+  }
+  return turned;
+};
+
+const decodeWith = (reader: Reader, source: LuminanceSource): string | null => {
+  for (const binarize of binarizers) {
+    try {
+      return reader.decode(new BinaryBitmap(binarize(source)), hints).getText();
+    } catch (error) {
+      // No code in view, or one too blurred to read, is the usual case
+      if (!(error instanceof NotFoundException || error instanceof ChecksumException || error instanceof FormatException)) {
+        throw error;
+      }
+    }
+  }
+  return null;
+};
+
+// The text of the first QR code or Code 128 barcode found in the frame. QR
+// codes are found at any angle; Code 128 is read along rows, so the frame is
+// read again turned on its side.
+export const decodeBarcode = (frame: ImageData): string | null => {
+  const { width, height } = frame;
+  const grey = toGrey(frame);
+  const source = new RGBLuminanceSource(grey, width, height);
+
+  return decodeWith(qrReader, source)
+    ?? decodeWith(code128Reader, source)
+    ?? decodeWith(code128Reader, new RGBLuminanceSource(turn(grey, width, height), height, width));
+};
@@ -1,10 +1,34 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, createWSClient, httpBatchLink, loggerLink, splitLink, wsLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// Session token returned by `login`, attached to every request
+let authToken: string | null = null;
+
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+};
+
+// Subscriptions (live updates) use a WebSocket to the same endpoint. It is only
+// open while something is subscribed, and sends the token when it connects.
+// The trailing slash matters: the Caddy proxy only forwards paths under /api/
+const wsClient = createWSClient({
+  url: `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/api/`,
+  connectionParams: () => (authToken ? { token: authToken } : {}),
+  lazy: { enabled: true, closeMs: 0 },
+});
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: wsLink({ client: wsClient, transformer: superjson }),
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        headers: () => (authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
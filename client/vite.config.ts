@@ -14,6 +14,8 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:2022',
         changeOrigin: true,
+        // Live updates arrive over a WebSocket on the same path
+        ws: true,
         rewrite: (path) => path.replace(/^\/api/, ''),
       },
     },
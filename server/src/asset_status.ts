@@ -0,0 +1,34 @@
+import { type AssetStatus } from './schema';
+
+// The ways an asset's status can change: editing the asset, lending it out,
+// returning it, or an administrator reinstating a retired asset
+export type AssetStatusTransition = 'update' | 'lending' | 'return' | 'reinstatement';
+
+// Allowed status changes and the only way each one may happen. Anything not
+// listed is refused; 'retired' is terminal apart from reinstatement.
+export const assetStatusTransitions: Record<AssetStatus, Partial<Record<AssetStatus, AssetStatusTransition>>> = {
+  available: { lent: 'lending', maintenance: 'update', damaged: 'update', retired: 'update' },
+  lent: { available: 'return', maintenance: 'return', damaged: 'return' },
+  maintenance: { available: 'update', damaged: 'update', retired: 'update' },
+  damaged: { available: 'update', maintenance: 'update', retired: 'update' },
+  retired: { available: 'reinstatement' }
+};
+
+const transitionHints: Record<AssetStatusTransition, string> = {
+  update: 'by editing the asset',
+  lending: 'by lending it out',
+  return: 'by returning it',
+  reinstatement: 'when an administrator reinstates it'
+};
+
+export const canTransitionAssetStatus = (from: AssetStatus, to: AssetStatus, via: AssetStatusTransition): boolean => {
+  return assetStatusTransitions[from][to] === via;
+};
+
+// Explains why a refused status change is not possible, and how to make it if it can be made
+export const assetStatusTransitionError = (from: AssetStatus, to: AssetStatus): string => {
+  const via = assetStatusTransitions[from][to];
+  return via
+    ? `Asset status can only change from ${from} to ${to} ${transitionHints[via]}`
+    : `Asset status cannot change from ${from} to ${to}`;
+};
@@ -0,0 +1,13 @@
+// Asset tags are a prefix, set per category, and a number counted separately
+// for each prefix, e.g. IT-000123. Categories without a prefix use the default.
+export const DEFAULT_TAG_PREFIX = (process.env['ASSET_TAG_PREFIX'] || 'AST').toUpperCase();
+const TAG_DIGITS = parseInt(process.env['ASSET_TAG_DIGITS'] || '') || 6;
+
+export const formatAssetTag = (prefix: string | null, number: number): string => {
+  return `${prefix || DEFAULT_TAG_PREFIX}-${String(number).padStart(TAG_DIGITS, '0')}`;
+};
+
+// Scanners and people add stray spaces and lower case; tags are stored trimmed and upper case
+export const normalizeAssetTag = (tag: string): string => {
+  return tag.trim().toUpperCase();
+};
@@ -0,0 +1,147 @@
+// Minimal cron expressions for the job scheduler: five fields (minute, hour,
+// day of month, month, day of week) with *, lists, ranges and steps, plus
+// the usual @hourly/@daily/@weekly/@monthly shorthands. Times are server local time.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted, and only the restricted one otherwise
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const shorthands: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const fieldRanges: { name: string; min: number; max: number }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is accepted as another way of writing Sunday
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// Give up looking for the next run after this many years (e.g. "0 0 30 2 *" never runs)
+const MAX_LOOKAHEAD_YEARS = 5;
+
+const parseNumber = (value: string, field: { name: string; min: number; max: number }): number => {
+  const number = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(number) || number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} "${value}", expected ${field.min}-${field.max}`);
+  }
+  return number;
+};
+
+const parseField = (expression: string, field: { name: string; min: number; max: number }): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of expression.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { name: `${field.name} step`, min: 1, max: field.max });
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseNumber(from, field);
+      end = parseNumber(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseNumber(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export const parseCronExpression = (expression: string): CronSchedule => {
+  const normalized = shorthands[expression.trim()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}", expected 5 fields`);
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, fieldRanges[index]));
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      anyDayOfMonth: fields[2] === '*',
+      anyDayOfWeek: fields[4] === '*'
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${(error as Error).message}`);
+  }
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+};
+
+// Whether the schedule fires in the minute containing the given date
+export const cronMatches = (schedule: CronSchedule, date: Date): boolean => {
+  return schedule.minutes.has(date.getMinutes())
+    && schedule.hours.has(date.getHours())
+    && schedule.months.has(date.getMonth() + 1)
+    && matchesDay(schedule, date);
+};
+
+// The first minute strictly after the given date at which the schedule fires
+export const nextCronRun = (schedule: CronSchedule, after: Date): Date | null => {
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_LOOKAHEAD_YEARS);
+
+  // Skip whole months, days and hours that cannot match before stepping by minutes
+  while (next < limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+
+  return null;
+};
@@ -1,10 +1,17 @@
-import { serial, text, pgTable, timestamp, numeric, integer, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, numeric, integer, pgEnum, boolean, jsonb, unique, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['admin', 'manager', 'staff']);
 export const assetStatusEnum = pgEnum('asset_status', ['available', 'lent', 'maintenance', 'damaged', 'retired']);
 export const lendingStatusEnum = pgEnum('lending_status', ['active', 'returned', 'overdue']);
+export const loginFailureReasonEnum = pgEnum('login_failure_reason', ['invalid_credentials', 'invalid_two_factor_code', 'account_locked', 'too_many_attempts', 'account_deactivated']);
+export const auditEntityTypeEnum = pgEnum('audit_entity_type', ['user', 'session', 'api_key', 'category', 'location', 'asset', 'lending', 'transfer', 'email_template', 'job']);
+export const jobRunStatusEnum = pgEnum('job_run_status', ['running', 'succeeded', 'failed']);
+export const lendingNoticeKindEnum = pgEnum('lending_notice_kind', ['due_soon', 'due_today', 'overdue']);
+export const locationTypeEnum = pgEnum('location_type', ['site', 'building', 'floor', 'room']);
+export const transferStatusEnum = pgEnum('transfer_status', ['pending', 'approved', 'in_transit', 'received', 'cancelled']);
+export const notificationKindEnum = pgEnum('notification_kind', ['lending_overdue', 'asset_needs_maintenance']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -13,15 +20,146 @@ export const usersTable = pgTable('users', {
   email: text('email').notNull().unique(),
   password_hash: text('password_hash').notNull(),
   role: userRoleEnum('role').notNull().default('staff'),
+  is_active: boolean('is_active').notNull().default(true),
+  failed_login_attempts: integer('failed_login_attempts').notNull().default(0),
+  last_failed_login_at: timestamp('last_failed_login_at'), // Nullable by default
+  locked_until: timestamp('locked_until'), // Nullable by default
+  totp_enabled: boolean('totp_enabled').notNull().default(false),
+  totp_secret: text('totp_secret'), // Nullable by default
+  totp_last_used_step: integer('totp_last_used_step'), // Nullable by default
+  totp_recovery_codes: text('totp_recovery_codes').array(), // Nullable by default, sha256 hashes
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Sessions table (one row per login, refresh token stored hashed)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  refresh_token_hash: text('refresh_token_hash').notNull().unique(),
+  ip_address: text('ip_address'), // Nullable by default
+  user_agent: text('user_agent'), // Nullable by default
+  expires_at: timestamp('expires_at').notNull(),
+  last_refreshed_at: timestamp('last_refreshed_at').defaultNow().notNull(),
+  revoked_at: timestamp('revoked_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Login attempts table (login history, also used for per-IP throttling)
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  username: text('username').notNull(),
+  user_id: integer('user_id').references(() => usersTable.id), // Nullable by default
+  ip_address: text('ip_address'), // Nullable by default
+  user_agent: text('user_agent'), // Nullable by default
+  success: boolean('success').notNull(),
+  failure_reason: loginFailureReasonEnum('failure_reason'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// API keys table (personal keys for scripts, key stored hashed)
+export const apiKeysTable = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  name: text('name').notNull(),
+  prefix: text('prefix').notNull(),
+  key_hash: text('key_hash').notNull().unique(),
+  capabilities: text('capabilities').array().notNull(),
+  expires_at: timestamp('expires_at'), // Nullable by default
+  last_used_at: timestamp('last_used_at'), // Nullable by default
+  revoked_at: timestamp('revoked_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Password reset tokens table (single use, token stored hashed)
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  token_hash: text('token_hash').notNull().unique(),
+  ip_address: text('ip_address'), // Nullable by default
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Mail outbox table (messages written by the default local mail transport)
+export const mailOutboxTable = pgTable('mail_outbox', {
+  id: serial('id').primaryKey(),
+  recipient: text('recipient').notNull(),
+  cc: text('cc').array(), // Nullable by default
+  subject: text('subject').notNull(),
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Audit events table (append-only, one row per successful mutation)
+export const auditEventsTable = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  actor_user_id: integer('actor_user_id').references(() => usersTable.id), // Nullable by default
+  api_key_id: integer('api_key_id').references(() => apiKeysTable.id), // Nullable by default, set when acting through an API key
+  procedure: text('procedure').notNull(),
+  entity_type: auditEntityTypeEnum('entity_type').notNull(),
+  entity_id: integer('entity_id'), // Nullable by default, not a foreign key so deletions stay traceable
+  before: jsonb('before').$type<Record<string, unknown>>(), // Nullable by default, changed fields only
+  after: jsonb('after').$type<Record<string, unknown>>(), // Nullable by default, changed fields only
+  ip_address: text('ip_address'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Jobs table (one row per scheduled job, also used as a lock between server instances)
+export const jobsTable = pgTable('jobs', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  schedule: text('schedule').notNull(), // Cron expression
+  locked_by: text('locked_by'), // Nullable by default, the server instance running the job
+  locked_until: timestamp('locked_until'), // Nullable by default, lock expiry in case an instance dies mid-run
+  last_started_at: timestamp('last_started_at'), // Nullable by default
+  last_finished_at: timestamp('last_finished_at'), // Nullable by default
+  last_duration_ms: integer('last_duration_ms'), // Nullable by default
+  last_status: jobRunStatusEnum('last_status'), // Nullable by default
+  last_error: text('last_error'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Job runs table (history of every scheduled or manually triggered run)
+export const jobRunsTable = pgTable('job_runs', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull().references(() => jobsTable.id),
+  status: jobRunStatusEnum('status').notNull(),
+  triggered_by_user_id: integer('triggered_by_user_id').references(() => usersTable.id), // Nullable by default, null for scheduled runs
+  started_at: timestamp('started_at').notNull(),
+  finished_at: timestamp('finished_at'), // Nullable by default
+  duration_ms: integer('duration_ms'), // Nullable by default
+  result: jsonb('result').$type<Record<string, unknown>>(), // Nullable by default, whatever the job reports back
+  error: text('error'), // Nullable by default
+});
+
 // Categories table
 export const categoriesTable = pgTable('categories', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
   description: text('description'), // Nullable by default
+  tag_prefix: text('tag_prefix'), // Nullable by default, assets then get the default prefix
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Asset tag sequences table (the last number handed out for each tag prefix)
+export const assetTagSequencesTable = pgTable('asset_tag_sequences', {
+  prefix: text('prefix').primaryKey(),
+  last_number: integer('last_number').notNull().default(0),
+});
+
+// Locations table (site → building → floor → room; each level sits under a higher one)
+export const locationsTable = pgTable('locations', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  type: locationTypeEnum('type').notNull(),
+  parent_id: integer('parent_id').references((): AnyPgColumn => locationsTable.id), // Nullable by default, null for sites
+  description: text('description'), // Nullable by default
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -31,17 +169,35 @@ export const assetsTable = pgTable('assets', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
   description: text('description'), // Nullable by default
+  // e.g. IT-000123. Nullable only for assets from before tags, which
+  // assignMissingAssetTags tags at startup
+  asset_tag: text('asset_tag').unique(),
   category_id: integer('category_id').notNull().references(() => categoriesTable.id),
   serial_number: text('serial_number'), // Nullable by default
   purchase_date: timestamp('purchase_date'), // Nullable by default
   purchase_price: numeric('purchase_price', { precision: 10, scale: 2 }), // Nullable by default
   current_value: numeric('current_value', { precision: 10, scale: 2 }), // Nullable by default
   status: assetStatusEnum('status').notNull().default('available'),
-  location: text('location'), // Nullable by default
+  location_id: integer('location_id').references(() => locationsTable.id), // Nullable by default
+  // Free-text location from before the locations table; moved into location_id
+  // by importLegacyLocations and cleared, kept only so existing values survive
+  legacy_location: text('location'), // Nullable by default
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Asset status changes table (every status transition, with who made it and why)
+export const assetStatusChangesTable = pgTable('asset_status_changes', {
+  id: serial('id').primaryKey(),
+  asset_id: integer('asset_id').notNull().references(() => assetsTable.id, { onDelete: 'cascade' }),
+  from_status: assetStatusEnum('from_status').notNull(),
+  to_status: assetStatusEnum('to_status').notNull(),
+  reason: text('reason'), // Nullable by default
+  changed_by_user_id: integer('changed_by_user_id').notNull().references(() => usersTable.id),
+  lending_id: integer('lending_id').references(() => lendingsTable.id), // Nullable by default, set for lendings and returns
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Lendings table
 export const lendingsTable = pgTable('lendings', {
   id: serial('id').primaryKey(),
@@ -61,25 +217,188 @@ export const lendingsTable = pgTable('lendings', {
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Transfers table (moves of an asset between locations: requested, approved,
+// shipped and received, with who did each step; the asset's location only
+// changes when the transfer is received)
+export const transfersTable = pgTable('transfers', {
+  id: serial('id').primaryKey(),
+  asset_id: integer('asset_id').notNull().references(() => assetsTable.id),
+  from_location_id: integer('from_location_id').references(() => locationsTable.id), // Nullable by default, null when the asset had no location
+  to_location_id: integer('to_location_id').notNull().references(() => locationsTable.id),
+  status: transferStatusEnum('status').notNull().default('pending'),
+  notes: text('notes'), // Nullable by default
+  requested_by_user_id: integer('requested_by_user_id').notNull().references(() => usersTable.id),
+  requested_at: timestamp('requested_at').defaultNow().notNull(),
+  approved_by_user_id: integer('approved_by_user_id').references(() => usersTable.id), // Nullable by default
+  approved_at: timestamp('approved_at'), // Nullable by default
+  shipped_by_user_id: integer('shipped_by_user_id').references(() => usersTable.id), // Nullable by default
+  shipped_at: timestamp('shipped_at'), // Nullable by default
+  received_by_user_id: integer('received_by_user_id').references(() => usersTable.id), // Nullable by default
+  received_at: timestamp('received_at'), // Nullable by default
+  cancelled_by_user_id: integer('cancelled_by_user_id').references(() => usersTable.id), // Nullable by default
+  cancelled_at: timestamp('cancelled_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Lending notices table (reminders mailed to borrowers; one of each kind per
+// expected return date, so extending a lending starts its reminders over)
+export const lendingNoticesTable = pgTable('lending_notices', {
+  id: serial('id').primaryKey(),
+  lending_id: integer('lending_id').notNull().references(() => lendingsTable.id),
+  kind: lendingNoticeKindEnum('kind').notNull(),
+  expected_return_date: timestamp('expected_return_date').notNull(),
+  recipient: text('recipient').notNull(),
+  cc: text('cc').array(), // Nullable by default
+  sent_at: timestamp('sent_at').defaultNow().notNull(),
+}, (table) => [
+  unique('lending_notices_once').on(table.lending_id, table.kind, table.expected_return_date),
+]);
+
+// Email templates table (only templates the facilities team has edited; the rest use the built-in defaults)
+export const emailTemplatesTable = pgTable('email_templates', {
+  id: serial('id').primaryKey(),
+  key: lendingNoticeKindEnum('key').notNull().unique(),
+  subject: text('subject').notNull(),
+  body: text('body').notNull(),
+  updated_by_user_id: integer('updated_by_user_id').references(() => usersTable.id), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Notifications table (in-app notifications for one user each)
+export const notificationsTable = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  kind: notificationKindEnum('kind').notNull(),
+  title: text('title').notNull(),
+  message: text('message').notNull(),
+  link_tab: text('link_tab'), // Nullable by default, the client tab the notification opens
+  entity_id: integer('entity_id'), // Nullable by default, the lending or asset it is about
+  read_at: timestamp('read_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
   lentItems: many(lendingsTable, { relationName: 'lent_by' }),
   returnedItems: many(lendingsTable, { relationName: 'returned_by' }),
+  sessions: many(sessionsTable),
+  loginAttempts: many(loginAttemptsTable),
+  passwordResetTokens: many(passwordResetTokensTable),
+  apiKeys: many(apiKeysTable),
+  auditEvents: many(auditEventsTable),
+  assetStatusChanges: many(assetStatusChangesTable),
+  triggeredJobRuns: many(jobRunsTable),
+  emailTemplates: many(emailTemplatesTable),
+  notifications: many(notificationsTable),
+  requestedTransfers: many(transfersTable, { relationName: 'transfer_requested_by' }),
+  approvedTransfers: many(transfersTable, { relationName: 'transfer_approved_by' }),
+  shippedTransfers: many(transfersTable, { relationName: 'transfer_shipped_by' }),
+  receivedTransfers: many(transfersTable, { relationName: 'transfer_received_by' }),
+  cancelledTransfers: many(transfersTable, { relationName: 'transfer_cancelled_by' }),
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const loginAttemptsRelations = relations(loginAttemptsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [loginAttemptsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const apiKeysRelations = relations(apiKeysTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [apiKeysTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordResetTokensTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEventsTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [auditEventsTable.actor_user_id],
+    references: [usersTable.id],
+  }),
+  apiKey: one(apiKeysTable, {
+    fields: [auditEventsTable.api_key_id],
+    references: [apiKeysTable.id],
+  }),
+}));
+
+export const jobsRelations = relations(jobsTable, ({ many }) => ({
+  runs: many(jobRunsTable),
+}));
+
+export const jobRunsRelations = relations(jobRunsTable, ({ one }) => ({
+  job: one(jobsTable, {
+    fields: [jobRunsTable.job_id],
+    references: [jobsTable.id],
+  }),
+  triggeredByUser: one(usersTable, {
+    fields: [jobRunsTable.triggered_by_user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 export const categoriesRelations = relations(categoriesTable, ({ many }) => ({
   assets: many(assetsTable),
 }));
 
+export const locationsRelations = relations(locationsTable, ({ one, many }) => ({
+  parent: one(locationsTable, {
+    fields: [locationsTable.parent_id],
+    references: [locationsTable.id],
+    relationName: 'location_parent',
+  }),
+  children: many(locationsTable, { relationName: 'location_parent' }),
+  assets: many(assetsTable),
+  transfersOut: many(transfersTable, { relationName: 'transfer_from' }),
+  transfersIn: many(transfersTable, { relationName: 'transfer_to' }),
+}));
+
 export const assetsRelations = relations(assetsTable, ({ one, many }) => ({
   category: one(categoriesTable, {
     fields: [assetsTable.category_id],
     references: [categoriesTable.id],
   }),
+  location: one(locationsTable, {
+    fields: [assetsTable.location_id],
+    references: [locationsTable.id],
+  }),
   lendings: many(lendingsTable),
+  statusChanges: many(assetStatusChangesTable),
+  transfers: many(transfersTable),
 }));
 
-export const lendingsRelations = relations(lendingsTable, ({ one }) => ({
+export const assetStatusChangesRelations = relations(assetStatusChangesTable, ({ one }) => ({
+  asset: one(assetsTable, {
+    fields: [assetStatusChangesTable.asset_id],
+    references: [assetsTable.id],
+  }),
+  changedByUser: one(usersTable, {
+    fields: [assetStatusChangesTable.changed_by_user_id],
+    references: [usersTable.id],
+  }),
+  lending: one(lendingsTable, {
+    fields: [assetStatusChangesTable.lending_id],
+    references: [lendingsTable.id],
+  }),
+}));
+
+export const lendingsRelations = relations(lendingsTable, ({ one, many }) => ({
   asset: one(assetsTable, {
     fields: [lendingsTable.asset_id],
     references: [assetsTable.id],
@@ -94,25 +413,149 @@ export const lendingsRelations = relations(lendingsTable, ({ one }) => ({
     references: [usersTable.id],
     relationName: 'returned_by',
   }),
+  notices: many(lendingNoticesTable),
+}));
+
+export const transfersRelations = relations(transfersTable, ({ one }) => ({
+  asset: one(assetsTable, {
+    fields: [transfersTable.asset_id],
+    references: [assetsTable.id],
+  }),
+  fromLocation: one(locationsTable, {
+    fields: [transfersTable.from_location_id],
+    references: [locationsTable.id],
+    relationName: 'transfer_from',
+  }),
+  toLocation: one(locationsTable, {
+    fields: [transfersTable.to_location_id],
+    references: [locationsTable.id],
+    relationName: 'transfer_to',
+  }),
+  requestedByUser: one(usersTable, {
+    fields: [transfersTable.requested_by_user_id],
+    references: [usersTable.id],
+    relationName: 'transfer_requested_by',
+  }),
+  approvedByUser: one(usersTable, {
+    fields: [transfersTable.approved_by_user_id],
+    references: [usersTable.id],
+    relationName: 'transfer_approved_by',
+  }),
+  shippedByUser: one(usersTable, {
+    fields: [transfersTable.shipped_by_user_id],
+    references: [usersTable.id],
+    relationName: 'transfer_shipped_by',
+  }),
+  receivedByUser: one(usersTable, {
+    fields: [transfersTable.received_by_user_id],
+    references: [usersTable.id],
+    relationName: 'transfer_received_by',
+  }),
+  cancelledByUser: one(usersTable, {
+    fields: [transfersTable.cancelled_by_user_id],
+    references: [usersTable.id],
+    relationName: 'transfer_cancelled_by',
+  }),
+}));
+
+export const emailTemplatesRelations = relations(emailTemplatesTable, ({ one }) => ({
+  updatedByUser: one(usersTable, {
+    fields: [emailTemplatesTable.updated_by_user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [notificationsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const lendingNoticesRelations = relations(lendingNoticesTable, ({ one }) => ({
+  lending: one(lendingsTable, {
+    fields: [lendingNoticesTable.lending_id],
+    references: [lendingsTable.id],
+  }),
 }));
 
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+
+export type ApiKey = typeof apiKeysTable.$inferSelect;
+export type NewApiKey = typeof apiKeysTable.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+
+export type MailOutboxMessage = typeof mailOutboxTable.$inferSelect;
+export type NewMailOutboxMessage = typeof mailOutboxTable.$inferInsert;
+
+export type AuditEvent = typeof auditEventsTable.$inferSelect;
+export type NewAuditEvent = typeof auditEventsTable.$inferInsert;
+
+export type Job = typeof jobsTable.$inferSelect;
+export type NewJob = typeof jobsTable.$inferInsert;
+
+export type JobRun = typeof jobRunsTable.$inferSelect;
+export type NewJobRun = typeof jobRunsTable.$inferInsert;
+
 export type Category = typeof categoriesTable.$inferSelect;
 export type NewCategory = typeof categoriesTable.$inferInsert;
 
+export type AssetTagSequence = typeof assetTagSequencesTable.$inferSelect;
+export type NewAssetTagSequence = typeof assetTagSequencesTable.$inferInsert;
+
+export type Location = typeof locationsTable.$inferSelect;
+export type NewLocation = typeof locationsTable.$inferInsert;
+
 export type Asset = typeof assetsTable.$inferSelect;
 export type NewAsset = typeof assetsTable.$inferInsert;
 
+export type AssetStatusChange = typeof assetStatusChangesTable.$inferSelect;
+export type NewAssetStatusChange = typeof assetStatusChangesTable.$inferInsert;
+
 export type Lending = typeof lendingsTable.$inferSelect;
 export type NewLending = typeof lendingsTable.$inferInsert;
 
+export type Transfer = typeof transfersTable.$inferSelect;
+export type NewTransfer = typeof transfersTable.$inferInsert;
+
+export type LendingNotice = typeof lendingNoticesTable.$inferSelect;
+export type NewLendingNotice = typeof lendingNoticesTable.$inferInsert;
+
+export type EmailTemplate = typeof emailTemplatesTable.$inferSelect;
+export type NewEmailTemplate = typeof emailTemplatesTable.$inferInsert;
+
+export type Notification = typeof notificationsTable.$inferSelect;
+export type NewNotification = typeof notificationsTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  loginAttempts: loginAttemptsTable,
+  apiKeys: apiKeysTable,
+  passwordResetTokens: passwordResetTokensTable,
+  mailOutbox: mailOutboxTable,
+  auditEvents: auditEventsTable,
+  jobs: jobsTable,
+  jobRuns: jobRunsTable,
   categories: categoriesTable,
+  assetTagSequences: assetTagSequencesTable,
+  locations: locationsTable,
   assets: assetsTable,
+  assetStatusChanges: assetStatusChangesTable,
   lendings: lendingsTable,
+  transfers: transfersTable,
+  lendingNotices: lendingNoticesTable,
+  emailTemplates: emailTemplatesTable,
+  notifications: notificationsTable,
 };
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { type LendingNoticeKind, type LendingWithDetails } from './schema';
+
+// Values available to email templates as {{placeholders}}; nested values use dots, e.g. {{asset.name}}
+export const emailTemplatePlaceholders: Record<string, string> = {
+  'borrower_name': 'Name of the borrower',
+  'borrower_email': 'Email address of the borrower',
+  'department': 'Borrower department',
+  'lent_date': 'Date the asset was lent out',
+  'expected_return_date': 'Date the asset is due back',
+  'days_until_due': 'Whole days until the due date (0 on the day itself)',
+  'days_overdue': 'Whole days past the due date (0 until then)',
+  'asset.name': 'Asset name',
+  'asset.serial_number': 'Asset serial number',
+  'asset.location': 'Full path of the asset location, e.g. Main Campus / Building A / Room 101',
+  'asset.category': 'Asset category name',
+  'staff.name': 'Staff member who lent the asset out',
+  'staff.email': 'Email address of that staff member'
+};
+
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+// Used until the facilities team saves their own version of a template
+export const defaultEmailTemplates: Record<LendingNoticeKind, EmailTemplateContent> = {
+  due_soon: {
+    subject: 'Reminder: {{asset.name}} is due back on {{expected_return_date}}',
+    body: [
+      'Hello {{borrower_name}},',
+      '',
+      'This is a reminder that {{asset.name}} is due back on {{expected_return_date}}.',
+      'If you need it for longer, please contact {{staff.name}} ({{staff.email}}) before then.'
+    ].join('\n')
+  },
+  due_today: {
+    subject: '{{asset.name}} is due back today',
+    body: [
+      'Hello {{borrower_name}},',
+      '',
+      '{{asset.name}} is due back today. Please return it to the facilities desk,',
+      'or contact {{staff.name}} ({{staff.email}}) if you need more time.'
+    ].join('\n')
+  },
+  overdue: {
+    subject: 'Overdue: {{asset.name}} was due back on {{expected_return_date}}',
+    body: [
+      'Hello {{borrower_name}},',
+      '',
+      '{{asset.name}} was due back on {{expected_return_date}} and is now {{days_overdue}} day(s) overdue.',
+      'Please return it as soon as possible.',
+      '',
+      '{{staff.name}}, who lent out this asset, has been copied on this message.'
+    ].join('\n')
+  }
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (date: Date): string => date.toISOString().split('T')[0];
+
+// Whole calendar days from today to the due date, negative once it has passed.
+// Days are counted in UTC, the same as the dates formatDate prints.
+export const daysUntil = (expectedReturnDate: Date, now: Date): number => {
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+  const dueDay = new Date(expectedReturnDate);
+  dueDay.setUTCHours(0, 0, 0, 0);
+  return Math.round((dueDay.getTime() - today.getTime()) / ONE_DAY_MS);
+};
+
+// Placeholders used in a template that are not in emailTemplatePlaceholders
+export const unknownPlaceholders = (template: string): string[] => {
+  const names = [...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+  return [...new Set(names.filter(name => !(name in emailTemplatePlaceholders)))];
+};
+
+export const buildEmailTemplateContext = (
+  lending: LendingWithDetails,
+  staff: { username: string; email: string },
+  locationPath: string | null,
+  now: Date = new Date()
+): Record<string, string> => {
+  const days = daysUntil(lending.expected_return_date, now);
+  return {
+    'borrower_name': lending.borrower_name,
+    'borrower_email': lending.borrower_email ?? '',
+    'department': lending.department ?? '',
+    'lent_date': formatDate(lending.lent_date),
+    'expected_return_date': formatDate(lending.expected_return_date),
+    'days_until_due': String(Math.max(days, 0)),
+    'days_overdue': String(Math.max(-days, 0)),
+    'asset.name': lending.asset.name,
+    'asset.serial_number': lending.asset.serial_number ?? '',
+    'asset.location': locationPath ?? '',
+    'asset.category': lending.asset.category.name,
+    'staff.name': staff.username,
+    'staff.email': staff.email
+  };
+};
+
+// Fills in {{placeholders}}; anything not in the context is left as written
+export const renderEmailTemplate = (template: EmailTemplateContent, context: Record<string, string>): EmailTemplateContent => {
+  const render = (text: string) => text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => context[name] ?? placeholder);
+  return { subject: render(template.subject), body: render(template.body) };
+};
@@ -0,0 +1,57 @@
+import { EventEmitter, on } from 'events';
+import { type AssetChangeEvent, type LendingChangeEvent } from './schema';
+
+// In-process bus for data changes, relayed to browsers by the WebSocket subscriptions.
+// Each API process only sees its own changes, so clients of another instance
+// pick them up on their next reload.
+interface ChangeEvents {
+  asset: AssetChangeEvent;
+  lending: LendingChangeEvent;
+  // Carries nothing; listeners reload the summary themselves
+  dashboard: null;
+}
+
+type ChangeTopic = keyof ChangeEvents;
+
+const changeEvents = new EventEmitter();
+// One listener per open subscription, so lift the default warning threshold
+changeEvents.setMaxListeners(0);
+
+// A burst of changes (e.g. the overdue job touching many lendings) only needs
+// one dashboard refresh, so dashboard notices are held back briefly and merged
+const DASHBOARD_COALESCE_MS = 250;
+let dashboardTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleDashboardChange = () => {
+  if (dashboardTimer) return;
+  dashboardTimer = setTimeout(() => {
+    dashboardTimer = null;
+    changeEvents.emit('dashboard', null);
+  }, DASHBOARD_COALESCE_MS);
+};
+
+export const publishAssetChange = (event: AssetChangeEvent): void => {
+  changeEvents.emit('asset', event);
+  scheduleDashboardChange();
+};
+
+export const publishLendingChange = (event: LendingChangeEvent): void => {
+  changeEvents.emit('lending', event);
+  scheduleDashboardChange();
+};
+
+// Yields events on a topic until the signal aborts (the client unsubscribes or disconnects)
+export async function* listenForChanges<TTopic extends ChangeTopic>(
+  topic: TTopic,
+  signal?: AbortSignal
+): AsyncGenerator<ChangeEvents[TTopic]> {
+  try {
+    for await (const [event] of on(changeEvents, topic, { signal })) {
+      yield event;
+    }
+  } catch (error) {
+    // Aborting is how every subscription ends
+    if (signal?.aborted) return;
+    throw error;
+  }
+}
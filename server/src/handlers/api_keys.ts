@@ -0,0 +1,183 @@
+import { db } from '../db';
+import { apiKeysTable, usersTable } from '../db/schema';
+import {
+  type ApiKey,
+  type ApiKeyAuth,
+  type Capability,
+  type CreateApiKeyInput,
+  type CreatedApiKey
+} from '../schema';
+import { hasCapability } from '../permissions';
+import { createHash, randomBytes } from 'crypto';
+import { eq, and, desc } from 'drizzle-orm';
+
+// Keys look like "fm_<prefix>_<secret>"; the prefix identifies a key in listings
+const API_KEY_MARKER = 'fm_';
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Avoid a write on every request
+
+export const isApiKey = (token: string): boolean => token.startsWith(API_KEY_MARKER);
+
+const hashApiKey = (key: string): string => {
+  return createHash('sha256').update(key).digest('hex');
+};
+
+// Strip the key hash before handing a row to callers
+const toApiKey = ({ key_hash, ...apiKey }: typeof apiKeysTable.$inferSelect): ApiKey => ({
+  ...apiKey,
+  capabilities: apiKey.capabilities as Capability[]
+});
+
+// Revoked and expired keys, and keys of deactivated users, authenticate nothing
+const isUsable = (apiKey: typeof apiKeysTable.$inferSelect, user: typeof usersTable.$inferSelect, now: Date): boolean =>
+  apiKey.revoked_at === null && !(apiKey.expires_at && apiKey.expires_at <= now) && user.is_active;
+
+export async function createApiKey(userId: number, input: CreateApiKeyInput): Promise<CreatedApiKey> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    // A key can never do more than its owner
+    const notHeld = input.capabilities.filter(capability => !hasCapability(users[0].role, capability));
+    if (notHeld.length > 0) {
+      throw new Error(`Cannot grant capabilities you do not hold: ${notHeld.join(', ')}`);
+    }
+
+    if (input.expires_at && input.expires_at <= new Date()) {
+      throw new Error('Expiry date must be in the future');
+    }
+
+    const prefix = randomBytes(6).toString('base64url').replace(/[-_]/g, 'x');
+    const key = `${API_KEY_MARKER}${prefix}_${randomBytes(32).toString('base64url')}`;
+
+    const result = await db.insert(apiKeysTable)
+      .values({
+        user_id: userId,
+        name: input.name,
+        prefix,
+        key_hash: hashApiKey(key),
+        capabilities: [...new Set(input.capabilities)],
+        expires_at: input.expires_at ?? null
+      })
+      .returning()
+      .execute();
+
+    return {
+      api_key: toApiKey(result[0]),
+      key
+    };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getApiKeys(userId: number): Promise<ApiKey[]> {
+  try {
+    const apiKeys = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.user_id, userId))
+      .orderBy(desc(apiKeysTable.created_at), desc(apiKeysTable.id))
+      .execute();
+
+    return apiKeys.map(toApiKey);
+  } catch (error) {
+    console.error('Failed to fetch API keys:', error);
+    throw error;
+  }
+}
+
+export async function revokeApiKey(userId: number, id: number): Promise<{ success: boolean }> {
+  try {
+    // Scoped to the owner so users cannot revoke each other's keys
+    const existing = await db.select()
+      .from(apiKeysTable)
+      .where(and(eq(apiKeysTable.id, id), eq(apiKeysTable.user_id, userId)))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`API key with id ${id} not found`);
+    }
+
+    if (existing[0].revoked_at === null) {
+      const now = new Date();
+      await db.update(apiKeysTable)
+        .set({ revoked_at: now, updated_at: now })
+        .where(eq(apiKeysTable.id, id))
+        .execute();
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyApiKey(key: string): Promise<ApiKeyAuth | null> {
+  try {
+    const results = await db.select()
+      .from(apiKeysTable)
+      .innerJoin(usersTable, eq(apiKeysTable.user_id, usersTable.id))
+      .where(eq(apiKeysTable.key_hash, hashApiKey(key)))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const now = new Date();
+    let { api_keys: apiKey } = results[0];
+    const { users: user } = results[0];
+    if (!isUsable(apiKey, user, now)) {
+      return null;
+    }
+
+    if (!apiKey.last_used_at || now.getTime() - apiKey.last_used_at.getTime() >= LAST_USED_RESOLUTION_MS) {
+      const updated = await db.update(apiKeysTable)
+        .set({ last_used_at: now })
+        .where(eq(apiKeysTable.id, apiKey.id))
+        .returning()
+        .execute();
+
+      apiKey = updated[0];
+    }
+
+    return {
+      user,
+      api_key: toApiKey(apiKey)
+    };
+  } catch (error) {
+    console.error('API key verification failed:', error);
+    throw error;
+  }
+}
+
+// The key and its owner, unless the key has been revoked or has expired or the
+// owner deactivated. Unlike verifyApiKey this does not count as a use of the key.
+export async function getActiveApiKey(apiKeyId: number): Promise<ApiKeyAuth | null> {
+  try {
+    const results = await db.select()
+      .from(apiKeysTable)
+      .innerJoin(usersTable, eq(apiKeysTable.user_id, usersTable.id))
+      .where(eq(apiKeysTable.id, apiKeyId))
+      .execute();
+
+    if (results.length === 0 || !isUsable(results[0].api_keys, results[0].users, new Date())) {
+      return null;
+    }
+
+    return {
+      user: results[0].users,
+      api_key: toApiKey(results[0].api_keys)
+    };
+  } catch (error) {
+    console.error('API key lookup failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,122 @@
+import { db } from '../db';
+import { assetsTable, assetTagSequencesTable, categoriesTable } from '../db/schema';
+import {
+  type AssetWithCategory,
+  type GetAssetByTagInput,
+  type GetAssetTagImageInput,
+  type AssetTagImage
+} from '../schema';
+import { DEFAULT_TAG_PREFIX, formatAssetTag, normalizeAssetTag } from '../asset_tags';
+import { code128Svg } from '../code128';
+import { qrSvg } from '../qr';
+import { eq, isNull, asc, sql } from 'drizzle-orm';
+
+export async function isAssetTagTaken(tag: string): Promise<boolean> {
+  const existing = await db.select({ id: assetsTable.id })
+    .from(assetsTable)
+    .where(eq(assetsTable.asset_tag, tag))
+    .execute();
+
+  return existing.length > 0;
+}
+
+// Takes the next number for the prefix. Numbers already used by a tag typed in
+// by hand are skipped rather than handed out twice.
+export async function nextAssetTag(prefix: string | null): Promise<string> {
+  const sequencePrefix = prefix || DEFAULT_TAG_PREFIX;
+
+  for (;;) {
+    const [sequence] = await db.insert(assetTagSequencesTable)
+      .values({ prefix: sequencePrefix, last_number: 1 })
+      .onConflictDoUpdate({
+        target: assetTagSequencesTable.prefix,
+        set: { last_number: sql`${assetTagSequencesTable.last_number} + 1` }
+      })
+      .returning()
+      .execute();
+
+    const tag = formatAssetTag(sequencePrefix, sequence.last_number);
+    if (!(await isAssetTagTaken(tag))) {
+      return tag;
+    }
+  }
+}
+
+export async function getAssetByTag(input: GetAssetByTagInput): Promise<AssetWithCategory | null> {
+  try {
+    const results = await db.select()
+      .from(assetsTable)
+      .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
+      .where(eq(assetsTable.asset_tag, normalizeAssetTag(input.tag)))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const result = results[0];
+    return {
+      ...result.assets,
+      purchase_price: result.assets.purchase_price ? parseFloat(result.assets.purchase_price) : null,
+      current_value: result.assets.current_value ? parseFloat(result.assets.current_value) : null,
+      category: result.categories
+    };
+  } catch (error) {
+    console.error('Failed to fetch asset by tag:', error);
+    throw error;
+  }
+}
+
+// The tag as an SVG image, ready to show or print
+export async function getAssetTagImage(input: GetAssetTagImageInput): Promise<AssetTagImage> {
+  try {
+    const result = await db.select({ asset_tag: assetsTable.asset_tag })
+      .from(assetsTable)
+      .where(eq(assetsTable.id, input.id))
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Asset not found');
+    }
+
+    const tag = result[0].asset_tag;
+    if (!tag) {
+      throw new Error('Asset has not been given a tag yet');
+    }
+
+    return {
+      asset_id: input.id,
+      asset_tag: tag,
+      format: input.format,
+      svg: input.format === 'qr' ? qrSvg(tag) : code128Svg(tag)
+    };
+  } catch (error) {
+    console.error('Asset tag image generation failed:', error);
+    throw error;
+  }
+}
+
+// Assets created before tags existed get one from their category, oldest
+// first. Runs at startup and does nothing once every asset has a tag.
+export async function assignMissingAssetTags(): Promise<{ assets_tagged: number }> {
+  try {
+    const untagged = await db.select({ id: assetsTable.id, tag_prefix: categoriesTable.tag_prefix })
+      .from(assetsTable)
+      .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
+      .where(isNull(assetsTable.asset_tag))
+      .orderBy(asc(assetsTable.id))
+      .execute();
+
+    for (const asset of untagged) {
+      await db.update(assetsTable)
+        .set({ asset_tag: await nextAssetTag(asset.tag_prefix) })
+        .where(eq(assetsTable.id, asset.id))
+        .execute();
+    }
+
+    return { assets_tagged: untagged.length };
+  } catch (error) {
+    console.error('Asset tag assignment failed:', error);
+    throw error;
+  }
+}
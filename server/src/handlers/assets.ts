@@ -1,11 +1,42 @@
 import { db } from '../db';
-import { assetsTable, categoriesTable, lendingsTable } from '../db/schema';
-import { type CreateAssetInput, type UpdateAssetInput, type Asset, type AssetWithCategory } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { assetsTable, categoriesTable, locationsTable, lendingsTable, auditEventsTable, usersTable, assetStatusChangesTable, transfersTable } from '../db/schema';
+import {
+  type CreateAssetInput,
+  type UpdateAssetInput,
+  type ReinstateAssetInput,
+  type Asset,
+  type AssetWithCategory,
+  type AssetTimelineEntry
+} from '../schema';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import type { SQL } from 'drizzle-orm';
+import { canTransitionAssetStatus, assetStatusTransitionError } from '../asset_status';
+import { publishAssetChange } from '../events';
+import { locationPath, subtreeIds } from '../locations';
+import { loadLocationIndex } from './locations';
+import { isOpenTransferOf } from './transfers';
+import { isAssetTagTaken, nextAssetTag } from './asset_tags';
+import { normalizeAssetTag } from '../asset_tags';
+
+async function assertLocationExists(locationId: number): Promise<void> {
+  const location = await db.select({ id: locationsTable.id })
+    .from(locationsTable)
+    .where(eq(locationsTable.id, locationId))
+    .execute();
+
+  if (location.length === 0) {
+    throw new Error(`Location with id ${locationId} does not exist`);
+  }
+}
 
 export async function createAsset(input: CreateAssetInput): Promise<Asset> {
   try {
+    // An asset only becomes 'lent' through a lending record
+    if (input.status === 'lent') {
+      throw new Error('Assets cannot be created as lent; record a lending instead');
+    }
+
     // Verify the category exists
     const categoryExists = await db.select()
       .from(categoriesTable)
@@ -16,23 +47,40 @@ export async function createAsset(input: CreateAssetInput): Promise<Asset> {
       throw new Error(`Category with id ${input.category_id} does not exist`);
     }
 
+    if (input.location_id) {
+      await assertLocationExists(input.location_id);
+    }
+
+    // A tag typed in keeps an existing label in use; otherwise the category's sequence supplies one
+    let assetTag: string;
+    if (input.asset_tag && input.asset_tag.trim() !== '') {
+      assetTag = normalizeAssetTag(input.asset_tag);
+      if (await isAssetTagTaken(assetTag)) {
+        throw new Error(`Asset tag ${assetTag} is already in use`);
+      }
+    } else {
+      assetTag = await nextAssetTag(categoryExists[0].tag_prefix);
+    }
+
     // Insert the asset
     const result = await db.insert(assetsTable)
       .values({
         name: input.name,
         description: input.description || null,
+        asset_tag: assetTag,
         category_id: input.category_id,
         serial_number: input.serial_number || null,
         purchase_date: input.purchase_date || null,
         purchase_price: input.purchase_price ? input.purchase_price.toString() : null,
         current_value: input.current_value ? input.current_value.toString() : null,
         status: input.status,
-        location: input.location || null
+        location_id: input.location_id || null
       })
       .returning()
       .execute();
 
     const asset = result[0];
+    publishAssetChange({ action: 'created', asset_id: asset.id });
     return {
       ...asset,
       purchase_price: asset.purchase_price ? parseFloat(asset.purchase_price) : null,
@@ -108,12 +156,18 @@ export async function getAssetsByCategory(categoryId: number): Promise<AssetWith
   }
 }
 
-export async function getAssetsByStatus(status: string): Promise<AssetWithCategory[]> {
+// Assets in the location or anywhere below it, so a site lists everything on it
+export async function getAssetsByLocation(locationId: number): Promise<AssetWithCategory[]> {
   try {
+    const index = await loadLocationIndex();
+    if (!index.has(locationId)) {
+      throw new Error(`Location with id ${locationId} not found`);
+    }
+
     const results = await db.select()
       .from(assetsTable)
       .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
-      .where(eq(assetsTable.status, status as any))
+      .where(inArray(assetsTable.location_id, subtreeIds(index, locationId)))
       .execute();
 
     return results.map(result => ({
@@ -123,62 +177,123 @@ export async function getAssetsByStatus(status: string): Promise<AssetWithCatego
       category: result.categories
     }));
   } catch (error) {
-    console.error('Failed to fetch assets by status:', error);
+    console.error('Failed to fetch assets by location:', error);
     throw error;
   }
 }
 
-export async function updateAsset(input: UpdateAssetInput): Promise<Asset> {
+export async function getAssetsByStatus(status: string): Promise<AssetWithCategory[]> {
   try {
-    // Check if asset exists
-    const existingAsset = await db.select()
+    const results = await db.select()
       .from(assetsTable)
-      .where(eq(assetsTable.id, input.id))
+      .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
+      .where(eq(assetsTable.status, status as any))
       .execute();
 
-    if (existingAsset.length === 0) {
-      throw new Error(`Asset with id ${input.id} not found`);
-    }
+    return results.map(result => ({
+      ...result.assets,
+      purchase_price: result.assets.purchase_price ? parseFloat(result.assets.purchase_price) : null,
+      current_value: result.assets.current_value ? parseFloat(result.assets.current_value) : null,
+      category: result.categories
+    }));
+  } catch (error) {
+    console.error('Failed to fetch assets by status:', error);
+    throw error;
+  }
+}
 
-    // If category_id is being updated, verify it exists
-    if (input.category_id !== undefined) {
-      const categoryExists = await db.select()
-        .from(categoriesTable)
-        .where(eq(categoriesTable.id, input.category_id))
+export async function updateAsset(input: UpdateAssetInput, changedByUserId: number): Promise<Asset> {
+  try {
+    const asset = await db.transaction(async (tx) => {
+      // Lock the asset row so a lending or transfer of the same asset waits
+      // here, and the status checked below is still the status when it is written
+      const existingAsset = await tx.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.id, input.id))
+        .for('update')
         .execute();
 
-      if (categoryExists.length === 0) {
-        throw new Error(`Category with id ${input.category_id} does not exist`);
+      if (existingAsset.length === 0) {
+        throw new Error(`Asset with id ${input.id} not found`);
       }
-    }
 
-    // Build update values object
-    const updateValues: any = {};
-    
-    if (input.name !== undefined) updateValues.name = input.name;
-    if (input.description !== undefined) updateValues.description = input.description;
-    if (input.category_id !== undefined) updateValues.category_id = input.category_id;
-    if (input.serial_number !== undefined) updateValues.serial_number = input.serial_number;
-    if (input.purchase_date !== undefined) updateValues.purchase_date = input.purchase_date;
-    if (input.purchase_price !== undefined) {
-      updateValues.purchase_price = input.purchase_price ? input.purchase_price.toString() : null;
-    }
-    if (input.current_value !== undefined) {
-      updateValues.current_value = input.current_value ? input.current_value.toString() : null;
-    }
-    if (input.status !== undefined) updateValues.status = input.status;
-    if (input.location !== undefined) updateValues.location = input.location;
+      // Status changes must follow the transition table
+      const currentStatus = existingAsset[0].status;
+      const statusChanged = input.status !== undefined && input.status !== currentStatus;
+      if (statusChanged && !canTransitionAssetStatus(currentStatus, input.status!, 'update')) {
+        throw new Error(assetStatusTransitionError(currentStatus, input.status!));
+      }
 
-    // Always update the updated_at timestamp
-    updateValues.updated_at = new Date();
+      // If category_id is being updated, verify it exists
+      if (input.category_id !== undefined) {
+        const categoryExists = await tx.select()
+          .from(categoriesTable)
+          .where(eq(categoriesTable.id, input.category_id))
+          .execute();
 
-    const result = await db.update(assetsTable)
-      .set(updateValues)
-      .where(eq(assetsTable.id, input.id))
-      .returning()
-      .execute();
+        if (categoryExists.length === 0) {
+          throw new Error(`Category with id ${input.category_id} does not exist`);
+        }
+      }
 
-    const asset = result[0];
+      if (input.location_id) {
+        await assertLocationExists(input.location_id);
+      }
+
+      // A transfer under way decides where the asset ends up
+      if (input.location_id !== undefined && input.location_id !== existingAsset[0].location_id) {
+        const openTransfers = await tx.select({ id: transfersTable.id })
+          .from(transfersTable)
+          .where(isOpenTransferOf(input.id))
+          .execute();
+
+        if (openTransfers.length > 0) {
+          throw new Error('Asset has a transfer under way; receive or cancel it instead of changing the location');
+        }
+      }
+
+      // Build update values object
+      const updateValues: any = {};
+
+      if (input.name !== undefined) updateValues.name = input.name;
+      if (input.description !== undefined) updateValues.description = input.description;
+      if (input.category_id !== undefined) updateValues.category_id = input.category_id;
+      if (input.serial_number !== undefined) updateValues.serial_number = input.serial_number;
+      if (input.purchase_date !== undefined) updateValues.purchase_date = input.purchase_date;
+      if (input.purchase_price !== undefined) {
+        updateValues.purchase_price = input.purchase_price ? input.purchase_price.toString() : null;
+      }
+      if (input.current_value !== undefined) {
+        updateValues.current_value = input.current_value ? input.current_value.toString() : null;
+      }
+      if (input.status !== undefined) updateValues.status = input.status;
+      if (input.location_id !== undefined) updateValues.location_id = input.location_id;
+
+      // Always update the updated_at timestamp
+      updateValues.updated_at = new Date();
+
+      const result = await tx.update(assetsTable)
+        .set(updateValues)
+        .where(eq(assetsTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (statusChanged) {
+        await tx.insert(assetStatusChangesTable)
+          .values({
+            asset_id: input.id,
+            from_status: currentStatus,
+            to_status: input.status!,
+            reason: input.status_reason || null,
+            changed_by_user_id: changedByUserId
+          })
+          .execute();
+      }
+
+      return result[0];
+    });
+
+    publishAssetChange({ action: 'updated', asset_id: asset.id });
     return {
       ...asset,
       purchase_price: asset.purchase_price ? parseFloat(asset.purchase_price) : null,
@@ -190,6 +305,57 @@ export async function updateAsset(input: UpdateAssetInput): Promise<Asset> {
   }
 }
 
+// Brings a retired asset back into service; the reason is required and recorded
+export async function reinstateAsset(input: ReinstateAssetInput, reinstatedByUserId: number): Promise<Asset> {
+  try {
+    const asset = await db.transaction(async (tx) => {
+      // Locked like updateAsset, so the asset is still retired when it is reinstated
+      const existingAsset = await tx.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (existingAsset.length === 0) {
+        throw new Error(`Asset with id ${input.id} not found`);
+      }
+
+      const currentStatus = existingAsset[0].status;
+      if (!canTransitionAssetStatus(currentStatus, 'available', 'reinstatement')) {
+        throw new Error('Only retired assets can be reinstated');
+      }
+
+      const result = await tx.update(assetsTable)
+        .set({ status: 'available', updated_at: new Date() })
+        .where(eq(assetsTable.id, input.id))
+        .returning()
+        .execute();
+
+      await tx.insert(assetStatusChangesTable)
+        .values({
+          asset_id: input.id,
+          from_status: currentStatus,
+          to_status: 'available',
+          reason: input.reason,
+          changed_by_user_id: reinstatedByUserId
+        })
+        .execute();
+
+      return result[0];
+    });
+
+    publishAssetChange({ action: 'updated', asset_id: asset.id });
+    return {
+      ...asset,
+      purchase_price: asset.purchase_price ? parseFloat(asset.purchase_price) : null,
+      current_value: asset.current_value ? parseFloat(asset.current_value) : null
+    };
+  } catch (error) {
+    console.error('Asset reinstatement failed:', error);
+    throw error;
+  }
+}
+
 export async function deleteAsset(id: number): Promise<{ success: boolean }> {
   try {
     // Check if asset exists
@@ -212,14 +378,200 @@ export async function deleteAsset(id: number): Promise<{ success: boolean }> {
       throw new Error('Cannot delete asset that has lending history');
     }
 
+    const transferHistory = await db.select({ id: transfersTable.id })
+      .from(transfersTable)
+      .where(eq(transfersTable.asset_id, id))
+      .execute();
+
+    if (transferHistory.length > 0) {
+      throw new Error('Cannot delete asset that has transfer history');
+    }
+
     // Delete the asset
     await db.delete(assetsTable)
       .where(eq(assetsTable.id, id))
       .execute();
 
+    publishAssetChange({ action: 'deleted', asset_id: id });
     return { success: true };
   } catch (error) {
     console.error('Asset deletion failed:', error);
     throw error;
   }
+}
+
+type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+const LOCATION_FIELDS = ['location', 'location_id'];
+
+const pickChanges = (before: Record<string, unknown>, after: Record<string, unknown>, fields: string[]): FieldChanges => {
+  return Object.fromEntries(fields.map(field => [field, { before: before[field] ?? null, after: after[field] ?? null }]));
+};
+
+// Merges the asset's audit trail, status changes, lending records and received
+// transfers into one chronological feed. Each edit is split into location and
+// other field changes.
+export async function getAssetTimeline(assetId: number): Promise<AssetTimelineEntry[]> {
+  try {
+    const assets = await db.select()
+      .from(assetsTable)
+      .where(eq(assetsTable.id, assetId))
+      .execute();
+
+    if (assets.length === 0) {
+      throw new Error(`Asset with id ${assetId} not found`);
+    }
+
+    const auditEvents = await db.select()
+      .from(auditEventsTable)
+      .leftJoin(usersTable, eq(auditEventsTable.actor_user_id, usersTable.id))
+      .where(and(eq(auditEventsTable.entity_type, 'asset'), eq(auditEventsTable.entity_id, assetId)))
+      .orderBy(asc(auditEventsTable.created_at), asc(auditEventsTable.id))
+      .execute();
+
+    const lentBy = alias(usersTable, 'lent_by');
+    const returnedBy = alias(usersTable, 'returned_by');
+    const lendings = await db.select({
+      lending: lendingsTable,
+      lent_by_username: lentBy.username,
+      returned_by_username: returnedBy.username
+    })
+      .from(lendingsTable)
+      .innerJoin(lentBy, eq(lendingsTable.lent_by_user_id, lentBy.id))
+      .leftJoin(returnedBy, eq(lendingsTable.returned_by_user_id, returnedBy.id))
+      .where(eq(lendingsTable.asset_id, assetId))
+      .execute();
+
+    const statusChanges = await db.select({
+      change: assetStatusChangesTable,
+      changed_by_username: usersTable.username
+    })
+      .from(assetStatusChangesTable)
+      .innerJoin(usersTable, eq(assetStatusChangesTable.changed_by_user_id, usersTable.id))
+      .where(eq(assetStatusChangesTable.asset_id, assetId))
+      .orderBy(asc(assetStatusChangesTable.created_at), asc(assetStatusChangesTable.id))
+      .execute();
+
+    const receivedBy = alias(usersTable, 'received_by');
+    const transfers = await db.select({
+      transfer: transfersTable,
+      received_by_username: receivedBy.username
+    })
+      .from(transfersTable)
+      .innerJoin(receivedBy, eq(transfersTable.received_by_user_id, receivedBy.id))
+      .where(and(eq(transfersTable.asset_id, assetId), eq(transfersTable.status, 'received')))
+      .execute();
+
+    const locations = await loadLocationIndex();
+    // Older events hold the free-text location, newer ones the location id
+    const describeLocation = (value: unknown): string => {
+      if (value === null || value === undefined) return 'no location';
+      if (typeof value === 'number') return locations.has(value) ? locationPath(locations, value) : 'a deleted location';
+      return String(value);
+    };
+
+    const entries: AssetTimelineEntry[] = [];
+
+    // Assets created before the audit log existed have no creation event
+    if (!auditEvents.some(({ audit_events: event }) => event.before === null && event.after !== null)) {
+      entries.push({
+        type: 'created',
+        occurred_at: assets[0].created_at,
+        actor_username: null,
+        summary: 'Asset added to the inventory',
+        changes: null,
+        lending_id: null
+      });
+    }
+
+    for (const { audit_events: event, users: actor } of auditEvents) {
+      const base = { occurred_at: event.created_at, actor_username: actor?.username ?? null, lending_id: null };
+      const { before, after } = event;
+
+      if (!before || !after) {
+        if (after) {
+          entries.push({ ...base, type: 'created', summary: 'Asset added to the inventory', changes: null });
+        }
+        continue;
+      }
+
+      // Status changes come from the status change records, which carry the reason
+      const fields = Object.keys(after);
+
+      const locationField = fields.find(field => LOCATION_FIELDS.includes(field));
+      if (locationField) {
+        entries.push({
+          ...base,
+          type: 'moved',
+          summary: `Moved from ${describeLocation(before[locationField])} to ${describeLocation(after[locationField])}`,
+          changes: pickChanges(before, after, [locationField])
+        });
+      }
+
+      const edited = fields.filter(field => field !== 'status' && !LOCATION_FIELDS.includes(field));
+      if (edited.length > 0) {
+        entries.push({
+          ...base,
+          type: 'edited',
+          summary: `Edited ${edited.join(', ').replace(/_/g, ' ')}`,
+          changes: pickChanges(before, after, edited)
+        });
+      }
+    }
+
+    for (const { change, changed_by_username } of statusChanges) {
+      // Lending out and plain returns already appear as lending entries
+      const isPlainLending = change.lending_id !== null && (change.to_status === 'lent' || change.to_status === 'available');
+      if (isPlainLending) continue;
+
+      const isMaintenance = change.from_status === 'maintenance' || change.to_status === 'maintenance';
+      entries.push({
+        type: isMaintenance ? 'maintenance' : 'status_changed',
+        occurred_at: change.created_at,
+        actor_username: changed_by_username,
+        summary: `Status changed from ${change.from_status} to ${change.to_status}${change.reason ? `: ${change.reason}` : ''}`,
+        changes: { status: { before: change.from_status, after: change.to_status } },
+        lending_id: change.lending_id
+      });
+    }
+
+    for (const { lending, lent_by_username, returned_by_username } of lendings) {
+      entries.push({
+        type: 'lent',
+        occurred_at: lending.lent_date,
+        actor_username: lent_by_username,
+        summary: `Lent to ${lending.borrower_name}${lending.department ? ` (${lending.department})` : ''}, due ${lending.expected_return_date.toISOString().split('T')[0]}`,
+        changes: null,
+        lending_id: lending.id
+      });
+
+      if (lending.actual_return_date) {
+        entries.push({
+          type: 'returned',
+          occurred_at: lending.actual_return_date,
+          actor_username: returned_by_username,
+          summary: `Returned by ${lending.borrower_name}`,
+          changes: null,
+          lending_id: lending.id
+        });
+      }
+    }
+
+    for (const { transfer, received_by_username } of transfers) {
+      entries.push({
+        type: 'moved',
+        occurred_at: transfer.received_at!,
+        actor_username: received_by_username,
+        summary: `Transferred from ${describeLocation(transfer.from_location_id)} to ${describeLocation(transfer.to_location_id)}`,
+        changes: { location_id: { before: transfer.from_location_id, after: transfer.to_location_id } },
+        lending_id: null
+      });
+    }
+
+    // Stable sort keeps same-instant entries in the order they were added
+    return entries.sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime());
+  } catch (error) {
+    console.error('Failed to fetch asset timeline:', error);
+    throw error;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,192 @@
+import { db } from '../db';
+import {
+  auditEventsTable,
+  usersTable,
+  sessionsTable,
+  apiKeysTable,
+  categoriesTable,
+  locationsTable,
+  assetsTable,
+  lendingsTable,
+  transfersTable,
+  emailTemplatesTable,
+  jobsTable
+} from '../db/schema';
+import {
+  type AuditEntityType,
+  type AuditEvent,
+  type AuditEventWithActor,
+  type GetAuditLogInput
+} from '../schema';
+import { toPublicUser } from './auth';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
+
+type Snapshot = Record<string, unknown>;
+
+// Bumped on every write, so it would show up in every diff without saying anything
+const IGNORED_FIELDS = ['updated_at'];
+
+// Round-trip through JSON so dates and numerics compare the way they are stored
+const toSnapshot = (row: object | undefined): Snapshot | null => {
+  return row ? JSON.parse(JSON.stringify(row)) : null;
+};
+
+// Loads the current state of an entity, leaving out password hashes, secrets and token hashes
+const snapshotLoaders: Record<AuditEntityType, (id: number) => Promise<object | undefined>> = {
+  user: async (id) => {
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, id)).execute();
+    return user ? toPublicUser(user) : undefined;
+  },
+  session: async (id) => {
+    const [session] = await db.select().from(sessionsTable).where(eq(sessionsTable.id, id)).execute();
+    if (!session) return undefined;
+    const { refresh_token_hash, ...rest } = session;
+    return rest;
+  },
+  api_key: async (id) => {
+    const [apiKey] = await db.select().from(apiKeysTable).where(eq(apiKeysTable.id, id)).execute();
+    if (!apiKey) return undefined;
+    const { key_hash, ...rest } = apiKey;
+    return rest;
+  },
+  category: async (id) => {
+    const [category] = await db.select().from(categoriesTable).where(eq(categoriesTable.id, id)).execute();
+    return category;
+  },
+  location: async (id) => {
+    const [location] = await db.select().from(locationsTable).where(eq(locationsTable.id, id)).execute();
+    return location;
+  },
+  asset: async (id) => {
+    const [asset] = await db.select().from(assetsTable).where(eq(assetsTable.id, id)).execute();
+    if (!asset) return undefined;
+    const { legacy_location, ...rest } = asset;
+    return rest;
+  },
+  lending: async (id) => {
+    const [lending] = await db.select().from(lendingsTable).where(eq(lendingsTable.id, id)).execute();
+    return lending;
+  },
+  transfer: async (id) => {
+    const [transfer] = await db.select().from(transfersTable).where(eq(transfersTable.id, id)).execute();
+    return transfer;
+  },
+  email_template: async (id) => {
+    const [template] = await db.select().from(emailTemplatesTable).where(eq(emailTemplatesTable.id, id)).execute();
+    return template;
+  },
+  job: async (id) => {
+    const [job] = await db.select().from(jobsTable).where(eq(jobsTable.id, id)).execute();
+    return job;
+  }
+};
+
+export async function loadAuditSnapshot(entityType: AuditEntityType, id: number): Promise<Snapshot | null> {
+  try {
+    return toSnapshot(await snapshotLoaders[entityType](id));
+  } catch (error) {
+    console.error('Audit snapshot failed:', error);
+    throw error;
+  }
+}
+
+// Reduces two snapshots to the fields that changed. Creations keep the full
+// "after" state and deletions the full "before" state.
+export const diffSnapshots = (
+  before: Snapshot | null,
+  after: Snapshot | null
+): { before: Snapshot | null; after: Snapshot | null } => {
+  if (!before || !after) {
+    return { before, after };
+  }
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changedBefore[field] = before[field] ?? null;
+      changedAfter[field] = after[field] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+};
+
+// The audit log is append-only: events are inserted here and never updated or deleted
+export async function recordAuditEvent(event: {
+  actor_user_id: number | null;
+  api_key_id?: number | null;
+  procedure: string;
+  entity_type: AuditEntityType;
+  entity_id: number | null;
+  before: Snapshot | null;
+  after: Snapshot | null;
+  ip_address?: string | null;
+}): Promise<AuditEvent> {
+  try {
+    const diff = diffSnapshots(event.before, event.after);
+
+    const result = await db.insert(auditEventsTable)
+      .values({
+        actor_user_id: event.actor_user_id,
+        api_key_id: event.api_key_id ?? null,
+        procedure: event.procedure,
+        entity_type: event.entity_type,
+        entity_id: event.entity_id,
+        before: diff.before,
+        after: diff.after,
+        ip_address: event.ip_address ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Audit event recording failed:', error);
+    throw error;
+  }
+}
+
+export async function getAuditLog(input: GetAuditLogInput = {}): Promise<AuditEventWithActor[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.entity_type !== undefined) {
+      conditions.push(eq(auditEventsTable.entity_type, input.entity_type));
+    }
+
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditEventsTable.entity_id, input.entity_id));
+    }
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(auditEventsTable.actor_user_id, input.user_id));
+    }
+
+    if (input.start_date) {
+      conditions.push(gte(auditEventsTable.created_at, input.start_date));
+    }
+
+    if (input.end_date) {
+      conditions.push(lte(auditEventsTable.created_at, input.end_date));
+    }
+
+    const results = await db.select()
+      .from(auditEventsTable)
+      .leftJoin(usersTable, eq(auditEventsTable.actor_user_id, usersTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEventsTable.created_at), desc(auditEventsTable.id))
+      .limit(input.limit ?? 100)
+      .execute();
+
+    return results.map(result => ({
+      ...result.audit_events,
+      actor_username: result.users?.username ?? null
+    }));
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+}
@@ -1,12 +1,36 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
-import { type LoginInput, type CreateUserInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import {
+  type LoginInput,
+  type CreateUserInput,
+  type User,
+  type PublicUser,
+  type SessionTokens,
+  type ClientInfo,
+  type Capability,
+  type LoginFailureReason
+} from '../schema';
+import { createSession } from './sessions';
+import {
+  MAX_FAILED_LOGINS_PER_IP,
+  loginDelayMs,
+  countRecentIpFailures,
+  registerFailedLogin,
+  recordLoginAttempt
+} from './login_attempts';
+import { verifySecondFactor } from './two_factor';
+import { getCapabilities, isTwoFactorRequired } from '../permissions';
+import { eq, asc } from 'drizzle-orm';
+
+// Passwords are hashed with argon2id; the encoded hash carries its own salt and parameters
+export const hashPassword = async (password: string): Promise<string> => {
+  return Bun.password.hash(password, { algorithm: 'argon2id' });
+};
+
+// Hashes created before argon2id: SHA-256 with a fixed salt, stored as 64 hex characters
+const isLegacyHash = (hash: string): boolean => /^[0-9a-f]{64}$/.test(hash);
 
-// Simple password hashing (in production, use bcrypt or similar)
-const hashPassword = async (password: string): Promise<string> => {
-  // This is a simple hash for demo purposes
-  // In production, use bcrypt: const hash = await bcrypt.hash(password, 10);
+const legacyHashPassword = async (password: string): Promise<string> => {
   const encoder = new TextEncoder();
   const data = encoder.encode(password + 'salt');
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
@@ -15,21 +39,43 @@ const hashPassword = async (password: string): Promise<string> => {
     .join('');
 };
 
-const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
-  const inputHash = await hashPassword(password);
-  return inputHash === hash;
-};
+export const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
+  if (isLegacyHash(hash)) {
+    return (await legacyHashPassword(password)) === hash;
+  }
 
-// Simple JWT token generation (in production, use proper JWT library)
-const generateToken = (user: User): string => {
-  // This is a simple token for demo purposes
-  // In production, use jsonwebtoken library
-  const payload = { id: user.id, username: user.username, role: user.role };
-  return Buffer.from(JSON.stringify(payload)).toString('base64');
+  try {
+    return await Bun.password.verify(password, hash);
+  } catch {
+    // Unrecognised hash format
+    return false;
+  }
 };
 
-export async function login(input: LoginInput): Promise<{ user: User; token: string }> {
+export const toPublicUser = ({
+  password_hash,
+  totp_secret,
+  totp_last_used_step,
+  totp_recovery_codes,
+  ...user
+}: User): PublicUser => user;
+
+export async function login(
+  input: LoginInput,
+  client?: ClientInfo
+): Promise<{ user: PublicUser; capabilities: Capability[]; two_factor_setup_required: boolean } & SessionTokens> {
   try {
+    // Record the failed attempt in the login history before rejecting it
+    const reject = async (reason: LoginFailureReason, message: string, userId: number | null = null): Promise<never> => {
+      await recordLoginAttempt({ username: input.username, user_id: userId, success: false, failure_reason: reason }, client);
+      throw new Error(message);
+    };
+
+    // Throttle addresses that keep failing, whichever usernames they try
+    if (client?.ip_address && await countRecentIpFailures(client.ip_address) >= MAX_FAILED_LOGINS_PER_IP) {
+      return await reject('too_many_attempts', 'Too many failed login attempts, try again later');
+    }
+
     // Find user by username
     const users = await db.select()
       .from(usersTable)
@@ -37,23 +83,93 @@ export async function login(input: LoginInput): Promise<{ user: User; token: str
       .execute();
 
     if (users.length === 0) {
-      throw new Error('Invalid username or password');
+      return await reject('invalid_credentials', 'Invalid username or password');
     }
 
-    const user = users[0];
+    let user = users[0];
+    const now = new Date();
+
+    if (user.locked_until && user.locked_until > now) {
+      return await reject('account_locked', 'Account is temporarily locked, try again later', user.id);
+    }
+
+    // Progressive delay: attempts arriving too soon after a failure are refused unchecked
+    if (user.last_failed_login_at) {
+      const retryAt = user.last_failed_login_at.getTime() + loginDelayMs(user.failed_login_attempts);
+      if (retryAt > now.getTime()) {
+        const seconds = Math.ceil((retryAt - now.getTime()) / 1000);
+        return await reject('too_many_attempts', `Too many failed login attempts, try again in ${seconds} seconds`, user.id);
+      }
+    }
 
     // Verify password
     const isValidPassword = await verifyPassword(input.password, user.password_hash);
     if (!isValidPassword) {
-      throw new Error('Invalid username or password');
+      await registerFailedLogin(user.id);
+      return await reject('invalid_credentials', 'Invalid username or password', user.id);
     }
 
-    // Generate token
-    const token = generateToken(user);
+    if (!user.is_active) {
+      return await reject('account_deactivated', 'Account is deactivated', user.id);
+    }
+
+    // Accounts with two-factor enabled also need a one-time code
+    if (user.totp_enabled) {
+      if (!input.totp_code) {
+        throw new Error('Two-factor code required');
+      }
+
+      if (!await verifySecondFactor(user, input.totp_code)) {
+        await registerFailedLogin(user.id);
+        return await reject('invalid_two_factor_code', 'Invalid two-factor code', user.id);
+      }
+    }
+
+    // Failures arriving alongside this attempt may have locked the account since it was read
+    const current = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+    user = current[0];
+
+    if (user.locked_until && user.locked_until > now) {
+      return await reject('account_locked', 'Account is temporarily locked, try again later', user.id);
+    }
+
+    const needsUpgrade = isLegacyHash(user.password_hash);
+    if (needsUpgrade || user.failed_login_attempts > 0 || user.locked_until) {
+      // Clear the failure counter and any expired lockout
+      const updateData: Partial<typeof usersTable.$inferInsert> = {
+        failed_login_attempts: 0,
+        last_failed_login_at: null,
+        locked_until: null
+      };
+
+      // Upgrade legacy hashes now that the plain password is known
+      if (needsUpgrade) {
+        updateData.password_hash = await hashPassword(input.password);
+        updateData.updated_at = now;
+      }
+
+      const updated = await db.update(usersTable)
+        .set(updateData)
+        .where(eq(usersTable.id, user.id))
+        .returning()
+        .execute();
+
+      user = updated[0];
+    }
+
+    await recordLoginAttempt({ username: input.username, user_id: user.id, success: true }, client);
+
+    // Start a new session and issue its tokens
+    const tokens = await createSession(user.id, client);
 
     return {
-      user,
-      token
+      user: toPublicUser(user),
+      capabilities: getCapabilities(user.role),
+      two_factor_setup_required: isTwoFactorRequired(user.role) && !user.totp_enabled,
+      ...tokens
     };
   } catch (error) {
     console.error('Login failed:', error);
@@ -61,7 +177,7 @@ export async function login(input: LoginInput): Promise<{ user: User; token: str
   }
 }
 
-export async function createUser(input: CreateUserInput): Promise<User> {
+export async function createUser(input: CreateUserInput): Promise<PublicUser> {
   try {
     // Check if username already exists
     const existingUsers = await db.select()
@@ -97,20 +213,21 @@ export async function createUser(input: CreateUserInput): Promise<User> {
       .returning()
       .execute();
 
-    return result[0];
+    return toPublicUser(result[0]);
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
   }
 }
 
-export async function getUsers(): Promise<User[]> {
+export async function getUsers(): Promise<PublicUser[]> {
   try {
     const users = await db.select()
       .from(usersTable)
+      .orderBy(asc(usersTable.id))
       .execute();
 
-    return users;
+    return users.map(toPublicUser);
   } catch (error) {
     console.error('Failed to fetch users:', error);
     throw error;
@@ -8,7 +8,8 @@ export async function createCategory(input: CreateCategoryInput): Promise<Catego
     const result = await db.insert(categoriesTable)
       .values({
         name: input.name,
-        description: input.description || null
+        description: input.description || null,
+        tag_prefix: input.tag_prefix ? input.tag_prefix.toUpperCase() : null
       })
       .returning()
       .execute();
@@ -66,6 +67,10 @@ export async function updateCategory(input: UpdateCategoryInput): Promise<Catego
       updateData.description = input.description;
     }
 
+    if (input.tag_prefix !== undefined) {
+      updateData.tag_prefix = input.tag_prefix ? input.tag_prefix.toUpperCase() : null;
+    }
+
     // Only update if there are fields to update
     if (Object.keys(updateData).length === 0) {
       return existing;
@@ -1,7 +1,7 @@
 import { db } from '../db';
 import { assetsTable, lendingsTable, categoriesTable } from '../db/schema';
 import { type DashboardSummary } from '../schema';
-import { eq, desc, count, and, lt } from 'drizzle-orm';
+import { eq, desc, count, inArray } from 'drizzle-orm';
 
 export async function getDashboardSummary(): Promise<DashboardSummary> {
   try {
@@ -21,24 +21,18 @@ export async function getDashboardSummary(): Promise<DashboardSummary> {
     .from(categoriesTable)
     .execute();
 
-    // Get overdue lendings count
-    const now = new Date();
+    // Get overdue lendings count (the overdue job keeps the status current)
     const [overdueLendings] = await db.select({
       count: count()
     })
     .from(lendingsTable)
-    .where(
-      and(
-        eq(lendingsTable.status, 'active'),
-        lt(lendingsTable.expected_return_date, now)
-      )
-    )
+    .where(eq(lendingsTable.status, 'overdue'))
     .execute();
 
-    // Get recent lendings (last 5)
+    // Get recent lendings (last 5) that are still out
     const recentLendings = await db.select()
       .from(lendingsTable)
-      .where(eq(lendingsTable.status, 'active'))
+      .where(inArray(lendingsTable.status, ['active', 'overdue']))
       .orderBy(desc(lendingsTable.created_at))
       .limit(5)
       .execute();
@@ -0,0 +1,162 @@
+import { db } from '../db';
+import { emailTemplatesTable, usersTable } from '../db/schema';
+import {
+  lendingNoticeKindEnum,
+  type EmailTemplate,
+  type EmailTemplatePlaceholder,
+  type EmailTemplatePreview,
+  type LendingNoticeKind,
+  type PreviewEmailTemplateInput,
+  type UpdateEmailTemplateInput
+} from '../schema';
+import {
+  defaultEmailTemplates,
+  emailTemplatePlaceholders,
+  unknownPlaceholders,
+  buildEmailTemplateContext,
+  renderEmailTemplate
+} from '../email_templates';
+import { locationPath } from '../locations';
+import { getLendingById } from './lendings';
+import { loadLocationIndex } from './locations';
+import { eq } from 'drizzle-orm';
+
+export async function getEmailTemplates(): Promise<EmailTemplate[]> {
+  try {
+    const saved = await db.select().from(emailTemplatesTable).execute();
+
+    return lendingNoticeKindEnum.options.map((key) => {
+      const template = saved.find(row => row.key === key);
+      return template
+        ? { key, subject: template.subject, body: template.body, is_default: false, updated_by_user_id: template.updated_by_user_id, updated_at: template.updated_at }
+        : { key, ...defaultEmailTemplates[key], is_default: true, updated_by_user_id: null, updated_at: null };
+    });
+  } catch (error) {
+    console.error('Failed to fetch email templates:', error);
+    throw error;
+  }
+}
+
+// The template to send for a reminder: the saved version, or the built-in default
+export async function loadEmailTemplate(key: LendingNoticeKind): Promise<{ subject: string; body: string }> {
+  try {
+    const saved = await db.select()
+      .from(emailTemplatesTable)
+      .where(eq(emailTemplatesTable.key, key))
+      .execute();
+
+    return saved.length > 0
+      ? { subject: saved[0].subject, body: saved[0].body }
+      : defaultEmailTemplates[key];
+  } catch (error) {
+    console.error('Email template loading failed:', error);
+    throw error;
+  }
+}
+
+// The row holding an edited template, or null while the template is the built-in default
+export async function findEmailTemplateId(key: LendingNoticeKind): Promise<number | null> {
+  try {
+    const saved = await db.select({ id: emailTemplatesTable.id })
+      .from(emailTemplatesTable)
+      .where(eq(emailTemplatesTable.key, key))
+      .execute();
+
+    return saved.length > 0 ? saved[0].id : null;
+  } catch (error) {
+    console.error('Email template lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function updateEmailTemplate(input: UpdateEmailTemplateInput, updatedByUserId: number): Promise<EmailTemplate> {
+  try {
+    // A typo in a placeholder would otherwise go out to borrowers as literal braces
+    const unknown = unknownPlaceholders(`${input.subject}\n${input.body}`);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')}`);
+    }
+
+    const now = new Date();
+    const result = await db.insert(emailTemplatesTable)
+      .values({
+        key: input.key,
+        subject: input.subject,
+        body: input.body,
+        updated_by_user_id: updatedByUserId
+      })
+      .onConflictDoUpdate({
+        target: emailTemplatesTable.key,
+        set: {
+          subject: input.subject,
+          body: input.body,
+          updated_by_user_id: updatedByUserId,
+          updated_at: now
+        }
+      })
+      .returning()
+      .execute();
+
+    const template = result[0];
+    return {
+      key: template.key,
+      subject: template.subject,
+      body: template.body,
+      is_default: false,
+      updated_by_user_id: template.updated_by_user_id,
+      updated_at: template.updated_at
+    };
+  } catch (error) {
+    console.error('Email template update failed:', error);
+    throw error;
+  }
+}
+
+// Drops the saved version so the built-in default is used again
+export async function resetEmailTemplate(key: LendingNoticeKind): Promise<EmailTemplate> {
+  try {
+    await db.delete(emailTemplatesTable)
+      .where(eq(emailTemplatesTable.key, key))
+      .execute();
+
+    return { key, ...defaultEmailTemplates[key], is_default: true, updated_by_user_id: null, updated_at: null };
+  } catch (error) {
+    console.error('Email template reset failed:', error);
+    throw error;
+  }
+}
+
+export async function previewEmailTemplate(input: PreviewEmailTemplateInput): Promise<EmailTemplatePreview> {
+  try {
+    const lending = await getLendingById(input.lending_id);
+    if (!lending) {
+      throw new Error('Lending record not found');
+    }
+
+    const staff = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, lending.lent_by_user_id))
+      .execute();
+
+    const rendered = renderEmailTemplate(
+      { subject: input.subject, body: input.body },
+      buildEmailTemplateContext(
+        lending,
+        staff[0],
+        lending.asset.location_id !== null ? locationPath(await loadLocationIndex(), lending.asset.location_id) : null
+      )
+    );
+
+    return {
+      ...rendered,
+      unknown_placeholders: unknownPlaceholders(`${input.subject}\n${input.body}`)
+    };
+  } catch (error) {
+    console.error('Email template preview failed:', error);
+    throw error;
+  }
+}
+
+export const getEmailTemplatePlaceholders = (): EmailTemplatePlaceholder[] => {
+  return Object.entries(emailTemplatePlaceholders).map(([name, description]) => ({ name, description }));
+};
@@ -0,0 +1,76 @@
+import { db } from '../db';
+import { jobsTable, jobRunsTable, usersTable } from '../db/schema';
+import {
+  type Job,
+  type JobRun,
+  type JobRunWithDetails,
+  type GetJobRunsInput,
+  type TriggerJobInput
+} from '../schema';
+import { jobDefinitions, findJobDefinition } from '../jobs';
+import { runJob } from '../scheduler';
+import { parseCronExpression, nextCronRun } from '../cron';
+import { eq, desc, inArray } from 'drizzle-orm';
+
+export async function getJobs(): Promise<Job[]> {
+  try {
+    // Rows left behind by jobs that were removed from the code are not listed
+    const rows = await db.select()
+      .from(jobsTable)
+      .where(inArray(jobsTable.name, jobDefinitions.map(definition => definition.name)))
+      .orderBy(jobsTable.name)
+      .execute();
+
+    const now = new Date();
+    return rows.map(row => ({
+      ...row,
+      description: findJobDefinition(row.name)?.description ?? '',
+      next_run_at: nextCronRun(parseCronExpression(row.schedule), now)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch jobs:', error);
+    throw error;
+  }
+}
+
+export async function getJobRuns(input: GetJobRunsInput = {}): Promise<JobRunWithDetails[]> {
+  try {
+    const results = await db.select()
+      .from(jobRunsTable)
+      .innerJoin(jobsTable, eq(jobRunsTable.job_id, jobsTable.id))
+      .leftJoin(usersTable, eq(jobRunsTable.triggered_by_user_id, usersTable.id))
+      .where(input.job_name !== undefined ? eq(jobsTable.name, input.job_name) : undefined)
+      .orderBy(desc(jobRunsTable.started_at), desc(jobRunsTable.id))
+      .limit(input.limit ?? 50)
+      .execute();
+
+    return results.map(result => ({
+      ...result.job_runs,
+      job_name: result.jobs.name,
+      triggered_by_username: result.users?.username ?? null
+    }));
+  } catch (error) {
+    console.error('Failed to fetch job runs:', error);
+    throw error;
+  }
+}
+
+// Runs a job now, outside its schedule, and waits for it to finish
+export async function triggerJob(input: TriggerJobInput, triggeredByUserId: number): Promise<JobRun> {
+  try {
+    const definition = findJobDefinition(input.name);
+    if (!definition) {
+      throw new Error('Job not found');
+    }
+
+    const run = await runJob(definition, { triggeredByUserId });
+    if (!run) {
+      throw new Error('Job is already running');
+    }
+
+    return run;
+  } catch (error) {
+    console.error('Job trigger failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+import { db } from '../db';
+import { assetsTable } from '../db/schema';
+import { MAX_LABELS_PER_PRINT, type GenerateAssetLabelsInput, type AssetLabelSheet } from '../schema';
+import { labelSheetPdf, labelStocks } from '../labels';
+import { locationPath, subtreeIds } from '../locations';
+import { loadLocationIndex } from './locations';
+import { eq, and, asc, inArray, isNotNull, type SQL } from 'drizzle-orm';
+
+// A PDF of labels for the chosen assets, ready to print on the label stock.
+// Assets picked by id are printed in the order given, otherwise in tag order.
+export async function generateAssetLabels(input: GenerateAssetLabelsInput): Promise<AssetLabelSheet> {
+  try {
+    const stock = labelStocks[input.layout];
+    const perPage = stock.columns * stock.rows;
+    if (input.skip >= perPage) {
+      throw new Error(`A sheet has only ${perPage} labels; skip fewer than that`);
+    }
+
+    const locations = await loadLocationIndex();
+    const conditions: SQL<unknown>[] = [isNotNull(assetsTable.asset_tag)];
+
+    if (input.asset_ids !== undefined) {
+      conditions.push(inArray(assetsTable.id, input.asset_ids));
+    }
+
+    if (input.category_id !== undefined) {
+      conditions.push(eq(assetsTable.category_id, input.category_id));
+    }
+
+    if (input.location_id !== undefined) {
+      if (!locations.has(input.location_id)) {
+        throw new Error(`Location with id ${input.location_id} not found`);
+      }
+      conditions.push(inArray(assetsTable.location_id, subtreeIds(locations, input.location_id)));
+    }
+
+    if (input.status) {
+      conditions.push(eq(assetsTable.status, input.status));
+    }
+
+    const assets = await db.select({
+      id: assetsTable.id,
+      name: assetsTable.name,
+      asset_tag: assetsTable.asset_tag,
+      location_id: assetsTable.location_id
+    })
+      .from(assetsTable)
+      .where(and(...conditions))
+      .orderBy(asc(assetsTable.asset_tag))
+      // One more than allowed, to tell a full print from one that would be cut short
+      .limit(MAX_LABELS_PER_PRINT + 1)
+      .execute();
+
+    if (assets.length === 0) {
+      throw new Error('No tagged assets match; there are no labels to print');
+    }
+
+    if (assets.length > MAX_LABELS_PER_PRINT) {
+      throw new Error(`More than ${MAX_LABELS_PER_PRINT} tagged assets match; narrow the filters to print at most ${MAX_LABELS_PER_PRINT} labels at a time`);
+    }
+
+    if (input.asset_ids !== undefined) {
+      const order = new Map(input.asset_ids.map((id, index) => [id, index]));
+      assets.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    }
+
+    const { pdf, pages } = labelSheetPdf(
+      assets.map(asset => ({
+        tag: asset.asset_tag!,
+        name: asset.name,
+        location: asset.location_id !== null ? locationPath(locations, asset.location_id) : null
+      })),
+      input.layout,
+      input.format,
+      input.skip
+    );
+
+    return {
+      filename: `asset-labels-${new Date().toISOString().split('T')[0]}.pdf`,
+      pdf_base64: Buffer.from(pdf).toString('base64'),
+      label_count: assets.length,
+      page_count: pages
+    };
+  } catch (error) {
+    console.error('Asset label generation failed:', error);
+    throw error;
+  }
+}
@@ -1,57 +1,98 @@
 import { db } from '../db';
-import { lendingsTable, assetsTable, categoriesTable, usersTable } from '../db/schema';
-import { type CreateLendingInput, type ReturnAssetInput, type Lending, type LendingWithDetails } from '../schema';
-import { eq, and, lt, SQL } from 'drizzle-orm';
-
-export async function createLending(input: CreateLendingInput): Promise<Lending> {
+import { lendingsTable, assetsTable, categoriesTable, usersTable, assetStatusChangesTable, transfersTable, notificationsTable } from '../db/schema';
+import { type CreateLendingInput, type UpdateLendingInput, type ReturnAssetInput, type Lending, type LendingWithDetails } from '../schema';
+import { canTransitionAssetStatus, assetStatusTransitionError } from '../asset_status';
+import { createNotifications, getUserIdsWithCapability } from './notifications';
+import { isOpenTransferOf } from './transfers';
+import { publishAssetChange, publishLendingChange } from '../events';
+import { eq, and, lt, gte, inArray } from 'drizzle-orm';
+
+// Lendings whose asset is still out: 'overdue' is an active lending past its
+// expected return date, kept up to date by refreshOverdueLendings
+const OUTSTANDING_STATUSES: ('active' | 'overdue')[] = ['active', 'overdue'];
+
+const outstandingStatusFor = (expectedReturnDate: Date, now: Date = new Date()): 'active' | 'overdue' => {
+  return expectedReturnDate < now ? 'overdue' : 'active';
+};
+
+export async function createLending(input: CreateLendingInput, lentByUserId: number): Promise<Lending> {
   try {
-    // First, verify that the asset exists and is available
-    const asset = await db.select()
-      .from(assetsTable)
-      .where(eq(assetsTable.id, input.asset_id))
-      .execute();
-
-    if (asset.length === 0) {
-      throw new Error('Asset not found');
-    }
+    // The lending, the asset status and its change record are written together or not at all
+    const lending = await db.transaction(async (tx) => {
+      // Lock the asset row so concurrent checkouts of the same asset wait here
+      // and see the status left by whichever one commits first
+      const asset = await tx.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.id, input.asset_id))
+        .for('update')
+        .execute();
+
+      if (asset.length === 0) {
+        throw new Error('Asset not found');
+      }
 
-    if (asset[0].status !== 'available') {
-      throw new Error('Asset is not available for lending');
-    }
+      if (!canTransitionAssetStatus(asset[0].status, 'lent', 'lending')) {
+        throw new Error('Asset is not available for lending');
+      }
 
-    // Verify that the user exists
-    const user = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, input.lent_by_user_id))
-      .execute();
+      // An asset on its way to another location stays put until it arrives or the transfer is cancelled
+      const openTransfers = await tx.select({ id: transfersTable.id })
+        .from(transfersTable)
+        .where(isOpenTransferOf(input.asset_id))
+        .execute();
 
-    if (user.length === 0) {
-      throw new Error('User not found');
-    }
+      if (openTransfers.length > 0) {
+        throw new Error('Asset has a transfer pending and cannot be lent out until it is received or cancelled');
+      }
 
-    // Create the lending record
-    const lendingResult = await db.insert(lendingsTable)
-      .values({
-        asset_id: input.asset_id,
-        borrower_name: input.borrower_name,
-        borrower_email: input.borrower_email || null,
-        borrower_phone: input.borrower_phone || null,
-        department: input.department || null,
-        expected_return_date: input.expected_return_date,
-        notes: input.notes || null,
-        lent_by_user_id: input.lent_by_user_id,
-        status: 'active'
-      })
-      .returning()
-      .execute();
+      // Verify that the user exists
+      const user = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, lentByUserId))
+        .execute();
 
-    // Update asset status to 'lent'
-    await db.update(assetsTable)
-      .set({ status: 'lent', updated_at: new Date() })
-      .where(eq(assetsTable.id, input.asset_id))
-      .execute();
+      if (user.length === 0) {
+        throw new Error('User not found');
+      }
 
-    return lendingResult[0];
+      // Create the lending record
+      const lendingResult = await tx.insert(lendingsTable)
+        .values({
+          asset_id: input.asset_id,
+          borrower_name: input.borrower_name,
+          borrower_email: input.borrower_email || null,
+          borrower_phone: input.borrower_phone || null,
+          department: input.department || null,
+          expected_return_date: input.expected_return_date,
+          notes: input.notes || null,
+          lent_by_user_id: lentByUserId,
+          status: outstandingStatusFor(input.expected_return_date)
+        })
+        .returning()
+        .execute();
+
+      // Update asset status to 'lent'
+      await tx.update(assetsTable)
+        .set({ status: 'lent', updated_at: new Date() })
+        .where(eq(assetsTable.id, input.asset_id))
+        .execute();
+
+      await tx.insert(assetStatusChangesTable)
+        .values({
+          asset_id: input.asset_id,
+          from_status: asset[0].status,
+          to_status: 'lent',
+          changed_by_user_id: lentByUserId,
+          lending_id: lendingResult[0].id
+        })
+        .execute();
+
+      return lendingResult[0];
+    });
+
+    publishLendingChange({ action: 'created', lending_id: lending.id, asset_id: lending.asset_id });
+    publishAssetChange({ action: 'updated', asset_id: lending.asset_id });
+    return lending;
   } catch (error) {
     console.error('Lending creation failed:', error);
     throw error;
@@ -87,7 +128,7 @@ export async function getActiveLendings(): Promise<LendingWithDetails[]> {
       .from(lendingsTable)
       .innerJoin(assetsTable, eq(lendingsTable.asset_id, assetsTable.id))
       .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
-      .where(eq(lendingsTable.status, 'active'))
+      .where(inArray(lendingsTable.status, OUTSTANDING_STATUSES))
       .execute();
 
     return results.map(result => ({
@@ -107,17 +148,11 @@ export async function getActiveLendings(): Promise<LendingWithDetails[]> {
 
 export async function getOverdueLendings(): Promise<LendingWithDetails[]> {
   try {
-    const today = new Date();
     const results = await db.select()
       .from(lendingsTable)
       .innerJoin(assetsTable, eq(lendingsTable.asset_id, assetsTable.id))
       .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
-      .where(
-        and(
-          eq(lendingsTable.status, 'active'),
-          lt(lendingsTable.expected_return_date, today)
-        )
-      )
+      .where(eq(lendingsTable.status, 'overdue'))
       .execute();
 
     return results.map(result => ({
@@ -188,71 +223,121 @@ export async function getLendingsByAsset(assetId: number): Promise<LendingWithDe
   }
 }
 
-export async function returnAsset(input: ReturnAssetInput): Promise<Lending> {
+export async function returnAsset(input: ReturnAssetInput, returnedByUserId: number): Promise<Lending> {
   try {
-    // First, verify that the lending record exists and is active
-    const lending = await db.select()
-      .from(lendingsTable)
-      .where(eq(lendingsTable.id, input.lending_id))
-      .execute();
+    const returned = await db.transaction(async (tx) => {
+      // Lock the lending first so a second return of the same lending waits
+      // and then finds it no longer active
+      const lending = await tx.select()
+        .from(lendingsTable)
+        .where(eq(lendingsTable.id, input.lending_id))
+        .for('update')
+        .execute();
+
+      if (lending.length === 0) {
+        throw new Error('Lending record not found');
+      }
 
-    if (lending.length === 0) {
-      throw new Error('Lending record not found');
-    }
+      if (!OUTSTANDING_STATUSES.includes(lending[0].status as 'active' | 'overdue')) {
+        throw new Error('Lending record is not active');
+      }
 
-    if (lending[0].status !== 'active') {
-      throw new Error('Lending record is not active');
-    }
+      // Verify that the user exists
+      const user = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, returnedByUserId))
+        .execute();
 
-    // Verify that the user exists
-    const user = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, input.returned_by_user_id))
-      .execute();
+      if (user.length === 0) {
+        throw new Error('User not found');
+      }
 
-    if (user.length === 0) {
-      throw new Error('User not found');
-    }
+      // Update asset status based on condition
+      let newAssetStatus: 'available' | 'maintenance' | 'damaged' = 'available';
+      if (input.asset_condition === 'damaged') {
+        newAssetStatus = 'damaged';
+      } else if (input.asset_condition === 'needs_maintenance') {
+        newAssetStatus = 'maintenance';
+      }
 
-    const returnDate = new Date();
+      const asset = await tx.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.id, lending[0].asset_id))
+        .for('update')
+        .execute();
 
-    // Update the lending record
-    const updatedLending = await db.update(lendingsTable)
-      .set({
-        actual_return_date: returnDate,
-        status: 'returned',
-        returned_by_user_id: input.returned_by_user_id,
-        notes: input.return_notes || lending[0].notes,
-        updated_at: returnDate
-      })
-      .where(eq(lendingsTable.id, input.lending_id))
-      .returning()
-      .execute();
+      if (!canTransitionAssetStatus(asset[0].status, newAssetStatus, 'return')) {
+        throw new Error(assetStatusTransitionError(asset[0].status, newAssetStatus));
+      }
 
-    // Update asset status based on condition
-    let newAssetStatus: 'available' | 'maintenance' | 'damaged' = 'available';
-    if (input.asset_condition === 'damaged') {
-      newAssetStatus = 'damaged';
-    } else if (input.asset_condition === 'needs_maintenance') {
-      newAssetStatus = 'maintenance';
+      const returnDate = new Date();
+
+      // Update the lending record
+      const updatedLending = await tx.update(lendingsTable)
+        .set({
+          actual_return_date: returnDate,
+          status: 'returned',
+          returned_by_user_id: returnedByUserId,
+          notes: input.return_notes || lending[0].notes,
+          updated_at: returnDate
+        })
+        .where(eq(lendingsTable.id, input.lending_id))
+        .returning()
+        .execute();
+
+      await tx.update(assetsTable)
+        .set({
+          status: newAssetStatus,
+          updated_at: returnDate
+        })
+        .where(eq(assetsTable.id, lending[0].asset_id))
+        .execute();
+
+      await tx.insert(assetStatusChangesTable)
+        .values({
+          asset_id: lending[0].asset_id,
+          from_status: asset[0].status,
+          to_status: newAssetStatus,
+          reason: input.return_notes || null,
+          changed_by_user_id: returnedByUserId,
+          lending_id: lending[0].id,
+          created_at: returnDate
+        })
+        .execute();
+
+      return { lending: updatedLending[0], asset: asset[0], assetStatus: newAssetStatus };
+    });
+
+    publishLendingChange({ action: 'returned', lending_id: returned.lending.id, asset_id: returned.asset.id });
+    publishAssetChange({ action: 'updated', asset_id: returned.asset.id });
+
+    // Let everyone who looks after assets know it came back needing attention.
+    // The return has already been saved, so a failure here is logged rather
+    // than reported to the caller.
+    if (returned.assetStatus !== 'available') {
+      try {
+        const userIds = await getUserIdsWithCapability('asset.write');
+        await createNotifications(userIds.map(userId => ({
+          user_id: userId,
+          kind: 'asset_needs_maintenance' as const,
+          title: returned.assetStatus === 'damaged' ? 'Asset returned damaged' : 'Asset needs maintenance',
+          message: `${returned.asset.name} was returned by ${returned.lending.borrower_name}${input.return_notes ? `: ${input.return_notes}` : ''}`,
+          link_tab: 'assets',
+          entity_id: returned.asset.id
+        })));
+      } catch (error) {
+        console.error(`Notifications for the return of lending ${returned.lending.id} were not created:`, error);
+      }
     }
 
-    await db.update(assetsTable)
-      .set({ 
-        status: newAssetStatus,
-        updated_at: returnDate
-      })
-      .where(eq(assetsTable.id, lending[0].asset_id))
-      .execute();
-
-    return updatedLending[0];
+    return returned.lending;
   } catch (error) {
     console.error('Asset return failed:', error);
     throw error;
   }
 }
 
-export async function updateLending(id: number, updates: Partial<Lending>): Promise<Lending> {
+export async function updateLending(id: number, updates: UpdateLendingInput['updates']): Promise<Lending> {
   try {
     // First, verify that the lending record exists
     const existingLending = await db.select()
@@ -273,7 +358,13 @@ export async function updateLending(id: number, updates: Partial<Lending>): Prom
     if (updates.borrower_email !== undefined) updateData.borrower_email = updates.borrower_email;
     if (updates.borrower_phone !== undefined) updateData.borrower_phone = updates.borrower_phone;
     if (updates.department !== undefined) updateData.department = updates.department;
-    if (updates.expected_return_date !== undefined) updateData.expected_return_date = updates.expected_return_date;
+    if (updates.expected_return_date !== undefined) {
+      updateData.expected_return_date = updates.expected_return_date;
+      // Extending an overdue lending makes it active again, and shortening one can make it overdue
+      if (OUTSTANDING_STATUSES.includes(existingLending[0].status as 'active' | 'overdue')) {
+        updateData.status = outstandingStatusFor(updates.expected_return_date);
+      }
+    }
     if (updates.notes !== undefined) updateData.notes = updates.notes;
 
     // Update the lending record
@@ -283,9 +374,64 @@ export async function updateLending(id: number, updates: Partial<Lending>): Prom
       .returning()
       .execute();
 
+    publishLendingChange({ action: 'updated', lending_id: id, asset_id: updatedLending[0].asset_id });
     return updatedLending[0];
   } catch (error) {
     console.error('Lending update failed:', error);
     throw error;
   }
+}
+
+// Moves outstanding lendings between 'active' and 'overdue' as their expected
+// return dates pass or are extended. Run periodically by the overdue job.
+export async function refreshOverdueLendings(now: Date = new Date()): Promise<{ marked_overdue: number; cleared: number }> {
+  try {
+    // Lendings are marked overdue together with their notifications, so if the
+    // notifications cannot be written the lendings stay active for the next run
+    const markedOverdue = await db.transaction(async (tx) => {
+      const marked = await tx.update(lendingsTable)
+        .set({ status: 'overdue', updated_at: now })
+        .where(and(eq(lendingsTable.status, 'active'), lt(lendingsTable.expected_return_date, now)))
+        .returning()
+        .execute();
+
+      if (marked.length === 0) {
+        return marked;
+      }
+
+      // Tell the staff member who lent each asset out that it is now overdue
+      const assets = await tx.select({ id: assetsTable.id, name: assetsTable.name })
+        .from(assetsTable)
+        .where(inArray(assetsTable.id, marked.map(lending => lending.asset_id)))
+        .execute();
+
+      await tx.insert(notificationsTable)
+        .values(marked.map(lending => ({
+          user_id: lending.lent_by_user_id,
+          kind: 'lending_overdue' as const,
+          title: 'Lending overdue',
+          message: `${assets.find(asset => asset.id === lending.asset_id)?.name ?? 'An asset'} lent to ${lending.borrower_name} was due back on ${lending.expected_return_date.toISOString().split('T')[0]}`,
+          link_tab: 'returns',
+          entity_id: lending.id
+        })))
+        .execute();
+
+      return marked;
+    });
+
+    const cleared = await db.update(lendingsTable)
+      .set({ status: 'active', updated_at: now })
+      .where(and(eq(lendingsTable.status, 'overdue'), gte(lendingsTable.expected_return_date, now)))
+      .returning({ id: lendingsTable.id, asset_id: lendingsTable.asset_id })
+      .execute();
+
+    for (const lending of [...markedOverdue, ...cleared]) {
+      publishLendingChange({ action: 'updated', lending_id: lending.id, asset_id: lending.asset_id });
+    }
+
+    return { marked_overdue: markedOverdue.length, cleared: cleared.length };
+  } catch (error) {
+    console.error('Overdue lending refresh failed:', error);
+    throw error;
+  }
 }
\ No newline at end of file
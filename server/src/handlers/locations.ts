@@ -0,0 +1,349 @@
+import { db } from '../db';
+import { locationsTable, assetsTable, transfersTable } from '../db/schema';
+import {
+  type CreateLocationInput,
+  type UpdateLocationInput,
+  type DeleteLocationInput,
+  type Location,
+  type LocationType,
+  type LocationWithDetails
+} from '../schema';
+import { canContain, indexLocations, ancestorIdsOf, locationPath, type LocationIndex } from '../locations';
+import { OPEN_TRANSFER_STATUSES } from './transfers';
+import { publishAssetChange } from '../events';
+import { eq, and, or, isNull, isNotNull, count, inArray } from 'drizzle-orm';
+
+// Site that free-text locations are filed under when they are first imported
+const IMPORTED_SITE_NAME = 'Imported locations';
+
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export async function loadLocationIndex(): Promise<LocationIndex> {
+  const locations = await db.select({
+    id: locationsTable.id,
+    name: locationsTable.name,
+    type: locationsTable.type,
+    parent_id: locationsTable.parent_id
+  })
+    .from(locationsTable)
+    .execute();
+
+  return indexLocations(locations);
+}
+
+const containmentError = (parentType: LocationType | null, childType: LocationType): string => {
+  return parentType === null
+    ? `A ${childType} must be placed inside another location`
+    : `A ${childType} cannot be placed inside a ${parentType}`;
+};
+
+// Names only need to be unique among locations with the same parent ("Floor 1"
+// exists in every building), but "Room 101" and "room  101" count as the same
+async function assertUniqueSiblingName(name: string, parentId: number | null, excludeId?: number): Promise<void> {
+  const siblings = await db.select()
+    .from(locationsTable)
+    .where(parentId === null ? isNull(locationsTable.parent_id) : eq(locationsTable.parent_id, parentId))
+    .execute();
+
+  if (siblings.some(sibling => sibling.id !== excludeId && normalizeName(sibling.name) === normalizeName(name))) {
+    throw new Error(`A location named ${name.trim()} already exists there`);
+  }
+}
+
+export async function createLocation(input: CreateLocationInput): Promise<Location> {
+  try {
+    const parentId = input.parent_id ?? null;
+    const parent = parentId !== null ? await getLocationById(parentId) : null;
+    if (parentId !== null && !parent) {
+      throw new Error(`Location with id ${parentId} not found`);
+    }
+
+    if (!canContain(parent?.type ?? null, input.type)) {
+      throw new Error(containmentError(parent?.type ?? null, input.type));
+    }
+
+    await assertUniqueSiblingName(input.name, parentId);
+
+    const result = await db.insert(locationsTable)
+      .values({
+        name: input.name.trim(),
+        type: input.type,
+        parent_id: parentId,
+        description: input.description || null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Location creation failed:', error);
+    throw error;
+  }
+}
+
+// Every location with its full path and how many assets it holds, counting the
+// locations below it, ordered so each location follows the one containing it
+export async function getLocations(): Promise<LocationWithDetails[]> {
+  try {
+    const locations = await db.select()
+      .from(locationsTable)
+      .execute();
+
+    const assetCounts = await db.select({ location_id: assetsTable.location_id, count: count() })
+      .from(assetsTable)
+      .where(isNotNull(assetsTable.location_id))
+      .groupBy(assetsTable.location_id)
+      .execute();
+
+    const index = indexLocations(locations);
+    const withDetails = locations.map(location => ({
+      ...location,
+      path: locationPath(index, location.id),
+      ancestor_ids: ancestorIdsOf(index, location.id),
+      asset_count: 0
+    }));
+
+    const byId = new Map(withDetails.map(location => [location.id, location]));
+    for (const { location_id, count: assets } of assetCounts) {
+      for (const id of [...ancestorIdsOf(index, location_id!), location_id!]) {
+        const location = byId.get(id);
+        if (location) location.asset_count += assets;
+      }
+    }
+
+    return withDetails.sort((a, b) => a.path.localeCompare(b.path));
+  } catch (error) {
+    console.error('Failed to fetch locations:', error);
+    throw error;
+  }
+}
+
+export async function getLocationById(id: number): Promise<Location | null> {
+  try {
+    const result = await db.select()
+      .from(locationsTable)
+      .where(eq(locationsTable.id, id))
+      .execute();
+
+    return result[0] || null;
+  } catch (error) {
+    console.error('Failed to fetch location by ID:', error);
+    throw error;
+  }
+}
+
+export async function updateLocation(input: UpdateLocationInput): Promise<Location> {
+  try {
+    const existing = await getLocationById(input.id);
+    if (!existing) {
+      throw new Error(`Location with id ${input.id} not found`);
+    }
+
+    const type = input.type ?? existing.type;
+    const parentId = input.parent_id !== undefined ? input.parent_id : existing.parent_id;
+    const name = input.name ?? existing.name;
+
+    // Moving a location or changing its level must keep the tree in order, both
+    // above it and for the locations it already contains. Levels only increase
+    // going down, so a location can never end up inside itself.
+    if (input.type !== undefined || input.parent_id !== undefined) {
+      const parent = parentId !== null ? await getLocationById(parentId) : null;
+      if (parentId !== null && !parent) {
+        throw new Error(`Location with id ${parentId} not found`);
+      }
+      if (!canContain(parent?.type ?? null, type)) {
+        throw new Error(containmentError(parent?.type ?? null, type));
+      }
+
+      const children = await db.select()
+        .from(locationsTable)
+        .where(eq(locationsTable.parent_id, input.id))
+        .execute();
+      const misplaced = children.find(child => !canContain(type, child.type));
+      if (misplaced) {
+        throw new Error(containmentError(type, misplaced.type));
+      }
+    }
+
+    if (input.name !== undefined || input.parent_id !== undefined) {
+      await assertUniqueSiblingName(name, parentId, input.id);
+    }
+
+    const updateData: Partial<typeof locationsTable.$inferInsert> = {};
+    if (input.name !== undefined) updateData.name = input.name.trim();
+    if (input.type !== undefined) updateData.type = input.type;
+    if (input.parent_id !== undefined) updateData.parent_id = input.parent_id;
+    if (input.description !== undefined) updateData.description = input.description;
+
+    if (Object.keys(updateData).length === 0) {
+      return existing;
+    }
+
+    const result = await db.update(locationsTable)
+      .set({ ...updateData, updated_at: new Date() })
+      .where(eq(locationsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Location update failed:', error);
+    throw error;
+  }
+}
+
+// Assets in the location can be moved elsewhere as part of deleting it, which
+// is also how duplicates (e.g. "A-101" and "Bldg A Rm 101") are merged. Transfers
+// to or from it are pointed at the same place so their history stays whole.
+export async function deleteLocation(input: DeleteLocationInput): Promise<{ success: boolean; assets_moved: number }> {
+  try {
+    const existing = await getLocationById(input.id);
+    if (!existing) {
+      throw new Error(`Location with id ${input.id} not found`);
+    }
+
+    const children = await db.select()
+      .from(locationsTable)
+      .where(eq(locationsTable.parent_id, input.id))
+      .execute();
+
+    if (children.length > 0) {
+      throw new Error(`Cannot delete location containing ${children.length} other locations`);
+    }
+
+    const assets = await db.select({ id: assetsTable.id })
+      .from(assetsTable)
+      .where(eq(assetsTable.location_id, input.id))
+      .execute();
+
+    const allTransfers = await db.select({ id: transfersTable.id, status: transfersTable.status })
+      .from(transfersTable)
+      .where(or(eq(transfersTable.from_location_id, input.id), eq(transfersTable.to_location_id, input.id)))
+      .execute();
+
+    // Received and cancelled transfers are history and keep the locations they
+    // were made between, so a location they name cannot be deleted
+    const transfers = allTransfers.filter(transfer => OPEN_TRANSFER_STATUSES.includes(transfer.status));
+    const finishedTransfers = allTransfers.length - transfers.length;
+    if (finishedTransfers > 0) {
+      throw new Error(`Cannot delete location recorded in ${finishedTransfers} finished transfers`);
+    }
+
+    if (assets.length > 0 || transfers.length > 0) {
+      if (input.reassign_to_id === undefined) {
+        throw new Error(assets.length > 0
+          ? `Cannot delete location with ${assets.length} assets; choose a location to move them to`
+          : `Cannot delete location used by ${transfers.length} transfers; choose a location to move them to`);
+      }
+      if (input.reassign_to_id === input.id || !(await getLocationById(input.reassign_to_id))) {
+        throw new Error('Choose another existing location to move the assets to');
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      if (assets.length > 0) {
+        await tx.update(assetsTable)
+          .set({ location_id: input.reassign_to_id, updated_at: new Date() })
+          .where(eq(assetsTable.location_id, input.id))
+          .execute();
+      }
+
+      if (transfers.length > 0) {
+        await tx.update(transfersTable)
+          .set({ from_location_id: input.reassign_to_id })
+          .where(and(eq(transfersTable.from_location_id, input.id), inArray(transfersTable.status, OPEN_TRANSFER_STATUSES)))
+          .execute();
+        await tx.update(transfersTable)
+          .set({ to_location_id: input.reassign_to_id })
+          .where(and(eq(transfersTable.to_location_id, input.id), inArray(transfersTable.status, OPEN_TRANSFER_STATUSES)))
+          .execute();
+      }
+
+      await tx.delete(locationsTable)
+        .where(eq(locationsTable.id, input.id))
+        .execute();
+    });
+
+    for (const asset of assets) {
+      publishAssetChange({ action: 'updated', asset_id: asset.id });
+    }
+
+    return { success: true, assets_moved: assets.length };
+  } catch (error) {
+    console.error('Location deletion failed:', error);
+    throw error;
+  }
+}
+
+// One-off move of the free-text locations assets had before the locations table
+// into it. Each distinct text (ignoring case and spacing) becomes a room under an
+// "Imported locations" site, ready to be renamed, moved into place or merged.
+// Runs at startup and does nothing once every asset has been moved over.
+export async function importLegacyLocations(): Promise<{ locations_created: number; assets_updated: number }> {
+  try {
+    return await db.transaction(async (tx) => {
+      const assets = await tx.select({ id: assetsTable.id, legacy_location: assetsTable.legacy_location })
+        .from(assetsTable)
+        .where(isNotNull(assetsTable.legacy_location))
+        .for('update')
+        .execute();
+
+      const pending = assets.filter(asset => asset.legacy_location!.trim() !== '');
+      let locationsCreated = 0;
+
+      if (pending.length > 0) {
+        let [site] = await tx.select()
+          .from(locationsTable)
+          .where(and(isNull(locationsTable.parent_id), eq(locationsTable.name, IMPORTED_SITE_NAME)))
+          .execute();
+
+        if (!site) {
+          [site] = await tx.insert(locationsTable)
+            .values({ name: IMPORTED_SITE_NAME, type: 'site', description: 'Locations carried over from free-text asset locations' })
+            .returning()
+            .execute();
+          locationsCreated++;
+        }
+
+        const rooms = await tx.select()
+          .from(locationsTable)
+          .where(eq(locationsTable.parent_id, site.id))
+          .execute();
+        const roomIds = new Map(rooms.map(room => [normalizeName(room.name), room.id]));
+
+        for (const asset of pending) {
+          const key = normalizeName(asset.legacy_location!);
+          let roomId = roomIds.get(key);
+          if (roomId === undefined) {
+            const [room] = await tx.insert(locationsTable)
+              .values({ name: asset.legacy_location!.trim().replace(/\s+/g, ' '), type: 'room', parent_id: site.id })
+              .returning()
+              .execute();
+            roomId = room.id;
+            roomIds.set(key, roomId);
+            locationsCreated++;
+          }
+
+          await tx.update(assetsTable)
+            .set({ location_id: roomId, legacy_location: null })
+            .where(eq(assetsTable.id, asset.id))
+            .execute();
+        }
+      }
+
+      // Blank text locations carry nothing worth keeping
+      const blank = assets.filter(asset => asset.legacy_location!.trim() === '');
+      for (const asset of blank) {
+        await tx.update(assetsTable)
+          .set({ legacy_location: null })
+          .where(eq(assetsTable.id, asset.id))
+          .execute();
+      }
+
+      return { locations_created: locationsCreated, assets_updated: pending.length };
+    });
+  } catch (error) {
+    console.error('Legacy location import failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,132 @@
+import { db } from '../db';
+import { loginAttemptsTable, usersTable } from '../db/schema';
+import {
+  type User,
+  type ClientInfo,
+  type LoginAttempt,
+  type LoginFailureReason,
+  type GetLoginHistoryInput
+} from '../schema';
+import { eq, and, gt, desc, count, sql, type SQL } from 'drizzle-orm';
+
+export const MAX_FAILED_LOGINS = 5; // Per account, before a temporary lockout
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+export const MAX_FAILED_LOGINS_PER_IP = 20; // Per address, within the window below
+export const IP_FAILURE_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+const BASE_LOGIN_DELAY_MS = 1000;
+const MAX_LOGIN_DELAY_MS = 30 * 1000;
+
+// Minimum wait before the next attempt, doubling with each consecutive failure
+export const loginDelayMs = (failedAttempts: number): number => {
+  if (failedAttempts <= 0) {
+    return 0;
+  }
+  return Math.min(BASE_LOGIN_DELAY_MS * 2 ** (failedAttempts - 1), MAX_LOGIN_DELAY_MS);
+};
+
+export async function recordLoginAttempt(
+  attempt: { username: string; user_id: number | null; success: boolean; failure_reason?: LoginFailureReason },
+  client?: ClientInfo
+): Promise<LoginAttempt> {
+  try {
+    const result = await db.insert(loginAttemptsTable)
+      .values({
+        username: attempt.username,
+        user_id: attempt.user_id,
+        ip_address: client?.ip_address ?? null,
+        user_agent: client?.user_agent ?? null,
+        success: attempt.success,
+        failure_reason: attempt.failure_reason ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Login attempt recording failed:', error);
+    throw error;
+  }
+}
+
+export async function countRecentIpFailures(ipAddress: string): Promise<number> {
+  try {
+    const [result] = await db.select({ count: count() })
+      .from(loginAttemptsTable)
+      .where(
+        and(
+          eq(loginAttemptsTable.ip_address, ipAddress),
+          eq(loginAttemptsTable.success, false),
+          gt(loginAttemptsTable.created_at, new Date(Date.now() - IP_FAILURE_WINDOW_MS))
+        )
+      )
+      .execute();
+
+    return result.count;
+  } catch (error) {
+    console.error('Failed to count login failures:', error);
+    throw error;
+  }
+}
+
+// Bump the account's failure counter, locking it once the limit is reached.
+// The count is raised in the database so concurrent failures each add one.
+export async function registerFailedLogin(userId: number): Promise<User> {
+  try {
+    const now = new Date();
+
+    const [user] = await db.update(usersTable)
+      .set({
+        failed_login_attempts: sql`${usersTable.failed_login_attempts} + 1`,
+        last_failed_login_at: now
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    if (user.failed_login_attempts < MAX_FAILED_LOGINS) {
+      return user;
+    }
+
+    const locked = await db.update(usersTable)
+      .set({ locked_until: new Date(now.getTime() + LOCKOUT_DURATION_MS) })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    return locked[0];
+  } catch (error) {
+    console.error('Failed login registration failed:', error);
+    throw error;
+  }
+}
+
+export async function getLoginHistory(input: GetLoginHistoryInput = {}): Promise<LoginAttempt[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.user_id !== undefined) {
+      conditions.push(eq(loginAttemptsTable.user_id, input.user_id));
+    }
+
+    if (input.ip_address !== undefined) {
+      conditions.push(eq(loginAttemptsTable.ip_address, input.ip_address));
+    }
+
+    if (input.success !== undefined) {
+      conditions.push(eq(loginAttemptsTable.success, input.success));
+    }
+
+    const attempts = await db.select()
+      .from(loginAttemptsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(loginAttemptsTable.created_at), desc(loginAttemptsTable.id))
+      .limit(input.limit ?? 100)
+      .execute();
+
+    return attempts;
+  } catch (error) {
+    console.error('Failed to fetch login history:', error);
+    throw error;
+  }
+}
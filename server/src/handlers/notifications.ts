@@ -0,0 +1,112 @@
+import { db } from '../db';
+import { notificationsTable, usersTable } from '../db/schema';
+import {
+  type Capability,
+  type GetNotificationsInput,
+  type Notification,
+  type NotificationSummary
+} from '../schema';
+import { hasCapability } from '../permissions';
+import { eq, and, isNull, desc, count } from 'drizzle-orm';
+
+type NewNotificationInput = Omit<Notification, 'id' | 'read_at' | 'created_at'>;
+
+export async function createNotifications(notifications: NewNotificationInput[]): Promise<Notification[]> {
+  try {
+    if (notifications.length === 0) {
+      return [];
+    }
+
+    return await db.insert(notificationsTable)
+      .values(notifications)
+      .returning()
+      .execute();
+  } catch (error) {
+    console.error('Notification creation failed:', error);
+    throw error;
+  }
+}
+
+// Active users whose role holds a capability, e.g. everyone who looks after assets
+export async function getUserIdsWithCapability(capability: Capability): Promise<number[]> {
+  try {
+    const users = await db.select({ id: usersTable.id, role: usersTable.role })
+      .from(usersTable)
+      .where(eq(usersTable.is_active, true))
+      .execute();
+
+    return users.filter(user => hasCapability(user.role, capability)).map(user => user.id);
+  } catch (error) {
+    console.error('Failed to fetch users by capability:', error);
+    throw error;
+  }
+}
+
+export async function getNotifications(input: GetNotificationsInput, userId: number): Promise<NotificationSummary> {
+  try {
+    const notifications = await db.select()
+      .from(notificationsTable)
+      .where(
+        input.unread_only
+          ? and(eq(notificationsTable.user_id, userId), isNull(notificationsTable.read_at))
+          : eq(notificationsTable.user_id, userId)
+      )
+      .orderBy(desc(notificationsTable.created_at), desc(notificationsTable.id))
+      .limit(input.limit ?? 20)
+      .execute();
+
+    const [unread] = await db.select({ count: count() })
+      .from(notificationsTable)
+      .where(and(eq(notificationsTable.user_id, userId), isNull(notificationsTable.read_at)))
+      .execute();
+
+    return { notifications, unread_count: unread.count };
+  } catch (error) {
+    console.error('Failed to fetch notifications:', error);
+    throw error;
+  }
+}
+
+export async function markNotificationRead(id: number, userId: number): Promise<Notification> {
+  try {
+    // Scoped to the owner, so one user cannot touch another user's notifications
+    const existing = await db.select()
+      .from(notificationsTable)
+      .where(and(eq(notificationsTable.id, id), eq(notificationsTable.user_id, userId)))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Notification not found');
+    }
+
+    if (existing[0].read_at) {
+      return existing[0];
+    }
+
+    const result = await db.update(notificationsTable)
+      .set({ read_at: new Date() })
+      .where(eq(notificationsTable.id, id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Notification update failed:', error);
+    throw error;
+  }
+}
+
+export async function markAllNotificationsRead(userId: number): Promise<{ updated: number }> {
+  try {
+    const result = await db.update(notificationsTable)
+      .set({ read_at: new Date() })
+      .where(and(eq(notificationsTable.user_id, userId), isNull(notificationsTable.read_at)))
+      .returning({ id: notificationsTable.id })
+      .execute();
+
+    return { updated: result.length };
+  } catch (error) {
+    console.error('Notification update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,152 @@
+import { db } from '../db';
+import { passwordResetTokensTable, usersTable } from '../db/schema';
+import {
+  type ClientInfo,
+  type RequestPasswordResetInput,
+  type CompletePasswordResetInput
+} from '../schema';
+import { hashPassword } from './auth';
+import { revokeUserSessions } from './sessions';
+import { sendMail, appUrl } from '../mail';
+import { createHash, randomBytes } from 'crypto';
+import { eq, and, gt, isNull, count } from 'drizzle-orm';
+
+export const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+export const MAX_RESET_REQUESTS = 3; // Per account, within the window below
+const RESET_REQUEST_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+const hashResetToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+// Always reports success so the response does not reveal which emails have accounts
+export async function requestPasswordReset(
+  input: RequestPasswordResetInput,
+  client?: ClientInfo
+): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      return { success: true };
+    }
+
+    const user = users[0];
+    const now = new Date();
+
+    // Limit how many reset emails one account can trigger
+    const [recent] = await db.select({ count: count() })
+      .from(passwordResetTokensTable)
+      .where(
+        and(
+          eq(passwordResetTokensTable.user_id, user.id),
+          gt(passwordResetTokensTable.created_at, new Date(now.getTime() - RESET_REQUEST_WINDOW_MS))
+        )
+      )
+      .execute();
+
+    if (recent.count >= MAX_RESET_REQUESTS) {
+      return { success: true };
+    }
+
+    // Only the newest link stays valid
+    await db.update(passwordResetTokensTable)
+      .set({ used_at: now })
+      .where(
+        and(
+          eq(passwordResetTokensTable.user_id, user.id),
+          isNull(passwordResetTokensTable.used_at)
+        )
+      )
+      .execute();
+
+    const token = randomBytes(32).toString('base64url');
+    await db.insert(passwordResetTokensTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashResetToken(token),
+        ip_address: client?.ip_address ?? null,
+        expires_at: new Date(now.getTime() + RESET_TOKEN_TTL_MS)
+      })
+      .execute();
+
+    const link = `${appUrl()}/?reset_token=${encodeURIComponent(token)}`;
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your Facility Manager password',
+      body: [
+        `Hello ${user.username},`,
+        '',
+        'A password reset was requested for your Facility Manager account.',
+        'Open this link within the next hour to choose a new password:',
+        '',
+        link,
+        '',
+        'If you did not request this, you can ignore this email; your password will not change.'
+      ].join('\n')
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+export async function completePasswordReset(input: CompletePasswordResetInput): Promise<{ success: boolean }> {
+  try {
+    const now = new Date();
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .innerJoin(usersTable, eq(passwordResetTokensTable.user_id, usersTable.id))
+      .where(eq(passwordResetTokensTable.token_hash, hashResetToken(input.token)))
+      .execute();
+
+    if (tokens.length === 0) {
+      throw new Error('Invalid or expired reset link');
+    }
+
+    const { password_reset_tokens: resetToken, users: user } = tokens[0];
+    if (resetToken.used_at !== null || resetToken.expires_at <= now || !user.is_active) {
+      throw new Error('Invalid or expired reset link');
+    }
+
+    // Claim the token first; the used_at condition keeps a second concurrent use from succeeding
+    const claimed = await db.update(passwordResetTokensTable)
+      .set({ used_at: now })
+      .where(
+        and(
+          eq(passwordResetTokensTable.id, resetToken.id),
+          isNull(passwordResetTokensTable.used_at)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      throw new Error('Invalid or expired reset link');
+    }
+
+    // A successful reset also lifts any lockout from failed logins
+    await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        failed_login_attempts: 0,
+        last_failed_login_at: null,
+        locked_until: null,
+        updated_at: now
+      })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    await revokeUserSessions(user.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,112 @@
+import { db } from '../db';
+import { lendingsTable, assetsTable, categoriesTable, usersTable, lendingNoticesTable } from '../db/schema';
+import { type LendingNotice, type LendingNoticeKind } from '../schema';
+import { daysUntil, buildEmailTemplateContext, renderEmailTemplate } from '../email_templates';
+import { loadEmailTemplate } from './email_templates';
+import { loadLocationIndex } from './locations';
+import { locationPath } from '../locations';
+import { sendMail } from '../mail';
+import { eq, and, inArray, isNotNull, asc } from 'drizzle-orm';
+
+// Set REMINDER_DUE_SOON_DAYS to change how many days ahead borrowers are reminded
+const DUE_SOON_DAYS = parseInt(process.env['REMINDER_DUE_SOON_DAYS'] || '') || 2;
+
+// The reminder a lending should have received by now, if any. Only the latest
+// applies, so a borrower who missed the due-soon reminder is not sent it late.
+export const reminderKindFor = (expectedReturnDate: Date, now: Date = new Date()): LendingNoticeKind | null => {
+  const days = daysUntil(expectedReturnDate, now);
+  if (days < 0) return 'overdue';
+  if (days === 0) return 'due_today';
+  if (days <= DUE_SOON_DAYS) return 'due_soon';
+  return null;
+};
+
+// Mails the reminders that are due to borrowers of outstanding lendings. Overdue
+// notices escalate by copying the staff member who lent the asset out.
+export async function sendLendingReminders(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+  try {
+    const results = await db.select()
+      .from(lendingsTable)
+      .innerJoin(assetsTable, eq(lendingsTable.asset_id, assetsTable.id))
+      .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
+      .innerJoin(usersTable, eq(lendingsTable.lent_by_user_id, usersTable.id))
+      .where(
+        and(
+          inArray(lendingsTable.status, ['active', 'overdue']),
+          isNotNull(lendingsTable.borrower_email)
+        )
+      )
+      .orderBy(asc(lendingsTable.id))
+      .execute();
+
+    const locations = await loadLocationIndex();
+    let sent = 0;
+    let failed = 0;
+
+    for (const result of results) {
+      const lending = result.lendings;
+      const kind = reminderKindFor(lending.expected_return_date, now);
+      if (!kind) continue;
+
+      const cc = kind === 'overdue' ? [result.users.email] : [];
+
+      // Record the notice before sending it; the unique constraint stops a
+      // second run (or server instance) from sending the same notice again
+      const claimed = await db.insert(lendingNoticesTable)
+        .values({
+          lending_id: lending.id,
+          kind,
+          expected_return_date: lending.expected_return_date,
+          recipient: lending.borrower_email!,
+          cc: cc.length > 0 ? cc : null,
+          sent_at: now
+        })
+        .onConflictDoNothing()
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) continue;
+
+      try {
+        const context = buildEmailTemplateContext({
+          ...lending,
+          asset: {
+            ...result.assets,
+            purchase_price: result.assets.purchase_price ? parseFloat(result.assets.purchase_price) : null,
+            current_value: result.assets.current_value ? parseFloat(result.assets.current_value) : null,
+            category: result.categories
+          }
+        }, result.users, result.assets.location_id !== null ? locationPath(locations, result.assets.location_id) : null, now);
+        const message = renderEmailTemplate(await loadEmailTemplate(kind), context);
+
+        await sendMail({ to: lending.borrower_email!, cc: cc.length > 0 ? cc : undefined, ...message });
+        sent++;
+      } catch (error) {
+        console.error(`Lending reminder for lending ${lending.id} failed:`, error);
+        // Forget the notice so the next run tries again
+        await db.delete(lendingNoticesTable)
+          .where(eq(lendingNoticesTable.id, claimed[0].id))
+          .execute();
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  } catch (error) {
+    console.error('Lending reminders failed:', error);
+    throw error;
+  }
+}
+
+export async function getLendingNotices(lendingId: number): Promise<LendingNotice[]> {
+  try {
+    return await db.select()
+      .from(lendingNoticesTable)
+      .where(eq(lendingNoticesTable.lending_id, lendingId))
+      .orderBy(asc(lendingNoticesTable.sent_at), asc(lendingNoticesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch lending notices:', error);
+    throw error;
+  }
+}
@@ -1,104 +1,113 @@
 import { db } from '../db';
 import { assetsTable, categoriesTable, lendingsTable, usersTable } from '../db/schema';
-import { type GenerateReportInput, type ReportData } from '../schema';
-import { eq, and, gte, lte, count, sum, sql, isNull, SQL, lt } from 'drizzle-orm';
+import {
+  generateLendingReportInputSchema,
+  generateAssetReportInputSchema,
+  type GenerateReportInput,
+  type GenerateLendingReportInput,
+  type GenerateAssetReportInput,
+  type AssetStatus,
+  type ReportData,
+  type TransferStatus
+} from '../schema';
+import { eq, and, gte, lte, count, sum, sql, isNull, inArray, SQL } from 'drizzle-orm';
+import { subtreeIds, locationAtLevel, locationPath, type LocationIndex } from '../locations';
+import { loadLocationIndex } from './locations';
+import { getTransfers } from './transfers';
+
+// Asset counts by status and total values, the columns shared by the
+// inventory and location summary reports
+type AssetTotals = Record<AssetStatus, number> & {
+  total_assets: number;
+  total_purchase_value: number;
+  total_current_value: number;
+};
+
+type AssetReportRow = {
+  category_id: number;
+  category_name: string;
+  location_id: number | null;
+};
+
+// Adds up the assets matching the report filters in groups. Each asset goes to
+// the group keyGroup picks for it, and a group's other columns are filled in by
+// describeGroup from the first asset found in it.
+async function aggregateAssets<K, G extends object>(
+  input: GenerateAssetReportInput,
+  keyGroup: (asset: AssetReportRow) => K,
+  describeGroup: (key: K, asset: AssetReportRow) => G,
+  index?: LocationIndex
+): Promise<(G & AssetTotals)[]> {
+  const conditions: SQL<unknown>[] = [];
+
+  if (input.category_id !== undefined) {
+    conditions.push(eq(assetsTable.category_id, input.category_id));
+  }
 
-export async function generateInventoryReport(input: GenerateReportInput): Promise<ReportData> {
-  try {
-    // Build conditions for asset filtering
-    const conditions: SQL<unknown>[] = [];
-    
-    if (input.category_id !== undefined) {
-      conditions.push(eq(assetsTable.category_id, input.category_id));
-    }
-    
-    if (input.status) {
-      conditions.push(eq(assetsTable.status, input.status as any));
-    }
+  if (input.status) {
+    conditions.push(eq(assetsTable.status, input.status));
+  }
 
-    // Base query with category join
-    const baseQuery = db.select({
-      category_id: categoriesTable.id,
-      category_name: categoriesTable.name,
-      asset_id: assetsTable.id,
-      asset_name: assetsTable.name,
-      status: assetsTable.status,
-      purchase_price: assetsTable.purchase_price,
-      current_value: assetsTable.current_value,
-    })
+  // A location covers everything below it, so a site report includes all its buildings
+  if (input.location_id !== undefined) {
+    conditions.push(inArray(assetsTable.location_id, subtreeIds(index ?? await loadLocationIndex(), input.location_id)));
+  }
+
+  const results = await db.select({
+    category_id: categoriesTable.id,
+    category_name: categoriesTable.name,
+    location_id: assetsTable.location_id,
+    status: assetsTable.status,
+    purchase_price: assetsTable.purchase_price,
+    current_value: assetsTable.current_value,
+  })
     .from(assetsTable)
-    .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id));
+    .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .execute();
 
-    // Apply filters if any
-    const query = conditions.length > 0 
-      ? baseQuery.where(and(...conditions))
-      : baseQuery;
+  const groups = new Map<K, G & AssetTotals>();
+
+  results.forEach(result => {
+    const key = keyGroup(result);
+    if (!groups.has(key)) {
+      groups.set(key, {
+        ...describeGroup(key, result),
+        total_assets: 0,
+        available: 0,
+        lent: 0,
+        maintenance: 0,
+        damaged: 0,
+        retired: 0,
+        total_purchase_value: 0,
+        total_current_value: 0,
+      });
+    }
 
-    const results = await query.execute();
+    const group = groups.get(key)!;
+    group.total_assets++;
+    group[result.status]++;
 
-    // Process data to create summary by category
-    const categoryMap = new Map<number, {
-      category_id: number;
-      category_name: string;
-      total_assets: number;
-      available: number;
-      lent: number;
-      maintenance: number;
-      damaged: number;
-      retired: number;
-      total_purchase_value: number;
-      total_current_value: number;
-    }>();
-
-    results.forEach(result => {
-      const key = result.category_id;
-      if (!categoryMap.has(key)) {
-        categoryMap.set(key, {
-          category_id: result.category_id,
-          category_name: result.category_name,
-          total_assets: 0,
-          available: 0,
-          lent: 0,
-          maintenance: 0,
-          damaged: 0,
-          retired: 0,
-          total_purchase_value: 0,
-          total_current_value: 0,
-        });
-      }
-
-      const category = categoryMap.get(key)!;
-      category.total_assets++;
-      
-      // Count by status
-      switch (result.status) {
-        case 'available':
-          category.available++;
-          break;
-        case 'lent':
-          category.lent++;
-          break;
-        case 'maintenance':
-          category.maintenance++;
-          break;
-        case 'damaged':
-          category.damaged++;
-          break;
-        case 'retired':
-          category.retired++;
-          break;
-      }
-
-      // Sum values (handle null values and convert numeric strings to numbers)
-      if (result.purchase_price) {
-        category.total_purchase_value += parseFloat(result.purchase_price);
-      }
-      if (result.current_value) {
-        category.total_current_value += parseFloat(result.current_value);
-      }
-    });
+    // Sum values (handle null values and convert numeric strings to numbers)
+    if (result.purchase_price) {
+      group.total_purchase_value += parseFloat(result.purchase_price);
+    }
+    if (result.current_value) {
+      group.total_current_value += parseFloat(result.current_value);
+    }
+  });
+
+  return Array.from(groups.values());
+}
 
-    const reportData = Array.from(categoryMap.values());
+export async function generateInventoryReport(input: GenerateAssetReportInput): Promise<ReportData> {
+  try {
+    // Summary by category
+    const reportData = await aggregateAssets(
+      input,
+      asset => asset.category_id,
+      (categoryId, asset) => ({ category_id: categoryId, category_name: asset.category_name })
+    );
 
     return {
       report_type: 'inventory',
@@ -106,6 +115,7 @@ export async function generateInventoryReport(input: GenerateReportInput): Promi
       parameters: {
         category_id: input.category_id,
         status: input.status,
+        location_id: input.location_id,
       },
       data: reportData,
     };
@@ -115,7 +125,7 @@ export async function generateInventoryReport(input: GenerateReportInput): Promi
   }
 }
 
-export async function generateLendingReport(input: GenerateReportInput): Promise<ReportData> {
+export async function generateLendingReport(input: GenerateLendingReportInput): Promise<ReportData> {
   try {
     // Build date range conditions
     const conditions: SQL<unknown>[] = [];
@@ -128,6 +138,10 @@ export async function generateLendingReport(input: GenerateReportInput): Promise
       conditions.push(lte(lendingsTable.lent_date, input.end_date));
     }
 
+    if (input.status) {
+      conditions.push(eq(lendingsTable.status, input.status));
+    }
+
     // Query lending data with asset and user details
     const baseQuery = db.select({
       lending_id: lendingsTable.id,
@@ -178,6 +192,7 @@ export async function generateLendingReport(input: GenerateReportInput): Promise
       parameters: {
         start_date: input.start_date,
         end_date: input.end_date,
+        status: input.status,
       },
       data: reportData,
     };
@@ -263,7 +278,7 @@ export async function generateOverdueReport(): Promise<ReportData> {
   try {
     const today = new Date();
 
-    // Query overdue lendings (active status and past expected return date)
+    // Query overdue lendings, as marked by the overdue job
     const results = await db.select({
       lending_id: lendingsTable.id,
       asset_name: assetsTable.name,
@@ -281,12 +296,7 @@ export async function generateOverdueReport(): Promise<ReportData> {
     .innerJoin(assetsTable, eq(lendingsTable.asset_id, assetsTable.id))
     .innerJoin(categoriesTable, eq(assetsTable.category_id, categoriesTable.id))
     .innerJoin(usersTable, eq(lendingsTable.lent_by_user_id, usersTable.id))
-    .where(
-      and(
-        eq(lendingsTable.status, 'active'),
-        lt(lendingsTable.expected_return_date, today)
-      )
-    )
+    .where(eq(lendingsTable.status, 'overdue'))
     .execute();
 
     const reportData = results.map(result => {
@@ -340,7 +350,7 @@ export async function generateCategorySummaryReport(): Promise<ReportData> {
     const lendingStats = await db.select({
       category_id: categoriesTable.id,
       total_lendings: count(lendingsTable.id),
-      active_lendings: sql<string>`COUNT(CASE WHEN ${lendingsTable.status} = 'active' THEN 1 END)`.as('active_lendings'),
+      active_lendings: sql<string>`COUNT(CASE WHEN ${lendingsTable.status} IN ('active', 'overdue') THEN 1 END)`.as('active_lendings'),
     })
     .from(categoriesTable)
     .leftJoin(assetsTable, eq(categoriesTable.id, assetsTable.category_id))
@@ -402,19 +412,121 @@ export async function generateCategorySummaryReport(): Promise<ReportData> {
   }
 }
 
+// Asset counts and values rolled up to one level of the location tree (sites by
+// default), e.g. one row per building. Assets not placed at that level are
+// grouped together with a null location.
+export async function generateLocationSummaryReport(input: GenerateAssetReportInput): Promise<ReportData> {
+  try {
+    const level = input.location_level ?? 'site';
+    const index = await loadLocationIndex();
+    const rollupOf = (locationId: number | null) => locationId !== null ? locationAtLevel(index, locationId, level) : null;
+
+    const locations = await aggregateAssets(
+      input,
+      asset => rollupOf(asset.location_id)?.id ?? null,
+      (locationId, asset) => {
+        const rollup = rollupOf(asset.location_id);
+        return {
+          location_id: locationId,
+          location_name: rollup?.name ?? `No ${level}`,
+          location_path: rollup ? locationPath(index, rollup.id) : `No ${level}`,
+        };
+      },
+      index
+    );
+
+    // Placed assets in tree order, with the unplaced ones last
+    const reportData = locations
+      .sort((a, b) => (a.location_id === null ? 1 : 0) - (b.location_id === null ? 1 : 0) || a.location_path.localeCompare(b.location_path));
+
+    return {
+      report_type: 'location_summary',
+      generated_at: new Date(),
+      parameters: {
+        location_level: level,
+        location_id: input.location_id,
+        category_id: input.category_id,
+        status: input.status,
+      },
+      data: reportData,
+    };
+  } catch (error) {
+    console.error('Location summary report generation failed:', error);
+    throw error;
+  }
+}
+
+// Chain of custody for each transfer requested in the date range: where the
+// asset went and who requested, approved, shipped and received it. A location
+// matches transfers into or out of it or anywhere below it.
+export async function generateTransferReport(input: GenerateReportInput): Promise<ReportData> {
+  try {
+    const transfers = await getTransfers({ status: input.status as TransferStatus | undefined });
+    const inLocation = input.location_id !== undefined
+      ? new Set(subtreeIds(await loadLocationIndex(), input.location_id))
+      : null;
+
+    const formatDate = (date: Date | null) => date?.toISOString().split('T')[0] || null;
+
+    const reportData = transfers
+      .filter(transfer =>
+        (!input.start_date || transfer.requested_at >= input.start_date) &&
+        (!input.end_date || transfer.requested_at <= input.end_date) &&
+        (!inLocation || inLocation.has(transfer.to_location_id) ||
+          (transfer.from_location_id !== null && inLocation.has(transfer.from_location_id)))
+      )
+      .map(transfer => ({
+        transfer_id: transfer.id,
+        asset_name: transfer.asset_name,
+        serial_number: transfer.asset_serial_number,
+        from_location: transfer.from_location_path,
+        to_location: transfer.to_location_path,
+        status: transfer.status,
+        requested_by: transfer.requested_by_username,
+        requested_date: formatDate(transfer.requested_at),
+        approved_by: transfer.approved_by_username,
+        approved_date: formatDate(transfer.approved_at),
+        shipped_by: transfer.shipped_by_username,
+        shipped_date: formatDate(transfer.shipped_at),
+        received_by: transfer.received_by_username,
+        received_date: formatDate(transfer.received_at),
+        notes: transfer.notes,
+      }));
+
+    return {
+      report_type: 'transfers',
+      generated_at: new Date(),
+      parameters: {
+        start_date: input.start_date,
+        end_date: input.end_date,
+        status: input.status,
+        location_id: input.location_id,
+      },
+      data: reportData,
+    };
+  } catch (error) {
+    console.error('Transfer report generation failed:', error);
+    throw error;
+  }
+}
+
 export async function generateReport(input: GenerateReportInput): Promise<ReportData> {
   try {
     switch (input.report_type) {
       case 'inventory':
-        return generateInventoryReport(input);
+        return generateInventoryReport(generateAssetReportInputSchema.parse(input));
       case 'lending':
-        return generateLendingReport(input);
+        return generateLendingReport(generateLendingReportInputSchema.parse(input));
       case 'returns':
         return generateReturnsReport(input);
       case 'overdue':
         return generateOverdueReport();
       case 'category_summary':
         return generateCategorySummaryReport();
+      case 'location_summary':
+        return generateLocationSummaryReport(generateAssetReportInputSchema.parse(input));
+      case 'transfers':
+        return generateTransferReport(input);
       default:
         throw new Error(`Unsupported report type: ${input.report_type}`);
     }
@@ -0,0 +1,244 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type Session, type SessionTokens, type AuthSession, type ClientInfo, type RefreshSessionInput } from '../schema';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { eq, ne, and, gt, isNull, desc, type SQL } from 'drizzle-orm';
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Without SESSION_SECRET a per-process key is used, so tokens do not survive a restart
+const sessionSecret = process.env['SESSION_SECRET'] || randomBytes(32).toString('hex');
+
+interface TokenPayload {
+  sid: number;
+  uid: number;
+  exp: number;
+}
+
+const sign = (data: string): string => {
+  return createHmac('sha256', sessionSecret).update(data).digest('base64url');
+};
+
+// Token format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256 signature)
+const encodeToken = (payload: TokenPayload): string => {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${sign(body)}`;
+};
+
+const decodeToken = (token: string): TokenPayload | null => {
+  const parts = token.split('.');
+  if (parts.length !== 2) {
+    return null;
+  }
+
+  const [body, signature] = parts;
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+    if (typeof payload?.sid !== 'number' || typeof payload.uid !== 'number' || typeof payload.exp !== 'number') {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+const hashRefreshToken = (refreshToken: string): string => {
+  return createHash('sha256').update(refreshToken).digest('hex');
+};
+
+// Strip the refresh token hash before handing a session row to callers
+const toSession = ({ refresh_token_hash, ...session }: typeof sessionsTable.$inferSelect): Session => session;
+
+const issueTokens = (session: typeof sessionsTable.$inferSelect, refreshToken: string): SessionTokens => {
+  const tokenExpiresAt = new Date(Math.min(Date.now() + ACCESS_TOKEN_TTL_MS, session.expires_at.getTime()));
+
+  return {
+    token: encodeToken({ sid: session.id, uid: session.user_id, exp: tokenExpiresAt.getTime() }),
+    token_expires_at: tokenExpiresAt,
+    refresh_token: refreshToken,
+    refresh_expires_at: session.expires_at
+  };
+};
+
+export async function createSession(userId: number, client?: ClientInfo): Promise<SessionTokens> {
+  try {
+    const refreshToken = randomBytes(32).toString('base64url');
+
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        refresh_token_hash: hashRefreshToken(refreshToken),
+        ip_address: client?.ip_address ?? null,
+        user_agent: client?.user_agent ?? null,
+        expires_at: new Date(Date.now() + SESSION_TTL_MS)
+      })
+      .returning()
+      .execute();
+
+    return issueTokens(result[0], refreshToken);
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyToken(token: string): Promise<AuthSession | null> {
+  try {
+    const payload = decodeToken(token);
+    if (!payload || payload.exp <= Date.now()) {
+      return null;
+    }
+
+    const auth = await getActiveSession(payload.sid);
+    return auth && auth.user.id === payload.uid ? auth : null;
+  } catch (error) {
+    console.error('Token verification failed:', error);
+    throw error;
+  }
+}
+
+// The session and its user, unless the session has been revoked or has expired
+// or the user deactivated. Live update connections check this on every event,
+// long after the token they connected with was verified.
+export async function getActiveSession(sessionId: number): Promise<AuthSession | null> {
+  try {
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(eq(sessionsTable.id, sessionId))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { sessions: session, users: user } = results[0];
+    if (session.revoked_at !== null || session.expires_at <= new Date() || !user.is_active) {
+      return null;
+    }
+
+    return {
+      user,
+      session: toSession(session)
+    };
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function refreshSession(input: RefreshSessionInput): Promise<SessionTokens> {
+  try {
+    const now = new Date();
+
+    // Rotate the refresh token so each one can only be used once. The old
+    // token is matched in the update itself, so of two refreshes racing with
+    // the same token only the first finds it.
+    const refreshToken = randomBytes(32).toString('base64url');
+    const updated = await db.update(sessionsTable)
+      .set({
+        refresh_token_hash: hashRefreshToken(refreshToken),
+        last_refreshed_at: now,
+        updated_at: now
+      })
+      .where(
+        and(
+          eq(sessionsTable.refresh_token_hash, hashRefreshToken(input.refresh_token)),
+          isNull(sessionsTable.revoked_at),
+          gt(sessionsTable.expires_at, now)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (updated.length === 0) {
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    return issueTokens(updated[0], refreshToken);
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    throw error;
+  }
+}
+
+export async function getUserSessions(userId: number): Promise<Session[]> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(
+        and(
+          eq(sessionsTable.user_id, userId),
+          isNull(sessionsTable.revoked_at),
+          gt(sessionsTable.expires_at, new Date())
+        )
+      )
+      .orderBy(desc(sessionsTable.last_refreshed_at))
+      .execute();
+
+    return sessions.map(toSession);
+  } catch (error) {
+    console.error('Failed to fetch user sessions:', error);
+    throw error;
+  }
+}
+
+export async function revokeSession(id: number): Promise<{ success: boolean }> {
+  try {
+    const existing = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Session with id ${id} not found`);
+    }
+
+    if (existing[0].revoked_at === null) {
+      const now = new Date();
+      await db.update(sessionsTable)
+        .set({ revoked_at: now, updated_at: now })
+        .where(eq(sessionsTable.id, id))
+        .execute();
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeUserSessions(userId: number, exceptSessionId?: number): Promise<{ revoked: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      eq(sessionsTable.user_id, userId),
+      isNull(sessionsTable.revoked_at)
+    ];
+
+    // Allows revoking every other session while keeping the caller signed in
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(sessionsTable.id, exceptSessionId));
+    }
+
+    const now = new Date();
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: now, updated_at: now })
+      .where(and(...conditions))
+      .returning()
+      .execute();
+
+    return { revoked: result.length };
+  } catch (error) {
+    console.error('User session revocation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,264 @@
+import { db } from '../db';
+import { transfersTable, assetsTable, locationsTable, usersTable } from '../db/schema';
+import {
+  type TransferAssetInput,
+  type GetTransfersInput,
+  type Transfer,
+  type TransferStatus,
+  type TransferWithDetails
+} from '../schema';
+import { locationPath } from '../locations';
+import { loadLocationIndex } from './locations';
+import { publishAssetChange } from '../events';
+import { eq, and, desc, inArray, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+// Transfers still under way. While an asset has one it cannot be lent out,
+// moved by editing it, or given a second transfer.
+export const OPEN_TRANSFER_STATUSES: TransferStatus[] = ['pending', 'approved', 'in_transit'];
+
+export const isOpenTransferOf = (assetId: number): SQL<unknown> => {
+  return and(eq(transfersTable.asset_id, assetId), inArray(transfersTable.status, OPEN_TRANSFER_STATUSES))!;
+};
+
+export async function transferAsset(input: TransferAssetInput, requestedByUserId: number): Promise<Transfer> {
+  try {
+    const transfer = await db.transaction(async (tx) => {
+      // Lock the asset so a lending and a transfer of it cannot both start
+      const asset = await tx.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.id, input.asset_id))
+        .for('update')
+        .execute();
+
+      if (asset.length === 0) {
+        throw new Error('Asset not found');
+      }
+
+      if (asset[0].status === 'lent') {
+        throw new Error('Asset is lent out; transfer it once it has been returned');
+      }
+
+      if (asset[0].status === 'retired') {
+        throw new Error('Retired assets cannot be transferred');
+      }
+
+      const openTransfers = await tx.select({ id: transfersTable.id })
+        .from(transfersTable)
+        .where(isOpenTransferOf(input.asset_id))
+        .execute();
+
+      if (openTransfers.length > 0) {
+        throw new Error('Asset already has a transfer under way');
+      }
+
+      const destination = await tx.select({ id: locationsTable.id })
+        .from(locationsTable)
+        .where(eq(locationsTable.id, input.to_location_id))
+        .execute();
+
+      if (destination.length === 0) {
+        throw new Error(`Location with id ${input.to_location_id} does not exist`);
+      }
+
+      if (asset[0].location_id === input.to_location_id) {
+        throw new Error('Asset is already at that location');
+      }
+
+      const result = await tx.insert(transfersTable)
+        .values({
+          asset_id: input.asset_id,
+          from_location_id: asset[0].location_id,
+          to_location_id: input.to_location_id,
+          notes: input.notes || null,
+          requested_by_user_id: requestedByUserId
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    // The asset's location is unchanged, but it can no longer be lent out
+    publishAssetChange({ action: 'updated', asset_id: transfer.asset_id });
+    return transfer;
+  } catch (error) {
+    console.error('Asset transfer request failed:', error);
+    throw error;
+  }
+}
+
+// The steps a transfer goes through, each allowed only from the listed statuses
+// and recorded with who took it and when
+const transferSteps = {
+  approve: { from: ['pending'], to: 'approved', by: 'approved_by_user_id', at: 'approved_at' },
+  ship: { from: ['approved'], to: 'in_transit', by: 'shipped_by_user_id', at: 'shipped_at' },
+  receive: { from: ['in_transit'], to: 'received', by: 'received_by_user_id', at: 'received_at' },
+  cancel: { from: ['pending', 'approved'], to: 'cancelled', by: 'cancelled_by_user_id', at: 'cancelled_at' }
+} as const satisfies Record<string, {
+  from: readonly TransferStatus[];
+  to: TransferStatus;
+  by: keyof typeof transfersTable.$inferInsert;
+  at: keyof typeof transfersTable.$inferInsert;
+}>;
+
+type TransferStep = keyof typeof transferSteps;
+
+async function advanceTransfer(id: number, step: TransferStep, userId: number): Promise<Transfer> {
+  const { from, to, by, at } = transferSteps[step];
+
+  const transfer = await db.transaction(async (tx) => {
+    // Lock the transfer so two people taking the same step cannot both succeed
+    const existing = await tx.select()
+      .from(transfersTable)
+      .where(eq(transfersTable.id, id))
+      .for('update')
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Transfer not found');
+    }
+
+    if (!(from as readonly TransferStatus[]).includes(existing[0].status)) {
+      throw new Error(`Cannot ${step} a transfer that is ${existing[0].status.replace('_', ' ')}`);
+    }
+
+    const now = new Date();
+    const result = await tx.update(transfersTable)
+      .set({ status: to, [by]: userId, [at]: now, updated_at: now })
+      .where(eq(transfersTable.id, id))
+      .returning()
+      .execute();
+
+    // Arriving is what moves the asset
+    if (to === 'received') {
+      await tx.update(assetsTable)
+        .set({ location_id: existing[0].to_location_id, updated_at: now })
+        .where(eq(assetsTable.id, existing[0].asset_id))
+        .execute();
+    }
+
+    return result[0];
+  });
+
+  // Receiving moves the asset and cancelling frees it for lending again
+  if (to === 'received' || to === 'cancelled') {
+    publishAssetChange({ action: 'updated', asset_id: transfer.asset_id });
+  }
+  return transfer;
+}
+
+export async function approveTransfer(id: number, approvedByUserId: number): Promise<Transfer> {
+  try {
+    return await advanceTransfer(id, 'approve', approvedByUserId);
+  } catch (error) {
+    console.error('Transfer approval failed:', error);
+    throw error;
+  }
+}
+
+export async function shipTransfer(id: number, shippedByUserId: number): Promise<Transfer> {
+  try {
+    return await advanceTransfer(id, 'ship', shippedByUserId);
+  } catch (error) {
+    console.error('Transfer shipment failed:', error);
+    throw error;
+  }
+}
+
+export async function receiveTransfer(id: number, receivedByUserId: number): Promise<Transfer> {
+  try {
+    return await advanceTransfer(id, 'receive', receivedByUserId);
+  } catch (error) {
+    console.error('Transfer receipt failed:', error);
+    throw error;
+  }
+}
+
+// Only transfers that have not shipped can be cancelled; once the asset is on
+// its way it has to be received somewhere
+export async function cancelTransfer(id: number, cancelledByUserId: number): Promise<Transfer> {
+  try {
+    return await advanceTransfer(id, 'cancel', cancelledByUserId);
+  } catch (error) {
+    console.error('Transfer cancellation failed:', error);
+    throw error;
+  }
+}
+
+// Newest first, with asset, location and user names filled in
+export async function getTransfers(input: GetTransfersInput = {}): Promise<TransferWithDetails[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.asset_id !== undefined) {
+      conditions.push(eq(transfersTable.asset_id, input.asset_id));
+    }
+
+    if (input.status) {
+      conditions.push(eq(transfersTable.status, input.status));
+    }
+
+    if (input.open_only) {
+      conditions.push(inArray(transfersTable.status, OPEN_TRANSFER_STATUSES));
+    }
+
+    const requestedBy = alias(usersTable, 'requested_by');
+    const approvedBy = alias(usersTable, 'approved_by');
+    const shippedBy = alias(usersTable, 'shipped_by');
+    const receivedBy = alias(usersTable, 'received_by');
+    const cancelledBy = alias(usersTable, 'cancelled_by');
+
+    const baseQuery = db.select({
+      transfer: transfersTable,
+      asset_name: assetsTable.name,
+      asset_serial_number: assetsTable.serial_number,
+      requested_by_username: requestedBy.username,
+      approved_by_username: approvedBy.username,
+      shipped_by_username: shippedBy.username,
+      received_by_username: receivedBy.username,
+      cancelled_by_username: cancelledBy.username
+    })
+      .from(transfersTable)
+      .innerJoin(assetsTable, eq(transfersTable.asset_id, assetsTable.id))
+      .innerJoin(requestedBy, eq(transfersTable.requested_by_user_id, requestedBy.id))
+      .leftJoin(approvedBy, eq(transfersTable.approved_by_user_id, approvedBy.id))
+      .leftJoin(shippedBy, eq(transfersTable.shipped_by_user_id, shippedBy.id))
+      .leftJoin(receivedBy, eq(transfersTable.received_by_user_id, receivedBy.id))
+      .leftJoin(cancelledBy, eq(transfersTable.cancelled_by_user_id, cancelledBy.id));
+
+    const query = conditions.length > 0
+      ? baseQuery.where(and(...conditions))
+      : baseQuery;
+
+    const results = await query
+      .orderBy(desc(transfersTable.requested_at), desc(transfersTable.id))
+      .execute();
+
+    const locations = await loadLocationIndex();
+
+    return results.map(({ transfer, ...names }) => ({
+      ...transfer,
+      ...names,
+      from_location_path: transfer.from_location_id !== null ? locationPath(locations, transfer.from_location_id) : null,
+      to_location_path: locationPath(locations, transfer.to_location_id)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch transfers:', error);
+    throw error;
+  }
+}
+
+export async function getTransferById(id: number): Promise<Transfer | null> {
+  try {
+    const result = await db.select()
+      .from(transfersTable)
+      .where(eq(transfersTable.id, id))
+      .execute();
+
+    return result[0] || null;
+  } catch (error) {
+    console.error('Failed to fetch transfer by ID:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,287 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import {
+  type User,
+  type TwoFactorEnrollment,
+  type ConfirmTwoFactorInput,
+  type DisableTwoFactorInput
+} from '../schema';
+import { twoFactorRoles, isTwoFactorRequired } from '../permissions';
+import { verifyPassword } from './auth';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { eq } from 'drizzle-orm';
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Steps accepted either side of the current one, for clock drift
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'Facility Manager';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// RFC 4648 base32, the encoding authenticator apps expect for secrets
+const base32Encode = (buffer: Buffer): string => {
+  let output = '';
+  let value = 0;
+  let bits = 0;
+
+  for (const byte of buffer) {
+    value = ((value << 8) | byte) & 0x1fff;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const bytes: number[] = [];
+  let value = 0;
+  let bits = 0;
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+
+    value = ((value << 5) | index) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export const totpStep = (time: number = Date.now()): number => {
+  return Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+};
+
+// RFC 6238 TOTP: HOTP (RFC 4226, HMAC-SHA1) over the 30 second time step
+export const generateTotp = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+// Returns the matching time step, or null when the code is wrong or has already been used
+const matchTotp = (secret: string, code: string, lastUsedStep: number | null): number | null => {
+  const current = totpStep();
+
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    if (safeEqual(generateTotp(secret, step), code)) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+export const provisioningUri = (username: string, secret: string): string => {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+};
+
+// Recovery codes are shown once as 'xxxxx-xxxxx' and stored as sha256 hashes
+const hashRecoveryCode = (code: string): string => {
+  return createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex');
+};
+
+const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+};
+
+const findUser = async (id: number): Promise<User> => {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, id))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with id ${id} not found`);
+  }
+
+  return users[0];
+};
+
+export async function beginTwoFactorEnrollment(userId: number): Promise<TwoFactorEnrollment> {
+  try {
+    const user = await findUser(userId);
+
+    if (!twoFactorRoles.includes(user.role)) {
+      throw new Error('Two-factor authentication is not available for this role');
+    }
+
+    if (user.totp_enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // The secret stays pending until a code generated from it is confirmed
+    const secret = base32Encode(randomBytes(20));
+    await db.update(usersTable)
+      .set({ totp_secret: secret, totp_last_used_step: null, updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    return {
+      secret,
+      provisioning_uri: provisioningUri(user.username, secret)
+    };
+  } catch (error) {
+    console.error('Two-factor enrollment failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmTwoFactorEnrollment(
+  userId: number,
+  input: ConfirmTwoFactorInput
+): Promise<{ recovery_codes: string[] }> {
+  try {
+    const user = await findUser(userId);
+
+    if (user.totp_enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!user.totp_secret) {
+      throw new Error('Two-factor enrollment has not been started');
+    }
+
+    const step = matchTotp(user.totp_secret, input.code, null);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db.update(usersTable)
+      .set({
+        totp_enabled: true,
+        totp_last_used_step: step,
+        totp_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    return { recovery_codes: recoveryCodes };
+  } catch (error) {
+    console.error('Two-factor confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function disableTwoFactor(userId: number, input: DisableTwoFactorInput): Promise<{ success: boolean }> {
+  try {
+    const user = await findUser(userId);
+
+    const isValidPassword = await verifyPassword(input.password, user.password_hash);
+    if (!isValidPassword) {
+      throw new Error('Password is incorrect');
+    }
+
+    if (isTwoFactorRequired(user.role)) {
+      throw new Error('Two-factor authentication is mandatory for this role');
+    }
+
+    await resetTwoFactor(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Two-factor disable failed:', error);
+    throw error;
+  }
+}
+
+// Administrative reset for users who lost their authenticator and recovery codes
+export async function resetTwoFactor(userId: number): Promise<{ success: boolean }> {
+  try {
+    await findUser(userId);
+
+    await db.update(usersTable)
+      .set({
+        totp_enabled: false,
+        totp_secret: null,
+        totp_last_used_step: null,
+        totp_recovery_codes: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Two-factor reset failed:', error);
+    throw error;
+  }
+}
+
+// Check the second login factor: a current authenticator code or an unused recovery code
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  try {
+    if (!user.totp_enabled || !user.totp_secret) {
+      return false;
+    }
+
+    const trimmed = code.trim();
+
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = matchTotp(user.totp_secret, trimmed, user.totp_last_used_step);
+      if (step === null) {
+        return false;
+      }
+
+      // Remember the step so the same code cannot be replayed
+      await db.update(usersTable)
+        .set({ totp_last_used_step: step })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      return true;
+    }
+
+    const hash = hashRecoveryCode(trimmed);
+    const remaining = user.totp_recovery_codes ?? [];
+    if (!remaining.includes(hash)) {
+      return false;
+    }
+
+    // Each recovery code works once
+    await db.update(usersTable)
+      .set({ totp_recovery_codes: remaining.filter(existing => existing !== hash) })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    return true;
+  } catch (error) {
+    console.error('Second factor verification failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,242 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import {
+  type PublicUser,
+  type User,
+  type UpdateUserInput,
+  type ChangeUserRoleInput,
+  type ResetUserPasswordInput,
+  type ChangePasswordInput
+} from '../schema';
+import { hashPassword, verifyPassword, toPublicUser } from './auth';
+import { revokeUserSessions } from './sessions';
+import { eq, and, ne, count } from 'drizzle-orm';
+
+const findUser = async (id: number): Promise<User> => {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, id))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with id ${id} not found`);
+  }
+
+  return users[0];
+};
+
+// Refuse changes that would leave the system without an active administrator
+const assertNotLastAdmin = async (user: User): Promise<void> => {
+  if (user.role !== 'admin' || !user.is_active) {
+    return;
+  }
+
+  const [admins] = await db.select({ count: count() })
+    .from(usersTable)
+    .where(
+      and(
+        eq(usersTable.role, 'admin'),
+        eq(usersTable.is_active, true)
+      )
+    )
+    .execute();
+
+  if (admins.count <= 1) {
+    throw new Error('Cannot remove the last active administrator');
+  }
+};
+
+export async function updateUser(input: UpdateUserInput): Promise<PublicUser> {
+  try {
+    const existing = await findUser(input.id);
+
+    if (input.username !== undefined && input.username !== existing.username) {
+      const duplicates = await db.select()
+        .from(usersTable)
+        .where(and(eq(usersTable.username, input.username), ne(usersTable.id, input.id)))
+        .execute();
+
+      if (duplicates.length > 0) {
+        throw new Error('Username already exists');
+      }
+    }
+
+    if (input.email !== undefined && input.email !== existing.email) {
+      const duplicates = await db.select()
+        .from(usersTable)
+        .where(and(eq(usersTable.email, input.email), ne(usersTable.id, input.id)))
+        .execute();
+
+      if (duplicates.length > 0) {
+        throw new Error('Email already exists');
+      }
+    }
+
+    const updateData: Partial<typeof usersTable.$inferInsert> = {};
+
+    if (input.username !== undefined) {
+      updateData.username = input.username;
+    }
+
+    if (input.email !== undefined) {
+      updateData.email = input.email;
+    }
+
+    // Only update if there are fields to update
+    if (Object.keys(updateData).length === 0) {
+      return toPublicUser(existing);
+    }
+
+    updateData.updated_at = new Date();
+
+    const result = await db.update(usersTable)
+      .set(updateData)
+      .where(eq(usersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User update failed:', error);
+    throw error;
+  }
+}
+
+export async function changeUserRole(input: ChangeUserRoleInput): Promise<PublicUser> {
+  try {
+    const existing = await findUser(input.id);
+
+    if (existing.role === input.role) {
+      return toPublicUser(existing);
+    }
+
+    await assertNotLastAdmin(existing);
+
+    const result = await db.update(usersTable)
+      .set({ role: input.role, updated_at: new Date() })
+      .where(eq(usersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User role change failed:', error);
+    throw error;
+  }
+}
+
+export async function deactivateUser(id: number): Promise<PublicUser> {
+  try {
+    const existing = await findUser(id);
+
+    if (!existing.is_active) {
+      return toPublicUser(existing);
+    }
+
+    await assertNotLastAdmin(existing);
+
+    const result = await db.update(usersTable)
+      .set({ is_active: false, updated_at: new Date() })
+      .where(eq(usersTable.id, id))
+      .returning()
+      .execute();
+
+    // Sign the user out everywhere
+    await revokeUserSessions(id);
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User deactivation failed:', error);
+    throw error;
+  }
+}
+
+export async function reactivateUser(id: number): Promise<PublicUser> {
+  try {
+    const existing = await findUser(id);
+
+    if (existing.is_active) {
+      return toPublicUser(existing);
+    }
+
+    const result = await db.update(usersTable)
+      .set({ is_active: true, updated_at: new Date() })
+      .where(eq(usersTable.id, id))
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User reactivation failed:', error);
+    throw error;
+  }
+}
+
+export async function unlockUser(id: number): Promise<PublicUser> {
+  try {
+    await findUser(id);
+
+    const result = await db.update(usersTable)
+      .set({
+        failed_login_attempts: 0,
+        last_failed_login_at: null,
+        locked_until: null,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, id))
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User unlock failed:', error);
+    throw error;
+  }
+}
+
+export async function resetUserPassword(input: ResetUserPasswordInput): Promise<{ success: boolean }> {
+  try {
+    await findUser(input.id);
+
+    await db.update(usersTable)
+      .set({ password_hash: await hashPassword(input.new_password), updated_at: new Date() })
+      .where(eq(usersTable.id, input.id))
+      .execute();
+
+    // Existing sessions were authenticated with the old password
+    await revokeUserSessions(input.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
+
+export async function changePassword(
+  userId: number,
+  input: ChangePasswordInput,
+  currentSessionId?: number
+): Promise<{ success: boolean }> {
+  try {
+    const user = await findUser(userId);
+
+    const isValidPassword = await verifyPassword(input.current_password, user.password_hash);
+    if (!isValidPassword) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await db.update(usersTable)
+      .set({ password_hash: await hashPassword(input.new_password), updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    // Keep the caller signed in but end every other session
+    await revokeUserSessions(userId, currentSessionId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
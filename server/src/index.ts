@@ -1,5 +1,7 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { applyWSSHandler, type CreateWSSContextFnOptions } from '@trpc/server/adapters/ws';
+import { WebSocketServer } from 'ws';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -9,17 +11,92 @@ import { z } from 'zod';
 import {
   loginInputSchema,
   createUserInputSchema,
+  updateUserInputSchema,
+  changeUserRoleInputSchema,
+  resetUserPasswordInputSchema,
+  changePasswordInputSchema,
+  confirmTwoFactorInputSchema,
+  disableTwoFactorInputSchema,
+  refreshSessionInputSchema,
+  requestPasswordResetInputSchema,
+  completePasswordResetInputSchema,
+  getLoginHistoryInputSchema,
+  createApiKeyInputSchema,
+  getAuditLogInputSchema,
+  getJobRunsInputSchema,
+  triggerJobInputSchema,
+  updateEmailTemplateInputSchema,
+  previewEmailTemplateInputSchema,
+  lendingNoticeKindEnum,
+  getNotificationsInputSchema,
   createCategoryInputSchema,
   updateCategoryInputSchema,
+  createLocationInputSchema,
+  updateLocationInputSchema,
+  deleteLocationInputSchema,
   createAssetInputSchema,
   updateAssetInputSchema,
+  reinstateAssetInputSchema,
+  getAssetByTagInputSchema,
+  getAssetTagImageInputSchema,
+  generateAssetLabelsInputSchema,
   createLendingInputSchema,
+  updateLendingInputSchema,
   returnAssetInputSchema,
-  generateReportInputSchema
+  transferAssetInputSchema,
+  getTransfersInputSchema,
+  generateReportInputSchema,
+  generateLendingReportInputSchema,
+  generateAssetReportInputSchema,
+  type ApiKey,
+  type AuditEntityType,
+  type ClientInfo,
+  type Capability,
+  type User,
+  type UserRole
 } from './schema';
+import { hasCapability, isTwoFactorRequired, reportCapabilities } from './permissions';
 
 // Import handlers
 import { login, createUser, getUsers } from './handlers/auth';
+import {
+  updateUser,
+  changeUserRole,
+  deactivateUser,
+  reactivateUser,
+  unlockUser,
+  resetUserPassword,
+  changePassword
+} from './handlers/users';
+import {
+  verifyToken,
+  getActiveSession,
+  refreshSession,
+  getUserSessions,
+  revokeSession,
+  revokeUserSessions
+} from './handlers/sessions';
+import { getLoginHistory } from './handlers/login_attempts';
+import { requestPasswordReset, completePasswordReset } from './handlers/password_resets';
+import { isApiKey, createApiKey, getApiKeys, revokeApiKey, verifyApiKey, getActiveApiKey } from './handlers/api_keys';
+import { loadAuditSnapshot, recordAuditEvent, getAuditLog } from './handlers/audit';
+import { getJobs, getJobRuns, triggerJob } from './handlers/jobs';
+import { getLendingNotices } from './handlers/reminders';
+import { getNotifications, markNotificationRead, markAllNotificationsRead } from './handlers/notifications';
+import {
+  getEmailTemplates,
+  getEmailTemplatePlaceholders,
+  findEmailTemplateId,
+  updateEmailTemplate,
+  resetEmailTemplate,
+  previewEmailTemplate
+} from './handlers/email_templates';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  resetTwoFactor
+} from './handlers/two_factor';
 import {
   createCategory,
   getCategories,
@@ -27,15 +104,28 @@ import {
   updateCategory,
   deleteCategory
 } from './handlers/categories';
+import {
+  createLocation,
+  getLocations,
+  getLocationById,
+  updateLocation,
+  deleteLocation,
+  importLegacyLocations
+} from './handlers/locations';
 import {
   createAsset,
   getAssets,
   getAssetById,
   getAssetsByCategory,
+  getAssetsByLocation,
   getAssetsByStatus,
   updateAsset,
-  deleteAsset
+  deleteAsset,
+  reinstateAsset,
+  getAssetTimeline
 } from './handlers/assets';
+import { getAssetByTag, getAssetTagImage, assignMissingAssetTags } from './handlers/asset_tags';
+import { generateAssetLabels } from './handlers/labels';
 import {
   createLending,
   getLendings,
@@ -46,21 +136,199 @@ import {
   returnAsset,
   updateLending
 } from './handlers/lendings';
+import {
+  transferAsset,
+  getTransfers,
+  getTransferById,
+  approveTransfer,
+  shipTransfer,
+  receiveTransfer,
+  cancelTransfer
+} from './handlers/transfers';
 import {
   generateReport,
   generateInventoryReport,
   generateLendingReport,
   generateReturnsReport,
   generateOverdueReport,
-  generateCategorySummaryReport
+  generateCategorySummaryReport,
+  generateLocationSummaryReport,
+  generateTransferReport
 } from './handlers/reports';
 import { getDashboardSummary } from './handlers/dashboard';
+import { startJobs } from './jobs';
+import { listenForChanges } from './events';
+
+// Addresses of the proxies allowed to report the client address in X-Forwarded-For.
+// Caddy runs in the same container, so only loopback is trusted by default.
+const trustedProxies = new Set(
+  (process.env['TRUSTED_PROXIES'] || '127.0.0.1,::1,::ffff:127.0.0.1')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean)
+);
+
+// The client address, taken from the proxy's X-Forwarded-For when the request came
+// through it. Anyone can send the header straight to the API port, so it is ignored
+// from other peers; the proxy's own entry is the last one in the list.
+const clientAddress = (req: (CreateHTTPContextOptions | CreateWSSContextFnOptions)['req']): string | null => {
+  const peer = req.socket.remoteAddress || null;
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (!peer || !forwardedFor || !trustedProxies.has(peer)) {
+    return peer;
+  }
+  const entries = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor).split(',');
+  return entries[entries.length - 1].trim() || peer;
+};
+
+async function createContext({ req, info }: CreateHTTPContextOptions | CreateWSSContextFnOptions) {
+  const client: ClientInfo = {
+    ip_address: clientAddress(req),
+    user_agent: req.headers['user-agent'] || null
+  };
+
+  // Resolve a session token or personal API key from an "Authorization: Bearer <token>" header.
+  // Browsers cannot set headers on a WebSocket, so live update connections send the
+  // token in their connection params instead; it is verified when they connect, and
+  // subscriptions look the session up again before each event (see whilePermitted).
+  const authorization = req.headers.authorization;
+  const token = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : info.connectionParams?.['token'] || null;
+  const sessionAuth = token && !isApiKey(token) ? await verifyToken(token) : null;
+  const keyAuth = token && isApiKey(token) ? await verifyApiKey(token) : null;
+
+  return {
+    user: sessionAuth?.user ?? keyAuth?.user ?? null,
+    session: sessionAuth?.session ?? null,
+    apiKey: keyAuth?.api_key ?? null,
+    client
+  };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
 
-const t = initTRPC.create({
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
+// Authenticated by either a session token or an API key
+const authenticatedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Account and credential management needs an interactive session, not an API key
+const protectedProcedure = authenticatedProcedure.use(({ ctx, next }) => {
+  if (!ctx.session) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Session authentication required' });
+  }
+  return next({ ctx: { ...ctx, session: ctx.session } });
+});
+
+// API keys are additionally limited to the capabilities they were scoped to
+const assertCapability = (role: UserRole, apiKey: ApiKey | null, capability: Capability) => {
+  if (!hasCapability(role, capability)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Missing permission: ${capability}` });
+  }
+  if (apiKey && !apiKey.capabilities.includes(capability)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `API key is not scoped for: ${capability}` });
+  }
+};
+
+// Each procedure declares the capability its caller's role must hold.
+// Roles with mandatory two-factor can only reach enrollment until it is enabled.
+const assertPermitted = (user: User, apiKey: ApiKey | null, capability: Capability) => {
+  if (isTwoFactorRequired(user.role) && !user.totp_enabled) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication must be enabled for this account' });
+  }
+  assertCapability(user.role, apiKey, capability);
+};
+
+const permittedProcedure = (capability: Capability) => authenticatedProcedure.use(({ ctx, next }) => {
+  assertPermitted(ctx.user, ctx.apiKey, capability);
+  return next();
+});
+
+// Live update connections are only authenticated when they connect, so the
+// caller is looked up again before each event. Logging out, changing password,
+// revoking the key or deactivating the account ends the subscription.
+async function* whilePermitted<T>(
+  events: AsyncIterable<T>,
+  ctx: Context,
+  capability: Capability
+): AsyncGenerator<T> {
+  for await (const event of events) {
+    const keyAuth = ctx.apiKey ? await getActiveApiKey(ctx.apiKey.id) : null;
+    const user = ctx.session ? (await getActiveSession(ctx.session.id))?.user : keyAuth?.user;
+    if (!user) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Session is no longer valid' });
+    }
+    assertPermitted(user, keyAuth?.api_key ?? null, capability);
+    yield event;
+  }
+}
+
+// Locates the entity a mutation touched: from the input or caller before it runs,
+// or from its result afterwards (creations only have an id once they are done)
+type AuditLocator = (args: { input: unknown; ctx: Context; data?: unknown }) => AuditEntityId | Promise<AuditEntityId>;
+type AuditEntityId = number | null | undefined;
+
+// A field of a raw input or result, following the keys given
+const fieldAt = (value: unknown, ...keys: string[]): unknown => keys.reduce<unknown>(
+  (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+  value
+);
+
+const numberAt = (value: unknown, ...keys: string[]): number | undefined => {
+  const field = fieldAt(value, ...keys);
+  return typeof field === 'number' ? field : undefined;
+};
+
+const byInputId: AuditLocator = ({ input }) => numberAt(input, 'id');
+const byResultId: AuditLocator = ({ data }) => numberAt(data, 'id');
+const byCurrentUser: AuditLocator = ({ ctx }) => ctx.user?.id;
+// Templates are edited by key. The row only exists while a template differs
+// from its default, so an edit of a default template reads as a creation and
+// a reset as a deletion.
+const byTemplateKey: AuditLocator = ({ input }) => {
+  const key = lendingNoticeKindEnum.safeParse(fieldAt(input, 'key'));
+  return key.success ? findEmailTemplateId(key.data) : null;
+};
+
+// Records who changed what for every successful mutation, with the entity's
+// state before and after. Failed mutations leave no event. Public sign-in flows
+// are covered by the login history, and report generation changes nothing.
+// The change has already been made by the time the event is written, so a
+// failure to record it is logged rather than reported to the caller.
+const audited = (entityType: AuditEntityType, locate: AuditLocator) => t.middleware(async ({ ctx, path, getRawInput, next }) => {
+  const input = await getRawInput();
+  const knownId = (await locate({ input, ctx })) ?? null;
+  const before = knownId !== null ? await loadAuditSnapshot(entityType, knownId) : null;
+
+  const result = await next();
+  if (result.ok) {
+    try {
+      const entityId = knownId ?? (await locate({ input, ctx, data: result.data })) ?? null;
+      await recordAuditEvent({
+        actor_user_id: ctx.user?.id ?? null,
+        api_key_id: ctx.apiKey?.id ?? null,
+        procedure: path,
+        entity_type: entityType,
+        entity_id: entityId,
+        before,
+        after: entityId !== null ? await loadAuditSnapshot(entityType, entityId) : null,
+        ip_address: ctx.client.ip_address
+      });
+    } catch (error) {
+      console.error(`Audit event for ${path} was not recorded:`, error);
+    }
+  }
+  return result;
+});
 const router = t.router;
 
 const appRouter = router({
@@ -72,122 +340,395 @@ const appRouter = router({
   // Authentication routes
   login: publicProcedure
     .input(loginInputSchema)
-    .mutation(({ input }) => login(input)),
+    .mutation(({ input, ctx }) => login(input, ctx.client)),
 
-  createUser: publicProcedure
+  refreshSession: publicProcedure
+    .input(refreshSessionInputSchema)
+    .mutation(({ input }) => refreshSession(input)),
+
+  requestPasswordReset: publicProcedure
+    .input(requestPasswordResetInputSchema)
+    .mutation(({ input, ctx }) => requestPasswordReset(input, ctx.client)),
+
+  completePasswordReset: publicProcedure
+    .input(completePasswordResetInputSchema)
+    .mutation(({ input }) => completePasswordReset(input)),
+
+  logout: protectedProcedure
+    .use(audited('session', ({ ctx }) => ctx.session?.id))
+    .mutation(({ ctx }) => revokeSession(ctx.session.id)),
+
+  createUser: permittedProcedure('user.create')
     .input(createUserInputSchema)
+    .use(audited('user', byResultId))
     .mutation(({ input }) => createUser(input)),
 
-  getUsers: publicProcedure
+  getUsers: permittedProcedure('user.read')
     .query(() => getUsers()),
 
+  updateUser: permittedProcedure('user.manage')
+    .input(updateUserInputSchema)
+    .use(audited('user', byInputId))
+    .mutation(({ input }) => updateUser(input)),
+
+  changeUserRole: permittedProcedure('user.manage')
+    .input(changeUserRoleInputSchema)
+    .use(audited('user', byInputId))
+    .mutation(({ input }) => changeUserRole(input)),
+
+  deactivateUser: permittedProcedure('user.manage')
+    .input(z.object({ id: z.number() }))
+    .use(audited('user', byInputId))
+    .mutation(({ input }) => deactivateUser(input.id)),
+
+  reactivateUser: permittedProcedure('user.manage')
+    .input(z.object({ id: z.number() }))
+    .use(audited('user', byInputId))
+    .mutation(({ input }) => reactivateUser(input.id)),
+
+  unlockUser: permittedProcedure('user.manage')
+    .input(z.object({ id: z.number() }))
+    .use(audited('user', byInputId))
+    .mutation(({ input }) => unlockUser(input.id)),
+
+  resetUserPassword: permittedProcedure('user.manage')
+    .input(resetUserPasswordInputSchema)
+    .use(audited('user', byInputId))
+    .mutation(({ input }) => resetUserPassword(input)),
+
+  changePassword: protectedProcedure
+    .input(changePasswordInputSchema)
+    .use(audited('user', byCurrentUser))
+    .mutation(({ input, ctx }) => changePassword(ctx.user.id, input, ctx.session.id)),
+
+  // Two-factor authentication routes
+  beginTwoFactorEnrollment: protectedProcedure
+    .use(audited('user', byCurrentUser))
+    .mutation(({ ctx }) => beginTwoFactorEnrollment(ctx.user.id)),
+
+  confirmTwoFactorEnrollment: protectedProcedure
+    .input(confirmTwoFactorInputSchema)
+    .use(audited('user', byCurrentUser))
+    .mutation(({ input, ctx }) => confirmTwoFactorEnrollment(ctx.user.id, input)),
+
+  disableTwoFactor: protectedProcedure
+    .input(disableTwoFactorInputSchema)
+    .use(audited('user', byCurrentUser))
+    .mutation(({ input, ctx }) => disableTwoFactor(ctx.user.id, input)),
+
+  // Personal API key routes
+  createApiKey: protectedProcedure
+    .input(createApiKeyInputSchema)
+    .use(audited('api_key', ({ data }) => numberAt(data, 'api_key', 'id')))
+    .mutation(({ input, ctx }) => createApiKey(ctx.user.id, input)),
+
+  getApiKeys: protectedProcedure
+    .query(({ ctx }) => getApiKeys(ctx.user.id)),
+
+  revokeApiKey: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .use(audited('api_key', byInputId))
+    .mutation(({ input, ctx }) => revokeApiKey(ctx.user.id, input.id)),
+
+  // Notification routes (read state is personal and not audited)
+  getNotifications: authenticatedProcedure
+    .input(getNotificationsInputSchema)
+    .query(({ input, ctx }) => getNotifications(input, ctx.user.id)),
+
+  markNotificationRead: authenticatedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input, ctx }) => markNotificationRead(input.id, ctx.user.id)),
+
+  markAllNotificationsRead: authenticatedProcedure
+    .mutation(({ ctx }) => markAllNotificationsRead(ctx.user.id)),
+
+  resetUserTwoFactor: permittedProcedure('user.manage')
+    .input(z.object({ id: z.number() }))
+    .use(audited('user', byInputId))
+    .mutation(({ input }) => resetTwoFactor(input.id)),
+
+  // Session administration routes
+  getUserSessions: permittedProcedure('session.manage')
+    .input(z.object({ userId: z.number() }))
+    .query(({ input }) => getUserSessions(input.userId)),
+
+  revokeSession: permittedProcedure('session.manage')
+    .input(z.object({ id: z.number() }))
+    .use(audited('session', byInputId))
+    .mutation(({ input }) => revokeSession(input.id)),
+
+  revokeUserSessions: permittedProcedure('session.manage')
+    .input(z.object({ userId: z.number() }))
+    .use(audited('user', ({ input }) => numberAt(input, 'userId')))
+    .mutation(({ input }) => revokeUserSessions(input.userId)),
+
+  getLoginHistory: permittedProcedure('login_history.read')
+    .input(getLoginHistoryInputSchema)
+    .query(({ input }) => getLoginHistory(input)),
+
+  getAuditLog: permittedProcedure('audit.read')
+    .input(getAuditLogInputSchema)
+    .query(({ input }) => getAuditLog(input)),
+
+  // Job scheduler routes (manual runs are recorded in the job history rather than the audit log)
+  getJobs: permittedProcedure('job.manage')
+    .query(() => getJobs()),
+
+  getJobRuns: permittedProcedure('job.manage')
+    .input(getJobRunsInputSchema)
+    .query(({ input }) => getJobRuns(input)),
+
+  triggerJob: permittedProcedure('job.manage')
+    .input(triggerJobInputSchema)
+    .use(audited('job', ({ data }) => numberAt(data, 'job_id')))
+    .mutation(({ input, ctx }) => triggerJob(input, ctx.user.id)),
+
+  // Email template routes
+  getEmailTemplates: permittedProcedure('template.manage')
+    .query(() => getEmailTemplates()),
+
+  getEmailTemplatePlaceholders: permittedProcedure('template.manage')
+    .query(() => getEmailTemplatePlaceholders()),
+
+  updateEmailTemplate: permittedProcedure('template.manage')
+    .input(updateEmailTemplateInputSchema)
+    .use(audited('email_template', byTemplateKey))
+    .mutation(({ input, ctx }) => updateEmailTemplate(input, ctx.user.id)),
+
+  resetEmailTemplate: permittedProcedure('template.manage')
+    .input(z.object({ key: lendingNoticeKindEnum }))
+    .use(audited('email_template', byTemplateKey))
+    .mutation(({ input }) => resetEmailTemplate(input.key)),
+
+  previewEmailTemplate: permittedProcedure('template.manage')
+    .input(previewEmailTemplateInputSchema)
+    .query(({ input }) => previewEmailTemplate(input)),
+
   // Dashboard routes
-  getDashboardSummary: publicProcedure
+  getDashboardSummary: permittedProcedure('dashboard.read')
     .query(() => getDashboardSummary()),
 
   // Category routes
-  createCategory: publicProcedure
+  createCategory: permittedProcedure('category.write')
     .input(createCategoryInputSchema)
+    .use(audited('category', byResultId))
     .mutation(({ input }) => createCategory(input)),
 
-  getCategories: publicProcedure
+  getCategories: permittedProcedure('category.read')
     .query(() => getCategories()),
 
-  getCategoryById: publicProcedure
+  getCategoryById: permittedProcedure('category.read')
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getCategoryById(input.id)),
 
-  updateCategory: publicProcedure
+  updateCategory: permittedProcedure('category.write')
     .input(updateCategoryInputSchema)
+    .use(audited('category', byInputId))
     .mutation(({ input }) => updateCategory(input)),
 
-  deleteCategory: publicProcedure
+  deleteCategory: permittedProcedure('category.delete')
     .input(z.object({ id: z.number() }))
+    .use(audited('category', byInputId))
     .mutation(({ input }) => deleteCategory(input.id)),
 
+  // Location routes
+  createLocation: permittedProcedure('location.write')
+    .input(createLocationInputSchema)
+    .use(audited('location', byResultId))
+    .mutation(({ input }) => createLocation(input)),
+
+  getLocations: permittedProcedure('location.read')
+    .query(() => getLocations()),
+
+  getLocationById: permittedProcedure('location.read')
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getLocationById(input.id)),
+
+  updateLocation: permittedProcedure('location.write')
+    .input(updateLocationInputSchema)
+    .use(audited('location', byInputId))
+    .mutation(({ input }) => updateLocation(input)),
+
+  deleteLocation: permittedProcedure('location.delete')
+    .input(deleteLocationInputSchema)
+    .use(audited('location', byInputId))
+    .mutation(({ input }) => deleteLocation(input)),
+
   // Asset routes
-  createAsset: publicProcedure
+  createAsset: permittedProcedure('asset.write')
     .input(createAssetInputSchema)
+    .use(audited('asset', byResultId))
     .mutation(({ input }) => createAsset(input)),
 
-  getAssets: publicProcedure
+  getAssets: permittedProcedure('asset.read')
     .query(() => getAssets()),
 
-  getAssetById: publicProcedure
+  getAssetById: permittedProcedure('asset.read')
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getAssetById(input.id)),
 
-  getAssetsByCategory: publicProcedure
+  getAssetByTag: permittedProcedure('asset.read')
+    .input(getAssetByTagInputSchema)
+    .query(({ input }) => getAssetByTag(input)),
+
+  getAssetTagImage: permittedProcedure('asset.read')
+    .input(getAssetTagImageInputSchema)
+    .query(({ input }) => getAssetTagImage(input)),
+
+  generateAssetLabels: permittedProcedure('asset.read')
+    .input(generateAssetLabelsInputSchema)
+    .mutation(({ input }) => generateAssetLabels(input)),
+
+  getAssetsByCategory: permittedProcedure('asset.read')
     .input(z.object({ categoryId: z.number() }))
     .query(({ input }) => getAssetsByCategory(input.categoryId)),
 
-  getAssetsByStatus: publicProcedure
+  getAssetsByLocation: permittedProcedure('asset.read')
+    .input(z.object({ locationId: z.number() }))
+    .query(({ input }) => getAssetsByLocation(input.locationId)),
+
+  getAssetsByStatus: permittedProcedure('asset.read')
     .input(z.object({ status: z.string() }))
     .query(({ input }) => getAssetsByStatus(input.status)),
 
-  updateAsset: publicProcedure
+  getAssetTimeline: permittedProcedure('asset.read')
+    .input(z.object({ assetId: z.number() }))
+    .query(({ input }) => getAssetTimeline(input.assetId)),
+
+  updateAsset: permittedProcedure('asset.write')
     .input(updateAssetInputSchema)
-    .mutation(({ input }) => updateAsset(input)),
+    .use(audited('asset', byInputId))
+    .mutation(({ input, ctx }) => updateAsset(input, ctx.user.id)),
+
+  reinstateAsset: permittedProcedure('asset.reinstate')
+    .input(reinstateAssetInputSchema)
+    .use(audited('asset', byInputId))
+    .mutation(({ input, ctx }) => reinstateAsset(input, ctx.user.id)),
 
-  deleteAsset: publicProcedure
+  deleteAsset: permittedProcedure('asset.delete')
     .input(z.object({ id: z.number() }))
+    .use(audited('asset', byInputId))
     .mutation(({ input }) => deleteAsset(input.id)),
 
   // Lending routes
-  createLending: publicProcedure
+  createLending: permittedProcedure('lending.write')
     .input(createLendingInputSchema)
-    .mutation(({ input }) => createLending(input)),
+    .use(audited('lending', byResultId))
+    .mutation(({ input, ctx }) => createLending(input, ctx.user.id)),
 
-  getLendings: publicProcedure
+  getLendings: permittedProcedure('lending.read')
     .query(() => getLendings()),
 
-  getActiveLendings: publicProcedure
+  getActiveLendings: permittedProcedure('lending.read')
     .query(() => getActiveLendings()),
 
-  getOverdueLendings: publicProcedure
+  getOverdueLendings: permittedProcedure('lending.read')
     .query(() => getOverdueLendings()),
 
-  getLendingById: publicProcedure
+  getLendingById: permittedProcedure('lending.read')
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getLendingById(input.id)),
 
-  getLendingsByAsset: publicProcedure
+  getLendingsByAsset: permittedProcedure('lending.read')
     .input(z.object({ assetId: z.number() }))
     .query(({ input }) => getLendingsByAsset(input.assetId)),
 
-  returnAsset: publicProcedure
+  getLendingNotices: permittedProcedure('lending.read')
+    .input(z.object({ lendingId: z.number() }))
+    .query(({ input }) => getLendingNotices(input.lendingId)),
+
+  returnAsset: permittedProcedure('lending.return')
     .input(returnAssetInputSchema)
-    .mutation(({ input }) => returnAsset(input)),
+    .use(audited('lending', ({ input }) => numberAt(input, 'lending_id')))
+    .mutation(({ input, ctx }) => returnAsset(input, ctx.user.id)),
 
-  updateLending: publicProcedure
-    .input(z.object({
-      id: z.number(),
-      updates: z.record(z.unknown())
-    }))
+  updateLending: permittedProcedure('lending.write')
+    .input(updateLendingInputSchema)
+    .use(audited('lending', byInputId))
     .mutation(({ input }) => updateLending(input.id, input.updates)),
 
+  // Transfer routes (each step is recorded on the transfer along with who took it)
+  transferAsset: permittedProcedure('transfer.request')
+    .input(transferAssetInputSchema)
+    .use(audited('transfer', byResultId))
+    .mutation(({ input, ctx }) => transferAsset(input, ctx.user.id)),
+
+  getTransfers: permittedProcedure('transfer.read')
+    .input(getTransfersInputSchema.optional())
+    .query(({ input }) => getTransfers(input)),
+
+  getTransferById: permittedProcedure('transfer.read')
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getTransferById(input.id)),
+
+  approveTransfer: permittedProcedure('transfer.approve')
+    .input(z.object({ id: z.number() }))
+    .use(audited('transfer', byInputId))
+    .mutation(({ input, ctx }) => approveTransfer(input.id, ctx.user.id)),
+
+  shipTransfer: permittedProcedure('transfer.request')
+    .input(z.object({ id: z.number() }))
+    .use(audited('transfer', byInputId))
+    .mutation(({ input, ctx }) => shipTransfer(input.id, ctx.user.id)),
+
+  receiveTransfer: permittedProcedure('transfer.request')
+    .input(z.object({ id: z.number() }))
+    .use(audited('transfer', byInputId))
+    .mutation(({ input, ctx }) => receiveTransfer(input.id, ctx.user.id)),
+
+  cancelTransfer: permittedProcedure('transfer.request')
+    .input(z.object({ id: z.number() }))
+    .use(audited('transfer', byInputId))
+    .mutation(({ input, ctx }) => cancelTransfer(input.id, ctx.user.id)),
+
+  // Live update routes, served over the WebSocket connection
+  onAssetChange: permittedProcedure('asset.read')
+    .subscription(({ ctx, signal }) => whilePermitted(listenForChanges('asset', signal), ctx, 'asset.read')),
+
+  onLendingChange: permittedProcedure('lending.read')
+    .subscription(({ ctx, signal }) => whilePermitted(listenForChanges('lending', signal), ctx, 'lending.read')),
+
+  // Sends the recalculated summary rather than a notice, so dashboards need no extra round trip
+  onDashboardChange: permittedProcedure('dashboard.read')
+    .subscription(async function* ({ ctx, signal }) {
+      for await (const _ of whilePermitted(listenForChanges('dashboard', signal), ctx, 'dashboard.read')) {
+        yield await getDashboardSummary();
+      }
+    }),
+
   // Report routes
-  generateReport: publicProcedure
+  generateReport: permittedProcedure('report.read')
     .input(generateReportInputSchema)
-    .mutation(({ input }) => generateReport(input)),
+    .mutation(({ input, ctx }) => {
+      assertCapability(ctx.user.role, ctx.apiKey, reportCapabilities[input.report_type]);
+      return generateReport(input);
+    }),
 
-  generateInventoryReport: publicProcedure
-    .input(generateReportInputSchema)
+  generateInventoryReport: permittedProcedure('report.financial')
+    .input(generateAssetReportInputSchema)
     .mutation(({ input }) => generateInventoryReport(input)),
 
-  generateLendingReport: publicProcedure
-    .input(generateReportInputSchema)
+  generateLendingReport: permittedProcedure('report.read')
+    .input(generateLendingReportInputSchema)
     .mutation(({ input }) => generateLendingReport(input)),
 
-  generateReturnsReport: publicProcedure
+  generateReturnsReport: permittedProcedure('report.read')
     .input(generateReportInputSchema)
     .mutation(({ input }) => generateReturnsReport(input)),
 
-  generateOverdueReport: publicProcedure
+  generateOverdueReport: permittedProcedure('report.read')
     .mutation(() => generateOverdueReport()),
 
-  generateCategorySummaryReport: publicProcedure
+  generateCategorySummaryReport: permittedProcedure('report.financial')
     .mutation(() => generateCategorySummaryReport()),
+
+  generateLocationSummaryReport: permittedProcedure('report.financial')
+    .input(generateAssetReportInputSchema)
+    .mutation(({ input }) => generateLocationSummaryReport(input)),
+
+  generateTransferReport: permittedProcedure('report.read')
+    .input(generateReportInputSchema)
+    .mutation(({ input }) => generateTransferReport(input)),
 });
 
 export type AppRouter = typeof appRouter;
@@ -199,13 +740,40 @@ async function start() {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
+  });
+  // Subscriptions share the HTTP port: upgrade requests are handed to the WebSocket server
+  const wss = new WebSocketServer({ server });
+  applyWSSHandler({
+    wss,
+    router: appRouter,
+    createContext,
+    keepAlive: { enabled: true }
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
   console.log('Facilities & Infrastructure Inventory Management System API ready');
+
+  // Assets saved before the locations table still carry free-text locations
+  try {
+    const imported = await importLegacyLocations();
+    if (imported.assets_updated > 0) {
+      console.log(`Moved ${imported.assets_updated} asset locations into ${imported.locations_created} new locations`);
+    }
+  } catch {
+    // Already logged; the assets keep their text location until the next start
+  }
+
+  // Assets created before tags existed have none to scan
+  try {
+    const tagged = await assignMissingAssetTags();
+    if (tagged.assets_tagged > 0) {
+      console.log(`Gave asset tags to ${tagged.assets_tagged} assets`);
+    }
+  } catch {
+    // Already logged; the remaining assets are tagged on the next start
+  }
+  startJobs();
 }
 
 start();
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { refreshOverdueLendings } from './handlers/lendings';
+import { sendLendingReminders } from './handlers/reminders';
+import { startScheduler, type JobDefinition } from './scheduler';
+
+// Background jobs run by the scheduler inside the API process
+export const jobDefinitions: JobDefinition[] = [
+  {
+    name: 'refresh-overdue-lendings',
+    description: 'Marks lendings past their expected return date as overdue, and active again once extended',
+    schedule: '*/5 * * * *',
+    run: () => refreshOverdueLendings()
+  },
+  {
+    name: 'send-lending-reminders',
+    description: 'Emails borrowers before their return date, on it, and once overdue (copying the lending staff member)',
+    schedule: '0 8 * * *',
+    run: () => sendLendingReminders()
+  }
+];
+
+export const findJobDefinition = (name: string): JobDefinition | undefined => {
+  return jobDefinitions.find(definition => definition.name === name);
+};
+
+export const startJobs = (): void => {
+  try {
+    startScheduler(jobDefinitions);
+  } catch (error) {
+    console.error('Job scheduler failed to start:', error);
+  }
+};
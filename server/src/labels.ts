@@ -0,0 +1,181 @@
+import { type AssetTagImageFormat, type LabelLayout } from './schema';
+import { encodeCode128, CODE128_QUIET_ZONE } from './code128';
+import { encodeQr } from './qr';
+import { pdfDocument, pdfRect, pdfText, pdfGray, fitText, mmToPoints, type PdfFont } from './pdf';
+
+// Label stock, in points. Labels are filled left to right, then top to bottom.
+export interface LabelStock {
+  description: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginLeft: number;
+  marginTop: number;
+  // Distance from one label's edge to the next one's
+  pitchX: number;
+  pitchY: number;
+}
+
+export const labelStocks: Record<LabelLayout, LabelStock> = {
+  avery_5160: {
+    description: 'Avery 5160 (US Letter, 30 labels of 2⅝ × 1 in)',
+    pageWidth: 612,
+    pageHeight: 792,
+    columns: 3,
+    rows: 10,
+    labelWidth: 189,
+    labelHeight: 72,
+    marginLeft: 13.5,
+    marginTop: 36,
+    pitchX: 198,
+    pitchY: 72
+  },
+  avery_l7163: {
+    description: 'Avery L7163 (A4, 14 labels of 99.1 × 38.1 mm)',
+    pageWidth: mmToPoints(210),
+    pageHeight: mmToPoints(297),
+    columns: 2,
+    rows: 7,
+    labelWidth: mmToPoints(99.1),
+    labelHeight: mmToPoints(38.1),
+    marginLeft: mmToPoints(4.65),
+    marginTop: mmToPoints(15.15),
+    pitchX: mmToPoints(101.6),
+    pitchY: mmToPoints(38.1)
+  }
+};
+
+export interface LabelContent {
+  tag: string;
+  name: string;
+  location: string | null;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Dark modules as rectangles, merging runs along each row to keep pages small
+const drawQr = (tag: string, box: Box): string[] => {
+  const modules = encodeQr(tag);
+  // Two modules of quiet zone inside the box; the label margin adds the rest
+  const size = Math.min(box.width, box.height) / (modules.length + 4);
+  const left = box.x + 2 * size;
+  const top = box.y + box.height - 2 * size;
+  const operators: string[] = [];
+
+  modules.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (!row[x]) continue;
+      let run = 1;
+      while (row[x + run]) run++;
+      operators.push(pdfRect(left + x * size, top - (y + 1) * size, run * size, size));
+      x += run - 1;
+    }
+  });
+  return operators;
+};
+
+// Bars across the box, no wider than 2pt per module, centred
+const drawCode128 = (tag: string, box: Box): string[] => {
+  const modules = encodeCode128(tag);
+  const size = Math.min(box.width / (modules.length + CODE128_QUIET_ZONE * 2), 2);
+  const left = box.x + (box.width - modules.length * size) / 2;
+  const operators: string[] = [];
+
+  for (let x = 0; x < modules.length; x++) {
+    if (!modules[x]) continue;
+    let run = 1;
+    while (modules[x + run]) run++;
+    operators.push(pdfRect(left + x * size, box.y, run * size, box.height));
+    x += run - 1;
+  }
+  return operators;
+};
+
+// One line of text whose top sits at the given height; returns the operators
+// and the height of the line's bottom, where the next line can start
+const line = (text: string, x: number, top: number, font: PdfFont, size: number, maxWidth: number, keep: 'start' | 'end' = 'start') => {
+  const baseline = top - size * 0.8;
+  return {
+    operators: text ? [pdfText(fitText(text, font, size, maxWidth, keep), x, baseline, font, size)] : [],
+    bottom: top - size * 1.15
+  };
+};
+
+const drawLabel = (label: LabelContent, box: Box, format: AssetTagImageFormat): string[] => {
+  // Text sizes follow the label height, so larger stock gets larger print
+  const padding = box.height * 0.07;
+  const nameSize = box.height * 0.125;
+  const tagSize = box.height * 0.12;
+  const locationSize = box.height * 0.1;
+  const inner = {
+    x: box.x + padding,
+    y: box.y + padding,
+    width: box.width - padding * 2,
+    height: box.height - padding * 2
+  };
+
+  if (format === 'qr') {
+    const textX = inner.x + inner.height + padding;
+    const textWidth = inner.x + inner.width - textX;
+    const name = line(label.name, textX, inner.y + inner.height, 'helvetica', nameSize, textWidth);
+    const tag = line(label.tag, textX, name.bottom - padding / 2, 'courier', tagSize, textWidth);
+    const location = line(label.location || '', textX, tag.bottom - padding / 2, 'helvetica', locationSize, textWidth, 'end');
+    return [
+      pdfGray(0),
+      ...drawQr(label.tag, { ...inner, width: inner.height }),
+      ...name.operators,
+      ...tag.operators,
+      pdfGray(0.3),
+      ...location.operators
+    ];
+  }
+
+  // Name and location above the barcode, the tag printed under it
+  const name = line(label.name, inner.x, inner.y + inner.height, 'helvetica', nameSize, inner.width);
+  const location = line(label.location || '', inner.x, name.bottom, 'helvetica', locationSize, inner.width, 'end');
+  const tagTop = inner.y + tagSize * 1.1;
+  const tagText = fitText(label.tag, 'courier', tagSize, inner.width);
+  const tagX = inner.x + (inner.width - tagSize * 0.6 * tagText.length) / 2;
+  return [
+    pdfGray(0),
+    ...name.operators,
+    ...drawCode128(label.tag, { x: inner.x, y: tagTop, width: inner.width, height: location.bottom - tagTop - padding / 2 }),
+    pdfText(tagText, tagX, inner.y + tagSize * 0.2, 'courier', tagSize),
+    pdfGray(0.3),
+    ...location.operators
+  ];
+};
+
+// Lays the labels out on as many sheets as they need. Skipping leaves the
+// first positions blank so a partly used sheet can go back in the printer.
+export const labelSheetPdf = (labels: LabelContent[], layout: LabelLayout, format: AssetTagImageFormat, skip: number = 0): { pdf: Uint8Array; pages: number } => {
+  const stock = labelStocks[layout];
+  const perPage = stock.columns * stock.rows;
+  const pages: string[][] = [];
+
+  labels.forEach((label, index) => {
+    const position = index + skip;
+    const page = Math.floor(position / perPage);
+    const slot = position % perPage;
+    const column = slot % stock.columns;
+    const row = Math.floor(slot / stock.columns);
+
+    while (pages.length <= page) pages.push([]);
+    pages[page].push(...drawLabel(label, {
+      x: stock.marginLeft + column * stock.pitchX,
+      y: stock.pageHeight - stock.marginTop - row * stock.pitchY - stock.labelHeight,
+      width: stock.labelWidth,
+      height: stock.labelHeight
+    }, format));
+  });
+
+  return { pdf: pdfDocument(pages, stock.pageWidth, stock.pageHeight), pages: pages.length };
+};
@@ -0,0 +1,52 @@
+import { type Location, type LocationType } from './schema';
+
+// Outermost first. A location sits inside one of a higher level, usually the
+// next one up, but levels may be skipped (a single-storey building has no floors).
+export const locationLevels: readonly LocationType[] = ['site', 'building', 'floor', 'room'];
+
+export type LocationNode = Pick<Location, 'id' | 'name' | 'type' | 'parent_id'>;
+export type LocationIndex = Map<number, LocationNode>;
+
+export const indexLocations = (locations: LocationNode[]): LocationIndex => {
+  return new Map(locations.map(location => [location.id, location]));
+};
+
+// Only sites stand on their own; anything else must sit under a higher level
+export const canContain = (parentType: LocationType | null, childType: LocationType): boolean => {
+  if (parentType === null) return childType === 'site';
+  return locationLevels.indexOf(parentType) < locationLevels.indexOf(childType);
+};
+
+// Ids of the locations above this one, outermost first
+export const ancestorIdsOf = (index: LocationIndex, id: number): number[] => {
+  const ancestors: number[] = [];
+  let parentId = index.get(id)?.parent_id ?? null;
+  // Levels only increase going down, so a chain longer than the number of levels means bad data
+  while (parentId !== null && ancestors.length < locationLevels.length) {
+    ancestors.unshift(parentId);
+    parentId = index.get(parentId)?.parent_id ?? null;
+  }
+  return ancestors;
+};
+
+// e.g. "Main Campus / Building A / Floor 1 / Room 101"
+export const locationPath = (index: LocationIndex, id: number): string => {
+  return [...ancestorIdsOf(index, id), id]
+    .map(locationId => index.get(locationId)?.name)
+    .filter(name => name !== undefined)
+    .join(' / ');
+};
+
+// The location itself and every location below it
+export const subtreeIds = (index: LocationIndex, id: number): number[] => {
+  return [...index.values()]
+    .filter(location => location.id === id || ancestorIdsOf(index, location.id).includes(id))
+    .map(location => location.id);
+};
+
+// The location at the given level that contains this one (or is this one), if any
+export const locationAtLevel = (index: LocationIndex, id: number, type: LocationType): LocationNode | null => {
+  return [...ancestorIdsOf(index, id), id]
+    .map(locationId => index.get(locationId))
+    .find(location => location?.type === type) ?? null;
+};
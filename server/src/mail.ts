@@ -0,0 +1,54 @@
+import { appendFile } from 'fs/promises';
+import { db } from './db';
+import { mailOutboxTable } from './db/schema';
+import { type MailMessage } from './schema';
+
+// Anything that can deliver a message: SMTP, an HTTP mail API, or a local outbox
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default transport: keeps messages in the mail_outbox table instead of delivering them
+export const outboxTransport: MailTransport = {
+  async send(message) {
+    await db.insert(mailOutboxTable)
+      .values({
+        recipient: message.to,
+        cc: message.cc?.length ? message.cc : null,
+        subject: message.subject,
+        body: message.body
+      })
+      .execute();
+  }
+};
+
+// Appends each message as a JSON line, handy for inspecting mail during development
+export const fileTransport = (path: string): MailTransport => ({
+  async send(message) {
+    const line = JSON.stringify({ ...message, created_at: new Date().toISOString() });
+    await appendFile(path, line + '\n');
+  }
+});
+
+let transport: MailTransport = process.env['MAIL_OUTBOX_FILE']
+  ? fileTransport(process.env['MAIL_OUTBOX_FILE'])
+  : outboxTransport;
+
+// Swap in a real transport at startup, or a recording one in tests
+export const setMailTransport = (next: MailTransport): void => {
+  transport = next;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  try {
+    await transport.send(message);
+  } catch (error) {
+    console.error('Mail delivery failed:', error);
+    throw error;
+  }
+};
+
+// Base URL of the web client, used to build links in outgoing mail
+export const appUrl = (): string => {
+  return (process.env['APP_URL'] || 'http://localhost').replace(/\/+$/, '');
+};
@@ -0,0 +1,129 @@
+import { deflateSync } from 'zlib';
+
+// Just enough PDF to lay out label sheets: pages of filled rectangles and text
+// in the standard Helvetica and Courier fonts, which every viewer has built in
+// and so need no embedding. Sizes and positions are in points (1/72 inch),
+// measured from the bottom left of the page.
+
+export type PdfFont = 'helvetica' | 'courier';
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  helvetica: { name: 'F1', baseFont: 'Helvetica' },
+  courier: { name: 'F2', baseFont: 'Courier' }
+};
+
+// Helvetica advance widths, in thousandths of the font size, for characters 32 to 126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+export const mmToPoints = (mm: number): number => mm * 72 / 25.4;
+
+// Text is written in the fonts' Latin-1 based encoding; anything outside it prints as "?"
+const toLatin1 = (text: string): string => {
+  return [...text].map(char => (char.charCodeAt(0) <= 0xff ? char : '?')).join('');
+};
+
+export const textWidth = (text: string, font: PdfFont, size: number): number => {
+  if (font === 'courier') {
+    return [...text].length * 0.6 * size;
+  }
+  return [...toLatin1(text)].reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    // Accented letters are close enough to the width of an average lower case letter
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0) * size / 1000;
+};
+
+// Shortens text to fit, marking the cut with "..." at the end, or at the start
+// when the end matters more (the room at the end of a location path)
+export const fitText = (text: string, font: PdfFont, size: number, maxWidth: number, keep: 'start' | 'end' = 'start'): string => {
+  if (textWidth(text, font, size) <= maxWidth) return text;
+  const chars = [...text];
+  while (chars.length > 0) {
+    if (keep === 'start') chars.pop(); else chars.shift();
+    const candidate = keep === 'start' ? `${chars.join('').trimEnd()}...` : `...${chars.join('').trimStart()}`;
+    if (textWidth(candidate, font, size) <= maxWidth) return candidate;
+  }
+  return '';
+};
+
+const round = (value: number): string => String(Math.round(value * 100) / 100);
+
+// Drawing operators for one page's content stream
+export const pdfRect = (x: number, y: number, width: number, height: number): string => {
+  return `${round(x)} ${round(y)} ${round(width)} ${round(height)} re f`;
+};
+
+export const pdfText = (text: string, x: number, y: number, font: PdfFont, size: number): string => {
+  const escaped = toLatin1(text).replace(/[\\()]/g, char => `\\${char}`);
+  return `BT /${FONT_RESOURCES[font].name} ${round(size)} Tf ${round(x)} ${round(y)} Td (${escaped}) Tj ET`;
+};
+
+export const pdfGray = (level: number): string => `${round(level)} g`;
+
+// A whole document, one entry of drawing operators per page
+export const pdfDocument = (pages: string[][], width: number, height: number): Uint8Array => {
+  const objects: Buffer[] = [];
+  const fontIds: Record<string, number> = {};
+  const pageIds: number[] = [];
+  // Objects 1 and 2 are the catalog and page tree, written once the pages are known
+  let nextId = 3;
+
+  for (const font of Object.values(FONT_RESOURCES)) {
+    fontIds[font.name] = nextId;
+    objects[nextId++] = Buffer.from(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`);
+  }
+  const fonts = Object.entries(fontIds).map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+
+  for (const operators of pages) {
+    const content = deflateSync(Buffer.from(operators.join('\n'), 'latin1'));
+    const contentId = nextId++;
+    objects[contentId] = Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+      content,
+      Buffer.from('\nendstream')
+    ]);
+    const pageId = nextId++;
+    pageIds.push(pageId);
+    objects[pageId] = Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(width)} ${round(height)}] `
+      + `/Resources << /Font << ${fonts} >> >> /Contents ${contentId} 0 R >>`
+    );
+  }
+
+  objects[1] = Buffer.from('<< /Type /Catalog /Pages 2 0 R >>');
+  objects[2] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+  // The cross-reference table gives the byte offset of every object
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  for (let id = 1; id < nextId; id++) {
+    offsets[id] = length;
+    const chunk = Buffer.concat([Buffer.from(`${id} 0 obj\n`), objects[id], Buffer.from('\nendobj\n')]);
+    chunks.push(chunk);
+    length += chunk.length;
+  }
+
+  const xref = [
+    'xref',
+    `0 ${nextId}`,
+    '0000000000 65535 f ',
+    ...offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${nextId} /Root 1 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+    ''
+  ].join('\n');
+  chunks.push(Buffer.from(xref));
+
+  return new Uint8Array(Buffer.concat(chunks));
+};
@@ -0,0 +1,62 @@
+import { capabilityEnum, type Capability, type ReportType, type UserRole } from './schema';
+
+// Default mapping of roles to the capabilities they hold
+export const defaultRolePermissions: Record<UserRole, readonly Capability[]> = {
+  admin: capabilityEnum.options,
+  manager: [
+    'dashboard.read',
+    'category.read',
+    'category.write',
+    'location.read',
+    'location.write',
+    'asset.read',
+    'asset.write',
+    'lending.read',
+    'lending.write',
+    'lending.return',
+    'transfer.read',
+    'transfer.request',
+    'transfer.approve',
+    'report.read',
+    'report.financial'
+  ],
+  staff: [
+    'dashboard.read',
+    'category.read',
+    'location.read',
+    'asset.read',
+    'lending.read',
+    'lending.write',
+    'lending.return',
+    'transfer.read',
+    'transfer.request',
+    'report.read'
+  ]
+};
+
+// Reports exposing purchase prices and current values require 'report.financial'
+export const reportCapabilities: Record<ReportType, Capability> = {
+  inventory: 'report.financial',
+  lending: 'report.read',
+  returns: 'report.read',
+  overdue: 'report.read',
+  category_summary: 'report.financial',
+  location_summary: 'report.financial',
+  transfers: 'report.read'
+};
+
+export const getCapabilities = (role: UserRole): Capability[] => {
+  return [...defaultRolePermissions[role]];
+};
+
+export const hasCapability = (role: UserRole, capability: Capability): boolean => {
+  return defaultRolePermissions[role].includes(capability);
+};
+
+// Roles allowed to protect their account with a TOTP second factor
+export const twoFactorRoles: readonly UserRole[] = ['admin', 'manager'];
+
+// Set REQUIRE_ADMIN_2FA=true to make two-factor authentication mandatory for administrators
+export const isTwoFactorRequired = (role: UserRole): boolean => {
+  return role === 'admin' && process.env['REQUIRE_ADMIN_2FA'] === 'true';
+};
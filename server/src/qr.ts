@@ -0,0 +1,330 @@
+// QR codes in byte mode at error correction level M (about 15% of the symbol
+// can be damaged and still read). Versions 1 to 10 hold up to 213 bytes, far
+// more than an asset tag needs.
+
+// Error correction codewords per block, then the data codewords of each block,
+// for versions 1 to 10 at level M
+const BLOCKS: { ec: number; data: number[] }[] = [
+  { ec: 10, data: [16] },
+  { ec: 16, data: [28] },
+  { ec: 26, data: [44] },
+  { ec: 18, data: [32, 32] },
+  { ec: 24, data: [43, 43] },
+  { ec: 16, data: [27, 27, 27, 27] },
+  { ec: 18, data: [31, 31, 31, 31] },
+  { ec: 22, data: [38, 38, 39, 39] },
+  { ec: 22, data: [36, 36, 36, 37, 37] },
+  { ec: 26, data: [43, 43, 43, 43, 44] }
+];
+
+// Centres of the alignment patterns along each axis, for versions 2 to 10
+const ALIGNMENT_POSITIONS: number[][] = [
+  [], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50]
+];
+
+const LEVEL_M_BITS = 0;
+
+// Light modules kept clear around the symbol
+export const QR_QUIET_ZONE = 4;
+
+// Multiplication in GF(256) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> i) & 1) * x;
+  }
+  return product;
+};
+
+// Reed-Solomon error correction codewords for one block of data
+export const reedSolomon = (data: number[], degree: number): number[] => {
+  const divisor: number[] = new Array(degree - 1).fill(0).concat([1]);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < divisor.length; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < divisor.length) divisor[j] ^= divisor[j + 1];
+    }
+    root = gfMultiply(root, 2);
+  }
+
+  const remainder: number[] = new Array(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => {
+      remainder[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return remainder;
+};
+
+// Mode, length, the bytes themselves, then padding up to the version's capacity
+const dataCodewords = (bytes: Uint8Array, version: number): number[] => {
+  const capacity = BLOCKS[version - 1].data.reduce((sum, count) => sum + count, 0);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+// Splits the data into blocks, adds error correction to each, and interleaves them
+const withErrorCorrection = (data: number[], version: number): number[] => {
+  const { ec, data: sizes } = BLOCKS[version - 1];
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    blocks.push(data.slice(offset, offset + size));
+    offset += size;
+  }
+  const corrections = blocks.map(block => reedSolomon(block, ec));
+
+  const result: number[] = [];
+  for (let i = 0; i < Math.max(...sizes); i++) {
+    blocks.forEach(block => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < ec; i++) {
+    corrections.forEach(correction => result.push(correction[i]));
+  }
+  return result;
+};
+
+const masks: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => x * y % 2 + x * y % 3 === 0,
+  (x, y) => (x * y % 2 + x * y % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + x * y % 3) % 2 === 0
+];
+
+interface QrGrid {
+  version: number;
+  size: number;
+  modules: boolean[][];
+  // Modules taken by function patterns, which data and masks leave alone
+  reserved: boolean[][];
+}
+
+const setFunction = (grid: QrGrid, x: number, y: number, dark: boolean) => {
+  grid.modules[y][x] = dark;
+  grid.reserved[y][x] = true;
+};
+
+const drawFormatBits = (grid: QrGrid, mask: number) => {
+  const data = (LEVEL_M_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  for (let i = 0; i <= 5; i++) setFunction(grid, 8, i, bit(i));
+  setFunction(grid, 8, 7, bit(6));
+  setFunction(grid, 8, 8, bit(7));
+  setFunction(grid, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunction(grid, 14 - i, 8, bit(i));
+
+  for (let i = 0; i < 8; i++) setFunction(grid, grid.size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunction(grid, 8, grid.size - 15 + i, bit(i));
+  setFunction(grid, 8, grid.size - 8, true);
+};
+
+const functionPatterns = (version: number): QrGrid => {
+  const size = version * 4 + 17;
+  const grid: QrGrid = {
+    version,
+    size,
+    modules: Array.from({ length: size }, () => new Array(size).fill(false)),
+    reserved: Array.from({ length: size }, () => new Array(size).fill(false))
+  };
+
+  for (let i = 0; i < size; i++) {
+    setFunction(grid, 6, i, i % 2 === 0);
+    setFunction(grid, i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns, with their light separators, in three corners
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= size || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunction(grid, x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would cover a finder
+  const positions = ALIGNMENT_POSITIONS[version - 1];
+  const last = positions.length - 1;
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format areas now; the real bits go in once the mask is chosen
+  drawFormatBits(grid, 0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      setFunction(grid, a, b, dark);
+      setFunction(grid, b, a, dark);
+    }
+  }
+
+  return grid;
+};
+
+// Zigzags up and down two columns at a time from the bottom right,
+// filling every module not taken by a function pattern
+const drawCodewords = (grid: QrGrid, codewords: number[]) => {
+  let i = 0;
+  for (let right = grid.size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < grid.size; vertical++) {
+      const y = upward ? grid.size - 1 - vertical : vertical;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (grid.reserved[y][x] || i >= codewords.length * 8) continue;
+        grid.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+        i++;
+      }
+    }
+  }
+};
+
+const applyMask = (grid: QrGrid, mask: number) => {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.reserved[y][x] && masks[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+};
+
+// Lower is easier to scan: long runs, solid blocks, finder look-alikes and
+// an uneven balance of dark and light all count against a mask
+const penalty = (modules: boolean[][]): number => {
+  let score = 0;
+  const lines: boolean[][] = [
+    ...modules,
+    ...modules.map((_row, x) => modules.map(row => row[x]))
+  ];
+
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) score += run - 2;
+      run = 1;
+    }
+
+    const text = line.map(dark => (dark ? '1' : '0')).join('');
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+        score += 40;
+      }
+    }
+  }
+
+  for (let y = 0; y < modules.length - 1; y++) {
+    for (let x = 0; x < modules.length - 1; x++) {
+      const dark = modules[y][x];
+      if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) {
+        score += 3;
+      }
+    }
+  }
+
+  const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const darkPercent = darkCount * 100 / (modules.length * modules.length);
+  return score + Math.floor(Math.abs(darkPercent - 50) / 5) * 10;
+};
+
+// The smallest symbol that holds the text, as rows of modules, true for dark
+export const encodeQr = (text: string): boolean[][] => {
+  const bytes = new TextEncoder().encode(text);
+  // Mode and length take two or three bytes of each version's capacity
+  const version = BLOCKS.findIndex((blocks, i) =>
+    blocks.data.reduce((sum, count) => sum + count, 0) - (i + 1 < 10 ? 2 : 3) >= bytes.length
+  ) + 1;
+
+  if (version === 0) {
+    throw new Error('Text is too long for a QR code');
+  }
+
+  const codewords = withErrorCorrection(dataCodewords(bytes, version), version);
+
+  let best: boolean[][] = [];
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < masks.length; mask++) {
+    const grid = functionPatterns(version);
+    drawCodewords(grid, codewords);
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const score = penalty(grid.modules);
+    if (score < bestPenalty) {
+      best = grid.modules;
+      bestPenalty = score;
+    }
+  }
+
+  return best;
+};
+
+// The symbol with its quiet zone, one unit per module
+export const qrSvg = (text: string): string => {
+  const modules = encodeQr(text);
+  const size = modules.length + QR_QUIET_ZONE * 2;
+  const squares: string[] = [];
+
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) squares.push(`M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z`);
+    });
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`
+    + `<rect width="${size}" height="${size}" fill="#fff"/>`
+    + `<path d="${squares.join('')}" fill="#000"/>`
+    + '</svg>';
+};
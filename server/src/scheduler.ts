@@ -0,0 +1,179 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { db } from './db';
+import { jobsTable, jobRunsTable } from './db/schema';
+import { type JobRun } from './schema';
+import { parseCronExpression, cronMatches } from './cron';
+import { eq, and, or, lt, isNull, type SQL } from 'drizzle-orm';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // Cron expression, see cron.ts
+  // How long a run may hold the job's lock before another instance may take over
+  timeout_ms?: number;
+  // Whatever the job returns is kept with the run as its result
+  run: () => Promise<Record<string, unknown> | void>;
+}
+
+const DEFAULT_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+const ONE_MINUTE_MS = 60 * 1000;
+
+// Identifies this server process in job locks
+export const schedulerInstanceId = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+
+// Makes sure every job has a row, with the schedule from its current definition
+export async function syncJobs(definitions: JobDefinition[]): Promise<void> {
+  try {
+    for (const definition of definitions) {
+      parseCronExpression(definition.schedule);
+
+      await db.insert(jobsTable)
+        .values({ name: definition.name, schedule: definition.schedule })
+        .onConflictDoUpdate({
+          target: jobsTable.name,
+          set: { schedule: definition.schedule, updated_at: new Date() }
+        })
+        .execute();
+    }
+  } catch (error) {
+    console.error('Job sync failed:', error);
+    throw error;
+  }
+}
+
+// Runs a job while holding its lock and records the run. Returns null without
+// running when another instance holds the lock, or when a scheduled run for
+// the same minute has already started somewhere else.
+export async function runJob(
+  definition: JobDefinition,
+  options: { triggeredByUserId?: number | null; scheduledAt?: Date } = {}
+): Promise<JobRun | null> {
+  try {
+    const startedAt = new Date();
+
+    const conditions: SQL<unknown>[] = [
+      eq(jobsTable.name, definition.name),
+      or(isNull(jobsTable.locked_until), lt(jobsTable.locked_until, startedAt))!
+    ];
+
+    if (options.scheduledAt) {
+      conditions.push(or(isNull(jobsTable.last_started_at), lt(jobsTable.last_started_at, options.scheduledAt))!);
+    }
+
+    // Taking the lock is a single conditional update, so only one instance can win it
+    const locked = await db.update(jobsTable)
+      .set({
+        locked_by: schedulerInstanceId,
+        locked_until: new Date(startedAt.getTime() + (definition.timeout_ms ?? DEFAULT_JOB_TIMEOUT_MS)),
+        last_started_at: startedAt,
+        last_status: 'running',
+        updated_at: startedAt
+      })
+      .where(and(...conditions))
+      .returning()
+      .execute();
+
+    if (locked.length === 0) {
+      return null;
+    }
+
+    const job = locked[0];
+    const started = await db.insert(jobRunsTable)
+      .values({
+        job_id: job.id,
+        status: 'running',
+        triggered_by_user_id: options.triggeredByUserId ?? null,
+        started_at: startedAt
+      })
+      .returning()
+      .execute();
+
+    let status: 'succeeded' | 'failed' = 'succeeded';
+    let result: Record<string, unknown> | null = null;
+    let errorMessage: string | null = null;
+    try {
+      result = (await definition.run()) ?? null;
+    } catch (error) {
+      console.error(`Job ${definition.name} failed:`, error);
+      status = 'failed';
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - startedAt.getTime();
+
+    const finished = await db.update(jobRunsTable)
+      .set({
+        status,
+        finished_at: finishedAt,
+        duration_ms: durationMs,
+        result,
+        error: errorMessage
+      })
+      .where(eq(jobRunsTable.id, started[0].id))
+      .returning()
+      .execute();
+
+    await db.update(jobsTable)
+      .set({
+        locked_by: null,
+        locked_until: null,
+        last_finished_at: finishedAt,
+        last_duration_ms: durationMs,
+        last_status: status,
+        last_error: errorMessage,
+        updated_at: finishedAt
+      })
+      .where(and(eq(jobsTable.id, job.id), eq(jobsTable.locked_by, schedulerInstanceId)))
+      .execute();
+
+    return finished[0];
+  } catch (error) {
+    console.error('Job run failed:', error);
+    throw error;
+  }
+}
+
+// Checks the schedules at the start of every minute and runs the jobs that are due.
+// Jobs wait until their rows are synced; a failed sync (the database still
+// down at boot, say) is tried again on each tick until it succeeds.
+export function startScheduler(definitions: JobDefinition[]): void {
+  const schedules = definitions.map(definition => ({
+    definition,
+    schedule: parseCronExpression(definition.schedule)
+  }));
+
+  let synced = false;
+  const sync = async (): Promise<boolean> => {
+    if (!synced) {
+      // Failures are logged by syncJobs
+      synced = await syncJobs(definitions).then(() => true, () => false);
+    }
+    return synced;
+  };
+
+  const tick = async () => {
+    const now = new Date();
+    now.setSeconds(0, 0);
+
+    if (!(await sync())) return;
+
+    for (const { definition, schedule } of schedules) {
+      if (cronMatches(schedule, now)) {
+        // Failures are logged by runJob and the job simply runs again on its next slot
+        runJob(definition, { scheduledAt: now }).catch(() => {});
+      }
+    }
+  };
+
+  const scheduleNextTick = () => {
+    setTimeout(() => {
+      tick();
+      scheduleNextTick();
+    }, ONE_MINUTE_MS - (Date.now() % ONE_MINUTE_MS));
+  };
+
+  sync();
+  scheduleNextTick();
+}
@@ -1,21 +1,44 @@
 import { z } from 'zod';
 
 // User authentication schemas
+export const userRoleEnum = z.enum(['admin', 'manager', 'staff']);
+
+export type UserRole = z.infer<typeof userRoleEnum>;
+
 export const userSchema = z.object({
   id: z.number(),
   username: z.string(),
   email: z.string().email(),
   password_hash: z.string(),
-  role: z.enum(['admin', 'manager', 'staff']),
+  role: userRoleEnum,
+  is_active: z.boolean(),
+  failed_login_attempts: z.number().int(),
+  last_failed_login_at: z.coerce.date().nullable(),
+  locked_until: z.coerce.date().nullable(),
+  totp_enabled: z.boolean(),
+  totp_secret: z.string().nullable(),
+  totp_last_used_step: z.number().int().nullable(),
+  totp_recovery_codes: z.array(z.string()).nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// User as returned to clients, without the password hash or second factor secrets
+export const publicUserSchema = userSchema.omit({
+  password_hash: true,
+  totp_secret: true,
+  totp_last_used_step: true,
+  totp_recovery_codes: true
+});
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
 export const loginInputSchema = z.object({
   username: z.string().min(1),
-  password: z.string().min(1)
+  password: z.string().min(1),
+  totp_code: z.string().min(1).optional() // Authenticator or recovery code, when two-factor is enabled
 });
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
@@ -24,25 +47,378 @@ export const createUserInputSchema = z.object({
   username: z.string().min(3).max(50),
   email: z.string().email(),
   password: z.string().min(6),
-  role: z.enum(['admin', 'manager', 'staff'])
+  role: userRoleEnum
 });
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+export const updateUserInputSchema = z.object({
+  id: z.number(),
+  username: z.string().min(3).max(50).optional(),
+  email: z.string().email().optional()
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
+
+export const changeUserRoleInputSchema = z.object({
+  id: z.number(),
+  role: userRoleEnum
+});
+
+export type ChangeUserRoleInput = z.infer<typeof changeUserRoleInputSchema>;
+
+export const resetUserPasswordInputSchema = z.object({
+  id: z.number(),
+  new_password: z.string().min(6)
+});
+
+export type ResetUserPasswordInput = z.infer<typeof resetUserPasswordInputSchema>;
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string().min(1),
+  new_password: z.string().min(6)
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// Password reset schemas
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const completePasswordResetInputSchema = z.object({
+  token: z.string().min(1),
+  new_password: z.string().min(6)
+});
+
+export type CompletePasswordResetInput = z.infer<typeof completePasswordResetInputSchema>;
+
+// Two-factor authentication schemas
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  provisioning_uri: z.string()
+});
+
+export type TwoFactorEnrollment = z.infer<typeof twoFactorEnrollmentSchema>;
+
+export const confirmTwoFactorInputSchema = z.object({
+  code: z.string().regex(/^\d{6}$/)
+});
+
+export type ConfirmTwoFactorInput = z.infer<typeof confirmTwoFactorInputSchema>;
+
+export const disableTwoFactorInputSchema = z.object({
+  password: z.string().min(1)
+});
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorInputSchema>;
+
+// Permission schemas
+export const capabilityEnum = z.enum([
+  'dashboard.read',
+  'user.read',
+  'user.create',
+  'user.manage',
+  'session.manage',
+  'login_history.read',
+  'audit.read',
+  'job.manage',
+  'template.manage',
+  'category.read',
+  'category.write',
+  'category.delete',
+  'location.read',
+  'location.write',
+  'location.delete',
+  'asset.read',
+  'asset.write',
+  'asset.delete',
+  'asset.reinstate',
+  'lending.read',
+  'lending.write',
+  'lending.return',
+  'transfer.read',
+  'transfer.request',
+  'transfer.approve',
+  'report.read',
+  'report.financial'
+]);
+
+export type Capability = z.infer<typeof capabilityEnum>;
+
+// Session schemas
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  expires_at: z.coerce.date(),
+  last_refreshed_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+export const sessionTokensSchema = z.object({
+  token: z.string(),
+  token_expires_at: z.coerce.date(),
+  refresh_token: z.string(),
+  refresh_expires_at: z.coerce.date()
+});
+
+export type SessionTokens = z.infer<typeof sessionTokensSchema>;
+
+export const authSessionSchema = z.object({
+  user: userSchema,
+  session: sessionSchema
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Request metadata recorded alongside sessions
+export const clientInfoSchema = z.object({
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type ClientInfo = z.infer<typeof clientInfoSchema>;
+
+export const refreshSessionInputSchema = z.object({
+  refresh_token: z.string().min(1)
+});
+
+export type RefreshSessionInput = z.infer<typeof refreshSessionInputSchema>;
+
+// API key schemas
+export const apiKeySchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  name: z.string(),
+  prefix: z.string(),
+  capabilities: z.array(capabilityEnum),
+  expires_at: z.coerce.date().nullable(),
+  last_used_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const createApiKeyInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  capabilities: z.array(capabilityEnum).min(1),
+  expires_at: z.coerce.date().nullable().optional()
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+// The full key is only returned once, when it is created
+export const createdApiKeySchema = z.object({
+  api_key: apiKeySchema,
+  key: z.string()
+});
+
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
+
+export const apiKeyAuthSchema = z.object({
+  user: userSchema,
+  api_key: apiKeySchema
+});
+
+export type ApiKeyAuth = z.infer<typeof apiKeyAuthSchema>;
+
+// Login history schemas
+export const loginFailureReasonEnum = z.enum(['invalid_credentials', 'invalid_two_factor_code', 'account_locked', 'too_many_attempts', 'account_deactivated']);
+
+export type LoginFailureReason = z.infer<typeof loginFailureReasonEnum>;
+
+export const loginAttemptSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  user_id: z.number().nullable(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  success: z.boolean(),
+  failure_reason: loginFailureReasonEnum.nullable(),
+  created_at: z.coerce.date()
+});
+
+export type LoginAttempt = z.infer<typeof loginAttemptSchema>;
+
+export const getLoginHistoryInputSchema = z.object({
+  user_id: z.number().optional(),
+  ip_address: z.string().optional(),
+  success: z.boolean().optional(),
+  limit: z.number().int().min(1).max(500).optional()
+});
+
+export type GetLoginHistoryInput = z.infer<typeof getLoginHistoryInputSchema>;
+
+// Audit log schemas
+export const auditEntityTypeEnum = z.enum(['user', 'session', 'api_key', 'category', 'location', 'asset', 'lending', 'transfer', 'email_template', 'job']);
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeEnum>;
+
+export const auditEventSchema = z.object({
+  id: z.number(),
+  actor_user_id: z.number().nullable(),
+  api_key_id: z.number().nullable(),
+  procedure: z.string(),
+  entity_type: auditEntityTypeEnum,
+  entity_id: z.number().nullable(),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  ip_address: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+// Audit event with the acting user's name (for joined queries)
+export const auditEventWithActorSchema = auditEventSchema.extend({
+  actor_username: z.string().nullable()
+});
+
+export type AuditEventWithActor = z.infer<typeof auditEventWithActorSchema>;
+
+export const getAuditLogInputSchema = z.object({
+  entity_type: auditEntityTypeEnum.optional(),
+  entity_id: z.number().optional(),
+  user_id: z.number().optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(500).optional()
+});
+
+export type GetAuditLogInput = z.infer<typeof getAuditLogInputSchema>;
+
+// Job scheduler schemas
+export const jobRunStatusEnum = z.enum(['running', 'succeeded', 'failed']);
+
+export type JobRunStatus = z.infer<typeof jobRunStatusEnum>;
+
+// A registered job with its schedule and the outcome of its last run
+export const jobSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  schedule: z.string(),
+  next_run_at: z.coerce.date().nullable(),
+  locked_by: z.string().nullable(),
+  locked_until: z.coerce.date().nullable(),
+  last_started_at: z.coerce.date().nullable(),
+  last_finished_at: z.coerce.date().nullable(),
+  last_duration_ms: z.number().nullable(),
+  last_status: jobRunStatusEnum.nullable(),
+  last_error: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Job = z.infer<typeof jobSchema>;
+
+export const jobRunSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  status: jobRunStatusEnum,
+  triggered_by_user_id: z.number().nullable(),
+  started_at: z.coerce.date(),
+  finished_at: z.coerce.date().nullable(),
+  duration_ms: z.number().nullable(),
+  result: z.record(z.unknown()).nullable(),
+  error: z.string().nullable()
+});
+
+export type JobRun = z.infer<typeof jobRunSchema>;
+
+// Job run with the job name and the user who triggered it (for joined queries)
+export const jobRunWithDetailsSchema = jobRunSchema.extend({
+  job_name: z.string(),
+  triggered_by_username: z.string().nullable()
+});
+
+export type JobRunWithDetails = z.infer<typeof jobRunWithDetailsSchema>;
+
+export const getJobRunsInputSchema = z.object({
+  job_name: z.string().optional(),
+  limit: z.number().int().min(1).max(500).optional()
+});
+
+export type GetJobRunsInput = z.infer<typeof getJobRunsInputSchema>;
+
+export const triggerJobInputSchema = z.object({
+  name: z.string().min(1)
+});
+
+export type TriggerJobInput = z.infer<typeof triggerJobInputSchema>;
+
+// Notification schemas
+export const notificationKindEnum = z.enum(['lending_overdue', 'asset_needs_maintenance']);
+
+export type NotificationKind = z.infer<typeof notificationKindEnum>;
+
+export const notificationSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  kind: notificationKindEnum,
+  title: z.string(),
+  message: z.string(),
+  link_tab: z.string().nullable(),
+  entity_id: z.number().nullable(),
+  read_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+export const getNotificationsInputSchema = z.object({
+  unread_only: z.boolean().optional(),
+  limit: z.number().int().min(1).max(100).optional()
+});
+
+export type GetNotificationsInput = z.infer<typeof getNotificationsInputSchema>;
+
+export const notificationSummarySchema = z.object({
+  notifications: z.array(notificationSchema),
+  unread_count: z.number()
+});
+
+export type NotificationSummary = z.infer<typeof notificationSummarySchema>;
+
+// Mail schemas
+export const mailMessageSchema = z.object({
+  to: z.string().email(),
+  cc: z.array(z.string().email()).optional(),
+  subject: z.string(),
+  body: z.string()
+});
+
+export type MailMessage = z.infer<typeof mailMessageSchema>;
+
 // Category schemas
 export const categorySchema = z.object({
   id: z.number(),
   name: z.string(),
   description: z.string().nullable(),
+  tag_prefix: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Category = z.infer<typeof categorySchema>;
 
+// Stored upper case; assets in the category are tagged e.g. IT-000123
+const tagPrefixSchema = z.string().regex(/^[A-Za-z0-9]{1,10}$/, 'Tag prefix must be 1 to 10 letters or digits');
+
 export const createCategoryInputSchema = z.object({
   name: z.string().min(1).max(100),
-  description: z.string().nullable().optional()
+  description: z.string().nullable().optional(),
+  tag_prefix: tagPrefixSchema.nullable().optional()
 });
 
 export type CreateCategoryInput = z.infer<typeof createCategoryInputSchema>;
@@ -50,41 +426,101 @@ export type CreateCategoryInput = z.infer<typeof createCategoryInputSchema>;
 export const updateCategoryInputSchema = z.object({
   id: z.number(),
   name: z.string().min(1).max(100).optional(),
-  description: z.string().nullable().optional()
+  description: z.string().nullable().optional(),
+  tag_prefix: tagPrefixSchema.nullable().optional() // Only affects assets created afterwards
 });
 
 export type UpdateCategoryInput = z.infer<typeof updateCategoryInputSchema>;
 
+// Location schemas
+export const locationTypeEnum = z.enum(['site', 'building', 'floor', 'room']);
+
+export type LocationType = z.infer<typeof locationTypeEnum>;
+
+export const locationSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: locationTypeEnum,
+  parent_id: z.number().nullable(),
+  description: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Location = z.infer<typeof locationSchema>;
+
+// Location with its place in the tree, e.g. "Main Campus / Building A / Floor 1 / Room 101"
+export const locationWithDetailsSchema = locationSchema.extend({
+  path: z.string(),
+  ancestor_ids: z.array(z.number()), // Outermost first
+  asset_count: z.number() // Including assets in the locations below it
+});
+
+export type LocationWithDetails = z.infer<typeof locationWithDetailsSchema>;
+
+export const createLocationInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  type: locationTypeEnum,
+  parent_id: z.number().nullable().optional(),
+  description: z.string().nullable().optional()
+});
+
+export type CreateLocationInput = z.infer<typeof createLocationInputSchema>;
+
+export const updateLocationInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).max(100).optional(),
+  type: locationTypeEnum.optional(),
+  parent_id: z.number().nullable().optional(),
+  description: z.string().nullable().optional()
+});
+
+export type UpdateLocationInput = z.infer<typeof updateLocationInputSchema>;
+
+export const deleteLocationInputSchema = z.object({
+  id: z.number(),
+  reassign_to_id: z.number().optional() // Where its assets move; required if it has any
+});
+
+export type DeleteLocationInput = z.infer<typeof deleteLocationInputSchema>;
+
 // Asset/Item schemas
 export const assetStatusEnum = z.enum(['available', 'lent', 'maintenance', 'damaged', 'retired']);
 
+export type AssetStatus = z.infer<typeof assetStatusEnum>;
+
 export const assetSchema = z.object({
   id: z.number(),
   name: z.string(),
   description: z.string().nullable(),
+  asset_tag: z.string().nullable(),
   category_id: z.number(),
   serial_number: z.string().nullable(),
   purchase_date: z.coerce.date().nullable(),
   purchase_price: z.number().nullable(),
   current_value: z.number().nullable(),
   status: assetStatusEnum,
-  location: z.string().nullable(),
+  location_id: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Asset = z.infer<typeof assetSchema>;
 
+// Tags are printed as Code 128 barcodes, which only hold printable ASCII
+const assetTagSchema = z.string().max(40).regex(/^[\x20-\x7E]*$/, 'Asset tag may only use letters, digits, spaces and ASCII punctuation');
+
 export const createAssetInputSchema = z.object({
   name: z.string().min(1).max(200),
   description: z.string().nullable().optional(),
+  asset_tag: assetTagSchema.nullable().optional(), // Generated from the category when left out
   category_id: z.number(),
   serial_number: z.string().nullable().optional(),
   purchase_date: z.coerce.date().nullable().optional(),
   purchase_price: z.number().positive().nullable().optional(),
   current_value: z.number().positive().nullable().optional(),
   status: assetStatusEnum.default('available'),
-  location: z.string().nullable().optional()
+  location_id: z.number().nullable().optional()
 });
 
 export type CreateAssetInput = z.infer<typeof createAssetInputSchema>;
@@ -99,14 +535,93 @@ export const updateAssetInputSchema = z.object({
   purchase_price: z.number().positive().nullable().optional(),
   current_value: z.number().positive().nullable().optional(),
   status: assetStatusEnum.optional(),
-  location: z.string().nullable().optional()
+  status_reason: z.string().max(500).nullable().optional(), // Recorded with the status change
+  location_id: z.number().nullable().optional()
 });
 
 export type UpdateAssetInput = z.infer<typeof updateAssetInputSchema>;
 
+export const reinstateAssetInputSchema = z.object({
+  id: z.number(),
+  reason: z.string().min(1).max(500)
+});
+
+export type ReinstateAssetInput = z.infer<typeof reinstateAssetInputSchema>;
+
+export const getAssetByTagInputSchema = z.object({
+  tag: z.string().min(1).max(200) // As scanned or typed; case and surrounding spaces are ignored
+});
+
+export type GetAssetByTagInput = z.infer<typeof getAssetByTagInputSchema>;
+
+export const assetTagImageFormatEnum = z.enum(['code128', 'qr']);
+
+export type AssetTagImageFormat = z.infer<typeof assetTagImageFormatEnum>;
+
+export const getAssetTagImageInputSchema = z.object({
+  id: z.number(),
+  format: assetTagImageFormatEnum
+});
+
+export type GetAssetTagImageInput = z.infer<typeof getAssetTagImageInputSchema>;
+
+export const assetTagImageSchema = z.object({
+  asset_id: z.number(),
+  asset_tag: z.string(),
+  format: assetTagImageFormatEnum,
+  svg: z.string()
+});
+
+export type AssetTagImage = z.infer<typeof assetTagImageSchema>;
+
+// Asset label sheet schemas
+export const labelLayoutEnum = z.enum(['avery_5160', 'avery_l7163']);
+
+export type LabelLayout = z.infer<typeof labelLayoutEnum>;
+
+// Either the assets to label, or filters choosing them
+// Most labels printed at once, whether the assets are picked or filtered
+export const MAX_LABELS_PER_PRINT = 1000;
+
+export const generateAssetLabelsInputSchema = z.object({
+  asset_ids: z.array(z.number()).min(1).max(MAX_LABELS_PER_PRINT).optional(),
+  category_id: z.number().optional(),
+  location_id: z.number().optional(), // Includes everything inside the location
+  status: assetStatusEnum.optional(),
+  layout: labelLayoutEnum.default('avery_5160'),
+  format: assetTagImageFormatEnum.default('qr'),
+  skip: z.number().int().min(0).default(0) // Labels already used on the first sheet
+});
+
+export type GenerateAssetLabelsInput = z.infer<typeof generateAssetLabelsInputSchema>;
+
+export const assetLabelSheetSchema = z.object({
+  filename: z.string(),
+  pdf_base64: z.string(),
+  label_count: z.number(),
+  page_count: z.number()
+});
+
+export type AssetLabelSheet = z.infer<typeof assetLabelSheetSchema>;
+
+export const assetStatusChangeSchema = z.object({
+  id: z.number(),
+  asset_id: z.number(),
+  from_status: assetStatusEnum,
+  to_status: assetStatusEnum,
+  reason: z.string().nullable(),
+  changed_by_user_id: z.number(),
+  lending_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AssetStatusChange = z.infer<typeof assetStatusChangeSchema>;
+
 // Lending schemas
 export const lendingStatusEnum = z.enum(['active', 'returned', 'overdue']);
 
+export type LendingStatus = z.infer<typeof lendingStatusEnum>;
+
 export const lendingSchema = z.object({
   id: z.number(),
   asset_id: z.number(),
@@ -134,34 +649,177 @@ export const createLendingInputSchema = z.object({
   borrower_phone: z.string().nullable().optional(),
   department: z.string().nullable().optional(),
   expected_return_date: z.coerce.date(),
-  notes: z.string().nullable().optional(),
-  lent_by_user_id: z.number()
+  notes: z.string().nullable().optional()
 });
 
 export type CreateLendingInput = z.infer<typeof createLendingInputSchema>;
 
+export const updateLendingInputSchema = z.object({
+  id: z.number(),
+  updates: createLendingInputSchema.omit({ asset_id: true }).partial()
+});
+
+export type UpdateLendingInput = z.infer<typeof updateLendingInputSchema>;
+
 export const returnAssetInputSchema = z.object({
   lending_id: z.number(),
-  returned_by_user_id: z.number(),
   return_notes: z.string().nullable().optional(),
   asset_condition: z.enum(['good', 'damaged', 'needs_maintenance']).optional()
 });
 
 export type ReturnAssetInput = z.infer<typeof returnAssetInputSchema>;
 
+// Transfer schemas (moving an asset between locations)
+export const transferStatusEnum = z.enum(['pending', 'approved', 'in_transit', 'received', 'cancelled']);
+
+export type TransferStatus = z.infer<typeof transferStatusEnum>;
+
+export const transferSchema = z.object({
+  id: z.number(),
+  asset_id: z.number(),
+  from_location_id: z.number().nullable(),
+  to_location_id: z.number(),
+  status: transferStatusEnum,
+  notes: z.string().nullable(),
+  requested_by_user_id: z.number(),
+  requested_at: z.coerce.date(),
+  approved_by_user_id: z.number().nullable(),
+  approved_at: z.coerce.date().nullable(),
+  shipped_by_user_id: z.number().nullable(),
+  shipped_at: z.coerce.date().nullable(),
+  received_by_user_id: z.number().nullable(),
+  received_at: z.coerce.date().nullable(),
+  cancelled_by_user_id: z.number().nullable(),
+  cancelled_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Transfer = z.infer<typeof transferSchema>;
+
+// Transfer with the names a person reads instead of ids
+export const transferWithDetailsSchema = transferSchema.extend({
+  asset_name: z.string(),
+  asset_serial_number: z.string().nullable(),
+  from_location_path: z.string().nullable(),
+  to_location_path: z.string(),
+  requested_by_username: z.string(),
+  approved_by_username: z.string().nullable(),
+  shipped_by_username: z.string().nullable(),
+  received_by_username: z.string().nullable(),
+  cancelled_by_username: z.string().nullable()
+});
+
+export type TransferWithDetails = z.infer<typeof transferWithDetailsSchema>;
+
+export const transferAssetInputSchema = z.object({
+  asset_id: z.number(),
+  to_location_id: z.number(),
+  notes: z.string().max(500).nullable().optional()
+});
+
+export type TransferAssetInput = z.infer<typeof transferAssetInputSchema>;
+
+export const getTransfersInputSchema = z.object({
+  asset_id: z.number().optional(),
+  status: transferStatusEnum.optional(),
+  open_only: z.boolean().optional() // Pending, approved or in transit
+});
+
+export type GetTransfersInput = z.infer<typeof getTransfersInputSchema>;
+
+// Reminder notices mailed to borrowers before and after the expected return date
+export const lendingNoticeKindEnum = z.enum(['due_soon', 'due_today', 'overdue']);
+
+export type LendingNoticeKind = z.infer<typeof lendingNoticeKindEnum>;
+
+export const lendingNoticeSchema = z.object({
+  id: z.number(),
+  lending_id: z.number(),
+  kind: lendingNoticeKindEnum,
+  expected_return_date: z.coerce.date(),
+  recipient: z.string(),
+  cc: z.array(z.string()).nullable(),
+  sent_at: z.coerce.date()
+});
+
+export type LendingNotice = z.infer<typeof lendingNoticeSchema>;
+
+// Email template schemas (one template per reminder kind)
+export const emailTemplateSchema = z.object({
+  key: lendingNoticeKindEnum,
+  subject: z.string(),
+  body: z.string(),
+  is_default: z.boolean(),
+  updated_by_user_id: z.number().nullable(),
+  updated_at: z.coerce.date().nullable()
+});
+
+export type EmailTemplate = z.infer<typeof emailTemplateSchema>;
+
+export const updateEmailTemplateInputSchema = z.object({
+  key: lendingNoticeKindEnum,
+  subject: z.string().min(1).max(200),
+  body: z.string().min(1).max(10000)
+});
+
+export type UpdateEmailTemplateInput = z.infer<typeof updateEmailTemplateInputSchema>;
+
+// Renders a draft, saved or not, against an existing lending
+export const previewEmailTemplateInputSchema = z.object({
+  subject: z.string().max(200),
+  body: z.string().max(10000),
+  lending_id: z.number()
+});
+
+export type PreviewEmailTemplateInput = z.infer<typeof previewEmailTemplateInputSchema>;
+
+export const emailTemplatePreviewSchema = z.object({
+  subject: z.string(),
+  body: z.string(),
+  unknown_placeholders: z.array(z.string())
+});
+
+export type EmailTemplatePreview = z.infer<typeof emailTemplatePreviewSchema>;
+
+export const emailTemplatePlaceholderSchema = z.object({
+  name: z.string(),
+  description: z.string()
+});
+
+export type EmailTemplatePlaceholder = z.infer<typeof emailTemplatePlaceholderSchema>;
+
 // Report schemas
-export const reportTypeEnum = z.enum(['inventory', 'lending', 'returns', 'overdue', 'category_summary']);
+export const reportTypeEnum = z.enum(['inventory', 'lending', 'returns', 'overdue', 'category_summary', 'location_summary', 'transfers']);
+
+export type ReportType = z.infer<typeof reportTypeEnum>;
 
 export const generateReportInputSchema = z.object({
   report_type: reportTypeEnum,
   start_date: z.coerce.date().optional(),
   end_date: z.coerce.date().optional(),
   category_id: z.number().optional(),
-  status: z.string().optional()
+  status: z.string().optional(),
+  location_id: z.number().optional(), // Includes the locations below it
+  location_level: locationTypeEnum.optional() // Level the location summary rolls up to
 });
 
 export type GenerateReportInput = z.infer<typeof generateReportInputSchema>;
 
+// The lending report filters on the lending's status rather than the asset's
+export const generateLendingReportInputSchema = generateReportInputSchema.extend({
+  status: lendingStatusEnum.optional()
+});
+
+export type GenerateLendingReportInput = z.infer<typeof generateLendingReportInputSchema>;
+
+// The inventory and location summary reports filter on the asset's status
+export const generateAssetReportInputSchema = generateReportInputSchema.extend({
+  status: assetStatusEnum.optional()
+});
+
+export type GenerateAssetReportInput = z.infer<typeof generateAssetReportInputSchema>;
+
 export const reportDataSchema = z.object({
   report_type: reportTypeEnum,
   generated_at: z.coerce.date(),
@@ -197,4 +855,40 @@ export const lendingWithDetailsSchema = lendingSchema.extend({
   asset: assetWithCategorySchema
 });
 
-export type LendingWithDetails = z.infer<typeof lendingWithDetailsSchema>;
\ No newline at end of file
+export type LendingWithDetails = z.infer<typeof lendingWithDetailsSchema>;
+
+// Asset history timeline schemas
+export const assetTimelineEntryTypeEnum = z.enum(['created', 'edited', 'status_changed', 'maintenance', 'moved', 'lent', 'returned']);
+
+export type AssetTimelineEntryType = z.infer<typeof assetTimelineEntryTypeEnum>;
+
+export const assetTimelineEntrySchema = z.object({
+  type: assetTimelineEntryTypeEnum,
+  occurred_at: z.coerce.date(),
+  actor_username: z.string().nullable(),
+  summary: z.string(),
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })).nullable(),
+  lending_id: z.number().nullable()
+});
+
+export type AssetTimelineEntry = z.infer<typeof assetTimelineEntrySchema>;
+
+// Live update event schemas, pushed to subscribed clients over WebSocket
+export const assetChangeActionEnum = z.enum(['created', 'updated', 'deleted']);
+
+export const assetChangeEventSchema = z.object({
+  action: assetChangeActionEnum,
+  asset_id: z.number()
+});
+
+export type AssetChangeEvent = z.infer<typeof assetChangeEventSchema>;
+
+export const lendingChangeActionEnum = z.enum(['created', 'updated', 'returned']);
+
+export const lendingChangeEventSchema = z.object({
+  action: lendingChangeActionEnum,
+  lending_id: z.number(),
+  asset_id: z.number()
+});
+
+export type LendingChangeEvent = z.infer<typeof lendingChangeEventSchema>;
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, apiKeysTable } from '../db/schema';
+import {
+  isApiKey,
+  createApiKey,
+  getApiKeys,
+  revokeApiKey,
+  verifyApiKey,
+  getActiveApiKey
+} from '../handlers/api_keys';
+import { eq } from 'drizzle-orm';
+
+describe('API Key Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function insertUser(username: string, role: 'admin' | 'manager' | 'staff' = 'staff') {
+    const result = await db.insert(usersTable)
+      .values({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  describe('createApiKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      const user = await insertUser('scripter');
+
+      const result = await createApiKey(user.id, {
+        name: 'Inventory sync',
+        capabilities: ['asset.read', 'lending.read']
+      });
+
+      expect(isApiKey(result.key)).toBe(true);
+      expect(result.key).toStartWith(`fm_${result.api_key.prefix}_`);
+      expect(result.api_key.name).toEqual('Inventory sync');
+      expect(result.api_key.capabilities).toEqual(['asset.read', 'lending.read']);
+      expect(result.api_key.expires_at).toBeNull();
+      expect(result.api_key).not.toHaveProperty('key_hash');
+
+      const stored = await db.select()
+        .from(apiKeysTable)
+        .where(eq(apiKeysTable.id, result.api_key.id))
+        .execute();
+      expect(stored[0].key_hash).not.toEqual(result.key);
+      expect(stored[0].key_hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should refuse capabilities the owner does not hold', async () => {
+      const user = await insertUser('scripter');
+
+      await expect(createApiKey(user.id, {
+        name: 'Too powerful',
+        capabilities: ['asset.read', 'asset.delete']
+      })).rejects.toThrow(/asset\.delete/);
+    });
+
+    it('should refuse an expiry in the past', async () => {
+      const user = await insertUser('scripter');
+
+      await expect(createApiKey(user.id, {
+        name: 'Expired',
+        capabilities: ['asset.read'],
+        expires_at: new Date(Date.now() - 1000)
+      })).rejects.toThrow(/future/i);
+    });
+  });
+
+  describe('getApiKeys', () => {
+    it('should only return the keys of the given user', async () => {
+      const owner = await insertUser('owner');
+      const other = await insertUser('other');
+      await createApiKey(owner.id, { name: 'First', capabilities: ['asset.read'] });
+      await createApiKey(owner.id, { name: 'Second', capabilities: ['asset.read'] });
+      await createApiKey(other.id, { name: 'Theirs', capabilities: ['asset.read'] });
+
+      const result = await getApiKeys(owner.id);
+
+      expect(result).toHaveLength(2);
+      expect(result[0].name).toEqual('Second');
+      expect(result.every(apiKey => apiKey.user_id === owner.id)).toBe(true);
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should revoke a key so it no longer authenticates', async () => {
+      const user = await insertUser('scripter');
+      const { api_key, key } = await createApiKey(user.id, { name: 'Temp', capabilities: ['asset.read'] });
+
+      await revokeApiKey(user.id, api_key.id);
+
+      expect(await verifyApiKey(key)).toBeNull();
+      const [stored] = await getApiKeys(user.id);
+      expect(stored.revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should not let users revoke keys they do not own', async () => {
+      const owner = await insertUser('owner');
+      const other = await insertUser('other');
+      const { api_key } = await createApiKey(owner.id, { name: 'Mine', capabilities: ['asset.read'] });
+
+      await expect(revokeApiKey(other.id, api_key.id)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('verifyApiKey', () => {
+    it('should resolve the owner and record when the key was used', async () => {
+      const user = await insertUser('scripter');
+      const { key } = await createApiKey(user.id, { name: 'Sync', capabilities: ['asset.read'] });
+
+      const result = await verifyApiKey(key);
+
+      expect(result).not.toBeNull();
+      expect(result!.user.id).toEqual(user.id);
+      expect(result!.api_key.capabilities).toEqual(['asset.read']);
+      expect(result!.api_key.last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject unknown and expired keys', async () => {
+      const user = await insertUser('scripter');
+      const { api_key, key } = await createApiKey(user.id, {
+        name: 'Short lived',
+        capabilities: ['asset.read'],
+        expires_at: new Date(Date.now() + 60 * 1000)
+      });
+
+      expect(await verifyApiKey('fm_unknown_key')).toBeNull();
+
+      await db.update(apiKeysTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(apiKeysTable.id, api_key.id))
+        .execute();
+      expect(await verifyApiKey(key)).toBeNull();
+    });
+
+    it('should reject keys of deactivated users', async () => {
+      const user = await insertUser('scripter');
+      const { key } = await createApiKey(user.id, { name: 'Sync', capabilities: ['asset.read'] });
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      expect(await verifyApiKey(key)).toBeNull();
+    });
+  });
+
+  describe('getActiveApiKey', () => {
+    it('should find a key until it is revoked, without marking it used', async () => {
+      const user = await insertUser('scripter');
+      const { api_key } = await createApiKey(user.id, { name: 'Sync', capabilities: ['asset.read'] });
+
+      const result = await getActiveApiKey(api_key.id);
+      expect(result!.user.id).toEqual(user.id);
+      expect(result!.api_key.last_used_at).toBeNull();
+
+      await revokeApiKey(user.id, api_key.id);
+      expect(await getActiveApiKey(api_key.id)).toBeNull();
+    });
+  });
+});
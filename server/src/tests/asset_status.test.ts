@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'bun:test';
+import { assetStatusEnum } from '../schema';
+import { assetStatusTransitions, canTransitionAssetStatus, assetStatusTransitionError } from '../asset_status';
+
+describe('Asset status transitions', () => {
+  it('should only reference known statuses', () => {
+    Object.entries(assetStatusTransitions).forEach(([from, targets]) => {
+      expect(assetStatusEnum.options).toContain(from);
+      Object.keys(targets).forEach(to => {
+        expect(assetStatusEnum.options).toContain(to);
+      });
+    });
+  });
+
+  it('should only move assets in and out of lent through lendings and returns', () => {
+    expect(canTransitionAssetStatus('available', 'lent', 'lending')).toBe(true);
+    expect(canTransitionAssetStatus('available', 'lent', 'update')).toBe(false);
+    expect(canTransitionAssetStatus('maintenance', 'lent', 'lending')).toBe(false);
+    expect(canTransitionAssetStatus('lent', 'available', 'return')).toBe(true);
+    expect(canTransitionAssetStatus('lent', 'available', 'update')).toBe(false);
+    expect(canTransitionAssetStatus('lent', 'damaged', 'return')).toBe(true);
+  });
+
+  it('should keep retired assets retired unless reinstated', () => {
+    assetStatusEnum.options.forEach(to => {
+      expect(canTransitionAssetStatus('retired', to, 'update')).toBe(false);
+    });
+    expect(canTransitionAssetStatus('retired', 'available', 'reinstatement')).toBe(true);
+  });
+
+  it('should explain how a refused change can be made', () => {
+    expect(assetStatusTransitionError('lent', 'available')).toEqual('Asset status can only change from lent to available by returning it');
+    expect(assetStatusTransitionError('retired', 'damaged')).toEqual('Asset status cannot change from retired to damaged');
+  });
+});
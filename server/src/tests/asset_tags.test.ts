@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assetsTable } from '../db/schema';
+import { createAsset } from '../handlers/assets';
+import { createCategory, updateCategory } from '../handlers/categories';
+import { getAssetByTag, getAssetTagImage, assignMissingAssetTags } from '../handlers/asset_tags';
+import { formatAssetTag, normalizeAssetTag } from '../asset_tags';
+import { createAssetInputSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+describe('Asset tags', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const assetInput = (categoryId: number, values: { name?: string; asset_tag?: string | null } = {}) => ({
+    name: 'Laptop',
+    category_id: categoryId,
+    status: 'available' as const,
+    ...values
+  });
+
+  it('should format and normalize tags', () => {
+    expect(formatAssetTag('IT', 123)).toEqual('IT-000123');
+    expect(formatAssetTag(null, 7)).toEqual('AST-000007');
+    expect(normalizeAssetTag('  it-000123\n')).toEqual('IT-000123');
+  });
+
+  describe('createAsset', () => {
+    it('should number assets per category prefix', async () => {
+      const it1 = await createCategory({ name: 'Computers', tag_prefix: 'it' });
+      const it2 = await createCategory({ name: 'Phones', tag_prefix: 'IT' });
+      const furniture = await createCategory({ name: 'Furniture', tag_prefix: 'FUR' });
+      const other = await createCategory({ name: 'Other' });
+
+      expect(it1.tag_prefix).toEqual('IT');
+
+      const first = await createAsset(assetInput(it1.id));
+      const chair = await createAsset(assetInput(furniture.id, { name: 'Chair' }));
+      // Categories sharing a prefix share its numbers
+      const phone = await createAsset(assetInput(it2.id, { name: 'Phone' }));
+      const misc = await createAsset(assetInput(other.id, { name: 'Toolbox' }));
+
+      expect(first.asset_tag).toEqual('IT-000001');
+      expect(chair.asset_tag).toEqual('FUR-000001');
+      expect(phone.asset_tag).toEqual('IT-000002');
+      expect(misc.asset_tag).toEqual('AST-000001');
+    });
+
+    it('should keep a tag typed in and refuse one already in use', async () => {
+      const category = await createCategory({ name: 'Computers', tag_prefix: 'IT' });
+
+      const labelled = await createAsset(assetInput(category.id, { asset_tag: ' it-000002 ' }));
+      expect(labelled.asset_tag).toEqual('IT-000002');
+
+      await expect(createAsset(assetInput(category.id, { asset_tag: 'IT-000002' }))).rejects.toThrow(/IT-000002 is already in use/);
+
+      // The sequence steps over the number taken by hand
+      const first = await createAsset(assetInput(category.id));
+      const second = await createAsset(assetInput(category.id));
+      expect([first.asset_tag, second.asset_tag]).toEqual(['IT-000001', 'IT-000003']);
+    });
+
+    it('should only accept tags a barcode can hold', () => {
+      expect(createAssetInputSchema.safeParse({ name: 'Laptop', category_id: 1, asset_tag: 'IT-000002 / A' }).success).toBe(true);
+      expect(createAssetInputSchema.safeParse({ name: 'Laptop', category_id: 1, asset_tag: 'IT-Ü1' }).success).toBe(false);
+      expect(createAssetInputSchema.safeParse({ name: 'Laptop', category_id: 1, asset_tag: 'IT\t1' }).success).toBe(false);
+    });
+
+    it('should use a changed prefix for new assets only', async () => {
+      const category = await createCategory({ name: 'Computers', tag_prefix: 'IT' });
+      const before = await createAsset(assetInput(category.id));
+
+      await updateCategory({ id: category.id, tag_prefix: 'CMP' });
+      const after = await createAsset(assetInput(category.id));
+
+      expect(after.asset_tag).toEqual('CMP-000001');
+      const [unchanged] = await db.select().from(assetsTable).where(eq(assetsTable.id, before.id)).execute();
+      expect(unchanged.asset_tag).toEqual('IT-000001');
+    });
+  });
+
+  describe('getAssetByTag', () => {
+    it('should find an asset from a scanned tag', async () => {
+      const category = await createCategory({ name: 'Computers', tag_prefix: 'IT' });
+      const asset = await createAsset(assetInput(category.id));
+
+      const found = await getAssetByTag({ tag: 'it-000001\r\n' });
+
+      expect(found?.id).toEqual(asset.id);
+      expect(found?.category.name).toEqual('Computers');
+      expect(await getAssetByTag({ tag: 'IT-999999' })).toBeNull();
+    });
+  });
+
+  describe('getAssetTagImage', () => {
+    it('should draw the tag as a barcode or a QR code', async () => {
+      const category = await createCategory({ name: 'Computers', tag_prefix: 'IT' });
+      const asset = await createAsset(assetInput(category.id));
+
+      const barcode = await getAssetTagImage({ id: asset.id, format: 'code128' });
+      const qr = await getAssetTagImage({ id: asset.id, format: 'qr' });
+
+      expect(barcode.asset_tag).toEqual('IT-000001');
+      expect(barcode.svg).toStartWith('<svg');
+      expect(barcode.svg).toContain('>IT-000001</text>');
+      expect(qr.format).toEqual('qr');
+      expect(qr.svg).not.toEqual(barcode.svg);
+      await expect(getAssetTagImage({ id: 999, format: 'qr' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('assignMissingAssetTags', () => {
+    it('should tag assets from before tags, oldest first', async () => {
+      const category = await createCategory({ name: 'Computers', tag_prefix: 'IT' });
+      const tagged = await createAsset(assetInput(category.id));
+      const [older, newer] = await db.insert(assetsTable)
+        .values([
+          { name: 'Old desktop', category_id: category.id },
+          { name: 'Old monitor', category_id: category.id }
+        ])
+        .returning()
+        .execute();
+
+      expect(await assignMissingAssetTags()).toEqual({ assets_tagged: 2 });
+      expect(await assignMissingAssetTags()).toEqual({ assets_tagged: 0 });
+
+      const assets = await db.select().from(assetsTable).execute();
+      const tags = new Map(assets.map(asset => [asset.id, asset.asset_tag]));
+      expect(tags.get(tagged.id)).toEqual('IT-000001');
+      expect(tags.get(older.id)).toEqual('IT-000002');
+      expect(tags.get(newer.id)).toEqual('IT-000003');
+    });
+  });
+});
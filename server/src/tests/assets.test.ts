@@ -1,17 +1,22 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { assetsTable, categoriesTable, usersTable, lendingsTable } from '../db/schema';
+import { assetsTable, categoriesTable, locationsTable, usersTable, lendingsTable, assetStatusChangesTable } from '../db/schema';
 import { type CreateAssetInput, type UpdateAssetInput } from '../schema';
 import { 
   createAsset, 
   getAssets, 
   getAssetById, 
   getAssetsByCategory, 
+  getAssetsByLocation,
   getAssetsByStatus, 
   updateAsset, 
-  deleteAsset 
+  deleteAsset,
+  reinstateAsset,
+  getAssetTimeline
 } from '../handlers/assets';
+import { createLending } from '../handlers/lendings';
+import { loadAuditSnapshot, recordAuditEvent } from '../handlers/audit';
 import { eq } from 'drizzle-orm';
 
 // Test data
@@ -29,7 +34,7 @@ const testAssetInput: CreateAssetInput = {
   purchase_price: 1500.50,
   current_value: 1200.75,
   status: 'available',
-  location: 'Storage Room A'
+  location_id: null // Will be set after creating locations
 };
 
 describe('Assets handlers', () => {
@@ -38,6 +43,9 @@ describe('Assets handlers', () => {
 
   let categoryId: number;
   let userId: number;
+  let siteId: number;
+  let storageRoomId: number;
+  let workshopId: number;
 
   beforeEach(async () => {
     // Create a test category
@@ -59,8 +67,30 @@ describe('Assets handlers', () => {
       .execute();
     userId = userResult[0].id;
 
-    // Update test input with actual category ID
+    // Main Campus → Storage Room A, and Main Campus → Building B → Workshop
+    const [site] = await db.insert(locationsTable)
+      .values({ name: 'Main Campus', type: 'site' })
+      .returning()
+      .execute();
+    const [storageRoom] = await db.insert(locationsTable)
+      .values({ name: 'Storage Room A', type: 'room', parent_id: site.id })
+      .returning()
+      .execute();
+    const [building] = await db.insert(locationsTable)
+      .values({ name: 'Building B', type: 'building', parent_id: site.id })
+      .returning()
+      .execute();
+    const [workshop] = await db.insert(locationsTable)
+      .values({ name: 'Workshop', type: 'room', parent_id: building.id })
+      .returning()
+      .execute();
+    siteId = site.id;
+    storageRoomId = storageRoom.id;
+    workshopId = workshop.id;
+
+    // Update test input with actual category and location IDs
     testAssetInput.category_id = categoryId;
+    testAssetInput.location_id = storageRoomId;
   });
 
   describe('createAsset', () => {
@@ -77,7 +107,7 @@ describe('Assets handlers', () => {
       expect(result.current_value).toEqual(1200.75);
       expect(typeof result.current_value).toBe('number');
       expect(result.status).toEqual('available');
-      expect(result.location).toEqual('Storage Room A');
+      expect(result.location_id).toEqual(storageRoomId);
       expect(result.id).toBeDefined();
       expect(result.created_at).toBeInstanceOf(Date);
       expect(result.updated_at).toBeInstanceOf(Date);
@@ -100,7 +130,7 @@ describe('Assets handlers', () => {
       expect(result.purchase_date).toBeNull();
       expect(result.purchase_price).toBeNull();
       expect(result.current_value).toBeNull();
-      expect(result.location).toBeNull();
+      expect(result.location_id).toBeNull();
     });
 
     it('should save asset to database', async () => {
@@ -124,6 +154,14 @@ describe('Assets handlers', () => {
 
       await expect(createAsset(invalidInput)).rejects.toThrow(/Category with id 999 does not exist/i);
     });
+
+    it('should refuse to create an asset as lent', async () => {
+      await expect(createAsset({ ...testAssetInput, status: 'lent' })).rejects.toThrow(/record a lending instead/i);
+    });
+
+    it('should throw error for non-existent location', async () => {
+      await expect(createAsset({ ...testAssetInput, location_id: 999 })).rejects.toThrow(/Location with id 999 does not exist/i);
+    });
   });
 
   describe('getAssets', () => {
@@ -206,6 +244,24 @@ describe('Assets handlers', () => {
     });
   });
 
+  describe('getAssetsByLocation', () => {
+    it('should include assets in the locations below the one asked for', async () => {
+      await createAsset(testAssetInput);
+      await createAsset({ ...testAssetInput, name: 'Workshop Asset', location_id: workshopId });
+      await createAsset({ ...testAssetInput, name: 'Unplaced Asset', location_id: null });
+
+      const siteAssets = await getAssetsByLocation(siteId);
+      const workshopAssets = await getAssetsByLocation(workshopId);
+
+      expect(siteAssets.map(asset => asset.name).sort()).toEqual(['Test Asset', 'Workshop Asset']);
+      expect(workshopAssets.map(asset => asset.name)).toEqual(['Workshop Asset']);
+    });
+
+    it('should throw error for non-existent location', async () => {
+      await expect(getAssetsByLocation(999)).rejects.toThrow(/Location with id 999 not found/i);
+    });
+  });
+
   describe('getAssetsByStatus', () => {
     it('should return assets with specific status', async () => {
       await createAsset(testAssetInput);
@@ -249,10 +305,10 @@ describe('Assets handlers', () => {
         purchase_price: 2000.00,
         current_value: 1800.50,
         status: 'maintenance',
-        location: 'Workshop'
+        location_id: workshopId
       };
 
-      const result = await updateAsset(updateInput);
+      const result = await updateAsset(updateInput, userId);
 
       expect(result.id).toEqual(assetId);
       expect(result.name).toEqual('Updated Asset');
@@ -262,7 +318,7 @@ describe('Assets handlers', () => {
       expect(result.current_value).toEqual(1800.50);
       expect(typeof result.current_value).toBe('number');
       expect(result.status).toEqual('maintenance');
-      expect(result.location).toEqual('Workshop');
+      expect(result.location_id).toEqual(workshopId);
       expect(result.updated_at.getTime()).toBeGreaterThan(result.created_at.getTime());
     });
 
@@ -270,13 +326,13 @@ describe('Assets handlers', () => {
       const updateInput: UpdateAssetInput = {
         id: assetId,
         name: 'Partially Updated',
-        status: 'lent'
+        status: 'damaged'
       };
 
-      const result = await updateAsset(updateInput);
+      const result = await updateAsset(updateInput, userId);
 
       expect(result.name).toEqual('Partially Updated');
-      expect(result.status).toEqual('lent');
+      expect(result.status).toEqual('damaged');
       // Other fields should remain unchanged
       expect(result.description).toEqual('Asset for testing');
       expect(result.purchase_price).toEqual(1500.50);
@@ -288,7 +344,7 @@ describe('Assets handlers', () => {
         name: 'Database Updated Asset'
       };
 
-      await updateAsset(updateInput);
+      await updateAsset(updateInput, userId);
 
       const assets = await db.select()
         .from(assetsTable)
@@ -304,7 +360,7 @@ describe('Assets handlers', () => {
         name: 'Non-existent'
       };
 
-      await expect(updateAsset(updateInput)).rejects.toThrow(/Asset with id 999 not found/i);
+      await expect(updateAsset(updateInput, userId)).rejects.toThrow(/Asset with id 999 not found/i);
     });
 
     it('should throw error for non-existent category when updating category_id', async () => {
@@ -313,7 +369,122 @@ describe('Assets handlers', () => {
         category_id: 999
       };
 
-      await expect(updateAsset(updateInput)).rejects.toThrow(/Category with id 999 does not exist/i);
+      await expect(updateAsset(updateInput, userId)).rejects.toThrow(/Category with id 999 does not exist/i);
+    });
+
+    it('should record status changes with their reason', async () => {
+      await updateAsset({ id: assetId, status: 'damaged', status_reason: 'Screen cracked' }, userId);
+
+      const changes = await db.select()
+        .from(assetStatusChangesTable)
+        .where(eq(assetStatusChangesTable.asset_id, assetId))
+        .execute();
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].from_status).toEqual('available');
+      expect(changes[0].to_status).toEqual('damaged');
+      expect(changes[0].reason).toEqual('Screen cracked');
+      expect(changes[0].changed_by_user_id).toEqual(userId);
+      expect(changes[0].lending_id).toBeNull();
+    });
+
+    it('should not record a change when the status stays the same', async () => {
+      await updateAsset({ id: assetId, name: 'Renamed', status: 'available' }, userId);
+
+      const changes = await db.select()
+        .from(assetStatusChangesTable)
+        .where(eq(assetStatusChangesTable.asset_id, assetId))
+        .execute();
+
+      expect(changes).toHaveLength(0);
+    });
+
+    it('should only let assets become lent through a lending', async () => {
+      await expect(updateAsset({ id: assetId, status: 'lent' }, userId))
+        .rejects.toThrow(/from available to lent by lending it out/i);
+    });
+
+    it('should only let lent assets become available through a return', async () => {
+      await db.update(assetsTable)
+        .set({ status: 'lent' })
+        .where(eq(assetsTable.id, assetId))
+        .execute();
+
+      await expect(updateAsset({ id: assetId, status: 'available' }, userId))
+        .rejects.toThrow(/from lent to available by returning it/i);
+    });
+
+    it('should treat retired as terminal', async () => {
+      await updateAsset({ id: assetId, status: 'retired' }, userId);
+
+      await expect(updateAsset({ id: assetId, status: 'available' }, userId))
+        .rejects.toThrow(/when an administrator reinstates it/i);
+      await expect(updateAsset({ id: assetId, status: 'maintenance' }, userId))
+        .rejects.toThrow(/cannot change from retired to maintenance/i);
+    });
+
+    it('should not overwrite a lending made while the asset is being updated', async () => {
+      const results = await Promise.allSettled([
+        updateAsset({ id: assetId, status: 'maintenance', status_reason: 'Annual service' }, userId),
+        createLending({
+          asset_id: assetId,
+          borrower_name: 'John Doe',
+          expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+        }, userId)
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const [asset] = await db.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.id, assetId))
+        .execute();
+      const lendings = await db.select()
+        .from(lendingsTable)
+        .where(eq(lendingsTable.asset_id, assetId))
+        .execute();
+      expect(asset.status).toEqual(lendings.length > 0 ? 'lent' : 'maintenance');
+      const changes = await db.select()
+        .from(assetStatusChangesTable)
+        .where(eq(assetStatusChangesTable.asset_id, assetId))
+        .execute();
+      expect(changes).toHaveLength(1);
+    });
+  });
+
+  describe('reinstateAsset', () => {
+    let assetId: number;
+
+    beforeEach(async () => {
+      const created = await createAsset({ ...testAssetInput, status: 'retired' });
+      assetId = created.id;
+    });
+
+    it('should make a retired asset available and record the reason', async () => {
+      const result = await reinstateAsset({ id: assetId, reason: 'Refurbished by vendor' }, userId);
+
+      expect(result.status).toEqual('available');
+
+      const changes = await db.select()
+        .from(assetStatusChangesTable)
+        .where(eq(assetStatusChangesTable.asset_id, assetId))
+        .execute();
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].from_status).toEqual('retired');
+      expect(changes[0].to_status).toEqual('available');
+      expect(changes[0].reason).toEqual('Refurbished by vendor');
+    });
+
+    it('should refuse assets that are not retired', async () => {
+      await reinstateAsset({ id: assetId, reason: 'First time' }, userId);
+
+      await expect(reinstateAsset({ id: assetId, reason: 'Again' }, userId))
+        .rejects.toThrow(/only retired assets/i);
+    });
+
+    it('should throw error for non-existent asset', async () => {
+      await expect(reinstateAsset({ id: 999, reason: 'Missing' }, userId))
+        .rejects.toThrow(/Asset with id 999 not found/i);
     });
   });
 
@@ -377,4 +548,72 @@ describe('Assets handlers', () => {
       await expect(deleteAsset(assetId)).rejects.toThrow(/Cannot delete asset.*lending/i);
     });
   });
+
+  describe('getAssetTimeline', () => {
+    // Mirrors what the audit middleware records around updateAsset
+    const auditedUpdate = async (input: UpdateAssetInput) => {
+      const before = await loadAuditSnapshot('asset', input.id);
+      await updateAsset(input, userId);
+      await recordAuditEvent({
+        actor_user_id: userId,
+        procedure: 'updateAsset',
+        entity_type: 'asset',
+        entity_id: input.id,
+        before,
+        after: await loadAuditSnapshot('asset', input.id)
+      });
+    };
+
+    it('should merge edits, status changes, moves and lendings chronologically', async () => {
+      const asset = await createAsset(testAssetInput);
+      await auditedUpdate({ id: asset.id, status: 'maintenance', location_id: workshopId, name: 'Renamed Asset' });
+      await auditedUpdate({ id: asset.id, status: 'available' });
+
+      await db.insert(lendingsTable)
+        .values({
+          asset_id: asset.id,
+          borrower_name: 'Jane Borrower',
+          department: 'Finance',
+          lent_date: new Date(Date.now() + 1000),
+          expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+          actual_return_date: new Date(Date.now() + 2000),
+          status: 'returned',
+          lent_by_user_id: userId,
+          returned_by_user_id: userId
+        })
+        .execute();
+
+      const timeline = await getAssetTimeline(asset.id);
+
+      expect(timeline.map(entry => entry.type)).toEqual([
+        'created',
+        'maintenance',
+        'moved',
+        'edited',
+        'maintenance',
+        'lent',
+        'returned'
+      ]);
+      expect(timeline[2].summary).toEqual('Moved from Main Campus / Storage Room A to Main Campus / Building B / Workshop');
+      expect(timeline[2].actor_username).toEqual('testuser');
+      expect(timeline[3].changes).toEqual({ name: { before: 'Test Asset', after: 'Renamed Asset' } });
+      expect(timeline[5].summary).toMatch(/Lent to Jane Borrower \(Finance\)/);
+      expect(timeline[6].lending_id).toEqual(timeline[5].lending_id);
+    });
+
+    it('should report plain status changes separately from maintenance', async () => {
+      const asset = await createAsset(testAssetInput);
+      await auditedUpdate({ id: asset.id, status: 'damaged' });
+
+      const timeline = await getAssetTimeline(asset.id);
+
+      expect(timeline).toHaveLength(2);
+      expect(timeline[1].type).toEqual('status_changed');
+      expect(timeline[1].summary).toEqual('Status changed from available to damaged');
+    });
+
+    it('should throw error for non-existent asset', async () => {
+      await expect(getAssetTimeline(999)).rejects.toThrow(/Asset with id 999 not found/i);
+    });
+  });
 });
\ No newline at end of file
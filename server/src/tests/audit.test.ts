@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, assetsTable } from '../db/schema';
+import {
+  loadAuditSnapshot,
+  diffSnapshots,
+  recordAuditEvent,
+  getAuditLog
+} from '../handlers/audit';
+import { updateAsset } from '../handlers/assets';
+import { deleteCategory } from '../handlers/categories';
+
+describe('Audit Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function insertUser(username: string) {
+    const result = await db.insert(usersTable)
+      .values({
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hashed_password',
+        role: 'admin',
+        totp_secret: 'JBSWY3DPEHPK3PXP'
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  async function insertAsset() {
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Electronics' })
+      .returning()
+      .execute();
+
+    const asset = await db.insert(assetsTable)
+      .values({
+        name: 'Laptop',
+        category_id: category[0].id,
+        current_value: '1000.00'
+      })
+      .returning()
+      .execute();
+
+    return { category: category[0], asset: asset[0] };
+  }
+
+  describe('loadAuditSnapshot', () => {
+    it('should leave secrets out of user snapshots', async () => {
+      const user = await insertUser('auditor');
+
+      const snapshot = await loadAuditSnapshot('user', user.id);
+
+      expect(snapshot).not.toBeNull();
+      expect(snapshot!['username']).toEqual('auditor');
+      expect(snapshot).not.toHaveProperty('password_hash');
+      expect(snapshot).not.toHaveProperty('totp_secret');
+    });
+
+    it('should return null for missing entities', async () => {
+      expect(await loadAuditSnapshot('asset', 999)).toBeNull();
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should keep only the fields that changed', () => {
+      const result = diffSnapshots(
+        { name: 'Laptop', status: 'available', current_value: '1000.00', updated_at: '2024-01-01' },
+        { name: 'Laptop', status: 'damaged', current_value: '800.00', updated_at: '2024-02-01' }
+      );
+
+      expect(result.before).toEqual({ status: 'available', current_value: '1000.00' });
+      expect(result.after).toEqual({ status: 'damaged', current_value: '800.00' });
+    });
+
+    it('should keep full snapshots for creations and deletions', () => {
+      const state = { name: 'Laptop', status: 'available' };
+
+      expect(diffSnapshots(null, state)).toEqual({ before: null, after: state });
+      expect(diffSnapshots(state, null)).toEqual({ before: state, after: null });
+    });
+  });
+
+  describe('recordAuditEvent', () => {
+    it('should record the old and new values of an asset update', async () => {
+      const user = await insertUser('auditor');
+      const { asset } = await insertAsset();
+
+      const before = await loadAuditSnapshot('asset', asset.id);
+      await updateAsset({ id: asset.id, status: 'maintenance', current_value: 750 }, user.id);
+      const after = await loadAuditSnapshot('asset', asset.id);
+
+      const event = await recordAuditEvent({
+        actor_user_id: user.id,
+        procedure: 'updateAsset',
+        entity_type: 'asset',
+        entity_id: asset.id,
+        before,
+        after,
+        ip_address: '10.0.0.1'
+      });
+
+      expect(event.actor_user_id).toEqual(user.id);
+      expect(event.api_key_id).toBeNull();
+      expect(event.procedure).toEqual('updateAsset');
+      expect(event.before).toEqual({ status: 'available', current_value: '1000.00' });
+      expect(event.after).toEqual({ status: 'maintenance', current_value: '750.00' });
+      expect(event.created_at).toBeInstanceOf(Date);
+    });
+
+    it('should keep the last state of deleted entities', async () => {
+      const user = await insertUser('auditor');
+      const category = await db.insert(categoriesTable)
+        .values({ name: 'Obsolete', description: 'To be removed' })
+        .returning()
+        .execute();
+
+      const before = await loadAuditSnapshot('category', category[0].id);
+      await deleteCategory(category[0].id);
+
+      const event = await recordAuditEvent({
+        actor_user_id: user.id,
+        procedure: 'deleteCategory',
+        entity_type: 'category',
+        entity_id: category[0].id,
+        before,
+        after: await loadAuditSnapshot('category', category[0].id)
+      });
+
+      expect(event.before!['name']).toEqual('Obsolete');
+      expect(event.before!['description']).toEqual('To be removed');
+      expect(event.after).toBeNull();
+    });
+  });
+
+  describe('getAuditLog', () => {
+    it('should filter by entity, user and date range', async () => {
+      const alice = await insertUser('alice');
+      const bob = await insertUser('bob');
+      const { category, asset } = await insertAsset();
+
+      await recordAuditEvent({ actor_user_id: alice.id, procedure: 'updateAsset', entity_type: 'asset', entity_id: asset.id, before: null, after: null });
+      await recordAuditEvent({ actor_user_id: bob.id, procedure: 'updateAsset', entity_type: 'asset', entity_id: asset.id, before: null, after: null });
+      await recordAuditEvent({ actor_user_id: alice.id, procedure: 'updateCategory', entity_type: 'category', entity_id: category.id, before: null, after: null });
+
+      const all = await getAuditLog();
+      expect(all).toHaveLength(3);
+      expect(all[0].procedure).toEqual('updateCategory');
+      expect(all[0].actor_username).toEqual('alice');
+
+      const assetEvents = await getAuditLog({ entity_type: 'asset', entity_id: asset.id });
+      expect(assetEvents).toHaveLength(2);
+
+      const bobEvents = await getAuditLog({ user_id: bob.id });
+      expect(bobEvents).toHaveLength(1);
+      expect(bobEvents[0].actor_username).toEqual('bob');
+
+      const future = await getAuditLog({ start_date: new Date(Date.now() + 60 * 1000) });
+      expect(future).toHaveLength(0);
+
+      const past = await getAuditLog({ end_date: new Date(Date.now() - 60 * 1000) });
+      expect(past).toHaveLength(0);
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, sessionsTable, loginAttemptsTable } from '../db/schema';
 import { type CreateUserInput, type LoginInput } from '../schema';
 import { login, createUser, getUsers } from '../handlers/auth';
+import { MAX_FAILED_LOGINS, MAX_FAILED_LOGINS_PER_IP } from '../handlers/login_attempts';
+import { generateTotp, totpStep } from '../handlers/two_factor';
 import { eq } from 'drizzle-orm';
 
 // Test inputs
@@ -31,19 +33,35 @@ describe('Auth Handlers', () => {
   afterEach(resetDB);
 
   describe('createUser', () => {
-    it('should create a new user with hashed password', async () => {
+    it('should create a new user without exposing the password hash', async () => {
       const result = await createUser(testUserInput);
 
       expect(result.username).toEqual('testuser');
       expect(result.email).toEqual('test@example.com');
       expect(result.role).toEqual('staff');
+      expect(result.is_active).toBe(true);
       expect(result.id).toBeDefined();
-      expect(result.password_hash).toBeDefined();
-      expect(result.password_hash).not.toEqual('password123'); // Password should be hashed
+      expect(result).not.toHaveProperty('password_hash');
       expect(result.created_at).toBeInstanceOf(Date);
       expect(result.updated_at).toBeInstanceOf(Date);
     });
 
+    it('should hash passwords with argon2id and a per-user salt', async () => {
+      await createUser(testUserInput);
+      await createUser({
+        ...adminUserInput,
+        password: testUserInput.password
+      });
+
+      const users = await db.select()
+        .from(usersTable)
+        .execute();
+
+      expect(users[0].password_hash).toStartWith('$argon2id$');
+      expect(users[1].password_hash).toStartWith('$argon2id$');
+      expect(users[0].password_hash).not.toEqual(users[1].password_hash);
+    });
+
     it('should save user to database', async () => {
       const result = await createUser(testUserInput);
 
@@ -109,9 +127,13 @@ describe('Auth Handlers', () => {
       expect(result.user.username).toEqual('testuser');
       expect(result.user.email).toEqual('test@example.com');
       expect(result.user.role).toEqual('staff');
+      expect(result.user).not.toHaveProperty('password_hash');
       expect(result.token).toBeDefined();
       expect(typeof result.token).toBe('string');
       expect(result.token.length).toBeGreaterThan(0);
+      expect(result.refresh_token).toBeDefined();
+      expect(result.token_expires_at).toBeInstanceOf(Date);
+      expect(result.refresh_expires_at).toBeInstanceOf(Date);
     });
 
     it('should throw error for invalid username', async () => {
@@ -123,6 +145,67 @@ describe('Auth Handlers', () => {
       await expect(login(invalidInput)).rejects.toThrow(/invalid username or password/i);
     });
 
+    it('should accept and upgrade a legacy SHA-256 password hash', async () => {
+      // SHA-256 of 'legacypass' + 'salt', as stored by earlier versions
+      const encoded = new TextEncoder().encode('legacypass' + 'salt');
+      const digest = await crypto.subtle.digest('SHA-256', encoded);
+      const legacyHash = Buffer.from(digest).toString('hex');
+
+      await db.insert(usersTable)
+        .values({
+          username: 'legacyuser',
+          email: 'legacy@example.com',
+          password_hash: legacyHash,
+          role: 'staff'
+        })
+        .execute();
+
+      const result = await login({ username: 'legacyuser', password: 'legacypass' });
+      expect(result.user.username).toEqual('legacyuser');
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.username, 'legacyuser'))
+        .execute();
+      expect(users[0].password_hash).toStartWith('$argon2id$');
+
+      // The upgraded hash keeps working
+      const again = await login({ username: 'legacyuser', password: 'legacypass' });
+      expect(again.user.id).toEqual(result.user.id);
+    });
+
+    it('should not upgrade a legacy hash when the password is wrong', async () => {
+      const encoded = new TextEncoder().encode('legacypass' + 'salt');
+      const digest = await crypto.subtle.digest('SHA-256', encoded);
+      const legacyHash = Buffer.from(digest).toString('hex');
+
+      await db.insert(usersTable)
+        .values({
+          username: 'legacyuser',
+          email: 'legacy@example.com',
+          password_hash: legacyHash,
+          role: 'staff'
+        })
+        .execute();
+
+      await expect(login({ username: 'legacyuser', password: 'wrong' })).rejects.toThrow(/invalid username or password/i);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.username, 'legacyuser'))
+        .execute();
+      expect(users[0].password_hash).toEqual(legacyHash);
+    });
+
+    it('should reject deactivated accounts', async () => {
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+
+      await expect(login(loginInput)).rejects.toThrow(/deactivated/i);
+    });
+
     it('should throw error for invalid password', async () => {
       const invalidInput: LoginInput = {
         username: 'testuser',
@@ -132,16 +215,34 @@ describe('Auth Handlers', () => {
       await expect(login(invalidInput)).rejects.toThrow(/invalid username or password/i);
     });
 
-    it('should return valid token format', async () => {
+    it('should return a signed token with an expiry', async () => {
       const result = await login(loginInput);
 
-      // Token should be base64 encoded JSON
-      const decodedToken = JSON.parse(Buffer.from(result.token, 'base64').toString());
-      expect(decodedToken).toHaveProperty('id');
-      expect(decodedToken).toHaveProperty('username');
-      expect(decodedToken).toHaveProperty('role');
-      expect(decodedToken.username).toEqual('testuser');
-      expect(decodedToken.role).toEqual('staff');
+      // Token should be a base64url payload and signature
+      const [body, signature] = result.token.split('.');
+      expect(signature).toBeDefined();
+
+      const decodedToken = JSON.parse(Buffer.from(body, 'base64url').toString());
+      expect(decodedToken).toHaveProperty('sid');
+      expect(decodedToken).toHaveProperty('uid');
+      expect(decodedToken.uid).toEqual(result.user.id);
+      expect(decodedToken.exp).toEqual(result.token_expires_at.getTime());
+      expect(result.token_expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should record a session for each login', async () => {
+      const result = await login(loginInput, { ip_address: '10.0.0.5', user_agent: 'test-agent' });
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, result.user.id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].ip_address).toEqual('10.0.0.5');
+      expect(sessions[0].user_agent).toEqual('test-agent');
+      expect(sessions[0].revoked_at).toBeNull();
+      expect(sessions[0].refresh_token_hash).not.toEqual(result.refresh_token);
     });
 
     it('should authenticate users with different roles', async () => {
@@ -154,9 +255,158 @@ describe('Auth Handlers', () => {
 
       const result = await login(adminLogin);
       expect(result.user.role).toEqual('admin');
+      expect(result.token).toBeDefined();
+      expect(result.capabilities).toContain('user.create');
+    });
+
+    it('should return the capabilities of the user role', async () => {
+      const result = await login(loginInput);
+
+      expect(result.capabilities).toContain('lending.write');
+      expect(result.capabilities).not.toContain('asset.delete');
+    });
+
+    it('should record successful and failed attempts in the login history', async () => {
+      const client = { ip_address: '10.0.0.5', user_agent: 'test-agent' };
+      await expect(login({ username: 'testuser', password: 'wrong' }, client)).rejects.toThrow();
+      await expect(login({ username: 'nobody', password: 'wrong' }, client)).rejects.toThrow();
+
+      // Let the progressive delay after the failure pass
+      await db.update(usersTable)
+        .set({ last_failed_login_at: new Date(Date.now() - 60 * 1000) })
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+      const result = await login(loginInput, client);
+
+      const attempts = await db.select()
+        .from(loginAttemptsTable)
+        .orderBy(loginAttemptsTable.id)
+        .execute();
 
-      const decodedToken = JSON.parse(Buffer.from(result.token, 'base64').toString());
-      expect(decodedToken.role).toEqual('admin');
+      expect(attempts).toHaveLength(3);
+      expect(attempts[0].user_id).toEqual(result.user.id);
+      expect(attempts[0].success).toBe(false);
+      expect(attempts[0].failure_reason).toEqual('invalid_credentials');
+      expect(attempts[0].ip_address).toEqual('10.0.0.5');
+      expect(attempts[0].user_agent).toEqual('test-agent');
+      expect(attempts[1].username).toEqual('nobody');
+      expect(attempts[1].user_id).toBeNull();
+      expect(attempts[2].success).toBe(true);
+      expect(attempts[2].failure_reason).toBeNull();
+    });
+
+    it('should refuse retries during the progressive delay', async () => {
+      await expect(login({ username: 'testuser', password: 'wrong' })).rejects.toThrow(/invalid username or password/i);
+
+      // Even the correct password is refused until the delay has passed
+      await expect(login(loginInput)).rejects.toThrow(/try again in \d+ seconds/i);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+      expect(users[0].failed_login_attempts).toEqual(1);
+    });
+
+    it('should lock the account after repeated failures', async () => {
+      await db.update(usersTable)
+        .set({ failed_login_attempts: MAX_FAILED_LOGINS - 1, last_failed_login_at: new Date(Date.now() - 60 * 60 * 1000) })
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+
+      await expect(login({ username: 'testuser', password: 'wrong' })).rejects.toThrow(/invalid username or password/i);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+      expect(users[0].failed_login_attempts).toEqual(MAX_FAILED_LOGINS);
+      expect(users[0].locked_until!.getTime()).toBeGreaterThan(Date.now());
+
+      await expect(login(loginInput)).rejects.toThrow(/temporarily locked/i);
+    });
+
+    it('should allow login after the lockout expires and reset the counter', async () => {
+      await db.update(usersTable)
+        .set({
+          failed_login_attempts: MAX_FAILED_LOGINS,
+          last_failed_login_at: new Date(Date.now() - 60 * 60 * 1000),
+          locked_until: new Date(Date.now() - 1000)
+        })
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+
+      const result = await login(loginInput);
+      expect(result.user.failed_login_attempts).toEqual(0);
+      expect(result.user.locked_until).toBeNull();
+    });
+
+    it('should require a second factor for enrolled accounts', async () => {
+      const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+      await db.update(usersTable)
+        .set({ totp_enabled: true, totp_secret: secret })
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+
+      await expect(login(loginInput)).rejects.toThrow(/two-factor code required/i);
+
+      const result = await login({ ...loginInput, totp_code: generateTotp(secret, totpStep()) });
+      expect(result.user.totp_enabled).toBe(true);
+      expect(result.user).not.toHaveProperty('totp_secret');
+      expect(result.user).not.toHaveProperty('totp_recovery_codes');
+    });
+
+    it('should count a wrong second factor as a failed login', async () => {
+      const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+      await db.update(usersTable)
+        .set({ totp_enabled: true, totp_secret: secret })
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+
+      await expect(login({ ...loginInput, totp_code: generateTotp(secret, totpStep() + 10) })).rejects.toThrow(/invalid two-factor code/i);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.username, 'testuser'))
+        .execute();
+      expect(users[0].failed_login_attempts).toEqual(1);
+
+      const attempts = await db.select()
+        .from(loginAttemptsTable)
+        .execute();
+      expect(attempts[0].failure_reason).toEqual('invalid_two_factor_code');
+    });
+
+    it('should flag administrators who must still enroll', async () => {
+      await createUser(adminUserInput);
+
+      process.env['REQUIRE_ADMIN_2FA'] = 'true';
+      try {
+        const adminResult = await login({ username: 'admin', password: 'adminpass' });
+        expect(adminResult.two_factor_setup_required).toBe(true);
+
+        const staffResult = await login(loginInput);
+        expect(staffResult.two_factor_setup_required).toBe(false);
+      } finally {
+        delete process.env['REQUIRE_ADMIN_2FA'];
+      }
+    });
+
+    it('should throttle an address after too many failed attempts', async () => {
+      await db.insert(loginAttemptsTable)
+        .values(Array.from({ length: MAX_FAILED_LOGINS_PER_IP }, (_, i) => ({
+          username: `guess${i}`,
+          ip_address: '10.0.0.9',
+          success: false,
+          failure_reason: 'invalid_credentials' as const
+        })))
+        .execute();
+
+      await expect(login(loginInput, { ip_address: '10.0.0.9', user_agent: null })).rejects.toThrow(/too many failed login attempts/i);
+
+      // Other addresses are unaffected
+      const result = await login(loginInput, { ip_address: '10.0.0.10', user_agent: null });
+      expect(result.user.username).toEqual('testuser');
     });
   });
 
@@ -183,7 +433,7 @@ describe('Auth Handlers', () => {
         expect(user.username).toBeDefined();
         expect(user.email).toBeDefined();
         expect(user.role).toBeDefined();
-        expect(user.password_hash).toBeDefined();
+        expect(user).not.toHaveProperty('password_hash');
         expect(user.created_at).toBeInstanceOf(Date);
         expect(user.updated_at).toBeInstanceOf(Date);
       });
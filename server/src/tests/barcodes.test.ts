@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import { code128Values, encodeCode128, code128Svg } from '../code128';
+import { encodeQr, reedSolomon, qrSvg } from '../qr';
+
+describe('Barcodes', () => {
+  describe('Code 128', () => {
+    it('should add the start symbol, checksum and stop symbol', () => {
+      // Start B, P J J 1 2 3 C, checksum 55, stop
+      expect(code128Values('PJJ123C')).toEqual([104, 48, 42, 42, 17, 18, 19, 35, 55, 106]);
+    });
+
+    it('should encode each symbol as 11 modules and the stop as 13', () => {
+      const modules = encodeCode128('IT-000123');
+
+      expect(modules.length).toEqual(11 * 11 + 13);
+      expect(modules.map(bar => (bar ? '1' : '0')).join('')).toEqual(
+        '11010010000110001000101101110001010011011100100111011001001110110010011101100100111001101100111001011001011100100010001101100011101011'
+      );
+    });
+
+    it('should refuse text it cannot encode', () => {
+      expect(() => encodeCode128('')).toThrow(/empty/);
+      expect(() => encodeCode128('café')).toThrow(/cannot be encoded/);
+    });
+
+    it('should print the text under the bars', () => {
+      expect(code128Svg('IT-000123')).toContain('>IT-000123</text>');
+    });
+  });
+
+  describe('QR', () => {
+    it('should compute Reed-Solomon error correction', () => {
+      const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+      expect(reedSolomon(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+    });
+
+    it('should match a reference encoding', () => {
+      const rows = encodeQr('IT-000123').map(row => row.map(dark => (dark ? '1' : '0')).join(''));
+
+      expect(rows).toEqual([
+      '111111100101101111111',
+      '100000100110101000001',
+      '101110101110101011101',
+      '101110101010101011101',
+      '101110101000101011101',
+      '100000101101001000001',
+      '111111101010101111111',
+      '000000001010000000000',
+      '101111100011001111100',
+      '001110001011100011110',
+      '001111101100101100110',
+      '111110011111100000110',
+      '001011111000111100001',
+      '000000001000100011000',
+      '111111100011011101110',
+      '100000101100000100110',
+      '101110101011000101001',
+      '101110101011111010100',
+      '101110101110101100100',
+      '100000100101111100100',
+      '111111101000100101010'
+      ]);
+    });
+
+    it('should pick the smallest version that holds the text', () => {
+      expect(encodeQr('a'.repeat(14))).toHaveLength(21);
+      expect(encodeQr('a'.repeat(15))).toHaveLength(25);
+      expect(encodeQr('a'.repeat(213))).toHaveLength(57);
+      expect(() => encodeQr('a'.repeat(214))).toThrow(/too long/);
+    });
+
+    it('should surround the symbol with a quiet zone', () => {
+      expect(qrSvg('IT-000123')).toContain('viewBox="0 0 29 29"');
+    });
+  });
+});
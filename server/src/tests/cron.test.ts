@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test';
+import { parseCronExpression, cronMatches, nextCronRun } from '../cron';
+
+describe('Cron expressions', () => {
+  it('should parse lists, ranges and steps', () => {
+    const schedule = parseCronExpression('*/15 9-17 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toEqual(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should expand shorthands and treat 7 as Sunday', () => {
+    const daily = parseCronExpression('@daily');
+    expect([...daily.minutes]).toEqual([0]);
+    expect([...daily.hours]).toEqual([0]);
+
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow(/expected 5 fields/);
+    expect(() => parseCronExpression('60 * * * *')).toThrow(/invalid minute "60"/i);
+    expect(() => parseCronExpression('* 5-2 * * *')).toThrow(/invalid hour range/i);
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow(/minute step/);
+    expect(() => parseCronExpression('a * * * *')).toThrow(/invalid minute/i);
+  });
+
+  it('should match the minute a schedule fires in', () => {
+    const schedule = parseCronExpression('30 8 * * 1');
+
+    // 2024-01-08 is a Monday
+    expect(cronMatches(schedule, new Date(2024, 0, 8, 8, 30, 45))).toBe(true);
+    expect(cronMatches(schedule, new Date(2024, 0, 8, 8, 31))).toBe(false);
+    expect(cronMatches(schedule, new Date(2024, 0, 9, 8, 30))).toBe(false);
+  });
+
+  it('should match either day field when both are restricted', () => {
+    const schedule = parseCronExpression('0 0 1 * 1');
+
+    expect(cronMatches(schedule, new Date(2024, 1, 1))).toBe(true); // Thursday the 1st
+    expect(cronMatches(schedule, new Date(2024, 1, 5))).toBe(true); // Monday the 5th
+    expect(cronMatches(schedule, new Date(2024, 1, 6))).toBe(false);
+  });
+
+  it('should find the next run', () => {
+    expect(nextCronRun(parseCronExpression('*/5 * * * *'), new Date(2024, 0, 1, 10, 2, 30)))
+      .toEqual(new Date(2024, 0, 1, 10, 5));
+
+    // Strictly after: a run due at this very minute is the one after
+    expect(nextCronRun(parseCronExpression('*/5 * * * *'), new Date(2024, 0, 1, 10, 5)))
+      .toEqual(new Date(2024, 0, 1, 10, 10));
+
+    expect(nextCronRun(parseCronExpression('@monthly'), new Date(2024, 0, 15, 12, 0)))
+      .toEqual(new Date(2024, 1, 1, 0, 0));
+
+    expect(nextCronRun(parseCronExpression('0 12 29 2 *'), new Date(2024, 2, 1)))
+      .toEqual(new Date(2028, 1, 29, 12, 0));
+  });
+
+  it('should give up on schedules that never fire', () => {
+    expect(nextCronRun(parseCronExpression('0 0 30 2 *'), new Date(2024, 0, 1))).toBeNull();
+  });
+});
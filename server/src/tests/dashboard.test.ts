@@ -3,6 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, categoriesTable, assetsTable, lendingsTable } from '../db/schema';
 import { getDashboardSummary } from '../handlers/dashboard';
+import { refreshOverdueLendings } from '../handlers/lendings';
 
 describe('getDashboardSummary', () => {
   beforeEach(createDB);
@@ -151,6 +152,7 @@ describe('getDashboardSummary', () => {
       ])
       .execute();
 
+    await refreshOverdueLendings();
     const result = await getDashboardSummary();
 
     expect(result.overdue_lendings).toBe(2);
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, locationsTable, assetsTable } from '../db/schema';
+import { defaultEmailTemplates, unknownPlaceholders, renderEmailTemplate } from '../email_templates';
+import {
+  getEmailTemplates,
+  loadEmailTemplate,
+  updateEmailTemplate,
+  resetEmailTemplate,
+  findEmailTemplateId,
+  previewEmailTemplate,
+  getEmailTemplatePlaceholders
+} from '../handlers/email_templates';
+import { createLending } from '../handlers/lendings';
+import { loadAuditSnapshot } from '../handlers/audit';
+
+describe('Email templates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createPrerequisites() {
+    const [user] = await db.insert(usersTable)
+      .values({ username: 'desk', email: 'desk@example.com', password_hash: 'hashed_password', role: 'admin' })
+      .returning()
+      .execute();
+
+    const [category] = await db.insert(categoriesTable)
+      .values({ name: 'Audio Visual' })
+      .returning()
+      .execute();
+
+    const [site] = await db.insert(locationsTable)
+      .values({ name: 'Main Campus', type: 'site' })
+      .returning()
+      .execute();
+
+    const [room] = await db.insert(locationsTable)
+      .values({ name: 'Room 101', type: 'room', parent_id: site.id })
+      .returning()
+      .execute();
+
+    const [asset] = await db.insert(assetsTable)
+      .values({ name: 'Projector', category_id: category.id, serial_number: 'PJ-01', location_id: room.id })
+      .returning()
+      .execute();
+
+    const lending = await createLending({
+      asset_id: asset.id,
+      borrower_name: 'Jane Smith',
+      borrower_email: 'jane@example.com',
+      expected_return_date: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)
+    }, user.id);
+
+    return { user, lending };
+  }
+
+  describe('rendering', () => {
+    it('should fill in placeholders and leave unknown ones as written', () => {
+      const result = renderEmailTemplate(
+        { subject: 'Hi {{ borrower_name }}', body: '{{asset.name}} / {{missing}}' },
+        { 'borrower_name': 'Jane', 'asset.name': 'Projector' }
+      );
+
+      expect(result).toEqual({ subject: 'Hi Jane', body: 'Projector / {{missing}}' });
+    });
+
+    it('should find unknown placeholders', () => {
+      expect(unknownPlaceholders('{{borrower_name}} {{asset.nme}} {{asset.nme}} {{foo}}')).toEqual(['asset.nme', 'foo']);
+      expect(unknownPlaceholders(defaultEmailTemplates.overdue.body)).toEqual([]);
+    });
+  });
+
+  describe('template handlers', () => {
+    it('should list the built-in defaults until a template is saved', async () => {
+      const { user } = await createPrerequisites();
+
+      const defaults = await getEmailTemplates();
+      expect(defaults.map(template => template.key)).toEqual(['due_soon', 'due_today', 'overdue']);
+      expect(defaults.every(template => template.is_default)).toBe(true);
+
+      await updateEmailTemplate({ key: 'overdue', subject: 'Late: {{asset.name}}', body: 'Please return it' }, user.id);
+
+      const templates = await getEmailTemplates();
+      const overdue = templates.find(template => template.key === 'overdue')!;
+      expect(overdue.is_default).toBe(false);
+      expect(overdue.subject).toEqual('Late: {{asset.name}}');
+      expect(overdue.updated_by_user_id).toEqual(user.id);
+      expect(overdue.updated_at).toBeInstanceOf(Date);
+      expect(await loadEmailTemplate('overdue')).toEqual({ subject: 'Late: {{asset.name}}', body: 'Please return it' });
+    });
+
+    it('should overwrite a saved template and reset it to the default', async () => {
+      const { user } = await createPrerequisites();
+
+      await updateEmailTemplate({ key: 'due_soon', subject: 'First', body: 'First' }, user.id);
+      await updateEmailTemplate({ key: 'due_soon', subject: 'Second', body: 'Second' }, user.id);
+      expect((await loadEmailTemplate('due_soon')).subject).toEqual('Second');
+
+      const reset = await resetEmailTemplate('due_soon');
+      expect(reset.is_default).toBe(true);
+      expect(await loadEmailTemplate('due_soon')).toEqual(defaultEmailTemplates.due_soon);
+    });
+
+    it('should find the row of an edited template for the audit log', async () => {
+      const { user } = await createPrerequisites();
+      expect(await findEmailTemplateId('overdue')).toBeNull();
+
+      await updateEmailTemplate({ key: 'overdue', subject: 'Late', body: 'Please return it' }, user.id);
+      const id = await findEmailTemplateId('overdue');
+      expect(id).not.toBeNull();
+      expect((await loadAuditSnapshot('email_template', id!))!['subject']).toEqual('Late');
+
+      await resetEmailTemplate('overdue');
+      expect(await findEmailTemplateId('overdue')).toBeNull();
+      expect(await loadAuditSnapshot('email_template', id!)).toBeNull();
+    });
+
+    it('should reject unknown placeholders', async () => {
+      const { user } = await createPrerequisites();
+
+      await expect(updateEmailTemplate({ key: 'due_today', subject: 'Due {{asset.nmae}}', body: 'Body' }, user.id))
+        .rejects.toThrow(/unknown placeholders: \{\{asset\.nmae\}\}/i);
+    });
+
+    it('should preview a draft against a lending', async () => {
+      const { lending } = await createPrerequisites();
+
+      const preview = await previewEmailTemplate({
+        subject: '{{asset.name}} ({{asset.serial_number}}) is {{days_overdue}} days late',
+        body: 'Dear {{borrower_name}}, return it to {{asset.location}} or contact {{staff.name}} at {{staff.email}}. {{oops}}',
+        lending_id: lending.id
+      });
+
+      expect(preview.subject).toEqual('Projector (PJ-01) is 3 days late');
+      expect(preview.body).toEqual('Dear Jane Smith, return it to Main Campus / Room 101 or contact desk at desk@example.com. {{oops}}');
+      expect(preview.unknown_placeholders).toEqual(['oops']);
+    });
+
+    it('should refuse to preview against a missing lending', async () => {
+      await expect(previewEmailTemplate({ subject: 'Hi', body: 'Hi', lending_id: 999 })).rejects.toThrow(/not found/i);
+    });
+
+    it('should describe every placeholder', () => {
+      const placeholders = getEmailTemplatePlaceholders();
+      expect(placeholders.map(placeholder => placeholder.name)).toContain('asset.name');
+      expect(placeholders.every(placeholder => placeholder.description.length > 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable } from '../db/schema';
+import { listenForChanges, publishAssetChange } from '../events';
+import { createAsset, updateAsset, deleteAsset } from '../handlers/assets';
+import { createLending, returnAsset, updateLending, refreshOverdueLendings } from '../handlers/lendings';
+
+// Collects everything published on a topic until stop() is called
+function collect<TTopic extends 'asset' | 'lending' | 'dashboard'>(topic: TTopic) {
+  const controller = new AbortController();
+  const events: unknown[] = [];
+  const done = (async () => {
+    for await (const event of listenForChanges(topic, controller.signal)) {
+      events.push(event);
+    }
+  })();
+
+  return {
+    events,
+    stop: async () => {
+      controller.abort();
+      await done;
+    }
+  };
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Live update events', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function setup() {
+    const [user] = await db.insert(usersTable)
+      .values({ username: 'clerk', email: 'clerk@example.com', password_hash: 'hashed_password', role: 'staff' })
+      .returning()
+      .execute();
+
+    const [category] = await db.insert(categoriesTable)
+      .values({ name: 'Electronics' })
+      .returning()
+      .execute();
+
+    return { user, category };
+  }
+
+  it('should publish asset changes from the asset handlers', async () => {
+    const { user, category } = await setup();
+    const listener = collect('asset');
+
+    const asset = await createAsset({
+      name: 'Projector',
+      description: null,
+      category_id: category.id,
+      serial_number: null,
+      purchase_date: null,
+      purchase_price: null,
+      current_value: null,
+      status: 'available',
+      location_id: null
+    });
+    await updateAsset({ id: asset.id, description: 'Ceiling mounted' }, user.id);
+    await deleteAsset(asset.id);
+    await listener.stop();
+
+    expect(listener.events).toEqual([
+      { action: 'created', asset_id: asset.id },
+      { action: 'updated', asset_id: asset.id },
+      { action: 'deleted', asset_id: asset.id }
+    ]);
+  });
+
+  it('should not publish when a change fails', async () => {
+    const { user } = await setup();
+    const listener = collect('asset');
+
+    await expect(updateAsset({ id: 9999, description: 'Missing' }, user.id)).rejects.toThrow();
+    await listener.stop();
+
+    expect(listener.events).toEqual([]);
+  });
+
+  it('should publish lending changes and the asset status they cause', async () => {
+    const { user, category } = await setup();
+    const asset = await createAsset({
+      name: 'Camera',
+      description: null,
+      category_id: category.id,
+      serial_number: null,
+      purchase_date: null,
+      purchase_price: null,
+      current_value: null,
+      status: 'available',
+      location_id: null
+    });
+    const lendingListener = collect('lending');
+    const assetListener = collect('asset');
+
+    const lending = await createLending({
+      asset_id: asset.id,
+      borrower_name: 'Borrower',
+      borrower_email: null,
+      borrower_phone: null,
+      department: null,
+      expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      notes: null
+    }, user.id);
+    await updateLending(lending.id, { notes: 'Extended loan' });
+    await returnAsset({ lending_id: lending.id, return_notes: null, asset_condition: 'good' }, user.id);
+    await lendingListener.stop();
+    await assetListener.stop();
+
+    expect(lendingListener.events).toEqual([
+      { action: 'created', lending_id: lending.id, asset_id: asset.id },
+      { action: 'updated', lending_id: lending.id, asset_id: asset.id },
+      { action: 'returned', lending_id: lending.id, asset_id: asset.id }
+    ]);
+    expect(assetListener.events).toEqual([
+      { action: 'updated', asset_id: asset.id },
+      { action: 'updated', asset_id: asset.id }
+    ]);
+  });
+
+  it('should publish lendings whose overdue status is refreshed', async () => {
+    const { user, category } = await setup();
+    const asset = await createAsset({
+      name: 'Tablet',
+      description: null,
+      category_id: category.id,
+      serial_number: null,
+      purchase_date: null,
+      purchase_price: null,
+      current_value: null,
+      status: 'available',
+      location_id: null
+    });
+    const lending = await createLending({
+      asset_id: asset.id,
+      borrower_name: 'Borrower',
+      borrower_email: null,
+      borrower_phone: null,
+      department: null,
+      expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      notes: null
+    }, user.id);
+    const listener = collect('lending');
+
+    await refreshOverdueLendings(new Date(Date.now() + 3 * 24 * 60 * 60 * 1000));
+    await refreshOverdueLendings();
+    await listener.stop();
+
+    expect(listener.events).toEqual([
+      { action: 'updated', lending_id: lending.id, asset_id: asset.id },
+      { action: 'updated', lending_id: lending.id, asset_id: asset.id }
+    ]);
+  });
+
+  it('should merge a burst of changes into one dashboard notice', async () => {
+    const listener = collect('dashboard');
+
+    publishAssetChange({ action: 'updated', asset_id: 1 });
+    publishAssetChange({ action: 'updated', asset_id: 2 });
+    publishAssetChange({ action: 'updated', asset_id: 3 });
+    await wait(400);
+    await listener.stop();
+
+    expect(listener.events).toHaveLength(1);
+  });
+});
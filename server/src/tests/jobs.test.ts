@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, jobsTable, jobRunsTable } from '../db/schema';
+import { syncJobs, runJob, schedulerInstanceId, type JobDefinition } from '../scheduler';
+import { jobDefinitions } from '../jobs';
+import { getJobs, getJobRuns, triggerJob } from '../handlers/jobs';
+import { eq } from 'drizzle-orm';
+
+const testJob: JobDefinition = {
+  name: 'test-job',
+  description: 'A job for testing',
+  schedule: '0 * * * *',
+  run: async () => ({ processed: 3 })
+};
+
+describe('Job scheduler', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function insertUser() {
+    const result = await db.insert(usersTable)
+      .values({
+        username: 'admin',
+        email: 'admin@example.com',
+        password_hash: 'hashed_password',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  describe('syncJobs', () => {
+    it('should create job rows and update changed schedules', async () => {
+      await syncJobs([testJob]);
+      await syncJobs([{ ...testJob, schedule: '*/10 * * * *' }]);
+
+      const jobs = await db.select().from(jobsTable).execute();
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].name).toEqual('test-job');
+      expect(jobs[0].schedule).toEqual('*/10 * * * *');
+      expect(jobs[0].last_status).toBeNull();
+    });
+
+    it('should reject invalid schedules', async () => {
+      await expect(syncJobs([{ ...testJob, schedule: 'every hour' }])).rejects.toThrow(/invalid cron expression/i);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should record a successful run and release the lock', async () => {
+      await syncJobs([testJob]);
+
+      const run = await runJob(testJob);
+
+      expect(run).not.toBeNull();
+      expect(run!.status).toEqual('succeeded');
+      expect(run!.result).toEqual({ processed: 3 });
+      expect(run!.error).toBeNull();
+      expect(run!.finished_at).toBeInstanceOf(Date);
+      expect(run!.duration_ms).toBeGreaterThanOrEqual(0);
+      expect(run!.triggered_by_user_id).toBeNull();
+
+      const jobs = await db.select().from(jobsTable).execute();
+      expect(jobs[0].last_status).toEqual('succeeded');
+      expect(jobs[0].last_started_at).toEqual(run!.started_at);
+      expect(jobs[0].last_duration_ms).toEqual(run!.duration_ms);
+      expect(jobs[0].locked_by).toBeNull();
+      expect(jobs[0].locked_until).toBeNull();
+    });
+
+    it('should record failures with their error', async () => {
+      const failingJob: JobDefinition = {
+        ...testJob,
+        run: async () => {
+          throw new Error('Mail server unreachable');
+        }
+      };
+      await syncJobs([failingJob]);
+
+      const run = await runJob(failingJob);
+
+      expect(run!.status).toEqual('failed');
+      expect(run!.error).toEqual('Mail server unreachable');
+      expect(run!.result).toBeNull();
+
+      const jobs = await db.select().from(jobsTable).execute();
+      expect(jobs[0].last_status).toEqual('failed');
+      expect(jobs[0].last_error).toEqual('Mail server unreachable');
+      expect(jobs[0].locked_by).toBeNull();
+    });
+
+    it('should not run a job whose lock is held', async () => {
+      let calls = 0;
+      let finish: () => void = () => {};
+      const slowJob: JobDefinition = {
+        ...testJob,
+        run: async () => {
+          calls++;
+          await new Promise<void>(resolve => { finish = resolve; });
+        }
+      };
+      await syncJobs([slowJob]);
+
+      const first = runJob(slowJob);
+      // Wait until the first run holds the lock
+      while (calls === 0) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      const locked = await db.select().from(jobsTable).execute();
+      expect(locked[0].locked_by).toEqual(schedulerInstanceId);
+      expect(locked[0].last_status).toEqual('running');
+
+      expect(await runJob(slowJob)).toBeNull();
+
+      finish();
+      expect((await first)!.status).toEqual('succeeded');
+      expect(calls).toEqual(1);
+    });
+
+    it('should take over a lock that has expired', async () => {
+      await syncJobs([testJob]);
+      await db.update(jobsTable)
+        .set({ locked_by: 'crashed-instance', locked_until: new Date(Date.now() - 1000) })
+        .where(eq(jobsTable.name, testJob.name))
+        .execute();
+
+      const run = await runJob(testJob);
+
+      expect(run!.status).toEqual('succeeded');
+    });
+
+    it('should run each scheduled slot only once', async () => {
+      await syncJobs([testJob]);
+      const slot = new Date();
+      slot.setSeconds(0, 0);
+
+      expect(await runJob(testJob, { scheduledAt: slot })).not.toBeNull();
+      // Another instance ticking for the same minute finds it already done
+      expect(await runJob(testJob, { scheduledAt: slot })).toBeNull();
+
+      const runs = await db.select().from(jobRunsTable).execute();
+      expect(runs).toHaveLength(1);
+    });
+  });
+
+  describe('job handlers', () => {
+    it('should list registered jobs with their next run', async () => {
+      await syncJobs(jobDefinitions);
+      // A job that no longer exists in the code
+      await syncJobs([testJob]);
+
+      const jobs = await getJobs();
+
+      expect(jobs.map(job => job.name)).toEqual(jobDefinitions.map(definition => definition.name));
+      expect(jobs[0].description).toEqual(jobDefinitions[0].description);
+      expect(jobs[0].next_run_at).toBeInstanceOf(Date);
+      expect(jobs[0].next_run_at!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should trigger a job manually and record who did it', async () => {
+      const user = await insertUser();
+      await syncJobs(jobDefinitions);
+
+      const run = await triggerJob({ name: 'refresh-overdue-lendings' }, user.id);
+
+      expect(run.status).toEqual('succeeded');
+      expect(run.triggered_by_user_id).toEqual(user.id);
+      expect(run.result).toEqual({ marked_overdue: 0, cleared: 0 });
+
+      const history = await getJobRuns({ job_name: 'refresh-overdue-lendings' });
+      expect(history).toHaveLength(1);
+      expect(history[0].job_name).toEqual('refresh-overdue-lendings');
+      expect(history[0].triggered_by_username).toEqual('admin');
+    });
+
+    it('should reject unknown jobs', async () => {
+      const user = await insertUser();
+
+      await expect(triggerJob({ name: 'missing' }, user.id)).rejects.toThrow(/job not found/i);
+    });
+
+    it('should list run history newest first', async () => {
+      await syncJobs([testJob, { ...testJob, name: 'other-job' }]);
+      await runJob(testJob);
+      await runJob({ ...testJob, name: 'other-job' });
+
+      const all = await getJobRuns();
+      expect(all.map(run => run.job_name)).toEqual(['other-job', 'test-job']);
+
+      const filtered = await getJobRuns({ job_name: 'test-job', limit: 10 });
+      expect(filtered).toHaveLength(1);
+      expect(filtered[0].triggered_by_username).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { assetsTable } from '../db/schema';
+import { MAX_LABELS_PER_PRINT } from '../schema';
+import { createAsset } from '../handlers/assets';
+import { createCategory } from '../handlers/categories';
+import { createLocation } from '../handlers/locations';
+import { generateAssetLabels } from '../handlers/labels';
+import { labelSheetPdf } from '../labels';
+import { fitText } from '../pdf';
+import { inflateSync } from 'zlib';
+
+// The drawing operators of each page, in order
+const pageContents = (pdf: Buffer): string[] => {
+  const text = pdf.toString('latin1');
+  const contents: string[] = [];
+  const stream = /<< \/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g;
+  for (let match = stream.exec(text); match; match = stream.exec(text)) {
+    const start = match.index + match[0].length;
+    contents.push(inflateSync(pdf.subarray(start, start + Number(match[1]))).toString('latin1'));
+  }
+  return contents;
+};
+
+describe('Asset labels', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const labelInput = {
+    layout: 'avery_5160' as const,
+    format: 'qr' as const,
+    skip: 0
+  };
+
+  async function setup() {
+    const computers = await createCategory({ name: 'Computers', tag_prefix: 'IT' });
+    const furniture = await createCategory({ name: 'Furniture', tag_prefix: 'FUR' });
+    const site = await createLocation({ name: 'Main Campus', type: 'site' });
+    const room = await createLocation({ name: 'Room 101', type: 'room', parent_id: site.id });
+
+    const laptop = await createAsset({ name: 'Laptop', category_id: computers.id, status: 'available', location_id: room.id });
+    const desk = await createAsset({ name: 'Desk', category_id: furniture.id, status: 'available', location_id: room.id });
+    const monitor = await createAsset({ name: 'Monitor', category_id: computers.id, status: 'maintenance' });
+
+    return { computers, site, laptop, desk, monitor };
+  }
+
+  describe('labelSheetPdf', () => {
+    it('should write a PDF whose cross-reference table points at each object', () => {
+      const { pdf } = labelSheetPdf([{ tag: 'IT-000001', name: 'Laptop', location: null }], 'avery_5160', 'qr');
+      const text = Buffer.from(pdf).toString('latin1');
+
+      expect(text.startsWith('%PDF-1.4')).toBe(true);
+      expect(text.endsWith('%%EOF\n')).toBe(true);
+
+      const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+      const entries = text.slice(startxref).split('\n').slice(3).filter(line => / n $/.test(line));
+      entries.forEach((entry, index) => {
+        expect(text.slice(Number(entry.slice(0, 10))).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it('should start new sheets when one is full, after any skipped labels', () => {
+      const labels = Array.from({ length: 20 }, (_, i) => ({ tag: `IT-${i}`, name: `Asset ${i}`, location: null }));
+
+      expect(labelSheetPdf(labels, 'avery_5160', 'qr').pages).toEqual(1);
+      expect(labelSheetPdf(labels, 'avery_5160', 'qr', 10).pages).toEqual(1);
+      expect(labelSheetPdf(labels, 'avery_5160', 'qr', 11).pages).toEqual(2);
+      // 14 labels to an L7163 sheet
+      expect(labelSheetPdf(labels, 'avery_l7163', 'code128').pages).toEqual(2);
+    });
+
+    it('should shorten text that does not fit', () => {
+      expect(fitText('Laptop', 'helvetica', 10, 100)).toEqual('Laptop');
+      expect(fitText('A very long asset name indeed', 'helvetica', 10, 60)).toEqual('A very long...');
+      expect(fitText('Main Campus / Room 101', 'helvetica', 10, 60, 'end')).toEqual('...Room 101');
+    });
+  });
+
+  describe('generateAssetLabels', () => {
+    it('should print the chosen assets in the order given', async () => {
+      const { laptop, desk } = await setup();
+
+      const result = await generateAssetLabels({ ...labelInput, asset_ids: [desk.id, laptop.id] });
+
+      expect(result.label_count).toEqual(2);
+      expect(result.page_count).toEqual(1);
+      expect(result.filename).toMatch(/^asset-labels-\d{4}-\d{2}-\d{2}\.pdf$/);
+
+      const [page] = pageContents(Buffer.from(result.pdf_base64, 'base64'));
+      expect(page.indexOf('(FUR-000001)')).toBeGreaterThan(-1);
+      expect(page.indexOf('(FUR-000001)')).toBeLessThan(page.indexOf('(IT-000001)'));
+      expect(page).toContain('(Desk)');
+      expect(page).toContain('(Main Campus / Room 101)');
+    });
+
+    it('should choose assets by category, location and status', async () => {
+      const { computers, site } = await setup();
+
+      expect((await generateAssetLabels({ ...labelInput, category_id: computers.id })).label_count).toEqual(2);
+      expect((await generateAssetLabels({ ...labelInput, location_id: site.id })).label_count).toEqual(2);
+      expect((await generateAssetLabels({ ...labelInput, category_id: computers.id, status: 'maintenance' })).label_count).toEqual(1);
+      expect((await generateAssetLabels(labelInput)).label_count).toEqual(3);
+    });
+
+    it('should refuse when there is nothing to print or the skip is too large', async () => {
+      const { laptop } = await setup();
+
+      await expect(generateAssetLabels({ ...labelInput, asset_ids: [999] })).rejects.toThrow(/no labels to print/i);
+      await expect(generateAssetLabels({ ...labelInput, location_id: 999 })).rejects.toThrow(/not found/i);
+      await expect(generateAssetLabels({ ...labelInput, asset_ids: [laptop.id], skip: 30 })).rejects.toThrow(/only 30 labels/i);
+    });
+
+    it('should refuse filters that match more labels than one print allows', async () => {
+      const { computers } = await setup();
+      await db.insert(assetsTable)
+        .values(Array.from({ length: MAX_LABELS_PER_PRINT }, (_, i) => ({
+          name: `Chair ${i}`,
+          category_id: computers.id,
+          asset_tag: `BULK-${String(i).padStart(4, '0')}`
+        })))
+        .execute();
+
+      await expect(generateAssetLabels({ ...labelInput, category_id: computers.id }))
+        .rejects.toThrow(/more than 1000 tagged assets match; narrow the filters/i);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, categoriesTable, assetsTable, lendingsTable } from '../db/schema';
+import { usersTable, categoriesTable, assetsTable, lendingsTable, assetStatusChangesTable } from '../db/schema';
 import { 
   createLending,
   getLendings,
@@ -10,10 +10,11 @@ import {
   getLendingById,
   getLendingsByAsset,
   returnAsset,
-  updateLending
+  updateLending,
+  refreshOverdueLendings
 } from '../handlers/lendings';
-import { type CreateLendingInput, type ReturnAssetInput } from '../schema';
-import { eq } from 'drizzle-orm';
+import { updateLendingInputSchema, type CreateLendingInput, type ReturnAssetInput } from '../schema';
+import { eq, asc, sql } from 'drizzle-orm';
 
 // Test data
 const testUser = {
@@ -31,8 +32,7 @@ const testCategory = {
 const testAsset = {
   name: 'Test Asset',
   description: 'An asset for testing',
-  status: 'available' as const,
-  location: 'Office A'
+  status: 'available' as const
 };
 
 const testLendingInput: CreateLendingInput = {
@@ -42,8 +42,7 @@ const testLendingInput: CreateLendingInput = {
   borrower_phone: '+1234567890',
   department: 'IT',
   expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 1 week from now
-  notes: 'Test lending',
-  lent_by_user_id: 1 // Will be updated with actual user ID
+  notes: 'Test lending'
 };
 
 describe('Lending Handlers', () => {
@@ -86,11 +85,10 @@ describe('Lending Handlers', () => {
       
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
 
-      const result = await createLending(input);
+      const result = await createLending(input, user.id);
 
       // Verify lending record
       expect(result.asset_id).toEqual(asset.id);
@@ -120,11 +118,10 @@ describe('Lending Handlers', () => {
       
       const input = {
         ...testLendingInput,
-        asset_id: 999, // Non-existent asset
-        lent_by_user_id: user.id
+        asset_id: 999 // Non-existent asset
       };
 
-      await expect(createLending(input)).rejects.toThrow(/asset not found/i);
+      await expect(createLending(input, user.id)).rejects.toThrow(/asset not found/i);
     });
 
     it('should throw error when asset is not available', async () => {
@@ -142,11 +139,10 @@ describe('Lending Handlers', () => {
 
       const input = {
         ...testLendingInput,
-        asset_id: lentAsset[0].id,
-        lent_by_user_id: user.id
+        asset_id: lentAsset[0].id
       };
 
-      await expect(createLending(input)).rejects.toThrow(/not available for lending/i);
+      await expect(createLending(input, user.id)).rejects.toThrow(/not available for lending/i);
     });
 
     it('should throw error when user does not exist', async () => {
@@ -154,11 +150,10 @@ describe('Lending Handlers', () => {
       
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: 999 // Non-existent user
+        asset_id: asset.id
       };
 
-      await expect(createLending(input)).rejects.toThrow(/user not found/i);
+      await expect(createLending(input, 999)).rejects.toThrow(/user not found/i); // Non-existent user
     });
 
     it('should handle optional fields correctly', async () => {
@@ -167,12 +162,11 @@ describe('Lending Handlers', () => {
       const input = {
         asset_id: asset.id,
         borrower_name: 'Jane Doe',
-        expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-        lent_by_user_id: user.id
+        expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
         // Omitting optional fields
       };
 
-      const result = await createLending(input);
+      const result = await createLending(input, user.id);
 
       expect(result.borrower_email).toBeNull();
       expect(result.borrower_phone).toBeNull();
@@ -188,10 +182,9 @@ describe('Lending Handlers', () => {
       // Create a lending record
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      await createLending(input);
+      await createLending(input, user.id);
 
       const results = await getLendings();
 
@@ -228,24 +221,21 @@ describe('Lending Handlers', () => {
       // Create active lending
       const activeInput = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      await createLending(activeInput);
+      await createLending(activeInput, user.id);
 
       // Create another lending and then return it
       const returnInput = {
         ...testLendingInput,
-        asset_id: asset2[0].id,
-        lent_by_user_id: user.id
+        asset_id: asset2[0].id
       };
-      const lending2 = await createLending(returnInput);
+      const lending2 = await createLending(returnInput, user.id);
 
       // Return the second asset
       await returnAsset({
-        lending_id: lending2.id,
-        returned_by_user_id: user.id
-      });
+        lending_id: lending2.id
+      }, user.id);
 
       const results = await getActiveLendings();
 
@@ -253,6 +243,20 @@ describe('Lending Handlers', () => {
       expect(results[0].status).toEqual('active');
       expect(results[0].asset_id).toEqual(asset.id);
     });
+
+    it('should include overdue lendings, which are still out', async () => {
+      const { user, asset } = await createPrerequisites();
+      await createLending({
+        ...testLendingInput,
+        asset_id: asset.id,
+        expected_return_date: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      }, user.id);
+
+      const results = await getActiveLendings();
+
+      expect(results).toHaveLength(1);
+      expect(results[0].status).toEqual('overdue');
+    });
   });
 
   describe('getOverdueLendings', () => {
@@ -274,25 +278,56 @@ describe('Lending Handlers', () => {
       const overdueInput = {
         ...testLendingInput,
         asset_id: asset.id,
-        lent_by_user_id: user.id,
         expected_return_date: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // 1 week ago
       };
-      await createLending(overdueInput);
+      await createLending(overdueInput, user.id);
 
       // Create current lending (expected return date in the future)
       const currentInput = {
         ...testLendingInput,
         asset_id: asset2[0].id,
-        lent_by_user_id: user.id,
         expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 1 week from now
       };
-      await createLending(currentInput);
+      await createLending(currentInput, user.id);
 
       const results = await getOverdueLendings();
 
       expect(results).toHaveLength(1);
       expect(results[0].asset_id).toEqual(asset.id);
-      expect(results[0].status).toEqual('active');
+      expect(results[0].status).toEqual('overdue');
+    });
+  });
+
+  describe('refreshOverdueLendings', () => {
+    it('should mark past-due lendings overdue and clear extended ones', async () => {
+      const { user, asset } = await createPrerequisites();
+      const lending = await createLending({ ...testLendingInput, asset_id: asset.id }, user.id);
+      expect(lending.status).toEqual('active');
+
+      // Nothing is due yet
+      expect(await refreshOverdueLendings()).toEqual({ marked_overdue: 0, cleared: 0 });
+
+      // Two weeks later the lending is past its expected return date
+      const later = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000);
+      expect(await refreshOverdueLendings(later)).toEqual({ marked_overdue: 1, cleared: 0 });
+
+      const overdue = await db.select().from(lendingsTable).where(eq(lendingsTable.id, lending.id)).execute();
+      expect(overdue[0].status).toEqual('overdue');
+
+      // Back at the present the lending is no longer due
+      expect(await refreshOverdueLendings()).toEqual({ marked_overdue: 0, cleared: 1 });
+
+      const active = await db.select().from(lendingsTable).where(eq(lendingsTable.id, lending.id)).execute();
+      expect(active[0].status).toEqual('active');
+    });
+
+    it('should leave returned lendings alone', async () => {
+      const { user, asset } = await createPrerequisites();
+      const lending = await createLending({ ...testLendingInput, asset_id: asset.id }, user.id);
+      await returnAsset({ lending_id: lending.id }, user.id);
+
+      const later = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000);
+      expect(await refreshOverdueLendings(later)).toEqual({ marked_overdue: 0, cleared: 0 });
     });
   });
 
@@ -302,10 +337,9 @@ describe('Lending Handlers', () => {
       
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      const lending = await createLending(input);
+      const lending = await createLending(input, user.id);
 
       const result = await getLendingById(lending.id);
 
@@ -342,18 +376,16 @@ describe('Lending Handlers', () => {
       // Create lending for first asset
       const input1 = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      await createLending(input1);
+      await createLending(input1, user.id);
 
       // Create lending for second asset
       const input2 = {
         ...testLendingInput,
-        asset_id: asset2[0].id,
-        lent_by_user_id: user.id
+        asset_id: asset2[0].id
       };
-      await createLending(input2);
+      await createLending(input2, user.id);
 
       const results = await getLendingsByAsset(asset.id);
 
@@ -369,18 +401,16 @@ describe('Lending Handlers', () => {
       // Create lending first
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      const lending = await createLending(input);
+      const lending = await createLending(input, user.id);
 
       const returnInput: ReturnAssetInput = {
         lending_id: lending.id,
-        returned_by_user_id: user.id,
         return_notes: 'Asset returned in good condition'
       };
 
-      const result = await returnAsset(returnInput);
+      const result = await returnAsset(returnInput, user.id);
 
       // Verify lending record was updated
       expect(result.status).toEqual('returned');
@@ -403,18 +433,16 @@ describe('Lending Handlers', () => {
       // Create lending first
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      const lending = await createLending(input);
+      const lending = await createLending(input, user.id);
 
       const returnInput: ReturnAssetInput = {
         lending_id: lending.id,
-        returned_by_user_id: user.id,
         asset_condition: 'damaged'
       };
 
-      await returnAsset(returnInput);
+      await returnAsset(returnInput, user.id);
 
       // Verify asset status was updated to damaged
       const updatedAsset = await db.select()
@@ -425,15 +453,56 @@ describe('Lending Handlers', () => {
       expect(updatedAsset[0].status).toEqual('damaged');
     });
 
+    it('should record the status changes of the lending and the return', async () => {
+      const { user, asset } = await createPrerequisites();
+
+      const lending = await createLending({ ...testLendingInput, asset_id: asset.id }, user.id);
+      await returnAsset({
+        lending_id: lending.id,
+        asset_condition: 'needs_maintenance',
+        return_notes: 'Fan is noisy'
+      }, user.id);
+
+      const changes = await db.select()
+        .from(assetStatusChangesTable)
+        .where(eq(assetStatusChangesTable.asset_id, asset.id))
+        .orderBy(asc(assetStatusChangesTable.id))
+        .execute();
+
+      expect(changes).toHaveLength(2);
+      expect(changes[0].from_status).toEqual('available');
+      expect(changes[0].to_status).toEqual('lent');
+      expect(changes[0].lending_id).toEqual(lending.id);
+      expect(changes[1].from_status).toEqual('lent');
+      expect(changes[1].to_status).toEqual('maintenance');
+      expect(changes[1].reason).toEqual('Fan is noisy');
+      expect(changes[1].changed_by_user_id).toEqual(user.id);
+    });
+
     it('should throw error when lending does not exist', async () => {
       const { user } = await createPrerequisites();
 
       const returnInput: ReturnAssetInput = {
         lending_id: 999, // Non-existent lending
-        returned_by_user_id: user.id
       };
 
-      await expect(returnAsset(returnInput)).rejects.toThrow(/lending record not found/i);
+      await expect(returnAsset(returnInput, user.id)).rejects.toThrow(/lending record not found/i);
+    });
+
+    it('should accept returns of overdue lendings', async () => {
+      const { user, asset } = await createPrerequisites();
+      const lending = await createLending({
+        ...testLendingInput,
+        asset_id: asset.id,
+        expected_return_date: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      }, user.id);
+      expect(lending.status).toEqual('overdue');
+
+      const result = await returnAsset({ lending_id: lending.id }, user.id);
+      expect(result.status).toEqual('returned');
+
+      const assets = await db.select().from(assetsTable).where(eq(assetsTable.id, asset.id)).execute();
+      expect(assets[0].status).toEqual('available');
     });
 
     it('should throw error when lending is not active', async () => {
@@ -442,22 +511,19 @@ describe('Lending Handlers', () => {
       // Create and return a lending
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      const lending = await createLending(input);
+      const lending = await createLending(input, user.id);
 
       // Return it once
       await returnAsset({
-        lending_id: lending.id,
-        returned_by_user_id: user.id
-      });
+        lending_id: lending.id
+      }, user.id);
 
       // Try to return it again
       await expect(returnAsset({
-        lending_id: lending.id,
-        returned_by_user_id: user.id
-      })).rejects.toThrow(/not active/i);
+        lending_id: lending.id
+      }, user.id)).rejects.toThrow(/not active/i);
     });
 
     it('should throw error when user does not exist', async () => {
@@ -466,31 +532,59 @@ describe('Lending Handlers', () => {
       // Create lending first
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      const lending = await createLending(input);
+      const lending = await createLending(input, user.id);
 
       const returnInput: ReturnAssetInput = {
-        lending_id: lending.id,
-        returned_by_user_id: 999 // Non-existent user
+        lending_id: lending.id
       };
 
-      await expect(returnAsset(returnInput)).rejects.toThrow(/user not found/i);
+      await expect(returnAsset(returnInput, 999)).rejects.toThrow(/user not found/i); // Non-existent user
     });
   });
 
   describe('updateLending', () => {
+    it('should make an overdue lending active again when it is extended', async () => {
+      const { user, asset } = await createPrerequisites();
+      const lending = await createLending({
+        ...testLendingInput,
+        asset_id: asset.id,
+        expected_return_date: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      }, user.id);
+      expect(lending.status).toEqual('overdue');
+
+      const extended = await updateLending(lending.id, {
+        expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+      });
+      expect(extended.status).toEqual('active');
+
+      const shortened = await updateLending(lending.id, {
+        expected_return_date: new Date(Date.now() - 60 * 60 * 1000)
+      });
+      expect(shortened.status).toEqual('overdue');
+    });
+
+    it('should not reopen returned lendings when the date changes', async () => {
+      const { user, asset } = await createPrerequisites();
+      const lending = await createLending({ ...testLendingInput, asset_id: asset.id }, user.id);
+      await returnAsset({ lending_id: lending.id }, user.id);
+
+      const result = await updateLending(lending.id, {
+        expected_return_date: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      });
+      expect(result.status).toEqual('returned');
+    });
+
     it('should update lending record details', async () => {
       const { user, asset } = await createPrerequisites();
       
       // Create lending first
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      const lending = await createLending(input);
+      const lending = await createLending(input, user.id);
 
       const updates = {
         borrower_name: 'Jane Smith',
@@ -522,10 +616,9 @@ describe('Lending Handlers', () => {
       // Create lending first
       const input = {
         ...testLendingInput,
-        asset_id: asset.id,
-        lent_by_user_id: user.id
+        asset_id: asset.id
       };
-      const lending = await createLending(input);
+      const lending = await createLending(input, user.id);
 
       const updates = {
         borrower_name: 'Updated Name'
@@ -538,5 +631,99 @@ describe('Lending Handlers', () => {
       expect(result.borrower_email).toEqual('john@example.com'); // Should remain unchanged
       expect(result.department).toEqual('IT'); // Should remain unchanged
     });
+
+    it('should read the expected return date as a date and refuse anything else', () => {
+      const parsed = updateLendingInputSchema.parse({
+        id: 1,
+        updates: { expected_return_date: '2024-03-01T00:00:00.000Z' }
+      });
+      expect(parsed.updates.expected_return_date).toEqual(new Date('2024-03-01T00:00:00.000Z'));
+
+      expect(updateLendingInputSchema.safeParse({ id: 1, updates: { expected_return_date: 'next week' } }).success).toBe(false);
+      expect(updateLendingInputSchema.safeParse({ id: 1, updates: { borrower_name: '' } }).success).toBe(false);
+    });
+  });
+
+  describe('concurrency', () => {
+    it('should let only one of several simultaneous checkouts of an asset win', async () => {
+      const { user, asset } = await createPrerequisites();
+
+      const results = await Promise.allSettled(
+        ['Alice', 'Bob', 'Carol', 'Dave', 'Erin'].map(borrower_name =>
+          createLending({ ...testLendingInput, asset_id: asset.id, borrower_name }, user.id)
+        )
+      );
+
+      const fulfilled = results.filter(result => result.status === 'fulfilled');
+      const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      expect(fulfilled).toHaveLength(1);
+      expect(rejected).toHaveLength(4);
+      rejected.forEach(result => {
+        expect(result.reason.message).toMatch(/not available for lending/i);
+      });
+
+      const lendings = await db.select()
+        .from(lendingsTable)
+        .where(eq(lendingsTable.asset_id, asset.id))
+        .execute();
+      expect(lendings).toHaveLength(1);
+
+      const changes = await db.select()
+        .from(assetStatusChangesTable)
+        .where(eq(assetStatusChangesTable.asset_id, asset.id))
+        .execute();
+      expect(changes).toHaveLength(1);
+      expect(changes[0].lending_id).toEqual(lendings[0].id);
+    });
+
+    it('should let only one of several simultaneous returns of a lending win', async () => {
+      const { user, asset } = await createPrerequisites();
+      const lending = await createLending({ ...testLendingInput, asset_id: asset.id }, user.id);
+
+      const results = await Promise.allSettled([
+        returnAsset({ lending_id: lending.id, asset_condition: 'good' }, user.id),
+        returnAsset({ lending_id: lending.id, asset_condition: 'damaged' }, user.id),
+        returnAsset({ lending_id: lending.id, asset_condition: 'needs_maintenance' }, user.id)
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const changes = await db.select()
+        .from(assetStatusChangesTable)
+        .where(eq(assetStatusChangesTable.asset_id, asset.id))
+        .execute();
+      expect(changes.filter(change => change.from_status === 'lent')).toHaveLength(1);
+    });
+
+    it('should leave nothing behind when a checkout fails part way', async () => {
+      const { user, asset } = await createPrerequisites();
+
+      // Refuse the status change record, the last write of a checkout, so the
+      // lending and the asset have already been written when it fails
+      await db.execute(sql`
+        create function refuse_status_change() returns trigger as $$
+        begin
+          raise exception 'status change refused';
+        end;
+        $$ language plpgsql
+      `);
+      await db.execute(sql`
+        create trigger refuse_status_change before insert on asset_status_changes
+        for each row execute function refuse_status_change()
+      `);
+
+      await expect(createLending({ ...testLendingInput, asset_id: asset.id }, user.id)).rejects.toThrow(/status change refused/i);
+
+      const updatedAsset = await db.select()
+        .from(assetsTable)
+        .where(eq(assetsTable.id, asset.id))
+        .execute();
+      expect(updatedAsset[0].status).toEqual('available');
+
+      const lendings = await db.select()
+        .from(lendingsTable)
+        .where(eq(lendingsTable.asset_id, asset.id))
+        .execute();
+      expect(lendings).toHaveLength(0);
+    });
   });
 });
\ No newline at end of file
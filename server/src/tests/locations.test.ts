@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { categoriesTable, locationsTable, assetsTable, usersTable } from '../db/schema';
+import {
+  createLocation,
+  getLocations,
+  getLocationById,
+  updateLocation,
+  deleteLocation,
+  importLegacyLocations
+} from '../handlers/locations';
+import { transferAsset, cancelTransfer, getTransferById } from '../handlers/transfers';
+import { canContain, indexLocations, locationPath, subtreeIds, locationAtLevel } from '../locations';
+import { eq } from 'drizzle-orm';
+
+describe('Locations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTree() {
+    const site = await createLocation({ name: 'Main Campus', type: 'site' });
+    const building = await createLocation({ name: 'Building A', type: 'building', parent_id: site.id });
+    const floor = await createLocation({ name: 'Floor 1', type: 'floor', parent_id: building.id });
+    const room = await createLocation({ name: 'Room 101', type: 'room', parent_id: floor.id });
+    return { site, building, floor, room };
+  }
+
+  async function insertAsset(name: string, values: { location_id?: number | null; legacy_location?: string | null } = {}) {
+    let [category] = await db.select().from(categoriesTable).execute();
+    if (!category) {
+      [category] = await db.insert(categoriesTable).values({ name: 'Furniture' }).returning().execute();
+    }
+
+    const [asset] = await db.insert(assetsTable)
+      .values({ name, category_id: category.id, ...values })
+      .returning()
+      .execute();
+
+    return asset;
+  }
+
+  describe('tree helpers', () => {
+    const index = indexLocations([
+      { id: 1, name: 'Main Campus', type: 'site', parent_id: null },
+      { id: 2, name: 'Building A', type: 'building', parent_id: 1 },
+      { id: 3, name: 'Room 101', type: 'room', parent_id: 2 },
+      { id: 4, name: 'Warehouse', type: 'site', parent_id: null }
+    ]);
+
+    it('should only let a location sit under a higher level', () => {
+      expect(canContain(null, 'site')).toBe(true);
+      expect(canContain(null, 'room')).toBe(false);
+      expect(canContain('building', 'room')).toBe(true);
+      expect(canContain('room', 'floor')).toBe(false);
+      expect(canContain('floor', 'floor')).toBe(false);
+    });
+
+    it('should build paths, subtrees and roll-ups', () => {
+      expect(locationPath(index, 3)).toEqual('Main Campus / Building A / Room 101');
+      expect(subtreeIds(index, 1)).toEqual([1, 2, 3]);
+      expect(subtreeIds(index, 4)).toEqual([4]);
+      expect(locationAtLevel(index, 3, 'building')?.name).toEqual('Building A');
+      expect(locationAtLevel(index, 3, 'floor')).toBeNull();
+    });
+  });
+
+  describe('createLocation', () => {
+    it('should create a site → building → floor → room hierarchy', async () => {
+      const { room, floor } = await createTree();
+
+      expect(room.type).toEqual('room');
+      expect(room.parent_id).toEqual(floor.id);
+      expect(room.created_at).toBeInstanceOf(Date);
+    });
+
+    it('should refuse locations out of order', async () => {
+      const { site, room } = await createTree();
+
+      await expect(createLocation({ name: 'Lost Room', type: 'room' })).rejects.toThrow(/must be placed inside another location/i);
+      await expect(createLocation({ name: 'Campus 2', type: 'site', parent_id: site.id })).rejects.toThrow(/cannot be placed inside a site/i);
+      await expect(createLocation({ name: 'Mezzanine', type: 'floor', parent_id: room.id })).rejects.toThrow(/cannot be placed inside a room/i);
+      await expect(createLocation({ name: 'Annex', type: 'building', parent_id: 999 })).rejects.toThrow(/not found/i);
+    });
+
+    it('should allow skipping levels', async () => {
+      const { building } = await createTree();
+
+      const storeroom = await createLocation({ name: 'Storeroom', type: 'room', parent_id: building.id });
+      expect(storeroom.parent_id).toEqual(building.id);
+    });
+
+    it('should refuse a duplicate name under the same parent, ignoring case and spacing', async () => {
+      const { floor, building } = await createTree();
+
+      await expect(createLocation({ name: ' room  101 ', type: 'room', parent_id: floor.id })).rejects.toThrow(/already exists/i);
+      const elsewhere = await createLocation({ name: 'Room 101', type: 'room', parent_id: building.id });
+      expect(elsewhere.name).toEqual('Room 101');
+    });
+  });
+
+  describe('getLocations', () => {
+    it('should return paths and asset counts rolled up the tree', async () => {
+      const { site, building, floor, room } = await createTree();
+      await insertAsset('Projector', { location_id: room.id });
+      await insertAsset('Lectern', { location_id: building.id });
+      await insertAsset('Unplaced');
+
+      const locations = await getLocations();
+
+      expect(locations.map(location => location.path)).toEqual([
+        'Main Campus',
+        'Main Campus / Building A',
+        'Main Campus / Building A / Floor 1',
+        'Main Campus / Building A / Floor 1 / Room 101'
+      ]);
+      expect(locations.map(location => location.asset_count)).toEqual([2, 2, 1, 1]);
+      expect(locations[3].ancestor_ids).toEqual([site.id, building.id, floor.id]);
+    });
+  });
+
+  describe('updateLocation', () => {
+    it('should rename and move a location', async () => {
+      const { site, floor } = await createTree();
+      const other = await createLocation({ name: 'Building B', type: 'building', parent_id: site.id });
+
+      const result = await updateLocation({ id: floor.id, name: 'Ground Floor', parent_id: other.id });
+
+      expect(result.name).toEqual('Ground Floor');
+      expect(result.parent_id).toEqual(other.id);
+    });
+
+    it('should keep the tree in order', async () => {
+      const { building, floor, room } = await createTree();
+
+      await expect(updateLocation({ id: building.id, parent_id: room.id })).rejects.toThrow(/cannot be placed inside a room/i);
+      // Floor 1 still contains Room 101, so it cannot become a room itself
+      await expect(updateLocation({ id: floor.id, type: 'room' })).rejects.toThrow(/cannot be placed inside a room/i);
+    });
+
+    it('should throw error for non-existent location', async () => {
+      await expect(updateLocation({ id: 999, name: 'Nowhere' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('deleteLocation', () => {
+    it('should delete an empty location', async () => {
+      const { room } = await createTree();
+
+      const result = await deleteLocation({ id: room.id });
+
+      expect(result).toEqual({ success: true, assets_moved: 0 });
+      expect(await getLocationById(room.id)).toBeNull();
+    });
+
+    it('should refuse to delete a location containing others', async () => {
+      const { floor } = await createTree();
+
+      await expect(deleteLocation({ id: floor.id })).rejects.toThrow(/containing 1 other locations/i);
+    });
+
+    it('should merge a location into another by moving its assets', async () => {
+      const { floor, room } = await createTree();
+      const duplicate = await createLocation({ name: 'Rm 101', type: 'room', parent_id: floor.id });
+      const asset = await insertAsset('Projector', { location_id: duplicate.id });
+
+      await expect(deleteLocation({ id: duplicate.id })).rejects.toThrow(/choose a location to move them to/i);
+
+      const result = await deleteLocation({ id: duplicate.id, reassign_to_id: room.id });
+
+      expect(result.assets_moved).toEqual(1);
+      const [moved] = await db.select().from(assetsTable).where(eq(assetsTable.id, asset.id)).execute();
+      expect(moved.location_id).toEqual(room.id);
+    });
+
+    it('should move open transfers but keep the locations of finished ones', async () => {
+      const { floor, room } = await createTree();
+      const duplicate = await createLocation({ name: 'Rm 101', type: 'room', parent_id: floor.id });
+      const [user] = await db.insert(usersTable)
+        .values({ username: 'desk', email: 'desk@example.com', password_hash: 'hashed_password', role: 'staff' })
+        .returning()
+        .execute();
+      const asset = await insertAsset('Projector', { location_id: room.id });
+      const transfer = await transferAsset({ asset_id: asset.id, to_location_id: duplicate.id }, user.id);
+
+      const result = await deleteLocation({ id: duplicate.id, reassign_to_id: room.id });
+
+      expect(result.success).toBe(true);
+      expect((await getTransferById(transfer.id))!.to_location_id).toEqual(room.id);
+
+      await cancelTransfer(transfer.id, user.id);
+      const other = await createLocation({ name: 'Room 102', type: 'room', parent_id: floor.id });
+      const finished = await transferAsset({ asset_id: asset.id, to_location_id: other.id }, user.id);
+      await cancelTransfer(finished.id, user.id);
+
+      await expect(deleteLocation({ id: other.id, reassign_to_id: room.id })).rejects.toThrow(/recorded in 1 finished transfers/i);
+      expect((await getTransferById(finished.id))!.to_location_id).toEqual(other.id);
+    });
+  });
+
+  describe('importLegacyLocations', () => {
+    it('should turn each distinct text location into a room of an imported site', async () => {
+      const first = await insertAsset('Desk', { legacy_location: 'Bldg A Rm 101' });
+      const second = await insertAsset('Chair', { legacy_location: ' bldg a  rm 101' });
+      const third = await insertAsset('Shelf', { legacy_location: 'A-101' });
+      const blank = await insertAsset('Lamp', { legacy_location: '  ' });
+
+      const result = await importLegacyLocations();
+
+      expect(result).toEqual({ locations_created: 3, assets_updated: 3 });
+
+      const locations = await getLocations();
+      expect(locations.map(location => location.path)).toEqual([
+        'Imported locations',
+        'Imported locations / A-101',
+        'Imported locations / Bldg A Rm 101'
+      ]);
+
+      const assets = await db.select().from(assetsTable).execute();
+      const byId = new Map(assets.map(asset => [asset.id, asset]));
+      expect(byId.get(first.id)!.location_id).toEqual(byId.get(second.id)!.location_id);
+      expect(byId.get(third.id)!.location_id).not.toEqual(byId.get(first.id)!.location_id);
+      expect(byId.get(blank.id)!.location_id).toBeNull();
+      expect(assets.every(asset => asset.legacy_location === null)).toBe(true);
+    });
+
+    it('should do nothing once every asset has been moved over', async () => {
+      await insertAsset('Desk', { legacy_location: 'Library' });
+      await importLegacyLocations();
+
+      await insertAsset('Chair', { legacy_location: 'library' });
+      const second = await importLegacyLocations();
+      const third = await importLegacyLocations();
+
+      expect(second).toEqual({ locations_created: 0, assets_updated: 1 });
+      expect(third).toEqual({ locations_created: 0, assets_updated: 0 });
+      expect(await db.select().from(locationsTable).execute()).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, loginAttemptsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  MAX_FAILED_LOGINS,
+  IP_FAILURE_WINDOW_MS,
+  loginDelayMs,
+  recordLoginAttempt,
+  countRecentIpFailures,
+  registerFailedLogin,
+  getLoginHistory
+} from '../handlers/login_attempts';
+
+const client = { ip_address: '10.0.0.5', user_agent: 'test-agent' };
+
+describe('Login Attempt Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function insertUser() {
+    const result = await db.insert(usersTable)
+      .values({
+        username: 'testuser',
+        email: 'test@example.com',
+        password_hash: 'hashed_password',
+        role: 'staff'
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  describe('loginDelayMs', () => {
+    it('should double the delay with each failure up to a cap', () => {
+      expect(loginDelayMs(0)).toEqual(0);
+      expect(loginDelayMs(1)).toEqual(1000);
+      expect(loginDelayMs(2)).toEqual(2000);
+      expect(loginDelayMs(3)).toEqual(4000);
+      expect(loginDelayMs(20)).toEqual(30000);
+    });
+  });
+
+  describe('recordLoginAttempt', () => {
+    it('should store the attempt with client details', async () => {
+      const user = await insertUser();
+
+      const result = await recordLoginAttempt({
+        username: 'testuser',
+        user_id: user.id,
+        success: false,
+        failure_reason: 'invalid_credentials'
+      }, client);
+
+      expect(result.id).toBeDefined();
+      expect(result.user_id).toEqual(user.id);
+      expect(result.success).toBe(false);
+      expect(result.failure_reason).toEqual('invalid_credentials');
+      expect(result.ip_address).toEqual('10.0.0.5');
+      expect(result.user_agent).toEqual('test-agent');
+      expect(result.created_at).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('countRecentIpFailures', () => {
+    it('should only count recent failures from the address', async () => {
+      await recordLoginAttempt({ username: 'a', user_id: null, success: false, failure_reason: 'invalid_credentials' }, client);
+      await recordLoginAttempt({ username: 'b', user_id: null, success: false, failure_reason: 'invalid_credentials' }, client);
+      await recordLoginAttempt({ username: 'c', user_id: null, success: true }, client);
+      await recordLoginAttempt({ username: 'd', user_id: null, success: false, failure_reason: 'invalid_credentials' }, { ip_address: '10.0.0.6', user_agent: null });
+
+      // Outside the window
+      await db.insert(loginAttemptsTable)
+        .values({
+          username: 'e',
+          ip_address: '10.0.0.5',
+          success: false,
+          failure_reason: 'invalid_credentials',
+          created_at: new Date(Date.now() - IP_FAILURE_WINDOW_MS - 1000)
+        })
+        .execute();
+
+      expect(await countRecentIpFailures('10.0.0.5')).toEqual(2);
+    });
+  });
+
+  describe('registerFailedLogin', () => {
+    it('should increment the failure counter', async () => {
+      const user = await insertUser();
+
+      const result = await registerFailedLogin(user.id);
+
+      expect(result.failed_login_attempts).toEqual(1);
+      expect(result.last_failed_login_at).toBeInstanceOf(Date);
+      expect(result.locked_until).toBeNull();
+    });
+
+    it('should lock the account once the limit is reached', async () => {
+      const user = await insertUser();
+      await db.update(usersTable)
+        .set({ failed_login_attempts: MAX_FAILED_LOGINS - 1 })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      const result = await registerFailedLogin(user.id);
+
+      expect(result.failed_login_attempts).toEqual(MAX_FAILED_LOGINS);
+      expect(result.locked_until!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should count every one of several concurrent failures', async () => {
+      const user = await insertUser();
+
+      await Promise.all(Array.from({ length: MAX_FAILED_LOGINS }, () => registerFailedLogin(user.id)));
+
+      const [stored] = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(stored.failed_login_attempts).toEqual(MAX_FAILED_LOGINS);
+      expect(stored.locked_until!.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('getLoginHistory', () => {
+    it('should return attempts newest first', async () => {
+      await recordLoginAttempt({ username: 'first', user_id: null, success: false, failure_reason: 'invalid_credentials' });
+      await recordLoginAttempt({ username: 'second', user_id: null, success: false, failure_reason: 'invalid_credentials' });
+
+      const result = await getLoginHistory();
+
+      expect(result).toHaveLength(2);
+      expect(result[0].username).toEqual('second');
+      expect(result[1].username).toEqual('first');
+    });
+
+    it('should filter by user, address and outcome', async () => {
+      const user = await insertUser();
+      await recordLoginAttempt({ username: 'testuser', user_id: user.id, success: true }, client);
+      await recordLoginAttempt({ username: 'testuser', user_id: user.id, success: false, failure_reason: 'invalid_credentials' });
+      await recordLoginAttempt({ username: 'other', user_id: null, success: false, failure_reason: 'invalid_credentials' }, client);
+
+      expect(await getLoginHistory({ user_id: user.id })).toHaveLength(2);
+      expect(await getLoginHistory({ ip_address: '10.0.0.5' })).toHaveLength(2);
+      expect(await getLoginHistory({ success: false })).toHaveLength(2);
+      expect(await getLoginHistory({ user_id: user.id, success: true })).toHaveLength(1);
+    });
+
+    it('should apply the limit', async () => {
+      await recordLoginAttempt({ username: 'a', user_id: null, success: true });
+      await recordLoginAttempt({ username: 'b', user_id: null, success: true });
+      await recordLoginAttempt({ username: 'c', user_id: null, success: true });
+
+      const result = await getLoginHistory({ limit: 2 });
+
+      expect(result).toHaveLength(2);
+    });
+  });
+});
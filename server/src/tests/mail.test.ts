@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mailOutboxTable } from '../db/schema';
+import { type MailMessage } from '../schema';
+import { sendMail, setMailTransport, outboxTransport, fileTransport } from '../mail';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const testMessage: MailMessage = {
+  to: 'someone@example.com',
+  subject: 'Hello',
+  body: 'Message body'
+};
+
+describe('Mail', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    setMailTransport(outboxTransport);
+    await resetDB();
+  });
+
+  it('should write messages to the outbox table by default', async () => {
+    await sendMail(testMessage);
+
+    const messages = await db.select()
+      .from(mailOutboxTable)
+      .execute();
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].recipient).toEqual('someone@example.com');
+    expect(messages[0].subject).toEqual('Hello');
+    expect(messages[0].body).toEqual('Message body');
+    expect(messages[0].cc).toBeNull();
+    expect(messages[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should keep copied recipients in the outbox', async () => {
+    await sendMail({ ...testMessage, cc: ['manager@example.com'] });
+
+    const messages = await db.select()
+      .from(mailOutboxTable)
+      .execute();
+
+    expect(messages[0].cc).toEqual(['manager@example.com']);
+  });
+
+  it('should deliver through a replacement transport', async () => {
+    const sent: MailMessage[] = [];
+    setMailTransport({ send: async (message) => { sent.push(message); } });
+
+    await sendMail(testMessage);
+
+    expect(sent).toEqual([testMessage]);
+    const messages = await db.select()
+      .from(mailOutboxTable)
+      .execute();
+    expect(messages).toHaveLength(0);
+  });
+
+  it('should append messages to a file with the file transport', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'outbox-'));
+    try {
+      const path = join(dir, 'outbox.jsonl');
+      setMailTransport(fileTransport(path));
+
+      await sendMail(testMessage);
+      await sendMail({ ...testMessage, subject: 'Second' });
+
+      const lines = (await readFile(path, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toHaveLength(2);
+      expect(lines[0].to).toEqual('someone@example.com');
+      expect(lines[1].subject).toEqual('Second');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
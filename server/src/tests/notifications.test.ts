@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, assetsTable, lendingsTable, notificationsTable } from '../db/schema';
+import {
+  createNotifications,
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getUserIdsWithCapability
+} from '../handlers/notifications';
+import { createLending, returnAsset, refreshOverdueLendings } from '../handlers/lendings';
+import { eq, sql } from 'drizzle-orm';
+
+describe('Notifications', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function insertUser(username: string, role: 'admin' | 'manager' | 'staff', isActive = true) {
+    const result = await db.insert(usersTable)
+      .values({ username, email: `${username}@example.com`, password_hash: 'hashed_password', role, is_active: isActive })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  async function insertAsset() {
+    const [category] = await db.insert(categoriesTable)
+      .values({ name: 'Electronics' })
+      .returning()
+      .execute();
+
+    const [asset] = await db.insert(assetsTable)
+      .values({ name: 'Laptop', category_id: category.id })
+      .returning()
+      .execute();
+
+    return asset;
+  }
+
+  // Makes every notification insert fail until it is called again with false
+  async function refuseNotifications(refuse = true) {
+    if (!refuse) {
+      await db.execute(sql`drop trigger refuse_notification on notifications`);
+      return;
+    }
+    await db.execute(sql`
+      create or replace function refuse_notification() returns trigger as $$
+      begin
+        raise exception 'notification refused';
+      end;
+      $$ language plpgsql
+    `);
+    await db.execute(sql`
+      create trigger refuse_notification before insert on notifications
+      for each row execute function refuse_notification()
+    `);
+  }
+
+  const notificationFor = (userId: number, title: string) => ({
+    user_id: userId,
+    kind: 'lending_overdue' as const,
+    title,
+    message: 'Message',
+    link_tab: 'returns',
+    entity_id: null
+  });
+
+  describe('notification handlers', () => {
+    it('should list a user\'s notifications newest first with the unread count', async () => {
+      const alice = await insertUser('alice', 'staff');
+      const bob = await insertUser('bob', 'staff');
+      await createNotifications([notificationFor(alice.id, 'First'), notificationFor(alice.id, 'Second'), notificationFor(bob.id, 'Other')]);
+
+      const result = await getNotifications({}, alice.id);
+
+      expect(result.notifications.map(notification => notification.title)).toEqual(['Second', 'First']);
+      expect(result.unread_count).toEqual(2);
+      expect(result.notifications[0].read_at).toBeNull();
+    });
+
+    it('should mark one notification read', async () => {
+      const alice = await insertUser('alice', 'staff');
+      const [first] = await createNotifications([notificationFor(alice.id, 'First'), notificationFor(alice.id, 'Second')]);
+
+      const read = await markNotificationRead(first.id, alice.id);
+      expect(read.read_at).toBeInstanceOf(Date);
+
+      const unread = await getNotifications({ unread_only: true }, alice.id);
+      expect(unread.notifications.map(notification => notification.title)).toEqual(['Second']);
+      expect(unread.unread_count).toEqual(1);
+    });
+
+    it('should not let users mark someone else\'s notifications', async () => {
+      const alice = await insertUser('alice', 'staff');
+      const bob = await insertUser('bob', 'staff');
+      const [notification] = await createNotifications([notificationFor(alice.id, 'Private')]);
+
+      await expect(markNotificationRead(notification.id, bob.id)).rejects.toThrow(/not found/i);
+    });
+
+    it('should mark all of a user\'s notifications read', async () => {
+      const alice = await insertUser('alice', 'staff');
+      const bob = await insertUser('bob', 'staff');
+      await createNotifications([notificationFor(alice.id, 'First'), notificationFor(alice.id, 'Second'), notificationFor(bob.id, 'Other')]);
+
+      expect(await markAllNotificationsRead(alice.id)).toEqual({ updated: 2 });
+      expect((await getNotifications({}, alice.id)).unread_count).toEqual(0);
+      expect((await getNotifications({}, bob.id)).unread_count).toEqual(1);
+    });
+
+    it('should find active users holding a capability', async () => {
+      const admin = await insertUser('admin', 'admin');
+      const manager = await insertUser('manager', 'manager');
+      await insertUser('staff', 'staff');
+      await insertUser('former', 'manager', false);
+
+      expect((await getUserIdsWithCapability('asset.write')).sort()).toEqual([admin.id, manager.id].sort());
+    });
+  });
+
+  describe('notification sources', () => {
+    it('should tell the lending staff member when a lending becomes overdue', async () => {
+      const staff = await insertUser('desk', 'staff');
+      const asset = await insertAsset();
+      const lending = await createLending({
+        asset_id: asset.id,
+        borrower_name: 'Jane Smith',
+        expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      }, staff.id);
+
+      await refreshOverdueLendings(new Date(Date.now() + 2 * 24 * 60 * 60 * 1000));
+      // Already overdue, so no second notification
+      await refreshOverdueLendings(new Date(Date.now() + 3 * 24 * 60 * 60 * 1000));
+
+      const { notifications } = await getNotifications({}, staff.id);
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].kind).toEqual('lending_overdue');
+      expect(notifications[0].message).toContain('Laptop lent to Jane Smith');
+      expect(notifications[0].link_tab).toEqual('returns');
+      expect(notifications[0].entity_id).toEqual(lending.id);
+    });
+
+    it('should leave lendings to the next run when their overdue notifications fail', async () => {
+      const staff = await insertUser('desk', 'staff');
+      const asset = await insertAsset();
+      const lending = await createLending({
+        asset_id: asset.id,
+        borrower_name: 'Jane Smith',
+        expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      }, staff.id);
+      const later = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+
+      await refuseNotifications();
+      await expect(refreshOverdueLendings(later)).rejects.toThrow(/notification refused/i);
+
+      const [stored] = await db.select().from(lendingsTable).where(eq(lendingsTable.id, lending.id)).execute();
+      expect(stored.status).toEqual('active');
+
+      await refuseNotifications(false);
+      expect(await refreshOverdueLendings(later)).toEqual({ marked_overdue: 1, cleared: 0 });
+      expect((await getNotifications({}, staff.id)).notifications).toHaveLength(1);
+    });
+
+    it('should tell asset managers when an asset comes back needing maintenance', async () => {
+      const staff = await insertUser('desk', 'staff');
+      const manager = await insertUser('manager', 'manager');
+      const asset = await insertAsset();
+      const lending = await createLending({
+        asset_id: asset.id,
+        borrower_name: 'Jane Smith',
+        expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      }, staff.id);
+
+      await returnAsset({ lending_id: lending.id, asset_condition: 'damaged', return_notes: 'Cracked screen' }, staff.id);
+
+      const { notifications } = await getNotifications({}, manager.id);
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].kind).toEqual('asset_needs_maintenance');
+      expect(notifications[0].title).toEqual('Asset returned damaged');
+      expect(notifications[0].message).toEqual('Laptop was returned by Jane Smith: Cracked screen');
+      expect(notifications[0].link_tab).toEqual('assets');
+      expect(notifications[0].entity_id).toEqual(asset.id);
+
+      expect((await getNotifications({}, staff.id)).notifications).toHaveLength(0);
+    });
+
+    it('should still return the asset when its notifications fail', async () => {
+      const staff = await insertUser('desk', 'manager');
+      const asset = await insertAsset();
+      const lending = await createLending({
+        asset_id: asset.id,
+        borrower_name: 'Jane Smith',
+        expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      }, staff.id);
+
+      await refuseNotifications();
+      const result = await returnAsset({ lending_id: lending.id, asset_condition: 'damaged' }, staff.id);
+
+      expect(result.status).toEqual('returned');
+      const [stored] = await db.select().from(assetsTable).where(eq(assetsTable.id, asset.id)).execute();
+      expect(stored.status).toEqual('damaged');
+    });
+
+    it('should not notify anyone for assets returned in good condition', async () => {
+      const staff = await insertUser('desk', 'admin');
+      const asset = await insertAsset();
+      const lending = await createLending({
+        asset_id: asset.id,
+        borrower_name: 'Jane Smith',
+        expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      }, staff.id);
+
+      await returnAsset({ lending_id: lending.id }, staff.id);
+
+      expect(await db.select().from(notificationsTable).execute()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, passwordResetTokensTable, mailOutboxTable } from '../db/schema';
+import {
+  requestPasswordReset,
+  completePasswordReset,
+  MAX_RESET_REQUESTS
+} from '../handlers/password_resets';
+import { eq, isNull } from 'drizzle-orm';
+
+describe('Password Reset Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function insertUser() {
+    const result = await db.insert(usersTable)
+      .values({
+        username: 'forgetful',
+        email: 'forgetful@example.com',
+        password_hash: await Bun.password.hash('oldpassword'),
+        role: 'staff'
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  // Pull the token out of the reset link in the most recent outbox message
+  async function latestResetToken() {
+    const messages = await db.select()
+      .from(mailOutboxTable)
+      .orderBy(mailOutboxTable.id)
+      .execute();
+
+    const match = messages[messages.length - 1].body.match(/reset_token=([\w-]+)/);
+    return match![1];
+  }
+
+  describe('requestPasswordReset', () => {
+    it('should store a hashed token and mail a reset link', async () => {
+      const user = await insertUser();
+
+      const result = await requestPasswordReset({ email: 'forgetful@example.com' }, { ip_address: '10.0.0.5', user_agent: null });
+      expect(result.success).toBe(true);
+
+      const messages = await db.select()
+        .from(mailOutboxTable)
+        .execute();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].recipient).toEqual('forgetful@example.com');
+      expect(messages[0].body).toContain('/?reset_token=');
+
+      const token = await latestResetToken();
+      const tokens = await db.select()
+        .from(passwordResetTokensTable)
+        .where(eq(passwordResetTokensTable.user_id, user.id))
+        .execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].token_hash).not.toEqual(token);
+      expect(tokens[0].ip_address).toEqual('10.0.0.5');
+      expect(tokens[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should report success without sending mail for unknown emails', async () => {
+      const result = await requestPasswordReset({ email: 'nobody@example.com' });
+      expect(result.success).toBe(true);
+
+      const messages = await db.select()
+        .from(mailOutboxTable)
+        .execute();
+      expect(messages).toHaveLength(0);
+    });
+
+    it('should invalidate earlier links when a new one is requested', async () => {
+      const user = await insertUser();
+      await requestPasswordReset({ email: 'forgetful@example.com' });
+      await requestPasswordReset({ email: 'forgetful@example.com' });
+
+      const unused = await db.select()
+        .from(passwordResetTokensTable)
+        .where(isNull(passwordResetTokensTable.used_at))
+        .execute();
+      expect(unused).toHaveLength(1);
+      expect(unused[0].user_id).toEqual(user.id);
+    });
+
+    it('should stop sending after too many requests', async () => {
+      await insertUser();
+      for (let i = 0; i < MAX_RESET_REQUESTS + 2; i++) {
+        await requestPasswordReset({ email: 'forgetful@example.com' });
+      }
+
+      const messages = await db.select()
+        .from(mailOutboxTable)
+        .execute();
+      expect(messages).toHaveLength(MAX_RESET_REQUESTS);
+    });
+  });
+
+  describe('completePasswordReset', () => {
+    it('should set the new password and sign out existing sessions', async () => {
+      const user = await insertUser();
+      await db.insert(sessionsTable)
+        .values({
+          user_id: user.id,
+          refresh_token_hash: 'hash-1',
+          expires_at: new Date(Date.now() + 60 * 60 * 1000)
+        })
+        .execute();
+      await db.update(usersTable)
+        .set({ failed_login_attempts: 5, locked_until: new Date(Date.now() + 60 * 1000) })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      await requestPasswordReset({ email: 'forgetful@example.com' });
+      const result = await completePasswordReset({ token: await latestResetToken(), new_password: 'newpassword' });
+      expect(result.success).toBe(true);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, user.id))
+        .execute();
+      expect(await Bun.password.verify('newpassword', users[0].password_hash)).toBe(true);
+      expect(users[0].locked_until).toBeNull();
+      expect(users[0].failed_login_attempts).toEqual(0);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(isNull(sessionsTable.revoked_at))
+        .execute();
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should only accept a token once', async () => {
+      await insertUser();
+      await requestPasswordReset({ email: 'forgetful@example.com' });
+      const token = await latestResetToken();
+
+      await completePasswordReset({ token, new_password: 'newpassword' });
+
+      await expect(completePasswordReset({ token, new_password: 'another' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject expired tokens', async () => {
+      await insertUser();
+      await requestPasswordReset({ email: 'forgetful@example.com' });
+      await db.update(passwordResetTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(completePasswordReset({ token: await latestResetToken(), new_password: 'newpassword' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject unknown tokens', async () => {
+      await expect(completePasswordReset({ token: 'not-a-token', new_password: 'newpassword' })).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+});
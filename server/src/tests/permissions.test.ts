@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'bun:test';
+import { capabilityEnum } from '../schema';
+import { defaultRolePermissions, getCapabilities, hasCapability, isTwoFactorRequired, reportCapabilities } from '../permissions';
+
+describe('Permissions', () => {
+  describe('defaultRolePermissions', () => {
+    it('should grant admins every capability', () => {
+      capabilityEnum.options.forEach(capability => {
+        expect(hasCapability('admin', capability)).toBe(true);
+      });
+    });
+
+    it('should only reference known capabilities', () => {
+      Object.values(defaultRolePermissions).forEach(capabilities => {
+        capabilities.forEach(capability => {
+          expect(capabilityEnum.options).toContain(capability);
+        });
+      });
+    });
+
+    it('should keep destructive and user administration capabilities away from managers', () => {
+      expect(hasCapability('manager', 'asset.write')).toBe(true);
+      expect(hasCapability('manager', 'report.financial')).toBe(true);
+      expect(hasCapability('manager', 'asset.delete')).toBe(false);
+      expect(hasCapability('manager', 'category.delete')).toBe(false);
+      expect(hasCapability('manager', 'user.create')).toBe(false);
+    });
+
+    it('should limit staff to day-to-day lending work', () => {
+      expect(hasCapability('staff', 'asset.read')).toBe(true);
+      expect(hasCapability('staff', 'lending.write')).toBe(true);
+      expect(hasCapability('staff', 'lending.return')).toBe(true);
+      expect(hasCapability('staff', 'asset.write')).toBe(false);
+      expect(hasCapability('staff', 'category.write')).toBe(false);
+      expect(hasCapability('staff', 'report.financial')).toBe(false);
+    });
+  });
+
+  describe('getCapabilities', () => {
+    it('should return a copy of the role capabilities', () => {
+      const capabilities = getCapabilities('staff');
+      capabilities.push('user.create');
+
+      expect(hasCapability('staff', 'user.create')).toBe(false);
+    });
+  });
+
+  describe('reportCapabilities', () => {
+    it('should require the financial capability for reports with asset values', () => {
+      expect(reportCapabilities.inventory).toEqual('report.financial');
+      expect(reportCapabilities.category_summary).toEqual('report.financial');
+      expect(reportCapabilities.overdue).toEqual('report.read');
+    });
+  });
+
+  describe('isTwoFactorRequired', () => {
+    it('should only require two-factor for admins when the policy is enabled', () => {
+      expect(isTwoFactorRequired('admin')).toBe(false);
+
+      process.env['REQUIRE_ADMIN_2FA'] = 'true';
+      try {
+        expect(isTwoFactorRequired('admin')).toBe(true);
+        expect(isTwoFactorRequired('manager')).toBe(false);
+      } finally {
+        delete process.env['REQUIRE_ADMIN_2FA'];
+      }
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, assetsTable, lendingsTable, lendingNoticesTable, mailOutboxTable } from '../db/schema';
+import { type MailMessage } from '../schema';
+import { setMailTransport, outboxTransport } from '../mail';
+import { reminderKindFor, sendLendingReminders, getLendingNotices } from '../handlers/reminders';
+import { updateLending } from '../handlers/lendings';
+import { updateEmailTemplate } from '../handlers/email_templates';
+import { sql } from 'drizzle-orm';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mid-morning UTC, so whole-day offsets stay on the expected calendar day
+const now = new Date(Date.UTC(2024, 5, 10, 10, 0));
+const daysFromNow = (days: number) => new Date(now.getTime() + days * ONE_DAY_MS);
+
+describe('Lending reminders', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    setMailTransport(outboxTransport);
+    await resetDB();
+  });
+
+  async function createLending(expectedReturnDate: Date, overrides: { borrower_email?: string | null; status?: 'active' | 'overdue' | 'returned' } = {}) {
+    // Every lending in these tests is made by the same staff member
+    const [existingStaff] = await db.select().from(usersTable).execute();
+    const staff = existingStaff ?? (await db.insert(usersTable)
+      .values({ username: 'desk', email: 'desk@example.com', password_hash: 'hashed_password', role: 'staff' })
+      .returning()
+      .execute())[0];
+
+    const [existingCategory] = await db.select().from(categoriesTable).execute();
+    const category = existingCategory ?? (await db.insert(categoriesTable)
+      .values({ name: 'Equipment' })
+      .returning()
+      .execute())[0];
+
+    const [asset] = await db.insert(assetsTable)
+      .values({ name: 'Projector', category_id: category.id, status: 'lent' })
+      .returning()
+      .execute();
+
+    const [lending] = await db.insert(lendingsTable)
+      .values({
+        asset_id: asset.id,
+        borrower_name: 'Jane Smith',
+        borrower_email: overrides.borrower_email === undefined ? 'jane@example.com' : overrides.borrower_email,
+        expected_return_date: expectedReturnDate,
+        status: overrides.status ?? 'active',
+        lent_by_user_id: staff.id
+      })
+      .returning()
+      .execute();
+
+    return lending;
+  }
+
+  describe('reminderKindFor', () => {
+    it('should pick the latest reminder that applies', () => {
+      expect(reminderKindFor(daysFromNow(5), now)).toBeNull();
+      expect(reminderKindFor(daysFromNow(2), now)).toEqual('due_soon');
+      expect(reminderKindFor(daysFromNow(1), now)).toEqual('due_soon');
+      expect(reminderKindFor(new Date(Date.UTC(2024, 5, 10, 17, 0)), now)).toEqual('due_today');
+      // Earlier today is still the due date, not yet overdue
+      expect(reminderKindFor(new Date(Date.UTC(2024, 5, 10, 8, 0)), now)).toEqual('due_today');
+      // Days run from midnight UTC, the same as the dates printed in the mail
+      expect(reminderKindFor(new Date(Date.UTC(2024, 5, 10, 23, 30)), new Date(Date.UTC(2024, 5, 10, 0, 30)))).toEqual('due_today');
+      expect(reminderKindFor(new Date(Date.UTC(2024, 5, 11, 0, 30)), new Date(Date.UTC(2024, 5, 10, 23, 30)))).toEqual('due_soon');
+      expect(reminderKindFor(daysFromNow(-1), now)).toEqual('overdue');
+    });
+  });
+
+  describe('sendLendingReminders', () => {
+    it('should mail each reminder once', async () => {
+      const lending = await createLending(daysFromNow(2));
+
+      expect(await sendLendingReminders(now)).toEqual({ sent: 1, failed: 0 });
+      expect(await sendLendingReminders(now)).toEqual({ sent: 0, failed: 0 });
+
+      const messages = await db.select().from(mailOutboxTable).execute();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].recipient).toEqual('jane@example.com');
+      expect(messages[0].cc).toBeNull();
+      expect(messages[0].subject).toContain('Projector');
+      expect(messages[0].body).toContain('Hello Jane Smith');
+
+      const notices = await getLendingNotices(lending.id);
+      expect(notices).toHaveLength(1);
+      expect(notices[0].kind).toEqual('due_soon');
+      expect(notices[0].recipient).toEqual('jane@example.com');
+    });
+
+    it('should send the due date and overdue notices as the lending ages', async () => {
+      const lending = await createLending(daysFromNow(1));
+
+      await sendLendingReminders(now);
+      await sendLendingReminders(daysFromNow(1));
+      await sendLendingReminders(daysFromNow(3));
+      await sendLendingReminders(daysFromNow(4));
+
+      const notices = await getLendingNotices(lending.id);
+      expect(notices.map(notice => notice.kind)).toEqual(['due_soon', 'due_today', 'overdue']);
+    });
+
+    it('should copy the lending staff member on overdue notices', async () => {
+      await createLending(daysFromNow(-3), { status: 'overdue' });
+
+      const sent: MailMessage[] = [];
+      setMailTransport({ send: async (message) => { sent.push(message); } });
+
+      await sendLendingReminders(now);
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toEqual('jane@example.com');
+      expect(sent[0].cc).toEqual(['desk@example.com']);
+      expect(sent[0].subject).toStartWith('Overdue:');
+      expect(sent[0].body).toContain('3 day(s) overdue');
+    });
+
+    it('should start reminders over when a lending is extended', async () => {
+      const lending = await createLending(daysFromNow(-1), { status: 'overdue' });
+      await sendLendingReminders(now);
+
+      await updateLending(lending.id, { expected_return_date: daysFromNow(7) });
+      await sendLendingReminders(daysFromNow(6));
+
+      const notices = await getLendingNotices(lending.id);
+      expect(notices.map(notice => notice.kind)).toEqual(['overdue', 'due_soon']);
+    });
+
+    it('should use the saved version of a template', async () => {
+      const lending = await createLending(daysFromNow(2));
+      await updateEmailTemplate({
+        key: 'due_soon',
+        subject: 'Heads up: {{asset.name}}',
+        body: '{{borrower_name}}, {{days_until_due}} days left.'
+      }, lending.lent_by_user_id);
+
+      await sendLendingReminders(now);
+
+      const messages = await db.select().from(mailOutboxTable).execute();
+      expect(messages[0].subject).toEqual('Heads up: Projector');
+      expect(messages[0].body).toEqual('Jane Smith, 2 days left.');
+    });
+
+    it('should skip returned lendings and borrowers without an email', async () => {
+      await createLending(daysFromNow(-1), { status: 'returned' });
+      await createLending(daysFromNow(-1), { borrower_email: null });
+
+      expect(await sendLendingReminders(now)).toEqual({ sent: 0, failed: 0 });
+      expect(await db.select().from(lendingNoticesTable).execute()).toHaveLength(0);
+    });
+
+    it('should try again next run when delivery fails', async () => {
+      const lending = await createLending(daysFromNow(1));
+      setMailTransport({ send: async () => { throw new Error('SMTP unavailable'); } });
+
+      expect(await sendLendingReminders(now)).toEqual({ sent: 0, failed: 1 });
+      expect(await getLendingNotices(lending.id)).toHaveLength(0);
+
+      setMailTransport(outboxTransport);
+      expect(await sendLendingReminders(now)).toEqual({ sent: 1, failed: 0 });
+    });
+
+    it('should try again next run when the message cannot be written', async () => {
+      const lending = await createLending(daysFromNow(1));
+      await db.execute(sql`drop table email_templates`);
+
+      expect(await sendLendingReminders(now)).toEqual({ sent: 0, failed: 1 });
+      expect(await getLendingNotices(lending.id)).toHaveLength(0);
+      expect(await db.select().from(mailOutboxTable).execute()).toHaveLength(0);
+    });
+  });
+});
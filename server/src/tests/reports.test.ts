@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, categoriesTable, assetsTable, lendingsTable } from '../db/schema';
-import { type GenerateReportInput } from '../schema';
+import { usersTable, categoriesTable, locationsTable, assetsTable, lendingsTable } from '../db/schema';
+import { type GenerateReportInput, type GenerateLendingReportInput, type GenerateAssetReportInput } from '../schema';
 import {
   generateReport,
   generateInventoryReport,
@@ -10,7 +10,11 @@ import {
   generateReturnsReport,
   generateOverdueReport,
   generateCategorySummaryReport,
+  generateLocationSummaryReport,
+  generateTransferReport,
 } from '../handlers/reports';
+import { refreshOverdueLendings } from '../handlers/lendings';
+import { transferAsset, approveTransfer, shipTransfer, receiveTransfer } from '../handlers/transfers';
 
 // Test data setup helpers
 const createTestUser = async (username = 'testuser', role: 'admin' | 'manager' | 'staff' = 'staff') => {
@@ -37,7 +41,15 @@ const createTestCategory = async (name = 'Electronics') => {
   return result[0];
 };
 
-const createTestAsset = async (categoryId: number, name = 'Test Asset', status: 'available' | 'lent' | 'maintenance' | 'damaged' | 'retired' = 'available') => {
+const createTestLocation = async (name: string, type: 'site' | 'building' | 'floor' | 'room', parentId: number | null = null) => {
+  const result = await db.insert(locationsTable)
+    .values({ name, type, parent_id: parentId })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestAsset = async (categoryId: number, name = 'Test Asset', status: 'available' | 'lent' | 'maintenance' | 'damaged' | 'retired' = 'available', locationId: number | null = null) => {
   const result = await db.insert(assetsTable)
     .values({
       name,
@@ -47,7 +59,7 @@ const createTestAsset = async (categoryId: number, name = 'Test Asset', status:
       purchase_price: '100.00',
       current_value: '80.00',
       status,
-      location: 'Test Location',
+      location_id: locationId,
     })
     .returning()
     .execute();
@@ -102,7 +114,7 @@ describe('generateInventoryReport', () => {
     await createTestAsset(category2.id, 'Desk', 'available');
     await createTestAsset(category2.id, 'Chair', 'damaged');
 
-    const input: GenerateReportInput = {
+    const input: GenerateAssetReportInput = {
       report_type: 'inventory',
     };
 
@@ -137,7 +149,7 @@ describe('generateInventoryReport', () => {
     await createTestAsset(category1.id, 'Laptop');
     await createTestAsset(category2.id, 'Desk');
 
-    const input: GenerateReportInput = {
+    const input: GenerateAssetReportInput = {
       report_type: 'inventory',
       category_id: category1.id,
     };
@@ -154,7 +166,7 @@ describe('generateInventoryReport', () => {
     await createTestAsset(category.id, 'Available Asset', 'available');
     await createTestAsset(category.id, 'Lent Asset', 'lent');
 
-    const input: GenerateReportInput = {
+    const input: GenerateAssetReportInput = {
       report_type: 'inventory',
       status: 'available',
     };
@@ -167,6 +179,76 @@ describe('generateInventoryReport', () => {
     expect(data.available).toBe(1);
     expect(data.lent).toBe(0);
   });
+
+  it('should filter by location, including the locations below it', async () => {
+    const category = await createTestCategory();
+    const site = await createTestLocation('Main Campus', 'site');
+    const building = await createTestLocation('Building A', 'building', site.id);
+    const room = await createTestLocation('Room 101', 'room', building.id);
+    const otherSite = await createTestLocation('Warehouse', 'site');
+
+    await createTestAsset(category.id, 'Projector', 'available', room.id);
+    await createTestAsset(category.id, 'Lectern', 'available', building.id);
+    await createTestAsset(category.id, 'Forklift', 'available', otherSite.id);
+
+    const result = await generateInventoryReport({ report_type: 'inventory', location_id: site.id });
+
+    expect((result.data[0] as any).total_assets).toBe(2);
+    expect(result.parameters['location_id']).toBe(site.id);
+  });
+});
+
+describe('generateLocationSummaryReport', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should roll assets up to the chosen level of the tree', async () => {
+    const category = await createTestCategory();
+    const site = await createTestLocation('Main Campus', 'site');
+    const buildingA = await createTestLocation('Building A', 'building', site.id);
+    const buildingB = await createTestLocation('Building B', 'building', site.id);
+    const floor = await createTestLocation('Floor 1', 'floor', buildingA.id);
+    const room = await createTestLocation('Room 101', 'room', floor.id);
+
+    await createTestAsset(category.id, 'Projector', 'available', room.id);
+    await createTestAsset(category.id, 'Screen', 'lent', floor.id);
+    await createTestAsset(category.id, 'Printer', 'available', buildingB.id);
+    await createTestAsset(category.id, 'Sign', 'available', site.id);
+    await createTestAsset(category.id, 'Spare Cable', 'available');
+
+    const bySite = await generateLocationSummaryReport({ report_type: 'location_summary' });
+    expect(bySite.data.map((row: any) => [row.location_path, row.total_assets])).toEqual([
+      ['Main Campus', 4],
+      ['No site', 1]
+    ]);
+    expect((bySite.data[0] as any).total_current_value).toBe(320);
+
+    const byBuilding = await generateLocationSummaryReport({ report_type: 'location_summary', location_level: 'building' });
+    expect(byBuilding.data.map((row: any) => [row.location_path, row.total_assets, row.lent])).toEqual([
+      ['Main Campus / Building A', 2, 1],
+      ['Main Campus / Building B', 1, 0],
+      ['No building', 2, 0]
+    ]);
+    expect(byBuilding.parameters['location_level']).toBe('building');
+  });
+
+  it('should limit the summary to one part of the tree', async () => {
+    const category = await createTestCategory();
+    const site = await createTestLocation('Main Campus', 'site');
+    const building = await createTestLocation('Building A', 'building', site.id);
+    const otherSite = await createTestLocation('Warehouse', 'site');
+
+    await createTestAsset(category.id, 'Projector', 'available', building.id);
+    await createTestAsset(category.id, 'Forklift', 'available', otherSite.id);
+
+    const result = await generateLocationSummaryReport({
+      report_type: 'location_summary',
+      location_level: 'building',
+      location_id: site.id
+    });
+
+    expect(result.data.map((row: any) => row.location_name)).toEqual(['Building A']);
+  });
 });
 
 describe('generateLendingReport', () => {
@@ -182,7 +264,7 @@ describe('generateLendingReport', () => {
       borrowerName: 'Jane Smith',
     });
 
-    const input: GenerateReportInput = {
+    const input: GenerateLendingReportInput = {
       report_type: 'lending',
     };
 
@@ -213,7 +295,7 @@ describe('generateLendingReport', () => {
     await createTestLending(asset1.id, user.id, { lentDate: oldDate });
     await createTestLending(asset2.id, user.id, { lentDate: recentDate });
 
-    const input: GenerateReportInput = {
+    const input: GenerateLendingReportInput = {
       report_type: 'lending',
       start_date: new Date('2023-12-01'),
     };
@@ -223,6 +305,22 @@ describe('generateLendingReport', () => {
     expect(result.data).toHaveLength(1);
     expect((result.data[0] as any).asset_name).toBe('Asset 2');
   });
+
+  it('should filter by lending status', async () => {
+    const user = await createTestUser();
+    const category = await createTestCategory();
+    const asset1 = await createTestAsset(category.id, 'Asset 1');
+    const asset2 = await createTestAsset(category.id, 'Asset 2');
+
+    await createTestLending(asset1.id, user.id, { status: 'active' });
+    await createTestLending(asset2.id, user.id, { status: 'overdue' });
+
+    const result = await generateLendingReport({ report_type: 'lending', status: 'overdue' });
+
+    expect(result.data).toHaveLength(1);
+    expect((result.data[0] as any).asset_name).toBe('Asset 2');
+    expect(result.parameters['status']).toBe('overdue');
+  });
 });
 
 describe('generateReturnsReport', () => {
@@ -315,6 +413,7 @@ describe('generateOverdueReport', () => {
       expectedReturnDate: futureDate,
     });
 
+    await refreshOverdueLendings();
     const result = await generateOverdueReport();
 
     expect(result.report_type).toBe('overdue');
@@ -398,6 +497,64 @@ describe('generateCategorySummaryReport', () => {
   });
 });
 
+describe('generateTransferReport', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list the chain of custody of each transfer', async () => {
+    const clerk = await createTestUser('clerk');
+    const manager = await createTestUser('manager', 'manager');
+    const category = await createTestCategory();
+    const campus = await createTestLocation('Main Campus', 'site');
+    const buildingA = await createTestLocation('Building A', 'building', campus.id);
+    const buildingB = await createTestLocation('Building B', 'building', campus.id);
+    const projector = await createTestAsset(category.id, 'Projector', 'available', buildingA.id);
+    const camera = await createTestAsset(category.id, 'Camera', 'available', buildingA.id);
+
+    const delivered = await transferAsset({ asset_id: projector.id, to_location_id: buildingB.id }, clerk.id);
+    await approveTransfer(delivered.id, manager.id);
+    await shipTransfer(delivered.id, clerk.id);
+    await receiveTransfer(delivered.id, manager.id);
+    await transferAsset({ asset_id: camera.id, to_location_id: buildingB.id, notes: 'For the open day' }, clerk.id);
+
+    const result = await generateTransferReport({ report_type: 'transfers' });
+
+    expect(result.report_type).toBe('transfers');
+    expect(result.data).toHaveLength(2);
+
+    const received = result.data.find((row: any) => row.asset_name === 'Projector') as any;
+    expect(received.from_location).toBe('Main Campus / Building A');
+    expect(received.to_location).toBe('Main Campus / Building B');
+    expect(received.status).toBe('received');
+    expect(received.requested_by).toBe('clerk');
+    expect(received.approved_by).toBe('manager');
+    expect(received.shipped_by).toBe('clerk');
+    expect(received.received_by).toBe('manager');
+    expect(received.received_date).toBe(new Date().toISOString().split('T')[0]);
+
+    const pending = await generateTransferReport({ report_type: 'transfers', status: 'pending' });
+    expect(pending.data).toHaveLength(1);
+    expect((pending.data[0] as any).notes).toBe('For the open day');
+  });
+
+  it('should filter by location, including the locations below it', async () => {
+    const clerk = await createTestUser('clerk');
+    const category = await createTestCategory();
+    const campus = await createTestLocation('Main Campus', 'site');
+    const building = await createTestLocation('Building A', 'building', campus.id);
+    const room = await createTestLocation('Room 101', 'room', building.id);
+    const warehouse = await createTestLocation('Warehouse', 'site');
+    const asset = await createTestAsset(category.id, 'Projector', 'available', warehouse.id);
+    await transferAsset({ asset_id: asset.id, to_location_id: room.id }, clerk.id);
+
+    const intoCampus = await generateTransferReport({ report_type: 'transfers', location_id: campus.id });
+    const elsewhere = await generateTransferReport({ report_type: 'transfers', location_id: building.id, start_date: new Date(Date.now() + 60 * 60 * 1000) });
+
+    expect(intoCampus.data).toHaveLength(1);
+    expect(elsewhere.data).toHaveLength(0);
+  });
+});
+
 describe('generateReport', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -421,6 +578,16 @@ describe('generateReport', () => {
     const summaryInput: GenerateReportInput = { report_type: 'category_summary' };
     const summaryResult = await generateReport(summaryInput);
     expect(summaryResult.report_type).toBe('category_summary');
+
+    // Test location summary report
+    const locationInput: GenerateReportInput = { report_type: 'location_summary' };
+    const locationResult = await generateReport(locationInput);
+    expect(locationResult.report_type).toBe('location_summary');
+
+    // Test transfer report
+    const transferInput: GenerateReportInput = { report_type: 'transfers' };
+    const transferResult = await generateReport(transferInput);
+    expect(transferResult.report_type).toBe('transfers');
   });
 
   it('should throw error for unsupported report type', async () => {
@@ -428,4 +595,13 @@ describe('generateReport', () => {
     
     await expect(generateReport(input)).rejects.toThrow(/Unsupported report type/i);
   });
+
+  it('should refuse a lending report for a status lendings do not have', async () => {
+    await expect(generateReport({ report_type: 'lending', status: 'available' })).rejects.toThrow();
+  });
+
+  it('should refuse an asset report for a status assets do not have', async () => {
+    await expect(generateReport({ report_type: 'inventory', status: 'returned' })).rejects.toThrow();
+    await expect(generateReport({ report_type: 'location_summary', status: 'returned' })).rejects.toThrow();
+  });
 });
\ No newline at end of file
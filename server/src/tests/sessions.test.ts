@@ -0,0 +1,260 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import {
+  createSession,
+  verifyToken,
+  getActiveSession,
+  refreshSession,
+  getUserSessions,
+  revokeSession,
+  revokeUserSessions
+} from '../handlers/sessions';
+import { eq } from 'drizzle-orm';
+
+// Test data
+const testUser = {
+  username: 'testuser',
+  email: 'test@example.com',
+  password_hash: 'hashedpassword',
+  role: 'staff' as const
+};
+
+describe('Session Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTestUser() {
+    const result = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  describe('createSession', () => {
+    it('should store a session with a hashed refresh token', async () => {
+      const user = await createTestUser();
+
+      const result = await createSession(user.id, { ip_address: '127.0.0.1', user_agent: 'bun-test' });
+
+      expect(result.token).toBeDefined();
+      expect(result.refresh_token).toBeDefined();
+      expect(result.token_expires_at.getTime()).toBeLessThanOrEqual(result.refresh_expires_at.getTime());
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].refresh_token_hash).not.toEqual(result.refresh_token);
+      expect(sessions[0].ip_address).toEqual('127.0.0.1');
+      expect(sessions[0].user_agent).toEqual('bun-test');
+      expect(sessions[0].expires_at).toEqual(result.refresh_expires_at);
+    });
+  });
+
+  describe('verifyToken', () => {
+    it('should resolve the user and session for a valid token', async () => {
+      const user = await createTestUser();
+      const { token } = await createSession(user.id);
+
+      const result = await verifyToken(token);
+
+      expect(result).not.toBeNull();
+      expect(result!.user.id).toEqual(user.id);
+      expect(result!.user.username).toEqual('testuser');
+      expect(result!.session.user_id).toEqual(user.id);
+      expect(result!.session).not.toHaveProperty('refresh_token_hash');
+    });
+
+    it('should return null for a malformed token', async () => {
+      expect(await verifyToken('not-a-valid-token')).toBeNull();
+      expect(await verifyToken('a.b.c')).toBeNull();
+    });
+
+    it('should reject a token with a forged payload', async () => {
+      const user = await createTestUser();
+      const { token } = await createSession(user.id);
+
+      const [body, signature] = token.split('.');
+      const payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+      const forgedBody = Buffer.from(JSON.stringify({ ...payload, uid: 999 })).toString('base64url');
+
+      expect(await verifyToken(`${forgedBody}.${signature}`)).toBeNull();
+    });
+
+    it('should reject a legacy unsigned token', async () => {
+      const user = await createTestUser();
+      const legacyToken = Buffer.from(JSON.stringify({ id: user.id, username: user.username, role: 'admin' })).toString('base64');
+
+      expect(await verifyToken(legacyToken)).toBeNull();
+    });
+
+    it('should reject a token for a revoked session', async () => {
+      const user = await createTestUser();
+      const { token } = await createSession(user.id);
+      const verified = await verifyToken(token);
+
+      await revokeSession(verified!.session.id);
+
+      expect(await verifyToken(token)).toBeNull();
+    });
+
+    it('should reject a token for an expired session', async () => {
+      const user = await createTestUser();
+      const { token } = await createSession(user.id);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+
+      expect(await verifyToken(token)).toBeNull();
+    });
+  });
+
+  describe('getActiveSession', () => {
+    it('should find a session until it is revoked', async () => {
+      const user = await createTestUser();
+      const { token } = await createSession(user.id);
+      const { session } = (await verifyToken(token))!;
+
+      expect((await getActiveSession(session.id))!.user.id).toEqual(user.id);
+
+      await revokeSession(session.id);
+      expect(await getActiveSession(session.id)).toBeNull();
+    });
+
+    it('should drop sessions of deactivated users', async () => {
+      const user = await createTestUser();
+      const { token } = await createSession(user.id);
+      const { session } = (await verifyToken(token))!;
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      expect(await getActiveSession(session.id)).toBeNull();
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should issue new tokens and rotate the refresh token', async () => {
+      const user = await createTestUser();
+      const original = await createSession(user.id);
+
+      const result = await refreshSession({ refresh_token: original.refresh_token });
+
+      expect(result.refresh_token).not.toEqual(original.refresh_token);
+      const verified = await verifyToken(result.token);
+      expect(verified!.user.id).toEqual(user.id);
+
+      // The old refresh token can no longer be used
+      await expect(refreshSession({ refresh_token: original.refresh_token })).rejects.toThrow(/invalid or expired refresh token/i);
+    });
+
+    it('should keep the same session when refreshing', async () => {
+      const user = await createTestUser();
+      const original = await createSession(user.id);
+
+      await refreshSession({ refresh_token: original.refresh_token });
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+    });
+
+    it('should let only one of two simultaneous refreshes use the token', async () => {
+      const user = await createTestUser();
+      const original = await createSession(user.id);
+
+      const results = await Promise.allSettled([
+        refreshSession({ refresh_token: original.refresh_token }),
+        refreshSession({ refresh_token: original.refresh_token })
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      await expect(refreshSession({ refresh_token: 'unknown' })).rejects.toThrow(/invalid or expired refresh token/i);
+    });
+
+    it('should reject a refresh token for a revoked session', async () => {
+      const user = await createTestUser();
+      const original = await createSession(user.id);
+      await revokeUserSessions(user.id);
+
+      await expect(refreshSession({ refresh_token: original.refresh_token })).rejects.toThrow(/invalid or expired refresh token/i);
+    });
+  });
+
+  describe('getUserSessions', () => {
+    it('should list only active sessions for the user', async () => {
+      const user = await createTestUser();
+      const first = await createSession(user.id);
+      await createSession(user.id);
+
+      const verified = await verifyToken(first.token);
+      await revokeSession(verified!.session.id);
+
+      const result = await getUserSessions(user.id);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].user_id).toEqual(user.id);
+      expect(result[0].revoked_at).toBeNull();
+      expect(result[0]).not.toHaveProperty('refresh_token_hash');
+    });
+
+    it('should return empty array for a user without sessions', async () => {
+      const user = await createTestUser();
+      const result = await getUserSessions(user.id);
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should mark the session as revoked', async () => {
+      const user = await createTestUser();
+      const { token } = await createSession(user.id);
+      const verified = await verifyToken(token);
+
+      const result = await revokeSession(verified!.session.id);
+      expect(result.success).toBe(true);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, verified!.session.id))
+        .execute();
+
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should throw error for non-existent session', async () => {
+      await expect(revokeSession(999)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('revokeUserSessions', () => {
+    it('should revoke every active session of the user', async () => {
+      const user = await createTestUser();
+      const first = await createSession(user.id);
+      const second = await createSession(user.id);
+
+      const result = await revokeUserSessions(user.id);
+
+      expect(result.revoked).toEqual(2);
+      expect(await verifyToken(first.token)).toBeNull();
+      expect(await verifyToken(second.token)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, categoriesTable, locationsTable, assetsTable, transfersTable } from '../db/schema';
+import {
+  transferAsset,
+  getTransfers,
+  getTransferById,
+  approveTransfer,
+  shipTransfer,
+  receiveTransfer,
+  cancelTransfer
+} from '../handlers/transfers';
+import { createLending } from '../handlers/lendings';
+import { updateAsset, getAssetTimeline } from '../handlers/assets';
+import { deleteLocation } from '../handlers/locations';
+import { eq } from 'drizzle-orm';
+
+describe('Asset transfers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function setup(status: 'available' | 'lent' = 'available') {
+    const [clerk, manager] = await db.insert(usersTable)
+      .values([
+        { username: 'clerk', email: 'clerk@example.com', password_hash: 'hashed_password', role: 'staff' },
+        { username: 'manager', email: 'manager@example.com', password_hash: 'hashed_password', role: 'manager' }
+      ])
+      .returning()
+      .execute();
+
+    const [category] = await db.insert(categoriesTable)
+      .values({ name: 'Electronics' })
+      .returning()
+      .execute();
+
+    const [campus] = await db.insert(locationsTable)
+      .values({ name: 'Main Campus', type: 'site' })
+      .returning()
+      .execute();
+
+    const [buildingA, buildingB] = await db.insert(locationsTable)
+      .values([
+        { name: 'Building A', type: 'building', parent_id: campus.id },
+        { name: 'Building B', type: 'building', parent_id: campus.id }
+      ])
+      .returning()
+      .execute();
+
+    const [asset] = await db.insert(assetsTable)
+      .values({ name: 'Projector', category_id: category.id, status, location_id: buildingA.id })
+      .returning()
+      .execute();
+
+    return { clerk, manager, buildingA, buildingB, asset };
+  }
+
+  const lendingInput = (assetId: number) => ({
+    asset_id: assetId,
+    borrower_name: 'Borrower',
+    borrower_email: null,
+    borrower_phone: null,
+    department: null,
+    expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    notes: null
+  });
+
+  const locationOf = async (assetId: number) => {
+    const [asset] = await db.select().from(assetsTable).where(eq(assetsTable.id, assetId)).execute();
+    return asset.location_id;
+  };
+
+  describe('transferAsset', () => {
+    it('should record a pending transfer from the current location', async () => {
+      const { clerk, buildingA, buildingB, asset } = await setup();
+
+      const transfer = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id, notes: 'Lecture hall' }, clerk.id);
+
+      expect(transfer.status).toEqual('pending');
+      expect(transfer.from_location_id).toEqual(buildingA.id);
+      expect(transfer.to_location_id).toEqual(buildingB.id);
+      expect(transfer.requested_by_user_id).toEqual(clerk.id);
+      expect(transfer.requested_at).toBeInstanceOf(Date);
+      expect(transfer.approved_at).toBeNull();
+      // Nothing moves until the asset arrives
+      expect(await locationOf(asset.id)).toEqual(buildingA.id);
+    });
+
+    it('should refuse transfers that cannot happen', async () => {
+      const { clerk, buildingA, buildingB, asset } = await setup();
+
+      await expect(transferAsset({ asset_id: 999, to_location_id: buildingB.id }, clerk.id)).rejects.toThrow(/not found/i);
+      await expect(transferAsset({ asset_id: asset.id, to_location_id: 999 }, clerk.id)).rejects.toThrow(/does not exist/i);
+      await expect(transferAsset({ asset_id: asset.id, to_location_id: buildingA.id }, clerk.id)).rejects.toThrow(/already at that location/i);
+
+      await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+      await expect(transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id)).rejects.toThrow(/already has a transfer under way/i);
+    });
+
+    it('should refuse lent and retired assets', async () => {
+      const { clerk, buildingB, asset } = await setup('lent');
+      await expect(transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id)).rejects.toThrow(/lent out/i);
+
+      await db.update(assetsTable).set({ status: 'retired' }).where(eq(assetsTable.id, asset.id)).execute();
+      await expect(transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id)).rejects.toThrow(/retired/i);
+    });
+  });
+
+  describe('transfer steps', () => {
+    it('should move the asset once an approved, shipped transfer is received', async () => {
+      const { clerk, manager, buildingB, asset } = await setup();
+      const transfer = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+
+      const approved = await approveTransfer(transfer.id, manager.id);
+      expect(approved.status).toEqual('approved');
+      expect(approved.approved_by_user_id).toEqual(manager.id);
+
+      const shipped = await shipTransfer(transfer.id, clerk.id);
+      expect(shipped.status).toEqual('in_transit');
+      expect(shipped.shipped_by_user_id).toEqual(clerk.id);
+
+      const received = await receiveTransfer(transfer.id, manager.id);
+      expect(received.status).toEqual('received');
+      expect(received.received_by_user_id).toEqual(manager.id);
+      expect(received.received_at!.getTime()).toBeGreaterThanOrEqual(received.shipped_at!.getTime());
+      expect(received.shipped_at!.getTime()).toBeGreaterThanOrEqual(received.approved_at!.getTime());
+
+      expect(await locationOf(asset.id)).toEqual(buildingB.id);
+    });
+
+    it('should refuse steps out of order', async () => {
+      const { clerk, manager, buildingB, asset } = await setup();
+      const transfer = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+
+      await expect(shipTransfer(transfer.id, clerk.id)).rejects.toThrow(/cannot ship a transfer that is pending/i);
+      await expect(receiveTransfer(transfer.id, clerk.id)).rejects.toThrow(/cannot receive a transfer that is pending/i);
+
+      await approveTransfer(transfer.id, manager.id);
+      await shipTransfer(transfer.id, clerk.id);
+      await expect(cancelTransfer(transfer.id, clerk.id)).rejects.toThrow(/cannot cancel a transfer that is in transit/i);
+      await expect(approveTransfer(999, manager.id)).rejects.toThrow(/not found/i);
+    });
+
+    it('should leave the asset in place when a transfer is cancelled', async () => {
+      const { clerk, manager, buildingA, buildingB, asset } = await setup();
+      const transfer = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+      await approveTransfer(transfer.id, manager.id);
+
+      const cancelled = await cancelTransfer(transfer.id, clerk.id);
+
+      expect(cancelled.status).toEqual('cancelled');
+      expect(cancelled.cancelled_by_user_id).toEqual(clerk.id);
+      expect(await locationOf(asset.id)).toEqual(buildingA.id);
+      // A new transfer can be requested once the old one is closed
+      const again = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+      expect(again.status).toEqual('pending');
+    });
+  });
+
+  describe('pending transfers', () => {
+    it('should block lending until the transfer is received or cancelled', async () => {
+      const { clerk, buildingB, asset } = await setup();
+      const transfer = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+
+      await expect(createLending(lendingInput(asset.id), clerk.id)).rejects.toThrow(/transfer pending/i);
+
+      await cancelTransfer(transfer.id, clerk.id);
+      const lending = await createLending(lendingInput(asset.id), clerk.id);
+      expect(lending.asset_id).toEqual(asset.id);
+    });
+
+    it('should block moving the asset by editing it', async () => {
+      const { clerk, buildingB, asset } = await setup();
+      await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+
+      await expect(updateAsset({ id: asset.id, location_id: buildingB.id }, clerk.id)).rejects.toThrow(/transfer under way/i);
+      const renamed = await updateAsset({ id: asset.id, name: 'Ceiling projector' }, clerk.id);
+      expect(renamed.name).toEqual('Ceiling projector');
+    });
+  });
+
+  describe('getTransfers', () => {
+    it('should return transfers with names, newest first', async () => {
+      const { clerk, manager, buildingB, buildingA, asset } = await setup();
+      const first = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+      await approveTransfer(first.id, manager.id);
+      await shipTransfer(first.id, clerk.id);
+      await receiveTransfer(first.id, clerk.id);
+      const second = await transferAsset({ asset_id: asset.id, to_location_id: buildingA.id }, manager.id);
+
+      const transfers = await getTransfers();
+
+      expect(transfers.map(transfer => transfer.id)).toEqual([second.id, first.id]);
+      expect(transfers[1].asset_name).toEqual('Projector');
+      expect(transfers[1].from_location_path).toEqual('Main Campus / Building A');
+      expect(transfers[1].to_location_path).toEqual('Main Campus / Building B');
+      expect(transfers[1].requested_by_username).toEqual('clerk');
+      expect(transfers[1].approved_by_username).toEqual('manager');
+      expect(transfers[1].cancelled_by_username).toBeNull();
+
+      const open = await getTransfers({ open_only: true });
+      expect(open.map(transfer => transfer.id)).toEqual([second.id]);
+      expect(await getTransfers({ status: 'received', asset_id: asset.id })).toHaveLength(1);
+      expect(await getTransferById(999)).toBeNull();
+    });
+  });
+
+  it('should show received transfers in the asset timeline', async () => {
+    const { clerk, manager, buildingB, asset } = await setup();
+    const transfer = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+    await approveTransfer(transfer.id, manager.id);
+    await shipTransfer(transfer.id, clerk.id);
+    await receiveTransfer(transfer.id, manager.id);
+
+    const timeline = await getAssetTimeline(asset.id);
+    const moved = timeline.find(entry => entry.type === 'moved');
+
+    expect(moved?.summary).toEqual('Transferred from Main Campus / Building A to Main Campus / Building B');
+    expect(moved?.actor_username).toEqual('manager');
+  });
+
+  it('should point open transfers at the merged location when a location is deleted', async () => {
+    const { clerk, buildingA, buildingB, asset } = await setup();
+    const transfer = await transferAsset({ asset_id: asset.id, to_location_id: buildingB.id }, clerk.id);
+
+    await expect(deleteLocation({ id: buildingB.id })).rejects.toThrow(/used by 1 transfers/i);
+    await deleteLocation({ id: buildingB.id, reassign_to_id: buildingA.id });
+
+    const [merged] = await db.select().from(transfersTable).where(eq(transfersTable.id, transfer.id)).execute();
+    expect(merged.to_location_id).toEqual(buildingA.id);
+  });
+});
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import {
+  generateTotp,
+  totpStep,
+  provisioningUri,
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  resetTwoFactor,
+  verifySecondFactor
+} from '../handlers/two_factor';
+import { eq } from 'drizzle-orm';
+
+// RFC 6238 test secret "12345678901234567890", base32 encoded
+const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('Two-Factor Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function insertUser(role: 'admin' | 'manager' | 'staff' = 'admin') {
+    const result = await db.insert(usersTable)
+      .values({
+        username: 'secure',
+        email: 'secure@example.com',
+        password_hash: await Bun.password.hash('password123'),
+        role
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  async function findUser(id: number) {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, id))
+      .execute();
+
+    return users[0];
+  }
+
+  async function enrollUser(id: number) {
+    const enrollment = await beginTwoFactorEnrollment(id);
+    const { recovery_codes } = await confirmTwoFactorEnrollment(id, {
+      code: generateTotp(enrollment.secret, totpStep())
+    });
+
+    return { secret: enrollment.secret, recoveryCodes: recovery_codes };
+  }
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateTotp(rfcSecret, totpStep(59 * 1000))).toEqual('287082');
+      expect(generateTotp(rfcSecret, totpStep(1111111109 * 1000))).toEqual('081804');
+      expect(generateTotp(rfcSecret, totpStep(1234567890 * 1000))).toEqual('005924');
+    });
+  });
+
+  describe('provisioningUri', () => {
+    it('should build an otpauth URI for authenticator apps', () => {
+      const uri = provisioningUri('admin', rfcSecret);
+
+      expect(uri).toStartWith('otpauth://totp/Facility%20Manager%3Aadmin?');
+      expect(uri).toContain(`secret=${rfcSecret}`);
+      expect(uri).toContain('issuer=Facility%20Manager');
+    });
+  });
+
+  describe('beginTwoFactorEnrollment', () => {
+    it('should store a pending secret', async () => {
+      const user = await insertUser();
+
+      const result = await beginTwoFactorEnrollment(user.id);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.provisioning_uri).toContain(result.secret);
+
+      const stored = await findUser(user.id);
+      expect(stored.totp_secret).toEqual(result.secret);
+      expect(stored.totp_enabled).toBe(false);
+    });
+
+    it('should reject roles without two-factor support', async () => {
+      const user = await insertUser('staff');
+
+      await expect(beginTwoFactorEnrollment(user.id)).rejects.toThrow(/not available/i);
+    });
+
+    it('should reject users who are already enrolled', async () => {
+      const user = await insertUser();
+      await enrollUser(user.id);
+
+      await expect(beginTwoFactorEnrollment(user.id)).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('confirmTwoFactorEnrollment', () => {
+    it('should enable two-factor and return hashed recovery codes', async () => {
+      const user = await insertUser('manager');
+
+      const { recoveryCodes } = await enrollUser(user.id);
+
+      expect(recoveryCodes).toHaveLength(10);
+      recoveryCodes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+
+      const stored = await findUser(user.id);
+      expect(stored.totp_enabled).toBe(true);
+      expect(stored.totp_recovery_codes).toHaveLength(10);
+      expect(stored.totp_recovery_codes).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should reject a wrong code', async () => {
+      const user = await insertUser();
+      const enrollment = await beginTwoFactorEnrollment(user.id);
+      const wrong = generateTotp(enrollment.secret, totpStep() + 10);
+
+      await expect(confirmTwoFactorEnrollment(user.id, { code: wrong })).rejects.toThrow(/invalid two-factor code/i);
+    });
+
+    it('should require enrollment to be started', async () => {
+      const user = await insertUser();
+
+      await expect(confirmTwoFactorEnrollment(user.id, { code: '123456' })).rejects.toThrow(/not been started/i);
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should accept a current code only once', async () => {
+      const user = await insertUser();
+      const { secret } = await enrollUser(user.id);
+
+      // The enrollment code used the current step, so the next one is needed
+      const code = generateTotp(secret, totpStep() + 1);
+      expect(await verifySecondFactor(await findUser(user.id), code)).toBe(true);
+      expect(await verifySecondFactor(await findUser(user.id), code)).toBe(false);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const user = await insertUser();
+      const { recoveryCodes } = await enrollUser(user.id);
+
+      expect(await verifySecondFactor(await findUser(user.id), recoveryCodes[0].toUpperCase())).toBe(true);
+      expect(await verifySecondFactor(await findUser(user.id), recoveryCodes[0])).toBe(false);
+
+      const stored = await findUser(user.id);
+      expect(stored.totp_recovery_codes).toHaveLength(9);
+    });
+
+    it('should reject codes for users without two-factor', async () => {
+      const user = await insertUser();
+
+      expect(await verifySecondFactor(user, '123456')).toBe(false);
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should clear the second factor after checking the password', async () => {
+      const user = await insertUser('manager');
+      await enrollUser(user.id);
+
+      await expect(disableTwoFactor(user.id, { password: 'wrong' })).rejects.toThrow(/password is incorrect/i);
+
+      const result = await disableTwoFactor(user.id, { password: 'password123' });
+      expect(result.success).toBe(true);
+
+      const stored = await findUser(user.id);
+      expect(stored.totp_enabled).toBe(false);
+      expect(stored.totp_secret).toBeNull();
+      expect(stored.totp_recovery_codes).toBeNull();
+    });
+
+    it('should refuse when the policy requires two-factor for the role', async () => {
+      const user = await insertUser('admin');
+      await enrollUser(user.id);
+
+      process.env['REQUIRE_ADMIN_2FA'] = 'true';
+      try {
+        await expect(disableTwoFactor(user.id, { password: 'password123' })).rejects.toThrow(/mandatory/i);
+      } finally {
+        delete process.env['REQUIRE_ADMIN_2FA'];
+      }
+    });
+  });
+
+  describe('resetTwoFactor', () => {
+    it('should clear the second factor without a password', async () => {
+      const user = await insertUser();
+      await enrollUser(user.id);
+
+      await resetTwoFactor(user.id);
+
+      const stored = await findUser(user.id);
+      expect(stored.totp_enabled).toBe(false);
+      expect(stored.totp_secret).toBeNull();
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(resetTwoFactor(999)).rejects.toThrow(/not found/i);
+    });
+  });
+});
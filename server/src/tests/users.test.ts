@@ -0,0 +1,238 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import {
+  updateUser,
+  changeUserRole,
+  deactivateUser,
+  reactivateUser,
+  unlockUser,
+  resetUserPassword,
+  changePassword
+} from '../handlers/users';
+import { eq, isNull, and } from 'drizzle-orm';
+
+// Test data
+const testAdmin = {
+  username: 'admin',
+  email: 'admin@example.com',
+  password: 'adminpass',
+  role: 'admin' as const
+};
+
+const testStaff = {
+  username: 'staffer',
+  email: 'staff@example.com',
+  password: 'staffpass',
+  role: 'staff' as const
+};
+
+describe('User Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function insertUser(user: typeof testAdmin | typeof testStaff) {
+    const result = await db.insert(usersTable)
+      .values({
+        username: user.username,
+        email: user.email,
+        password_hash: await Bun.password.hash(user.password),
+        role: user.role
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  async function insertSession(userId: number, refreshTokenHash: string) {
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        refresh_token_hash: refreshTokenHash,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  async function activeSessions(userId: number) {
+    return db.select()
+      .from(sessionsTable)
+      .where(and(eq(sessionsTable.user_id, userId), isNull(sessionsTable.revoked_at)))
+      .execute();
+  }
+
+  describe('updateUser', () => {
+    it('should update username and email', async () => {
+      const staff = await insertUser(testStaff);
+
+      const result = await updateUser({ id: staff.id, username: 'renamed', email: 'renamed@example.com' });
+
+      expect(result.username).toEqual('renamed');
+      expect(result.email).toEqual('renamed@example.com');
+      expect(result).not.toHaveProperty('password_hash');
+      expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(staff.updated_at.getTime());
+    });
+
+    it('should reject a username taken by another user', async () => {
+      await insertUser(testAdmin);
+      const staff = await insertUser(testStaff);
+
+      await expect(updateUser({ id: staff.id, username: 'admin' })).rejects.toThrow(/username already exists/i);
+    });
+
+    it('should reject an email taken by another user', async () => {
+      await insertUser(testAdmin);
+      const staff = await insertUser(testStaff);
+
+      await expect(updateUser({ id: staff.id, email: 'admin@example.com' })).rejects.toThrow(/email already exists/i);
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(updateUser({ id: 999, username: 'nobody' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('changeUserRole', () => {
+    it('should change the role of a user', async () => {
+      await insertUser(testAdmin);
+      const staff = await insertUser(testStaff);
+
+      const result = await changeUserRole({ id: staff.id, role: 'manager' });
+
+      expect(result.role).toEqual('manager');
+    });
+
+    it('should not demote the last active administrator', async () => {
+      const admin = await insertUser(testAdmin);
+
+      await expect(changeUserRole({ id: admin.id, role: 'staff' })).rejects.toThrow(/last active administrator/i);
+    });
+
+    it('should demote an administrator when another one remains', async () => {
+      const admin = await insertUser(testAdmin);
+      const staff = await insertUser(testStaff);
+      await changeUserRole({ id: staff.id, role: 'admin' });
+
+      const result = await changeUserRole({ id: admin.id, role: 'manager' });
+
+      expect(result.role).toEqual('manager');
+    });
+  });
+
+  describe('deactivateUser', () => {
+    it('should deactivate the user and revoke their sessions', async () => {
+      await insertUser(testAdmin);
+      const staff = await insertUser(testStaff);
+      await insertSession(staff.id, 'hash-1');
+      await insertSession(staff.id, 'hash-2');
+
+      const result = await deactivateUser(staff.id);
+
+      expect(result.is_active).toBe(false);
+      expect(await activeSessions(staff.id)).toHaveLength(0);
+    });
+
+    it('should not deactivate the last active administrator', async () => {
+      const admin = await insertUser(testAdmin);
+
+      await expect(deactivateUser(admin.id)).rejects.toThrow(/last active administrator/i);
+    });
+  });
+
+  describe('reactivateUser', () => {
+    it('should reactivate a deactivated user', async () => {
+      await insertUser(testAdmin);
+      const staff = await insertUser(testStaff);
+      await deactivateUser(staff.id);
+
+      const result = await reactivateUser(staff.id);
+
+      expect(result.is_active).toBe(true);
+    });
+  });
+
+  describe('unlockUser', () => {
+    it('should clear the lockout and failure counter', async () => {
+      const staff = await insertUser(testStaff);
+      await db.update(usersTable)
+        .set({
+          failed_login_attempts: 5,
+          last_failed_login_at: new Date(),
+          locked_until: new Date(Date.now() + 15 * 60 * 1000)
+        })
+        .where(eq(usersTable.id, staff.id))
+        .execute();
+
+      const result = await unlockUser(staff.id);
+
+      expect(result.failed_login_attempts).toEqual(0);
+      expect(result.last_failed_login_at).toBeNull();
+      expect(result.locked_until).toBeNull();
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(unlockUser(999)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('resetUserPassword', () => {
+    it('should set a new password and revoke existing sessions', async () => {
+      const staff = await insertUser(testStaff);
+      await insertSession(staff.id, 'hash-1');
+
+      const result = await resetUserPassword({ id: staff.id, new_password: 'newpassword' });
+      expect(result.success).toBe(true);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, staff.id))
+        .execute();
+
+      expect(await Bun.password.verify('newpassword', users[0].password_hash)).toBe(true);
+      expect(await activeSessions(staff.id)).toHaveLength(0);
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(resetUserPassword({ id: 999, new_password: 'newpassword' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password when the current one is correct', async () => {
+      const staff = await insertUser(testStaff);
+      const current = await insertSession(staff.id, 'hash-current');
+      await insertSession(staff.id, 'hash-other');
+
+      const result = await changePassword(staff.id, {
+        current_password: 'staffpass',
+        new_password: 'brandnewpass'
+      }, current.id);
+      expect(result.success).toBe(true);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, staff.id))
+        .execute();
+      expect(await Bun.password.verify('brandnewpass', users[0].password_hash)).toBe(true);
+
+      // Only the session used to change the password stays active
+      const sessions = await activeSessions(staff.id);
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].id).toEqual(current.id);
+    });
+
+    it('should reject an incorrect current password', async () => {
+      const staff = await insertUser(testStaff);
+
+      await expect(changePassword(staff.id, {
+        current_password: 'wrong',
+        new_password: 'brandnewpass'
+      })).rejects.toThrow(/current password is incorrect/i);
+    });
+  });
+});